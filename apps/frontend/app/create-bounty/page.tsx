@@ -144,7 +144,7 @@ export default function CreateBounty() {
               id="metadataUri"
               name="metadataUri"
               className={styles.input}
-              placeholder="ipfs://... (CID of JSON with title, description, etc.)"
+              placeholder="ipfs://... (CID of bounty metadata JSON, version 1)"
               value={formData.metadataUri}
               onChange={handleChange}
               required
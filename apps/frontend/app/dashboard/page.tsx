@@ -16,6 +16,8 @@ import {
   DATA_REGISTRY_ADDRESS,
 } from "../constants/contracts";
 import { ConnectWallet } from "../components/ConnectWallet";
+import { decryptSubmission, downloadBlob } from "../lib/decrypt";
+import { grantSnippet, parseAccessRequest } from "../lib/uploadAccess";
 
 const formatDate = (timestamp: bigint) => {
   return new Date(Number(timestamp) * 1000).toLocaleDateString();
@@ -61,6 +63,42 @@ function BountySubmissionsList({
   bountyId: bigint;
   onBack: () => void;
 }) {
+  // The creator's X25519 private key, held only in this component's state
+  const [decryptionKey, setDecryptionKey] = useState("");
+  const [decrypting, setDecrypting] = useState<bigint | null>(null);
+  const [decryptError, setDecryptError] = useState<string | null>(null);
+
+  // A contributor's upload access request code, pasted by the creator
+  const [accessRequest, setAccessRequest] = useState("");
+  const access = (() => {
+    if (!accessRequest.trim()) return null;
+    try {
+      const request = parseAccessRequest(accessRequest);
+      return request.bountyId === bountyId.toString()
+        ? { snippet: grantSnippet(request) }
+        : { error: `This request is for bounty #${request.bountyId}` };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  })();
+
+  const handleDecrypt = async (submission: SubmissionResult) => {
+    setDecrypting(submission.id);
+    setDecryptError(null);
+    try {
+      const blob = await decryptSubmission(submission.cid, decryptionKey);
+      downloadBlob(blob, `submission-${submission.id.toString()}`);
+    } catch (error) {
+      setDecryptError(
+        `Submission #${submission.id.toString()}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    } finally {
+      setDecrypting(null);
+    }
+  };
+
   const { data: submissionIds, isLoading: isLoadingIds } = useReadContract({
     address: DATA_REGISTRY_ADDRESS,
     abi: DATA_REGISTRY_ABI,
@@ -98,6 +136,47 @@ function BountySubmissionsList({
         ← Back to Bounties
       </button>
 
+      <div className={styles.decryptKey}>
+        <label htmlFor="decryptionKey">
+          Decryption key (for encrypted submissions; never leaves this page)
+        </label>
+        <input
+          id="decryptionKey"
+          type="password"
+          autoComplete="off"
+          placeholder="Base64 X25519 private key"
+          value={decryptionKey}
+          onChange={(e) => setDecryptionKey(e.target.value)}
+        />
+        {decryptError && <p className={styles.error}>{decryptError}</p>}
+      </div>
+
+      <div className={styles.decryptKey}>
+        <label htmlFor="accessRequest">
+          Upload access request (from a contributor)
+        </label>
+        <input
+          id="accessRequest"
+          autoComplete="off"
+          placeholder="Paste the contributor's request code"
+          value={accessRequest}
+          onChange={(e) => setAccessRequest(e.target.value)}
+        />
+        {access && "error" in access && (
+          <p className={styles.error}>{access.error}</p>
+        )}
+        {access && "snippet" in access && (
+          <>
+            <span>
+              Grant it with the SDK, with the bounty&apos;s data space selected.
+              The delegation only allows uploads and expires at the bounty
+              deadline.
+            </span>
+            <pre className={styles.snippet}>{access.snippet}</pre>
+          </>
+        )}
+      </div>
+
       {!submissionIds || submissionIds.length === 0 ? (
         <div className={styles.emptyState}>
           <h3>No submissions yet</h3>
@@ -159,6 +238,19 @@ function BountySubmissionsList({
                       )}
                     </div>
                   </div>
+                  {decryptionKey && (
+                    <div className={styles.cardFooter}>
+                      <button
+                        className={styles.actionButton}
+                        disabled={decrypting !== null}
+                        onClick={() => handleDecrypt(submission)}
+                      >
+                        {decrypting === submission.id
+                          ? "Decrypting..."
+                          : "Decrypt & Download"}
+                      </button>
+                    </div>
+                  )}
                 </div>
               );
             },
@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./page.module.css";
+import { encodeAccessRequest, isAgentDid } from "../../lib/uploadAccess";
+
+export function RequestUploadAccess({ bountyId }: { bountyId: number }) {
+  const [open, setOpen] = useState(false);
+  const [agentDid, setAgentDid] = useState("");
+  const [code, setCode] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const valid = isAgentDid(agentDid.trim());
+
+  const handleRequest = () => {
+    setCode(
+      encodeAccessRequest({
+        bountyId: bountyId.toString(),
+        agentDid: agentDid.trim(),
+      }),
+    );
+    setCopied(false);
+  };
+
+  const handleCopy = async () => {
+    if (!code) return;
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+  };
+
+  if (!open) {
+    return (
+      <button className={styles.secondaryButton} onClick={() => setOpen(true)}>
+        Request Upload Access
+      </button>
+    );
+  }
+
+  return (
+    <div className={styles.accessRequest}>
+      <label htmlFor="agentDid">
+        Your Storacha agent DID (<code>client.getAgentDid()</code>)
+      </label>
+      <input
+        id="agentDid"
+        autoComplete="off"
+        placeholder="did:key:z6Mk..."
+        value={agentDid}
+        onChange={(e) => {
+          setAgentDid(e.target.value);
+          setCode(null);
+        }}
+      />
+      {agentDid && !valid && (
+        <p className={styles.error}>Expected a did:key agent DID</p>
+      )}
+      <button
+        className={styles.primaryButton}
+        disabled={!valid}
+        onClick={handleRequest}
+      >
+        Create Request
+      </button>
+
+      {code && (
+        <>
+          <p>
+            Send this code to the bounty creator. They will reply with a
+            delegation that lets you upload to the bounty&apos;s space until its
+            deadline; import it with <code>client.addSpace(proof)</code>.
+          </p>
+          <textarea readOnly rows={3} value={code} />
+          <button className={styles.secondaryButton} onClick={handleCopy}>
+            {copied ? "Copied" : "Copy Code"}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import Link from "next/link";
 import styles from "./page.module.css";
 import { MOCK_BOUNTIES } from "../../lib/mockData";
+import { RequestUploadAccess } from "./RequestUploadAccess";
 
 export default async function BountyDetailsPage({
   params,
@@ -83,6 +84,10 @@ export default async function BountyDetailsPage({
           <button className={styles.primaryButton}>Submit Data</button>
           <button className={styles.secondaryButton}>Share Bounty</button>
         </div>
+
+        {bounty.status !== "closed" && (
+          <RequestUploadAccess bountyId={bounty.id} />
+        )}
       </div>
     </main>
   );
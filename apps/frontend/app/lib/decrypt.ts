@@ -0,0 +1,39 @@
+import {
+  isEnvelope,
+  openEnvelope,
+} from "@storacha-chainlink/functions/envelope";
+
+const GATEWAY_URL =
+  process.env.NEXT_PUBLIC_IPFS_GATEWAY || "https://w3s.link/ipfs/";
+
+/**
+ * Fetch an encrypted submission and open it with the bounty creator's
+ * X25519 private key (base64). The key never leaves the browser.
+ */
+export async function decryptSubmission(
+  cid: string,
+  privateKey: string,
+): Promise<Blob> {
+  const res = await fetch(`${GATEWAY_URL}${cid}`);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch ${cid}: HTTP ${res.status}`);
+  }
+  const bytes = new Uint8Array(await res.arrayBuffer());
+  if (!isEnvelope(bytes)) {
+    throw new Error("This submission is not encrypted");
+  }
+  const data = await openEnvelope(bytes, privateKey.trim());
+  return new Blob([data.slice()]);
+}
+
+/**
+ * Save a Blob through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,61 @@
+/**
+ * Upload access requests: a contributor asks a bounty creator for a
+ * delegation to upload into the bounty's Storacha space. The request is a
+ * short code the contributor sends to the creator, who grants it with the
+ * SDK's `BountyMarketClient.grantUploadAccess`.
+ */
+
+const REQUEST_TYPE = "storacha-bounty/upload-access";
+
+export interface UploadAccessRequest {
+  /** The bounty the contributor wants to submit to */
+  bountyId: string;
+  /** The contributor's Storacha agent DID */
+  agentDid: string;
+}
+
+/**
+ * Whether a string looks like a Storacha agent DID (did:key, base58btc)
+ */
+export function isAgentDid(value: string): boolean {
+  return /^did:key:z[1-9A-HJ-NP-Za-km-z]+$/.test(value);
+}
+
+/**
+ * Encode a request as a code the contributor can paste into a message
+ */
+export function encodeAccessRequest(request: UploadAccessRequest): string {
+  return btoa(JSON.stringify({ type: REQUEST_TYPE, ...request }));
+}
+
+/**
+ * Decode a request code
+ * @throws Error if the code is not an upload access request
+ */
+export function parseAccessRequest(code: string): UploadAccessRequest {
+  let value: Record<string, unknown>;
+  try {
+    value = JSON.parse(atob(code.trim()));
+  } catch {
+    throw new Error("Not an upload access request");
+  }
+  const { type, bountyId, agentDid } = value;
+  if (
+    type !== REQUEST_TYPE ||
+    typeof bountyId !== "string" ||
+    !/^\d+$/.test(bountyId) ||
+    typeof agentDid !== "string" ||
+    !isAgentDid(agentDid)
+  ) {
+    throw new Error("Not an upload access request");
+  }
+  return { bountyId, agentDid };
+}
+
+/**
+ * The SDK call that grants a request, for the creator to run
+ */
+export function grantSnippet(request: UploadAccessRequest): string {
+  return `const access = await market.grantUploadAccess(${request.bountyId}n, "${request.agentDid}");
+// Send access.base64 back to the contributor`;
+}
@@ -30,10 +30,30 @@ contract DataRegistry is Ownable, ReentrancyGuard {
         REJECTED
     }
 
+    // A hidden submission: keccak256(abi.encode(bountyId, cid, salt,
+    // contributor)) is published first and the CID only after revealDelay
+    // has passed. Commitments are keyed by contributor, so it is not stored.
+    struct Commitment {
+        uint256 bountyId;
+        uint256 committedAt;
+    }
+
     // State variables
     uint256 private _submissionIdCounter;
     mapping(uint256 => Submission) public submissions;
     mapping(uint256 => uint256[]) public bountySubmissions; // bountyId => submissionIds
+    mapping(uint256 => bytes) public verificationResults; // submissionId => encoded DON result
+    mapping(address => mapping(bytes32 => Commitment)) public commitments; // contributor => commitment hash => commitment
+    mapping(uint256 => mapping(bytes32 => bool)) private _submittedCids; // bountyId => keccak256(cid) => submitted
+    mapping(uint256 => mapping(uint64 => bool)) public verifiedDigests; // bountyId => content digest prefix => verified
+
+    // Status code the DON uses for copied data, stored in the low byte of
+    // its result (see packages/functions/src/result.ts for the full layout)
+    uint256 public constant STATUS_DUPLICATE = 7;
+
+    // Commit-reveal configuration
+    uint256 public revealDelay = 1 minutes; // minimum time between commit and reveal
+    bool public commitRequired = true; // when set (the default), submitData is disabled
 
     // Contract references
     BountyRegistry public bountyRegistry;
@@ -69,6 +89,25 @@ contract DataRegistry is Ownable, ReentrancyGuard {
 
     event EscrowManagerUpdated(address indexed oldAddress, address indexed newAddress);
 
+    event SubmissionCommitted(
+        bytes32 indexed commitment,
+        uint256 indexed bountyId,
+        address indexed contributor
+    );
+
+    event SubmissionRevealed(
+        bytes32 indexed commitment,
+        uint256 indexed submissionId
+    );
+
+    event CommitRevealConfigUpdated(uint256 revealDelay, bool commitRequired);
+
+    event DuplicateContentRejected(
+        uint256 indexed submissionId,
+        uint256 indexed bountyId,
+        uint64 digest
+    );
+
     // Custom errors
     error BountyNotActive();
     error InvalidCID();
@@ -78,6 +117,11 @@ contract DataRegistry is Ownable, ReentrancyGuard {
     error EscrowManagerNotSet();
     error InvalidStatus();
     error PaymentFailed();
+    error CommitRequired();
+    error CommitmentExists();
+    error CommitmentNotFound();
+    error RevealTooEarly();
+    error DuplicateCID();
 
     constructor(
         address _bountyRegistry,
@@ -89,6 +133,9 @@ contract DataRegistry is Ownable, ReentrancyGuard {
 
     /**
      * @notice Submit data for a bounty
+     * @dev Disabled while commitRequired is set (the default). Otherwise a
+     *      pending reveal's CID could be copied from the mempool and
+     *      submitted here first, making the reveal fail with DuplicateCID
      * @param bountyId The ID of the bounty
      * @param cid IPFS CID of the submitted data
      * @param metadata Additional metadata (JSON string)
@@ -99,6 +146,8 @@ contract DataRegistry is Ownable, ReentrancyGuard {
         string calldata cid,
         string calldata metadata
     ) external returns (uint256) {
+        if (commitRequired) revert CommitRequired();
+
         // Verify bounty is active
         if (!bountyRegistry.isBountyActive(bountyId)) {
             revert BountyNotActive();
@@ -107,12 +156,117 @@ contract DataRegistry is Ownable, ReentrancyGuard {
         // Validate CID
         if (bytes(cid).length == 0) revert InvalidCID();
 
+        return _createSubmission(bountyId, msg.sender, cid, metadata);
+    }
+
+    /**
+     * @notice Commit to a submission without revealing its CID
+     * @dev The CID stays out of calldata and events until revealSubmission,
+     *      so it cannot be copied from the mempool and submitted first
+     *      Commitments are stored per sender, so copying someone else's
+     *      hash cannot block or take over their commitment.
+     * @param bountyId The ID of the bounty
+     * @param commitment computeCommitment(bountyId, cid, salt, msg.sender)
+     */
+    function commitSubmission(
+        uint256 bountyId,
+        bytes32 commitment
+    ) external {
+        if (!bountyRegistry.isBountyActive(bountyId)) {
+            revert BountyNotActive();
+        }
+        if (commitments[msg.sender][commitment].committedAt != 0) {
+            revert CommitmentExists();
+        }
+
+        commitments[msg.sender][commitment] = Commitment({
+            bountyId: bountyId,
+            committedAt: block.timestamp
+        });
+
+        emit SubmissionCommitted(commitment, bountyId, msg.sender);
+    }
+
+    /**
+     * @notice Reveal a committed submission once revealDelay has passed
+     * @dev Only the committer can reveal, since the commitment covers
+     *      msg.sender. A CID already submitted to the bounty is rejected,
+     *      so copying a reveal and committing it again gains nothing.
+     * @param bountyId The ID of the bounty the commitment was made to
+     * @param cid IPFS CID of the submitted data
+     * @param metadata Additional metadata (JSON string)
+     * @param salt The salt used in the commitment
+     * @return submissionId The ID of the created submission
+     */
+    function revealSubmission(
+        uint256 bountyId,
+        string calldata cid,
+        string calldata metadata,
+        bytes32 salt
+    ) external returns (uint256) {
+        bytes32 commitment = computeCommitment(bountyId, cid, salt, msg.sender);
+        Commitment memory committed = commitments[msg.sender][commitment];
+
+        if (committed.committedAt == 0 || committed.bountyId != bountyId) {
+            revert CommitmentNotFound();
+        }
+        if (block.timestamp < committed.committedAt + revealDelay) {
+            revert RevealTooEarly();
+        }
+        if (!bountyRegistry.isBountyActive(committed.bountyId)) {
+            revert BountyNotActive();
+        }
+        if (bytes(cid).length == 0) revert InvalidCID();
+        if (_submittedCids[committed.bountyId][keccak256(bytes(cid))]) {
+            revert DuplicateCID();
+        }
+
+        delete commitments[msg.sender][commitment];
+
+        uint256 submissionId = _createSubmission(
+            committed.bountyId,
+            msg.sender,
+            cid,
+            metadata
+        );
+
+        emit SubmissionRevealed(commitment, submissionId);
+
+        return submissionId;
+    }
+
+    /**
+     * @notice Compute the commitment for a submission
+     * @param bountyId The ID of the bounty
+     * @param cid IPFS CID of the data
+     * @param salt Random 32-byte salt, kept secret until the reveal
+     * @param contributor Address that will reveal the submission
+     * @return The commitment hash
+     */
+    function computeCommitment(
+        uint256 bountyId,
+        string calldata cid,
+        bytes32 salt,
+        address contributor
+    ) public pure returns (bytes32) {
+        return keccak256(abi.encode(bountyId, cid, salt, contributor));
+    }
+
+    /**
+     * @notice Record a submission and request its verification
+     */
+    function _createSubmission(
+        uint256 bountyId,
+        address contributor,
+        string calldata cid,
+        string calldata metadata
+    ) internal returns (uint256) {
         uint256 submissionId = _submissionIdCounter++;
 
         submissions[submissionId] = Submission({
             id: submissionId,
             bountyId: bountyId,
-            contributor: msg.sender,
+            contributor: contributor,
             cid: cid,
             metadata: metadata,
             status: SubmissionStatus.PENDING,
@@ -121,11 +275,12 @@ contract DataRegistry is Ownable, ReentrancyGuard {
         });
 
         bountySubmissions[bountyId].push(submissionId);
+        _submittedCids[bountyId][keccak256(bytes(cid))] = true;
 
         // Increment bounty submission count
         bountyRegistry.incrementSubmissions(bountyId);
 
-        emit DataSubmitted(submissionId, bountyId, msg.sender, cid);
+        emit DataSubmitted(submissionId, bountyId, contributor, cid);
 
         // Auto-request verification
         _requestVerification(submissionId);
@@ -157,7 +312,9 @@ contract DataRegistry is Ownable, ReentrancyGuard {
      * @notice Handle verification result from Chainlink Functions
      * @param submissionId The ID of the submission
      * @param verified Whether the data was verified
-     * @param data Additional data from verification (optional)
+     * @param data Encoded verification result from the DON. Stored as-is,
+     *      except that a passing result whose content digest already passed
+     *      for the bounty is rejected and stored with the duplicate status
      */
     function handleVerificationResult(
         uint256 submissionId,
@@ -174,7 +331,28 @@ contract DataRegistry is Ownable, ReentrancyGuard {
             revert InvalidStatus();
         }
 
+        // Copies are caught when their result arrives, so two copies
+        // submitted before either was verified cannot both pass
+        uint64 digest = _contentDigest(data);
+        if (verified && digest != 0) {
+            if (verifiedDigests[submission.bountyId][digest]) {
+                verified = false;
+                data = abi.encode(
+                    (abi.decode(data, (uint256)) & ~uint256(0xff)) |
+                        STATUS_DUPLICATE
+                );
+                emit DuplicateContentRejected(
+                    submissionId,
+                    submission.bountyId,
+                    digest
+                );
+            } else {
+                verifiedDigests[submission.bountyId][digest] = true;
+            }
+        }
+
         submission.verifiedAt = block.timestamp;
+        verificationResults[submissionId] = data;
 
         if (verified) {
             submission.status = SubmissionStatus.VERIFIED;
@@ -200,6 +378,17 @@ contract DataRegistry is Ownable, ReentrancyGuard {
         );
     }
 
+    /**
+     * @notice Read the content digest prefix (bits 104-167) of a DON result
+     * @return The digest, or 0 for legacy results and results without one
+     */
+    function _contentDigest(bytes memory data) internal pure returns (uint64) {
+        if (data.length != 32) return 0;
+        uint256 result = abi.decode(data, (uint256));
+        if (result >> 248 == 0) return 0;
+        return uint64(result >> 104);
+    }
+
     /**
      * @notice Internal function to release payment to contributor via EscrowManager
      * @param submissionId The ID of the submission
@@ -240,6 +429,21 @@ contract DataRegistry is Ownable, ReentrancyGuard {
         emit EscrowManagerUpdated(oldAddress, _escrowManager);
     }
 
+    /**
+     * @notice Configure commit-reveal submissions
+     * @param _revealDelay Minimum seconds between commit and reveal
+     * @param _commitRequired Whether to disable direct submitData calls
+     */
+    function setCommitRevealConfig(
+        uint256 _revealDelay,
+        bool _commitRequired
+    ) external onlyOwner {
+        revealDelay = _revealDelay;
+        commitRequired = _commitRequired;
+
+        emit CommitRevealConfigUpdated(_revealDelay, _commitRequired);
+    }
+
     /**
      * @notice Get submission details
      * @param submissionId The ID of the submission
@@ -251,6 +455,17 @@ contract DataRegistry is Ownable, ReentrancyGuard {
         return submissions[submissionId];
     }
 
+    /**
+     * @notice Get the encoded verification result for a submission
+     * @param submissionId The ID of the submission
+     * @return The raw DON response (empty until verification completes)
+     */
+    function getVerificationResult(
+        uint256 submissionId
+    ) external view returns (bytes memory) {
+        return verificationResults[submissionId];
+    }
+
     /**
      * @notice Get all submissions for a bounty
      * @param bountyId The ID of the bounty
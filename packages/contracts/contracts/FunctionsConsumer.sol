@@ -21,6 +21,10 @@ interface IDataRegistry {
 contract FunctionsConsumer is FunctionsClient, Ownable {
     using FunctionsRequest for FunctionsRequest.Request;
 
+    // Status code for a passing submission, stored in the low byte of the
+    // DON result (see packages/functions/src/result.ts for the full layout)
+    uint256 public constant STATUS_VALID = 1;
+
     // Chainlink Functions configuration
     uint64 public subscriptionId;
     uint32 public gasLimit;
@@ -29,6 +33,11 @@ contract FunctionsConsumer is FunctionsClient, Ownable {
     // JavaScript source code for verification
     string public verificationSource;
 
+    // DON-hosted secrets (the verifier key for encrypted submissions);
+    // version 0 means no secrets are attached to requests
+    uint8 public donHostedSecretsSlotID;
+    uint64 public donHostedSecretsVersion;
+
     // Data registry contract
     IDataRegistry public dataRegistry;
 
@@ -56,6 +65,8 @@ contract FunctionsConsumer is FunctionsClient, Ownable {
 
     event VerificationSourceUpdated(string newSource);
 
+    event SecretsUpdated(uint8 slotId, uint64 version);
+
     // Custom errors
     error UnexpectedRequestID(bytes32 requestId);
     error InvalidArguments();
@@ -106,6 +117,13 @@ contract FunctionsConsumer is FunctionsClient, Ownable {
         args[1] = schemaUri;
         req.setArgs(args);
 
+        if (donHostedSecretsVersion > 0) {
+            req.addDONHostedSecrets(
+                donHostedSecretsSlotID,
+                donHostedSecretsVersion
+            );
+        }
+
         // Send request to Chainlink DON
         bytes32 requestId = _sendRequest(
             req.encodeCBOR(),
@@ -139,11 +157,12 @@ contract FunctionsConsumer is FunctionsClient, Ownable {
             revert UnexpectedRequestID(requestId);
         }
 
-        // Decode response (0 = rejected, 1 = verified)
+        // Decode response: the low byte is the status code, the upper bits
+        // carry the record count and failing path hash for off-chain readers
         bool verified = false;
         if (response.length > 0 && err.length == 0) {
             uint256 result = abi.decode(response, (uint256));
-            verified = (result == 1);
+            verified = (result & 0xff) == STATUS_VALID;
         }
 
         emit VerificationFulfilled(requestId, submissionId, verified);
@@ -184,6 +203,20 @@ contract FunctionsConsumer is FunctionsClient, Ownable {
         emit ConfigUpdated(_subscriptionId, _gasLimit, _donId);
     }
 
+    /**
+     * @notice Attach DON-hosted secrets to verification requests (owner only)
+     * @dev Upload the secrets with the Functions toolkit first; pass version 0
+     *      to stop attaching them
+     * @param slotId DON secrets slot
+     * @param version Secrets version returned by the upload
+     */
+    function updateSecrets(uint8 slotId, uint64 version) external onlyOwner {
+        donHostedSecretsSlotID = slotId;
+        donHostedSecretsVersion = version;
+
+        emit SecretsUpdated(slotId, version);
+    }
+
     /**
      * @notice Update DataRegistry address (owner only)
      * @param _dataRegistry New DataRegistry address
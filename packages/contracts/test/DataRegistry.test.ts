@@ -54,6 +54,16 @@ describe("DataRegistry", function () {
     };
   }
 
+  // Most tests submit directly, which the registry only allows once
+  // commit-reveal is made optional
+  async function directSubmitFixture() {
+    const fixture = await deployFixture();
+    await fixture.dataRegistry
+      .connect(fixture.owner)
+      .setCommitRevealConfig(60, false);
+    return fixture;
+  }
+
   describe("Deployment", function () {
     it("Should set correct addresses", async function () {
       const { dataRegistry, bountyRegistry, escrowManager, functionsConsumer } =
@@ -72,7 +82,8 @@ describe("DataRegistry", function () {
 
   describe("Submit Data", function () {
     it("Should submit data for active bounty", async function () {
-      const { dataRegistry, contributor } = await loadFixture(deployFixture);
+      const { dataRegistry, contributor } =
+        await loadFixture(directSubmitFixture);
 
       await expect(
         dataRegistry
@@ -90,7 +101,8 @@ describe("DataRegistry", function () {
     });
 
     it("Should revert with empty CID", async function () {
-      const { dataRegistry, contributor } = await loadFixture(deployFixture);
+      const { dataRegistry, contributor } =
+        await loadFixture(directSubmitFixture);
 
       await expect(
         dataRegistry.connect(contributor).submitData(0, "", "metadata"),
@@ -99,7 +111,7 @@ describe("DataRegistry", function () {
 
     it("Should revert for inactive bounty", async function () {
       const { dataRegistry, bountyRegistry, creator, contributor } =
-        await loadFixture(deployFixture);
+        await loadFixture(directSubmitFixture);
 
       await bountyRegistry.connect(creator).cancelBounty(0);
 
@@ -111,7 +123,8 @@ describe("DataRegistry", function () {
     });
 
     it("Should track submissions per bounty", async function () {
-      const { dataRegistry, contributor } = await loadFixture(deployFixture);
+      const { dataRegistry, contributor } =
+        await loadFixture(directSubmitFixture);
 
       await dataRegistry.connect(contributor).submitData(0, "QmData1", "meta1");
       await dataRegistry.connect(contributor).submitData(0, "QmData2", "meta2");
@@ -123,6 +136,241 @@ describe("DataRegistry", function () {
     });
   });
 
+  describe("Commit-Reveal", function () {
+    const SALT = hre.ethers.id("contributor salt");
+
+    async function commitFixture() {
+      const fixture = await deployFixture();
+      const [, , , , attacker] = await hre.ethers.getSigners();
+      const { dataRegistry, contributor } = fixture;
+
+      // Commits are required by default
+      const commitment = await dataRegistry.computeCommitment(
+        0,
+        "QmSecretCID",
+        SALT,
+        contributor.address,
+      );
+      await dataRegistry.connect(contributor).commitSubmission(0, commitment);
+
+      return { ...fixture, attacker: attacker!, commitment };
+    }
+
+    it("Should commit without revealing the CID", async function () {
+      const { dataRegistry, contributor } = await loadFixture(deployFixture);
+      const commitment = await dataRegistry.computeCommitment(
+        0,
+        "QmSecretCID",
+        SALT,
+        contributor.address,
+      );
+
+      expect(commitment).to.equal(
+        hre.ethers.keccak256(
+          hre.ethers.AbiCoder.defaultAbiCoder().encode(
+            ["uint256", "string", "bytes32", "address"],
+            [0, "QmSecretCID", SALT, contributor.address],
+          ),
+        ),
+      );
+      await expect(
+        dataRegistry.connect(contributor).commitSubmission(0, commitment),
+      )
+        .to.emit(dataRegistry, "SubmissionCommitted")
+        .withArgs(commitment, 0, contributor.address);
+
+      const committed = await dataRegistry.commitments(
+        contributor.address,
+        commitment,
+      );
+      expect(committed.bountyId).to.equal(0);
+      expect(committed.committedAt).to.equal(await time.latest());
+      expect(await dataRegistry.getTotalSubmissions()).to.equal(0);
+    });
+
+    it("Should reject a reveal before the delay", async function () {
+      const { dataRegistry, contributor } = await loadFixture(commitFixture);
+
+      await expect(
+        dataRegistry
+          .connect(contributor)
+          .revealSubmission(0, "QmSecretCID", "", SALT),
+      ).to.be.revertedWithCustomError(dataRegistry, "RevealTooEarly");
+    });
+
+    it("Should reveal after the delay and request verification", async function () {
+      const { dataRegistry, bountyRegistry, contributor, commitment } =
+        await loadFixture(commitFixture);
+
+      await time.increase(60);
+
+      await expect(
+        dataRegistry
+          .connect(contributor)
+          .revealSubmission(0, "QmSecretCID", "metadata", SALT),
+      )
+        .to.emit(dataRegistry, "SubmissionRevealed")
+        .withArgs(commitment, 0)
+        .and.to.emit(dataRegistry, "DataSubmitted")
+        .withArgs(0, 0, contributor.address, "QmSecretCID")
+        .and.to.emit(dataRegistry, "VerificationRequested");
+
+      const submission = await dataRegistry.getSubmission(0);
+      expect(submission.contributor).to.equal(contributor.address);
+      expect(submission.metadata).to.equal("metadata");
+      expect(submission.status).to.equal(1); // VERIFYING
+      expect((await bountyRegistry.getBounty(0)).submissionCount).to.equal(1);
+
+      // A commitment can only be revealed once
+      await expect(
+        dataRegistry
+          .connect(contributor)
+          .revealSubmission(0, "QmSecretCID", "", SALT),
+      ).to.be.revertedWithCustomError(dataRegistry, "CommitmentNotFound");
+    });
+
+    it("Should reject duplicate commitments", async function () {
+      const { dataRegistry, contributor, commitment } =
+        await loadFixture(commitFixture);
+
+      await expect(
+        dataRegistry.connect(contributor).commitSubmission(0, commitment),
+      ).to.be.revertedWithCustomError(dataRegistry, "CommitmentExists");
+    });
+
+    it("Should disable submitData by default", async function () {
+      const { dataRegistry, contributor } = await loadFixture(commitFixture);
+
+      expect(await dataRegistry.commitRequired()).to.equal(true);
+      await expect(
+        dataRegistry.connect(contributor).submitData(0, "QmOther", "meta"),
+      ).to.be.revertedWithCustomError(dataRegistry, "CommitRequired");
+    });
+
+    it("Should stop a front-runner who copies the reveal from the mempool", async function () {
+      const { dataRegistry, contributor, attacker } =
+        await loadFixture(commitFixture);
+      await time.increase(60);
+
+      // The attacker sees the pending reveal and decodes the CID and salt
+      const pending = await dataRegistry
+        .connect(contributor)
+        .revealSubmission.populateTransaction(0, "QmSecretCID", "", SALT);
+      const [bountyId, cid, metadata, salt] =
+        dataRegistry.interface.decodeFunctionData(
+          "revealSubmission",
+          pending.data,
+        );
+
+      // ...and tries to land first with a higher gas price
+      await expect(
+        dataRegistry
+          .connect(attacker)
+          .revealSubmission(bountyId, cid, metadata, salt),
+      ).to.be.revertedWithCustomError(dataRegistry, "CommitmentNotFound");
+      await expect(
+        dataRegistry.connect(attacker).submitData(0, cid, ""),
+      ).to.be.revertedWithCustomError(dataRegistry, "CommitRequired");
+
+      // A fresh commitment has to wait out the delay, by which time the
+      // contributor's reveal has been mined
+      const attackerCommitment = await dataRegistry.computeCommitment(
+        bountyId,
+        cid,
+        salt,
+        attacker.address,
+      );
+      await dataRegistry
+        .connect(attacker)
+        .commitSubmission(0, attackerCommitment);
+      await expect(
+        dataRegistry
+          .connect(attacker)
+          .revealSubmission(bountyId, cid, metadata, salt),
+      ).to.be.revertedWithCustomError(dataRegistry, "RevealTooEarly");
+
+      await contributor.sendTransaction(pending);
+      await time.increase(60);
+
+      await expect(
+        dataRegistry
+          .connect(attacker)
+          .revealSubmission(bountyId, cid, metadata, salt),
+      ).to.be.revertedWithCustomError(dataRegistry, "DuplicateCID");
+
+      const submission = await dataRegistry.getSubmission(0);
+      expect(submission.contributor).to.equal(contributor.address);
+      expect(await dataRegistry.getTotalSubmissions()).to.equal(1);
+    });
+
+    it("Should not let a copied commitment block or redirect the contributor", async function () {
+      const { dataRegistry, bountyRegistry, creator, contributor } =
+        await loadFixture(deployFixture);
+      const [, , , , attacker] = await hre.ethers.getSigners();
+      await bountyRegistry
+        .connect(creator)
+        .createBounty(
+          "QmMetadata2",
+          "QmSchema2",
+          (await time.latest()) + 86400,
+          10,
+          {
+            value: hre.ethers.parseEther("0.1"),
+          },
+        );
+      const commitment = await dataRegistry.computeCommitment(
+        0,
+        "QmSecretCID",
+        SALT,
+        contributor.address,
+      );
+
+      // The attacker copies the pending commitment to another bounty first
+      await dataRegistry.connect(attacker!).commitSubmission(1, commitment);
+      await expect(
+        dataRegistry.connect(contributor).commitSubmission(0, commitment),
+      ).to.emit(dataRegistry, "SubmissionCommitted");
+      await time.increase(60);
+
+      // The reveal only matches the contributor's own commitment and bounty
+      await expect(
+        dataRegistry
+          .connect(contributor)
+          .revealSubmission(1, "QmSecretCID", "", SALT),
+      ).to.be.revertedWithCustomError(dataRegistry, "CommitmentNotFound");
+      await expect(
+        dataRegistry
+          .connect(attacker!)
+          .revealSubmission(0, "QmSecretCID", "", SALT),
+      ).to.be.revertedWithCustomError(dataRegistry, "CommitmentNotFound");
+      await dataRegistry
+        .connect(contributor)
+        .revealSubmission(0, "QmSecretCID", "", SALT);
+
+      const submission = await dataRegistry.getSubmission(0);
+      expect(submission.bountyId).to.equal(0);
+      expect(submission.contributor).to.equal(contributor.address);
+    });
+
+    it("Should only let the owner configure commit-reveal", async function () {
+      const { dataRegistry, owner, contributor } =
+        await loadFixture(deployFixture);
+
+      await expect(dataRegistry.connect(owner).setCommitRevealConfig(300, true))
+        .to.emit(dataRegistry, "CommitRevealConfigUpdated")
+        .withArgs(300, true);
+      expect(await dataRegistry.revealDelay()).to.equal(300);
+      expect(await dataRegistry.commitRequired()).to.equal(true);
+
+      await expect(
+        dataRegistry.connect(contributor).setCommitRevealConfig(0, false),
+      ).to.be.revertedWithCustomError(
+        dataRegistry,
+        "OwnableUnauthorizedAccount",
+      );
+    });
+  });
+
   describe("Handle Verification Result", function () {
     it("Should handle verified submission and release payment via EscrowManager", async function () {
       const {
@@ -131,7 +379,7 @@ describe("DataRegistry", function () {
         escrowManager,
         contributor,
         functionsConsumer,
-      } = await loadFixture(deployFixture);
+      } = await loadFixture(directSubmitFixture);
       const reward = hre.ethers.parseEther("0.1");
 
       await dataRegistry
@@ -171,7 +419,7 @@ describe("DataRegistry", function () {
 
     it("Should handle rejected submission without payment", async function () {
       const { dataRegistry, escrowManager, contributor, functionsConsumer } =
-        await loadFixture(deployFixture);
+        await loadFixture(directSubmitFixture);
 
       await dataRegistry
         .connect(contributor)
@@ -193,7 +441,8 @@ describe("DataRegistry", function () {
     });
 
     it("Should revert if not called by FunctionsConsumer", async function () {
-      const { dataRegistry, contributor } = await loadFixture(deployFixture);
+      const { dataRegistry, contributor } =
+        await loadFixture(directSubmitFixture);
 
       await dataRegistry
         .connect(contributor)
@@ -208,7 +457,7 @@ describe("DataRegistry", function () {
 
     it("Should revert for invalid status", async function () {
       const { dataRegistry, contributor, functionsConsumer } =
-        await loadFixture(deployFixture);
+        await loadFixture(directSubmitFixture);
 
       await dataRegistry
         .connect(contributor)
@@ -223,11 +472,68 @@ describe("DataRegistry", function () {
           .handleVerificationResult(0, true, "0x"),
       ).to.be.revertedWithCustomError(dataRegistry, "InvalidStatus");
     });
+
+    it("Should store the encoded verification result", async function () {
+      const { dataRegistry, contributor, functionsConsumer } =
+        await loadFixture(directSubmitFixture);
+
+      await dataRegistry
+        .connect(contributor)
+        .submitData(0, "QmDataCID", "metadata");
+      expect(await dataRegistry.getVerificationResult(0)).to.equal("0x");
+
+      const encoded = hre.ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256"],
+        [(1n << 248n) | (3n << 8n)],
+      );
+      await dataRegistry
+        .connect(functionsConsumer)
+        .handleVerificationResult(0, false, encoded);
+
+      expect(await dataRegistry.getVerificationResult(0)).to.equal(encoded);
+    });
+
+    it("Should reject a copy of data that already passed", async function () {
+      const { dataRegistry, contributor, functionsConsumer } =
+        await loadFixture(directSubmitFixture);
+      const coder = hre.ethers.AbiCoder.defaultAbiCoder();
+      const passed = (1n << 248n) | (0x0123456789abcdefn << 104n) | 1n;
+
+      // Both copies are submitted before either result arrives
+      await dataRegistry.connect(contributor).submitData(0, "QmData1", "");
+      await dataRegistry.connect(contributor).submitData(0, "QmData2", "");
+
+      await dataRegistry
+        .connect(functionsConsumer)
+        .handleVerificationResult(1, true, coder.encode(["uint256"], [passed]));
+      expect(await dataRegistry.verifiedDigests(0, 0x0123456789abcdefn)).to.be
+        .true;
+
+      await expect(
+        dataRegistry
+          .connect(functionsConsumer)
+          .handleVerificationResult(
+            0,
+            true,
+            coder.encode(["uint256"], [passed]),
+          ),
+      )
+        .to.emit(dataRegistry, "DuplicateContentRejected")
+        .withArgs(0, 0, 0x0123456789abcdefn)
+        .and.to.emit(dataRegistry, "SubmissionVerified")
+        .withArgs(0, 0, contributor.address, false);
+
+      expect((await dataRegistry.getSubmission(0)).status).to.equal(3); // REJECTED
+      expect(await dataRegistry.getVerificationResult(0)).to.equal(
+        coder.encode(["uint256"], [passed - 1n + 7n]),
+      );
+    });
   });
 
   describe("View Functions", function () {
     it("Should get submissions by contributor", async function () {
-      const { dataRegistry, contributor } = await loadFixture(deployFixture);
+      const { dataRegistry, contributor } =
+        await loadFixture(directSubmitFixture);
 
       await dataRegistry.connect(contributor).submitData(0, "QmData1", "meta1");
       await dataRegistry.connect(contributor).submitData(0, "QmData2", "meta2");
@@ -239,7 +545,8 @@ describe("DataRegistry", function () {
     });
 
     it("Should get total submissions", async function () {
-      const { dataRegistry, contributor } = await loadFixture(deployFixture);
+      const { dataRegistry, contributor } =
+        await loadFixture(directSubmitFixture);
 
       await dataRegistry.connect(contributor).submitData(0, "QmData1", "meta1");
       expect(await dataRegistry.getTotalSubmissions()).to.equal(1);
@@ -80,6 +80,23 @@ describe("FunctionsConsumer", function () {
       expect(await functionsConsumer.dataRegistry()).to.equal(newAddress);
     });
 
+    it("Should update DON-hosted secrets", async function () {
+      const { functionsConsumer, owner, router } = await loadFixture(deployFixture);
+
+      expect(await functionsConsumer.donHostedSecretsVersion()).to.equal(0);
+
+      await expect(functionsConsumer.connect(owner).updateSecrets(1, 1700000000))
+        .to.emit(functionsConsumer, "SecretsUpdated")
+        .withArgs(1, 1700000000);
+
+      expect(await functionsConsumer.donHostedSecretsSlotID()).to.equal(1);
+      expect(await functionsConsumer.donHostedSecretsVersion()).to.equal(1700000000);
+
+      await expect(
+        functionsConsumer.connect(router).updateSecrets(0, 1)
+      ).to.be.revertedWithCustomError(functionsConsumer, "OwnableUnauthorizedAccount");
+    });
+
     it("Should revert if not owner", async function () {
       const { functionsConsumer, router } = await loadFixture(deployFixture);
 
@@ -44,6 +44,9 @@ describe("Payment Flow Integration", function () {
     // Wire up access control: allow DataRegistry to call BountyRegistry
     await bountyRegistry.setDataRegistry(await dataRegistry.getAddress());
 
+    // These flows submit directly rather than through commit-reveal
+    await dataRegistry.setCommitRevealConfig(60, false);
+
     return {
       escrowManager,
       bountyRegistry,
@@ -0,0 +1,251 @@
+#!/usr/bin/env node
+
+/**
+ * Bundle the Chainlink Functions verification source.
+ *
+ * Every request carries the DON script inline, so it is kept small and the
+ * verification logic lives in a separate verifier module that the script
+ * fetches from IPFS.
+ *
+ * The verifier is a single file, so shared TypeScript modules are inlined
+ * into src/verifier.template.js: every `/* @bundle <name> *\/`
+ * marker is replaced with src/<name>.ts transpiled to plain JavaScript.
+ * A `/* global ... *\/` line directly above a marker declares the inlined
+ * functions for ESLint in the template and is dropped from the output.
+ * A module's own `/* global ... *\/` comment lists the sandbox APIs it
+ * relies on (such as TextDecoder) and is carried over into the output.
+ * Inlined modules share one scope, so they may import each other but must
+ * not declare the same top-level name.
+ * The template is the body of the module's default export,
+ * `verify(Functions, args, secrets)`, and the result is written to
+ * src/verifier.js.
+ *
+ * src/source.template.js is the script itself. Its `/* @verifier cid *\/`
+ * and `/* @verifier sha256 *\/` markers are filled in with the verifier's
+ * raw-block CID and SHA-256, and the result is written to src/source.js,
+ * which is what getVerificationSource() returns and what gets stored
+ * on-chain. It must stay under MAX_SOURCE_BYTES.
+ *
+ * Usage:
+ *   pnpm bundle            # regenerate src/verifier.js and src/source.js
+ *   pnpm bundle -- --check # exit 1 if either is out of date
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { dirname, join } from "node:path";
+import ts from "typescript";
+import * as prettier from "prettier";
+import { formatCID } from "../src/listing.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const SRC_DIR = join(__dirname, "..", "src");
+export const TEMPLATE_PATH = join(SRC_DIR, "source.template.js");
+export const OUTPUT_PATH = join(SRC_DIR, "source.js");
+export const VERIFIER_TEMPLATE_PATH = join(SRC_DIR, "verifier.template.js");
+export const VERIFIER_OUTPUT_PATH = join(SRC_DIR, "verifier.js");
+
+/**
+ * Size limit for the on-chain script. Storing it costs gas per byte, and
+ * the DON rejects requests over about 30 KB.
+ */
+export const MAX_SOURCE_BYTES = 8 * 1024;
+
+const BUNDLE_MARKER = /(?:\/\* global [\w, ]+ \*\/\n)?\/\* @bundle (\w+) \*\//g;
+
+const GLOBAL_COMMENT = /^\/\* global ([\w, ]+) \*\/$/gm;
+
+const VERIFY_PARAMS = ["Functions", "args", "secrets"];
+
+const VERIFIER_MARKER = /\/\* @verifier (cid|sha256) \*\/ ""/g;
+
+const HEADER =
+  "// Generated by scripts/bundle-source.ts from src/source.template.js. Do not edit.\n";
+
+const VERIFIER_HEADER =
+  "// Generated by scripts/bundle-source.ts from src/verifier.template.js. Do not edit.\n";
+
+/**
+ * Names declared at the top level of a module
+ */
+function topLevelNames(fileName: string, tsSource: string): string[] {
+  const file = ts.createSourceFile(fileName, tsSource, ts.ScriptTarget.ES2022);
+  const names: string[] = [];
+  for (const statement of file.statements) {
+    if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement)) &&
+      statement.name
+    ) {
+      names.push(statement.name.text);
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          names.push(declaration.name.text);
+        }
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Ensure no two bundled modules declare the same top-level name
+ * @throws Error naming the clashing declaration
+ */
+function checkDeclarations(names: string[]): void {
+  const declared = new Map<string, string>();
+  for (const name of names) {
+    const fileName = `${name}.ts`;
+    const tsSource = readFileSync(join(SRC_DIR, fileName), "utf-8");
+    for (const declaredName of topLevelNames(fileName, tsSource)) {
+      const owner = declared.get(declaredName);
+      if (owner) {
+        throw new Error(
+          `"${declaredName}" is declared in both ${owner} and ${fileName}`,
+        );
+      }
+      declared.set(declaredName, fileName);
+    }
+  }
+}
+
+/**
+ * Transpile a module to plain JavaScript that can live inside the DON
+ * script body: types, comments, imports and export keywords are removed.
+ */
+function inlineModule(name: string, emittedGlobals: Set<string>): string {
+  const tsSource = readFileSync(join(SRC_DIR, `${name}.ts`), "utf-8");
+  const globals = [...tsSource.matchAll(GLOBAL_COMMENT)]
+    .flatMap((match) => match[1]!.split(","))
+    .map((global) => global.trim())
+    .filter((global) => !emittedGlobals.has(global));
+  globals.forEach((global) => emittedGlobals.add(global));
+  const { outputText } = ts.transpileModule(tsSource, {
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      removeComments: true,
+    },
+  });
+
+  const code = outputText
+    .replace(/^import [^;]*;$/gm, "")
+    .replace(/^export \{\s*\};?$/gm, "")
+    .replace(/^export (?=(async )?function |const |let |class )/gm, "")
+    .trim();
+  return globals.length > 0
+    ? `/* global ${globals.join(", ")} */\n${code}`
+    : code;
+}
+
+/**
+ * Build the verifier module from its template
+ * @returns The formatted module source
+ */
+export async function bundleVerifier(): Promise<string> {
+  const template = readFileSync(VERIFIER_TEMPLATE_PATH, "utf-8");
+  checkDeclarations(
+    [...template.matchAll(BUNDLE_MARKER)].map((match) => match[1]!),
+  );
+  const emittedGlobals = new Set<string>();
+  const bundled = template.replace(BUNDLE_MARKER, (_, name: string) =>
+    inlineModule(name, emittedGlobals),
+  );
+  // The template declares the verify() parameters as globals for ESLint;
+  // the rest of its globals move above the function
+  const [, declared = "", body] =
+    /^(?:\/\* global ([\w, ]+) \*\/\n)?([^]*)$/.exec(bundled)!;
+  const globals = declared
+    .split(",")
+    .map((global) => global.trim())
+    .filter((global) => global && !VERIFY_PARAMS.includes(global));
+  const module =
+    (globals.length > 0 ? `/* global ${globals.join(", ")} */\n` : "") +
+    `export default async function verify(${VERIFY_PARAMS.join(", ")}) {\n${body}\n}\n`;
+  return prettier.format(VERIFIER_HEADER + module, { parser: "babel" });
+}
+
+/**
+ * The CID of a file stored as a single raw block (CIDv1, raw codec,
+ * sha2-256), as Storacha and `ipfs add --raw-leaves` store small files
+ */
+export function rawBlockCID(bytes: Uint8Array): string {
+  const digest = createHash("sha256").update(bytes).digest();
+  return formatCID(new Uint8Array([0x01, 0x55, 0x12, 0x20, ...digest]));
+}
+
+/**
+ * Build the on-chain verification source, pinned to a verifier module
+ * @param verifier - The verifier module, as returned by bundleVerifier()
+ * @returns The formatted source string
+ * @throws Error if the source is over MAX_SOURCE_BYTES
+ */
+export async function bundleVerificationSource(
+  verifier: string,
+): Promise<string> {
+  const bytes = new TextEncoder().encode(verifier);
+  const pins: Record<string, string> = {
+    cid: rawBlockCID(bytes),
+    sha256: createHash("sha256").update(bytes).digest("hex"),
+  };
+  const template = readFileSync(TEMPLATE_PATH, "utf-8");
+  const bundled = template.replace(VERIFIER_MARKER, (_, name: string) =>
+    JSON.stringify(pins[name]),
+  );
+  // simulateScript injects the source with String.replace, which would
+  // expand these replacement patterns and corrupt the script
+  const pattern = /\$[&`']/.exec(bundled);
+  if (pattern) {
+    throw new Error(
+      `Bundled source contains "${pattern[0]}", which simulateScript cannot inject`,
+    );
+  }
+  const source = await prettier.format(HEADER + bundled, { parser: "babel" });
+  const size = Buffer.byteLength(source);
+  if (size > MAX_SOURCE_BYTES) {
+    throw new Error(
+      `Bundled source is ${size} bytes, over the ${MAX_SOURCE_BYTES} byte limit`,
+    );
+  }
+  return source;
+}
+
+async function main() {
+  const check = process.argv.includes("--check");
+  const verifier = await bundleVerifier();
+  const outputs = [
+    { path: VERIFIER_OUTPUT_PATH, bundled: verifier },
+    { path: OUTPUT_PATH, bundled: await bundleVerificationSource(verifier) },
+  ];
+
+  if (check) {
+    const stale = outputs.filter(
+      ({ path, bundled }) => readFileSync(path, "utf-8") !== bundled,
+    );
+    for (const { path } of stale) {
+      console.error(`${path} is out of date. Run \`pnpm bundle\`.`);
+    }
+    if (stale.length > 0) process.exit(1);
+    console.log("src/verifier.js and src/source.js are up to date.");
+    return;
+  }
+
+  for (const { path, bundled } of outputs) {
+    writeFileSync(path, bundled);
+    console.log(`Wrote ${path}`);
+  }
+  console.log(
+    `Verifier CID: ${rawBlockCID(new TextEncoder().encode(verifier))}`,
+  );
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  main().catch((err) => {
+    console.error("Fatal error:", err);
+    process.exit(1);
+  });
+}
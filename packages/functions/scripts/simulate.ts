@@ -45,7 +45,13 @@ async function main() {
     process.exit(1);
   }
 
-  console.log(`Result: ${result.verified ? "VERIFIED" : "REJECTED"}`);
+  console.log(
+    `Result: ${result.verified ? "VERIFIED" : "REJECTED"} (${result.reason})`,
+  );
+  console.log(`Records checked: ${result.recordCount}`);
+  if (result.failedPath !== null) {
+    console.log(`Failed path: ${result.failedPath}`);
+  }
   console.log(`Response hex: ${result.responseHex}`);
   process.exit(result.verified ? 0 : 1);
 }
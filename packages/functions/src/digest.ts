@@ -0,0 +1,55 @@
+/**
+ * Content digests for duplicate detection.
+ *
+ * A submission's digest is the SHA-256 of its (decrypted) bytes. A directory
+ * hashes one `path NUL digest LF` line per file, sorted by path, so two
+ * directories with the same files digest the same however their CARs were
+ * built. The DON stores the first 64 bits in the verification result (see
+ * src/result.ts) and compares them with the digests of earlier submissions
+ * passed in args[3].
+ *
+ * Inlined into the DON source by scripts/bundle-source.ts, so it must stay
+ * self-contained.
+ */
+
+/* global crypto, TextEncoder */
+
+import { toHex, type UnixFSFile } from "./unixfs.js";
+
+/**
+ * SHA-256 digest of a document
+ * @returns 64 hex digits
+ */
+export async function contentDigest(bytes: Uint8Array): Promise<string> {
+  return toHex(
+    new Uint8Array(await crypto.subtle.digest("SHA-256", bytes.slice())),
+  );
+}
+
+/**
+ * Digest of a directory submission, independent of how it was chunked
+ * @returns 64 hex digits
+ */
+export async function directoryDigest(files: UnixFSFile[]): Promise<string> {
+  const sorted = [...files].sort((a, b) =>
+    a.path < b.path ? -1 : a.path > b.path ? 1 : 0,
+  );
+  let listing = "";
+  for (const file of sorted) {
+    listing += `${file.path}\0${await contentDigest(file.bytes)}\n`;
+  }
+  return contentDigest(new TextEncoder().encode(listing));
+}
+
+/**
+ * Whether two digests match on the 64 bits kept on-chain
+ * @param a - A digest in hex (at least 16 digits)
+ * @param b - Another digest in hex
+ */
+export function sameDigest(a: string, b: string): boolean {
+  return (
+    a.length >= 16 &&
+    b.length >= 16 &&
+    a.slice(0, 16).toLowerCase() === b.slice(0, 16).toLowerCase()
+  );
+}
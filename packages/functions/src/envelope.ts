@@ -0,0 +1,275 @@
+/**
+ * Encrypted submissions: open the envelopes that contributors seal to a
+ * bounty creator.
+ *
+ * A contributor encrypts the submission with a random content key
+ * (AES-256-GCM) and wraps that key once per recipient: an ephemeral X25519
+ * key agreement with the recipient's public key, HKDF-SHA256 to derive a
+ * key-encryption key, and AES-256-GCM again to wrap the content key. The
+ * creator is always a recipient; the bounty may also publish a verifier key
+ * whose private half is uploaded to the DON as a secret, so the DON can
+ * decrypt and verify the data without it ever being public.
+ *
+ * Layout of an envelope:
+ *
+ * | Bytes  | Field                                                    |
+ * | ------ | -------------------------------------------------------- |
+ * | 0-3    | magic "SBE1"                                             |
+ * | 4-7    | header length (uint32, big-endian)                       |
+ * | 8-...  | header (UTF-8 JSON, see EnvelopeHeader)                  |
+ * | ...    | AES-256-GCM ciphertext of the submission (header as AAD) |
+ *
+ * Keys are 32-byte X25519 keys in base64. Sealing lives in src/seal.ts,
+ * which the DON never needs.
+ *
+ * Inlined into the DON source by scripts/bundle-source.ts, so it must stay
+ * self-contained.
+ */
+
+/* global crypto, TextDecoder, TextEncoder, atob */
+
+export const ENVELOPE_MAGIC = "SBE1";
+export const ENVELOPE_VERSION = 1;
+export const ENVELOPE_ALGORITHM = "X25519-HKDF-SHA256-A256GCM";
+
+const ENVELOPE_INFO = "storacha-bounty-envelope v1";
+/** DER prefix that turns a raw 32-byte X25519 private key into PKCS#8 */
+const X25519_PKCS8_PREFIX = [
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e, 0x04,
+  0x22, 0x04, 0x20,
+];
+
+/**
+ * A content key wrapped for one recipient
+ */
+export interface EnvelopeRecipient {
+  /** The recipient's X25519 public key */
+  publicKey: string;
+  /** Ephemeral X25519 public key used for this recipient */
+  ephemeralPublicKey: string;
+  /** The content key, encrypted with the derived key-encryption key */
+  wrappedKey: string;
+  /** AES-GCM nonce for wrappedKey */
+  iv: string;
+}
+
+/**
+ * The plaintext header of an envelope (all binary fields base64)
+ */
+export interface EnvelopeHeader {
+  version: number;
+  algorithm: string;
+  /** MIME type of the sealed data, if the sender recorded one */
+  contentType?: string;
+  /** AES-GCM nonce for the content */
+  iv: string;
+  recipients: EnvelopeRecipient[];
+}
+
+/**
+ * Error thrown when an envelope is malformed or cannot be opened
+ */
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DecryptionError";
+  }
+}
+
+/**
+ * Whether bytes start with the envelope magic
+ */
+export function isEnvelope(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= 8 &&
+    String.fromCharCode(bytes[0]!, bytes[1]!, bytes[2]!, bytes[3]!) ===
+      ENVELOPE_MAGIC
+  );
+}
+
+/**
+ * Split an envelope into its header and ciphertext
+ * @throws DecryptionError if the envelope is malformed or uses an unknown
+ *   version or algorithm
+ */
+export function readEnvelope(bytes: Uint8Array): {
+  header: EnvelopeHeader;
+  headerBytes: Uint8Array;
+  ciphertext: Uint8Array;
+} {
+  if (!isEnvelope(bytes)) {
+    throw new DecryptionError("Not an encrypted submission");
+  }
+  const length = new DataView(
+    bytes.buffer,
+    bytes.byteOffset,
+    bytes.byteLength,
+  ).getUint32(4);
+  if (8 + length > bytes.length) {
+    throw new DecryptionError("Envelope header is truncated");
+  }
+  const headerBytes = bytes.subarray(8, 8 + length);
+
+  let header: EnvelopeHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(headerBytes));
+  } catch {
+    throw new DecryptionError("Envelope header is not JSON");
+  }
+  if (header.version !== ENVELOPE_VERSION) {
+    throw new DecryptionError(
+      `Unsupported envelope version: ${header.version}`,
+    );
+  }
+  if (header.algorithm !== ENVELOPE_ALGORITHM) {
+    throw new DecryptionError(
+      `Unsupported envelope algorithm: ${header.algorithm}`,
+    );
+  }
+  if (!Array.isArray(header.recipients) || typeof header.iv !== "string") {
+    throw new DecryptionError("Envelope header is incomplete");
+  }
+  return { header, headerBytes, ciphertext: bytes.subarray(8 + length) };
+}
+
+/**
+ * Derive the AES-GCM key that wraps the content key for one recipient
+ * @param privateKey - Our X25519 private key (ephemeral when sealing, the
+ *   recipient's when opening)
+ * @param peerPublicKey - The other side's raw X25519 public key
+ * @param ephemeralPublicKey - The ephemeral public key (salt, with the
+ *   recipient's key, so every wrap is bound to both)
+ * @param recipientPublicKey - The recipient's raw X25519 public key
+ */
+export async function deriveWrappingKey(
+  privateKey: CryptoKey,
+  peerPublicKey: Uint8Array,
+  ephemeralPublicKey: Uint8Array,
+  recipientPublicKey: Uint8Array,
+): Promise<CryptoKey> {
+  const peer = await crypto.subtle.importKey(
+    "raw",
+    peerPublicKey.slice(),
+    { name: "X25519" },
+    false,
+    [],
+  );
+  const shared = await crypto.subtle.deriveBits(
+    { name: "X25519", public: peer },
+    privateKey,
+    256,
+  );
+  const hkdf = await crypto.subtle.importKey("raw", shared, "HKDF", false, [
+    "deriveKey",
+  ]);
+  const salt = new Uint8Array(64);
+  salt.set(ephemeralPublicKey, 0);
+  salt.set(recipientPublicKey, 32);
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt,
+      info: new TextEncoder().encode(ENVELOPE_INFO),
+    },
+    hkdf,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+/**
+ * Import a raw X25519 private key for key agreement
+ * @param privateKey - 32-byte private key in base64
+ */
+export async function importPrivateKey(privateKey: string): Promise<CryptoKey> {
+  const raw = decodeBase64(privateKey);
+  if (raw.length !== 32) {
+    throw new DecryptionError("Private key must be 32 bytes");
+  }
+  const pkcs8 = new Uint8Array(X25519_PKCS8_PREFIX.length + 32);
+  pkcs8.set(X25519_PKCS8_PREFIX, 0);
+  pkcs8.set(raw, X25519_PKCS8_PREFIX.length);
+  return crypto.subtle.importKey("pkcs8", pkcs8, { name: "X25519" }, true, [
+    "deriveBits",
+  ]);
+}
+
+/**
+ * Decrypt an envelope with one recipient's private key
+ * @param bytes - The envelope
+ * @param privateKey - The recipient's 32-byte X25519 private key in base64
+ * @returns The original data
+ * @throws DecryptionError if the envelope is malformed, the key is not a
+ *   recipient, or the data was tampered with
+ */
+export async function openEnvelope(
+  bytes: Uint8Array,
+  privateKey: string,
+): Promise<Uint8Array> {
+  const { header, headerBytes, ciphertext } = readEnvelope(bytes);
+  const key = await importPrivateKey(privateKey);
+
+  for (const recipient of header.recipients) {
+    const recipientPublicKey = decodeBase64(recipient.publicKey);
+    const ephemeralPublicKey = decodeBase64(recipient.ephemeralPublicKey);
+    let contentKey: CryptoKey;
+    try {
+      const wrappingKey = await deriveWrappingKey(
+        key,
+        ephemeralPublicKey,
+        ephemeralPublicKey,
+        recipientPublicKey,
+      );
+      const rawKey = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: decodeBase64(recipient.iv).slice() },
+        wrappingKey,
+        decodeBase64(recipient.wrappedKey).slice(),
+      );
+      contentKey = await crypto.subtle.importKey(
+        "raw",
+        rawKey,
+        "AES-GCM",
+        false,
+        ["decrypt"],
+      );
+    } catch {
+      // Not our key (or a corrupted wrap); try the next recipient
+      continue;
+    }
+
+    try {
+      return new Uint8Array(
+        await crypto.subtle.decrypt(
+          {
+            name: "AES-GCM",
+            iv: decodeBase64(header.iv).slice(),
+            additionalData: headerBytes.slice(),
+          },
+          contentKey,
+          ciphertext.slice(),
+        ),
+      );
+    } catch {
+      throw new DecryptionError("Encrypted data failed authentication");
+    }
+  }
+  throw new DecryptionError("Key is not a recipient of this envelope");
+}
+
+// ============ Helpers ============
+
+function decodeBase64(text: string): Uint8Array {
+  let binary: string;
+  try {
+    binary = atob(text);
+  } catch {
+    throw new DecryptionError("Invalid base64 in envelope");
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,74 @@
+/**
+ * Fingerprints for spotting near-duplicate submissions.
+ *
+ * An exact copy has the same content digest (src/digest.ts), but a copy
+ * with reordered rows, different whitespace or a few extra records does
+ * not. A fingerprint also hashes each record of a tabular document, so the
+ * share of records two submissions have in common can be measured.
+ *
+ * Only clients compare fingerprints, so this module is not inlined into
+ * the DON source.
+ */
+
+import { contentDigest } from "./digest.js";
+import { detectFormat, parseDocument } from "./formats.js";
+import type { SubmissionRules } from "./submission.js";
+import { canonical } from "./validator.js";
+
+/**
+ * Digests identifying a single-document submission
+ */
+export interface Fingerprint {
+  /** SHA-256 of the document's bytes in hex */
+  digest: string;
+  /**
+   * SHA-256 of each record's canonical JSON in hex (rows of NDJSON, CSV
+   * and TSV, elements of a JSON array), or null if the document is not a
+   * list of records or cannot be parsed
+   */
+  rows: string[] | null;
+}
+
+/**
+ * Fingerprint a document the way the DON would parse it
+ * @param bytes - The document (decrypted, if it was encrypted)
+ * @param rules - The bounty's submission rules, for the format and CSV/TSV
+ *   options
+ * @param rowSchema - Schema of a single record, used by "schema" coercion
+ */
+export async function fingerprintDocument(
+  bytes: Uint8Array,
+  rules: Pick<SubmissionRules, "format" | "delimiter" | "header" | "coerce">,
+  rowSchema?: unknown,
+): Promise<Fingerprint> {
+  const digest = await contentDigest(bytes);
+
+  let records: unknown;
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    const format = rules.format === "auto" ? detectFormat(text) : rules.format;
+    records = parseDocument(text, { ...rules, format, rowSchema });
+  } catch {
+    return { digest, rows: null };
+  }
+  if (!Array.isArray(records)) return { digest, rows: null };
+
+  const encoder = new TextEncoder();
+  const rows: string[] = [];
+  for (const record of records) {
+    rows.push(await contentDigest(encoder.encode(canonical(record))));
+  }
+  return { digest, rows };
+}
+
+/**
+ * Share of a document's records that also appear in another
+ * @param rows - Record digests of the document being checked
+ * @param original - Record digests of the earlier document
+ * @returns A number from 0 (nothing in common) to 1 (every record repeated)
+ */
+export function rowOverlap(rows: string[], original: string[]): number {
+  if (rows.length === 0) return 0;
+  const known = new Set(original);
+  return rows.filter((row) => known.has(row)).length / rows.length;
+}
@@ -0,0 +1,331 @@
+/**
+ * Parsers for the data formats a bounty can accept.
+ *
+ * JSON documents parse to a single value. NDJSON, CSV and TSV parse to an
+ * array of rows: one value per NDJSON line, and one object per CSV/TSV line
+ * keyed by the header row (or an array of cells when there is no header).
+ * CSV and TSV cells are strings unless coercion is enabled.
+ *
+ * Inlined into the DON source by scripts/bundle-source.ts, so it may only
+ * import from other bundled modules.
+ */
+
+import { resolveSchemaRefs } from "./validator.js";
+
+/**
+ * A supported data format
+ */
+export type DataFormat = "json" | "ndjson" | "csv" | "tsv";
+
+/**
+ * How CSV/TSV cells are converted from strings:
+ * - "none": every cell stays a string
+ * - "numbers": numeric-looking cells become numbers
+ * - "schema": cells become numbers, booleans or null where the row
+ *   schema's `type` for that column allows it
+ */
+export type CoercionMode = "none" | "numbers" | "schema";
+
+/**
+ * Options for parsing a document
+ */
+export interface ParseOptions {
+  /** The document's format */
+  format: DataFormat;
+  /** Cell delimiter for CSV/TSV (defaults to "," or a tab) */
+  delimiter?: string;
+  /** Whether the first CSV/TSV line names the columns (defaults to true) */
+  header?: boolean;
+  /** How to coerce CSV/TSV cells (defaults to "schema") */
+  coerce?: CoercionMode;
+  /** Schema of a single row, used by "schema" coercion */
+  rowSchema?: unknown;
+  /**
+   * Schema that `$ref`s in rowSchema point into (defaults to rowSchema).
+   * Pass the document's schema when rowSchema is part of it.
+   */
+  rootSchema?: unknown;
+}
+
+export const DATA_FORMATS: DataFormat[] = ["json", "ndjson", "csv", "tsv"];
+
+export const COERCION_MODES: CoercionMode[] = ["none", "numbers", "schema"];
+
+const NUMERIC_RE = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+/**
+ * Infer a format from a file extension
+ * @returns The format, or undefined for unknown extensions
+ */
+export function formatFromPath(path: string): DataFormat | undefined {
+  const extension = /\.([^./]+)$/.exec(path)?.[1]?.toLowerCase();
+  switch (extension) {
+    case "json":
+      return "json";
+    case "jsonl":
+    case "ndjson":
+      return "ndjson";
+    case "csv":
+      return "csv";
+    case "tsv":
+    case "tab":
+      return "tsv";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Detect the format of a document from its contents
+ * @param text - The document text
+ * @returns "json" if the whole text parses as JSON, "ndjson" if every line
+ *   does, "tsv" if the first line contains a tab, otherwise "csv"
+ */
+export function detectFormat(text: string): DataFormat {
+  const trimmed = text.trim();
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return "json";
+    } catch {
+      const lines = trimmed.split(/\r?\n/).filter((l) => l.trim() !== "");
+      if (lines.every((line) => isJSON(line))) return "ndjson";
+    }
+  }
+  const firstLine = trimmed.split(/\r?\n/, 1)[0] ?? "";
+  return firstLine.includes("\t") ? "tsv" : "csv";
+}
+
+/**
+ * Parse a document
+ * @param text - The document text
+ * @param options - Format and CSV/TSV options
+ * @returns The parsed value (an array of rows for NDJSON, CSV and TSV)
+ * @throws Error describing the first syntax error
+ */
+export function parseDocument(text: string, options: ParseOptions): unknown {
+  const source = text.replace(/^\uFEFF/, "");
+  switch (options.format) {
+    case "json":
+      return JSON.parse(source);
+    case "ndjson":
+      return parseNDJSON(source);
+    case "csv":
+    case "tsv": {
+      const delimiter =
+        options.delimiter ?? (options.format === "tsv" ? "\t" : ",");
+      const rows = parseDelimited(source, delimiter);
+      return toRecords(
+        rows,
+        options.header ?? true,
+        options.coerce ?? "schema",
+        options.rowSchema,
+        options.rootSchema ?? options.rowSchema,
+      );
+    }
+  }
+}
+
+/**
+ * Split delimited text into rows of cells (RFC 4180 quoting rules).
+ * Blank lines are skipped.
+ * @throws Error if a quoted cell is never closed
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  while (i < text.length) {
+    const char = text[i]!;
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+      } else if (char === '"') {
+        quoted = false;
+        i++;
+      } else {
+        cell += char;
+        i++;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+      i++;
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(cell);
+      cell = "";
+      i += delimiter.length;
+    } else if (char === "\n" || char === "\r") {
+      endRow();
+      i += char === "\r" && text[i + 1] === "\n" ? 2 : 1;
+    } else {
+      cell += char;
+      i++;
+    }
+  }
+
+  if (quoted) throw new Error("unterminated quoted cell");
+  if (cell !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+// ============ Helpers ============
+
+function isJSON(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseNDJSON(text: string): unknown[] {
+  const records: unknown[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === "") return;
+    try {
+      records.push(JSON.parse(line));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`line ${index + 1}: ${reason}`);
+    }
+  });
+  return records;
+}
+
+function toRecords(
+  rows: string[][],
+  header: boolean,
+  coerce: CoercionMode,
+  rowSchema: unknown,
+  rootSchema: unknown,
+): unknown[] {
+  // Column types only depend on the schema, so they are looked up once
+  const refs = coerce === "schema" ? resolveSchemaRefs(rootSchema) : new Map();
+  const applied = appliedSchemas(rowSchema, refs);
+
+  if (!header) {
+    const types: unknown[][] = [];
+    const typesAt = (i: number) =>
+      (types[i] ??= columnTypes(applied, refs, (schema) => {
+        const prefixItems = Array.isArray(schema.prefixItems)
+          ? schema.prefixItems
+          : [];
+        return i < prefixItems.length ? prefixItems[i] : schema.items;
+      }));
+    return rows.map((cells) =>
+      cells.map((cell, i) => coerceCell(cell, coerce, typesAt(i))),
+    );
+  }
+
+  const [names = [], ...body] = rows;
+  const seen = new Set<string>();
+  for (const name of names) {
+    if (seen.has(name)) throw new Error(`duplicate column "${name}"`);
+    seen.add(name);
+  }
+  const types = names.map((name) =>
+    columnTypes(applied, refs, (schema) => {
+      const properties = asObject(schema.properties);
+      return properties && Object.hasOwn(properties, name)
+        ? properties[name]
+        : undefined;
+    }),
+  );
+
+  return body.map((cells, index) => {
+    if (cells.length !== names.length) {
+      throw new Error(
+        `row ${index + 1}: expected ${names.length} cells, found ${cells.length}`,
+      );
+    }
+    const record: Record<string, unknown> = {};
+    names.forEach((name, i) => {
+      record[name] = coerceCell(cells[i]!, coerce, types[i]!);
+    });
+    return record;
+  });
+}
+
+/**
+ * A schema and every schema that applies along with it: the targets of
+ * its `$ref`s (resolved by the validator) and the members of `allOf`,
+ * followed recursively
+ */
+function appliedSchemas(
+  schema: unknown,
+  refs: Map<string, unknown>,
+  seen = new Set<unknown>(),
+): Record<string, unknown>[] {
+  const node = asObject(schema);
+  if (!node || seen.has(node)) return [];
+  seen.add(node);
+  const applied = [node];
+  if (typeof node.$ref === "string") {
+    applied.push(...appliedSchemas(refs.get(node.$ref), refs, seen));
+  }
+  if (Array.isArray(node.allOf)) {
+    for (const member of node.allOf) {
+      applied.push(...appliedSchemas(member, refs, seen));
+    }
+  }
+  return applied;
+}
+
+/**
+ * The types a column may hold: the `type` of every schema that applies to
+ * it, found through each row schema with `select`
+ */
+function columnTypes(
+  rowSchemas: Record<string, unknown>[],
+  refs: Map<string, unknown>,
+  select: (schema: Record<string, unknown>) => unknown,
+): unknown[] {
+  return rowSchemas
+    .flatMap((schema) => appliedSchemas(select(schema), refs))
+    .flatMap((schema) =>
+      Array.isArray(schema.type) ? schema.type : [schema.type],
+    );
+}
+
+function coerceCell(
+  cell: string,
+  mode: CoercionMode,
+  types: unknown[],
+): unknown {
+  if (mode === "none") return cell;
+
+  const value = cell.trim();
+  if (mode === "numbers") {
+    return NUMERIC_RE.test(value) ? Number(value) : cell;
+  }
+
+  if (
+    (types.includes("number") || types.includes("integer")) &&
+    NUMERIC_RE.test(value)
+  ) {
+    return Number(value);
+  }
+  if (types.includes("boolean") && /^(true|false)$/i.test(value)) {
+    return value.toLowerCase() === "true";
+  }
+  if (types.includes("null") && value === "") return null;
+  return cell;
+}
+
+function asObject(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
@@ -1,6 +1,8 @@
+import { createHash } from "node:crypto";
 import { readFileSync } from "node:fs";
 import { fileURLToPath } from "node:url";
 import { dirname, join } from "node:path";
+import { formatCID } from "./listing.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -32,14 +34,96 @@ export const FUNCTIONS_CONFIG = {
 } as const;
 
 /**
- * Read the verification JavaScript source code from disk.
+ * Read the bundled verification JavaScript source code from disk.
  * This is the string that gets stored on-chain via
  * `FunctionsConsumer.updateVerificationSource()`.
+ *
+ * source.js is generated by `pnpm bundle`. It is a small loader that runs
+ * the verifier module returned by getVerifier(), pinned by its hash.
  */
 export function getVerificationSource(): string {
   const sourcePath = join(__dirname, "source.js");
   return readFileSync(sourcePath, "utf-8");
 }
 
+/**
+ * Read the verifier module the verification source loads from IPFS.
+ * It must be pinned under `cid` before the source is used, for example by
+ * uploading `source` as a file with Storacha.
+ *
+ * verifier.js is generated by `pnpm bundle`, which inlines the shared
+ * TypeScript modules (such as the validator) into verifier.template.js.
+ */
+export function getVerifier(): { cid: string; source: string } {
+  const bytes = readFileSync(join(__dirname, "verifier.js"));
+  const digest = createHash("sha256").update(bytes).digest();
+  return {
+    cid: formatCID(new Uint8Array([0x01, 0x55, 0x12, 0x20, ...digest])),
+    source: bytes.toString("utf-8"),
+  };
+}
+
 export type { SimulationResult } from "./simulate.js";
 export { simulateVerification } from "./simulate.js";
+export type { SchemaViolation, SchemaIssue } from "./validator.js";
+export {
+  validate,
+  compileSchema,
+  checkSchema,
+  InvalidSchemaError,
+  SUPPORTED_FORMATS,
+} from "./validator.js";
+export type {
+  SubmissionRules,
+  SubmissionViolation,
+  SubmissionReport,
+} from "./submission.js";
+export {
+  checkSubmissionSchema,
+  getSubmissionRules,
+  verifyDirectory,
+  verifyDocument,
+  globToRegExp,
+  SUBMISSION_KEY,
+} from "./submission.js";
+export type { DataFormat, CoercionMode, ParseOptions } from "./formats.js";
+export {
+  parseDocument,
+  parseDelimited,
+  detectFormat,
+  formatFromPath,
+  DATA_FORMATS,
+} from "./formats.js";
+export type {
+  VerificationReason,
+  VerificationResult,
+  VerificationOutcome,
+} from "./result.js";
+export {
+  encodeVerificationResult,
+  decodeVerificationResult,
+  hashFailedPath,
+  formatFailedPath,
+  VERIFICATION_STATUS,
+} from "./result.js";
+export type { UnixFSFile } from "./unixfs.js";
+export { readDirectoryCar, readFileCar } from "./unixfs.js";
+export {
+  IntegrityError,
+  parseCID,
+  verifyCar,
+  readVerifiedFile,
+} from "./integrity.js";
+export type { UnixFSEntry } from "./listing.js";
+export {
+  listDirectoryCar,
+  listVerifiedDirectory,
+  formatCID,
+} from "./listing.js";
+export type { EnvelopeHeader, EnvelopeRecipient } from "./envelope.js";
+export { DecryptionError, isEnvelope, openEnvelope } from "./envelope.js";
+export type { EncryptionKeyPair, SealOptions } from "./seal.js";
+export { generateEncryptionKeyPair, sealEnvelope } from "./seal.js";
+export { contentDigest, directoryDigest, sameDigest } from "./digest.js";
+export type { Fingerprint } from "./fingerprint.js";
+export { fingerprintDocument, rowOverlap } from "./fingerprint.js";
@@ -0,0 +1,204 @@
+/**
+ * Trustless retrieval: check a gateway's CAR response against the CID that
+ * was requested.
+ *
+ * A plain gateway response is whatever bytes the gateway chooses to send.
+ * A CAR response (`?format=car`) carries the blocks of the DAG instead, and
+ * each block can be hashed and compared with the multihash in its CID. A
+ * response is accepted only if its root is the requested CID and every
+ * block matches its hash, so a broken or malicious gateway cannot substitute
+ * different content.
+ *
+ * Inlined into the DON source by scripts/bundle-source.ts, so it may only
+ * import from other bundled modules.
+ */
+
+/* global crypto */
+
+import { readCar, readFileCar, readVarint, toHex } from "./unixfs.js";
+
+/**
+ * Error thrown when a gateway response does not match the requested CID
+ */
+export class IntegrityError extends Error {
+  /** The CID that was requested */
+  readonly cid: string;
+
+  constructor(cid: string, message: string) {
+    super(`Response for ${cid} failed verification: ${message}`);
+    this.name = "IntegrityError";
+    this.cid = cid;
+  }
+}
+
+const HASH_IDENTITY = 0x00;
+const HASH_SHA2_256 = 0x12;
+
+export const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+export const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * Decode a CID string to its binary form
+ * @param cid - A CIDv0 (`Qm...`) or a base32, base58btc or base16 CIDv1
+ * @throws Error if the encoding is not supported
+ */
+export function parseCID(cid: string): Uint8Array {
+  if (cid.length === 46 && cid.startsWith("Qm")) return decodeBase58(cid);
+
+  const body = cid.slice(1);
+  switch (cid[0]) {
+    case "b":
+      return decodeBase32(body);
+    case "B":
+      return decodeBase32(body.toLowerCase());
+    case "z":
+      return decodeBase58(body);
+    case "f":
+      return decodeBase16(body);
+    default:
+      throw new Error(`Unsupported CID encoding: ${cid}`);
+  }
+}
+
+/**
+ * Verify a CAR response: its root must be the requested CID and every
+ * block must match the multihash in its CID
+ * @param bytes - The raw CAR bytes
+ * @param cid - The CID that was requested
+ * @throws IntegrityError describing the first mismatch
+ */
+export async function verifyCar(bytes: Uint8Array, cid: string): Promise<void> {
+  let car;
+  let expected;
+  try {
+    car = readCar(bytes);
+    expected = toHex(parseCID(cid));
+  } catch (error) {
+    throw new IntegrityError(cid, errorMessage(error));
+  }
+
+  const root = car.roots[0];
+  if (!root || toHex(root) !== expected) {
+    throw new IntegrityError(cid, "CAR root is not the requested CID");
+  }
+  if (!car.blocks.has(expected)) {
+    throw new IntegrityError(cid, "CAR does not contain the root block");
+  }
+
+  for (const [blockCid, block] of car.blocks) {
+    const { code, digest } = readMultihash(blockCid);
+    let actual: Uint8Array;
+    if (code === HASH_SHA2_256) {
+      actual = new Uint8Array(
+        await crypto.subtle.digest("SHA-256", block.slice()),
+      );
+    } else if (code === HASH_IDENTITY) {
+      actual = block;
+    } else {
+      throw new IntegrityError(
+        cid,
+        `block ${blockCid} uses unsupported hash 0x${code.toString(16)}`,
+      );
+    }
+    if (toHex(actual) !== digest) {
+      throw new IntegrityError(
+        cid,
+        `block ${blockCid} does not match its hash`,
+      );
+    }
+  }
+}
+
+/**
+ * Verify a CAR response and read the file at its root or at a path below it
+ * @param bytes - The raw CAR bytes
+ * @param cid - The CID that was requested (a raw block or UnixFS file, or a
+ *   directory when `path` is given)
+ * @param path - Path segments that were requested below the CID
+ * @returns The verified file contents
+ * @throws IntegrityError if the CAR does not match the CID or is incomplete
+ */
+export async function readVerifiedFile(
+  bytes: Uint8Array,
+  cid: string,
+  path: string[] = [],
+): Promise<Uint8Array> {
+  await verifyCar(bytes, cid);
+  try {
+    return readFileCar(bytes, path);
+  } catch (error) {
+    throw new IntegrityError(cid, errorMessage(error));
+  }
+}
+
+// ============ Helpers ============
+
+/**
+ * Split the multihash out of a hex-encoded CID
+ */
+function readMultihash(cidHex: string): { code: number; digest: string } {
+  const cid = decodeBase16(cidHex);
+  let offset = 0;
+  if (!(cid[0] === 0x12 && cid[1] === 0x20)) {
+    // CIDv1: skip the version and codec
+    [, offset] = readVarint(cid, 0);
+    [, offset] = readVarint(cid, offset);
+  }
+  const [code, afterCode] = readVarint(cid, offset);
+  const [length, digestStart] = readVarint(cid, afterCode);
+  return {
+    code,
+    digest: toHex(cid.subarray(digestStart, digestStart + length)),
+  };
+}
+
+function decodeBase32(text: string): Uint8Array {
+  const out: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of text) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) throw new Error(`Invalid base32 character "${char}"`);
+    buffer = ((buffer << 5) | value) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      out.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(out);
+}
+
+function decodeBase58(text: string): Uint8Array {
+  const out: number[] = [];
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) throw new Error(`Invalid base58 character "${char}"`);
+    for (let i = 0; i < out.length; i++) {
+      carry += out[i]! * 58;
+      out[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      out.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  for (const char of text) {
+    if (char !== "1") break;
+    out.push(0);
+  }
+  return new Uint8Array(out.reverse());
+}
+
+function decodeBase16(text: string): Uint8Array {
+  if (!/^([0-9a-f]{2})*$/i.test(text)) throw new Error("Invalid base16 CID");
+  return new Uint8Array(
+    (text.match(/../g) ?? []).map((byte) => parseInt(byte, 16)),
+  );
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
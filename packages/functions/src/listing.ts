@@ -0,0 +1,159 @@
+/**
+ * Directory listings for the SDK.
+ *
+ * Not inlined into the DON source: the verification script reads whole
+ * directories with readDirectoryCar, while reviewers browsing a submission
+ * only need one level at a time, which a gateway serves as a small
+ * `dag-scope=entity` CAR.
+ */
+
+import {
+  BASE32_ALPHABET,
+  BASE58_ALPHABET,
+  IntegrityError,
+  verifyCar,
+} from "./integrity.js";
+import {
+  CODEC_RAW,
+  cidCodec,
+  directoryLinks,
+  entryKind,
+  readCar,
+  resolvePath,
+  toHex,
+} from "./unixfs.js";
+
+/**
+ * An entry of a UnixFS directory
+ */
+export interface UnixFSEntry {
+  /** Entry name within the directory */
+  name: string;
+  /** The entry's CID (base32 for CIDv1, base58btc for CIDv0) */
+  cid: string;
+  /**
+   * Cumulative size of the entry's blocks as recorded in the directory
+   * (the dag-pb Tsize): the file size for single-block files, slightly
+   * more for chunked files and directories
+   */
+  size: number;
+  /**
+   * "unknown" when the entry's block is not in the CAR, as for chunked
+   * files and subdirectories in a `dag-scope=entity` response
+   */
+  type: "file" | "directory" | "unknown";
+}
+
+/**
+ * List the entries of a directory in a CAR, without descending into them
+ * @param bytes - The raw CAR bytes, rooted at the directory or at a
+ *   directory containing `path`
+ * @param path - Path segments to follow from the root
+ * @returns Entries in directory order
+ * @throws Error if the target is not a directory or blocks are missing
+ */
+export function listDirectoryCar(
+  bytes: Uint8Array,
+  path: string[] = [],
+): UnixFSEntry[] {
+  const { roots, blocks } = readCar(bytes);
+  const root = roots[0];
+  if (!root) throw new Error("CAR has no root CID");
+  const cid = resolvePath(root, path, blocks);
+  if (entryKind(cid, blocks) !== "directory") {
+    throw new Error(
+      path.length > 0
+        ? `"${path.join("/")}" is not a directory`
+        : "Root CID is not a UnixFS directory",
+    );
+  }
+
+  return directoryLinks(cid, blocks).map((link) => {
+    const kind =
+      blocks.has(toHex(link.hash)) || cidCodec(link.hash) === CODEC_RAW
+        ? entryKind(link.hash, blocks)
+        : "other";
+    return {
+      name: link.name,
+      cid: formatCID(link.hash),
+      size: link.size,
+      type: kind === "other" ? "unknown" : kind,
+    };
+  });
+}
+
+/**
+ * Verify a CAR response and list the directory at its root or at a path
+ * below it
+ * @param bytes - The raw CAR bytes
+ * @param cid - The CID that was requested
+ * @param path - Path segments that were requested below the CID
+ * @returns The directory's entries
+ * @throws IntegrityError if the CAR does not match the CID or is incomplete
+ */
+export async function listVerifiedDirectory(
+  bytes: Uint8Array,
+  cid: string,
+  path: string[] = [],
+): Promise<UnixFSEntry[]> {
+  await verifyCar(bytes, cid);
+  try {
+    return listDirectoryCar(bytes, path);
+  } catch (error) {
+    throw new IntegrityError(
+      cid,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Encode a binary CID as a string: base58btc for CIDv0, base32 for CIDv1
+ */
+export function formatCID(cid: Uint8Array): string {
+  if (cid[0] === 0x12 && cid[1] === 0x20) return encodeBase58(cid);
+  return `b${encodeBase32(cid)}`;
+}
+
+// ============ Helpers ============
+
+function encodeBase32(bytes: Uint8Array): string {
+  let out = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      out += BASE32_ALPHABET[(buffer >> bits) & 0x1f];
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 0x1f];
+  return out;
+}
+
+function encodeBase58(bytes: Uint8Array): string {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i]! * 256;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+  let out = "";
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    out += "1";
+  }
+  for (let i = digits.length - 1; i >= 0; i--) {
+    out += BASE58_ALPHABET[digits[i]!];
+  }
+  return out;
+}
@@ -0,0 +1,213 @@
+/**
+ * Bounty metadata: the JSON document a bounty's `metadataUri` points to.
+ *
+ * The SDK writes it, and the frontend and indexers read it. Documents carry
+ * a format `version` so readers can upgrade older ones. Documents written
+ * before versioning have no `version` and are read as version 0.
+ *
+ * Readers ignore fields they do not know. Newer versions may only add
+ * optional fields, so a document from a newer writer is read as the
+ * current version as long as it still matches BOUNTY_METADATA_SCHEMA.
+ */
+
+import { getType, validate, type SchemaViolation } from "./validator.js";
+
+/** Format version written by encodeBountyMetadata */
+export const BOUNTY_METADATA_VERSION = 1;
+
+/**
+ * X25519 public keys (32 bytes, base64) that submissions are sealed to.
+ * Generate them with generateEncryptionKeyPair().
+ */
+export interface BountyEncryption {
+  /** The bounty creator's key, used to read submissions */
+  publicKey: string;
+  /**
+   * Key whose private half is uploaded to the DON as the `submissionKey`
+   * secret, so encrypted data can still be verified. Without it the DON
+   * cannot read encrypted submissions.
+   */
+  verifierPublicKey?: string;
+}
+
+/**
+ * Off-chain bounty metadata stored on IPFS and referenced by Bounty.metadataUri.
+ * The reward, deadline, status and creator live on-chain.
+ */
+export interface BountyMetadata {
+  /**
+   * Format version. Documents from a newer writer keep their version
+   * number when read.
+   */
+  version: number;
+  /** Short bounty title */
+  title: string;
+  /** Longer description of the data being requested */
+  description: string;
+  /** Human-readable requirements the data must meet */
+  requirements?: string[];
+  /** Tags for discovery */
+  tags?: string[];
+  /** Keys for encrypted submissions; contributors may encrypt when set */
+  encryption?: BountyEncryption;
+}
+
+/**
+ * Metadata for a new bounty; encodeBountyMetadata adds the version
+ */
+export type NewBountyMetadata = Omit<BountyMetadata, "version">;
+
+const BASE64_KEY = { type: "string", pattern: "^[A-Za-z0-9+/]{43}=$" };
+
+/**
+ * JSON Schema for the current version. Extra fields are allowed so newer
+ * documents still validate.
+ */
+export const BOUNTY_METADATA_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "Bounty metadata",
+  type: "object",
+  required: ["version", "title", "description"],
+  properties: {
+    version: { type: "integer", minimum: BOUNTY_METADATA_VERSION },
+    title: { type: "string", minLength: 1, maxLength: 200 },
+    description: { type: "string" },
+    requirements: { type: "array", items: { type: "string", minLength: 1 } },
+    tags: {
+      type: "array",
+      items: { type: "string", minLength: 1 },
+      uniqueItems: true,
+    },
+    encryption: {
+      type: "object",
+      required: ["publicKey"],
+      properties: { publicKey: BASE64_KEY, verifierPublicKey: BASE64_KEY },
+      additionalProperties: false,
+    },
+  },
+} as const;
+
+/**
+ * Error thrown when a document is not valid bounty metadata
+ */
+export class InvalidBountyMetadataError extends Error {
+  /** Every way the document fails the schema */
+  readonly violations: SchemaViolation[];
+
+  constructor(violations: SchemaViolation[]) {
+    const details = violations
+      .map((violation) => `  ${violation.pointer || "/"}: ${violation.message}`)
+      .join("\n");
+    super(`Invalid bounty metadata:\n${details}`);
+    this.name = "InvalidBountyMetadataError";
+    this.violations = violations;
+  }
+}
+
+type MetadataDocument = Record<string, unknown>;
+
+/**
+ * Upgrades from each older version to the next
+ */
+const MIGRATIONS: Record<
+  number,
+  (document: MetadataDocument) => MetadataDocument
+> = {
+  // Unversioned documents already have the version 1 fields
+  0: (document) => ({ ...document, version: 1 }),
+};
+
+/**
+ * Serialize metadata for upload, stamping the current version
+ * @param metadata - The bounty's metadata
+ * @returns Indented JSON
+ * @throws InvalidBountyMetadataError if the metadata does not match the schema
+ *
+ * @example
+ * ```typescript
+ * const json = encodeBountyMetadata({
+ *   title: 'Weather data',
+ *   description: 'Daily readings for 2024',
+ *   requirements: ['Format: CSV'],
+ * });
+ * ```
+ */
+export function encodeBountyMetadata(metadata: NewBountyMetadata): string {
+  const document = { ...metadata, version: BOUNTY_METADATA_VERSION };
+  check(document);
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Read a metadata document, upgrading older versions and validating it
+ * @param input - JSON text, or an already-parsed document
+ * @returns The metadata. Unknown fields are kept as they are.
+ * @throws InvalidBountyMetadataError if the document is not valid metadata
+ */
+export function parseBountyMetadata(input: unknown): BountyMetadata {
+  let document: unknown = input;
+  if (typeof input === "string") {
+    try {
+      document = JSON.parse(input);
+    } catch {
+      throw new InvalidBountyMetadataError([
+        violation("", "type", "object", "string", "Document is not JSON"),
+      ]);
+    }
+  }
+  if (getType(document) !== "object") {
+    throw new InvalidBountyMetadataError([
+      violation(
+        "",
+        "type",
+        "object",
+        getType(document),
+        "Expected a JSON object",
+      ),
+    ]);
+  }
+
+  let current = document as MetadataDocument;
+  const version = current.version ?? 0;
+  if (!Number.isInteger(version) || (version as number) < 0) {
+    throw new InvalidBountyMetadataError([
+      violation(
+        "/version",
+        "type",
+        "integer",
+        version,
+        "Expected a non-negative integer version",
+      ),
+    ]);
+  }
+  for (let from = version as number; from < BOUNTY_METADATA_VERSION; from++) {
+    current = MIGRATIONS[from]!(current);
+  }
+
+  check(current);
+  return current as unknown as BountyMetadata;
+}
+
+/**
+ * Validate a current-version document
+ * @throws InvalidBountyMetadataError on any violation
+ */
+function check(document: unknown): void {
+  const violations = validate(document, BOUNTY_METADATA_SCHEMA);
+  if (violations.length > 0) {
+    throw new InvalidBountyMetadataError(violations);
+  }
+}
+
+/**
+ * A violation for a problem the schema cannot express
+ */
+function violation(
+  pointer: string,
+  keyword: string,
+  expected: unknown,
+  actual: unknown,
+  message: string,
+): SchemaViolation {
+  return { pointer, keyword, expected, actual, message };
+}
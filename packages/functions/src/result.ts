@@ -0,0 +1,169 @@
+/**
+ * Compact encoding of a verification outcome as a single uint256.
+ *
+ * The DON returns this value instead of a bare 0/1 so contributors can see
+ * why a submission was rejected. Packing everything into one word keeps the
+ * response at 32 bytes (well under the 256-byte on-chain limit) and keeps
+ * `abi.decode(response, (uint256))` working in FunctionsConsumer:
+ *
+ * | Bits    | Field                                           |
+ * | ------- | ----------------------------------------------- |
+ * | 0-7     | status code (see VERIFICATION_STATUS)           |
+ * | 8-39    | records checked (uint32, saturating)            |
+ * | 40-103  | 64-bit FNV-1a hash of the first failing path    |
+ * | 104-167 | first 64 bits of the data's SHA-256 digest      |
+ * | 248-255 | encoding version (1; 0 for legacy 0/1 results)  |
+ *
+ * Legacy 0/1 results decode as "invalid" or "valid", so the low byte alone
+ * decides whether a submission passed.
+ *
+ * Inlined into the DON source by scripts/bundle-source.ts, so it must stay
+ * self-contained.
+ */
+
+/* global TextEncoder */
+
+/** Status codes stored in the low byte of an encoded result */
+export const VERIFICATION_STATUS = {
+  invalid: 0,
+  valid: 1,
+  "schema-fetch-failed": 2,
+  "data-fetch-failed": 3,
+  timeout: 4,
+  "schema-rejected": 5,
+  "decryption-failed": 6,
+  duplicate: 7,
+  "verifier-fetch-failed": 8,
+} as const;
+
+/**
+ * Why a submission passed or failed verification
+ */
+export type VerificationReason = keyof typeof VERIFICATION_STATUS;
+
+/**
+ * A decoded verification result
+ */
+export interface VerificationResult {
+  /** Raw status code */
+  status: number;
+  /** Status name ("unknown" for codes this version does not know) */
+  reason: VerificationReason | "unknown";
+  /** Whether the submission passed */
+  verified: boolean;
+  /** Number of records checked */
+  recordCount: number;
+  /** Hash of the first failing path as 16 hex digits, if any */
+  failedPathHash: string | null;
+  /** First 64 bits of the data's content digest as 16 hex digits, if any */
+  contentDigest: string | null;
+  /** Encoding version (0 for legacy 0/1 results) */
+  version: number;
+}
+
+/**
+ * Fields of a result to encode
+ */
+export interface VerificationOutcome {
+  reason: VerificationReason;
+  /** Number of records checked (defaults to 0) */
+  recordCount?: number;
+  /** The first failing path, e.g. "/0/temperature" or "day1.csv#3/temperature" */
+  failedPath?: string;
+  /** The data's content digest in hex; only the first 16 digits are kept */
+  contentDigest?: string;
+}
+
+export const RESULT_VERSION = 1;
+
+const MAX_RECORD_COUNT = 0xffffffff;
+const FNV_OFFSET = 0xcbf29ce484222325n;
+const FNV_PRIME = 0x100000001b3n;
+const MASK_64 = 0xffffffffffffffffn;
+
+/**
+ * Encode a verification outcome
+ * @returns The value to return from the DON via Functions.encodeUint256
+ */
+export function encodeVerificationResult(outcome: VerificationOutcome): bigint {
+  const count = Math.min(
+    Math.max(Math.floor(outcome.recordCount ?? 0), 0),
+    MAX_RECORD_COUNT,
+  );
+  const hash =
+    outcome.failedPath === undefined
+      ? 0n
+      : BigInt("0x" + hashFailedPath(outcome.failedPath));
+  const digest = outcome.contentDigest
+    ? BigInt("0x" + outcome.contentDigest.slice(0, 16))
+    : 0n;
+
+  return (
+    (BigInt(RESULT_VERSION) << 248n) |
+    (digest << 104n) |
+    (hash << 40n) |
+    (BigInt(count) << 8n) |
+    BigInt(VERIFICATION_STATUS[outcome.reason])
+  );
+}
+
+/**
+ * Decode a verification result
+ * @param value - The uint256 as a bigint, number or hex string (the raw
+ *   32-byte response, with or without 0x)
+ * @throws Error if the value is not a valid uint256
+ */
+export function decodeVerificationResult(
+  value: bigint | number | string,
+): VerificationResult {
+  const word =
+    typeof value === "string"
+      ? BigInt(value.startsWith("0x") ? value : "0x" + value)
+      : BigInt(value);
+  if (word < 0n || word >> 256n !== 0n) {
+    throw new Error("Verification result is not a uint256");
+  }
+
+  const status = Number(word & 0xffn);
+  const hash = (word >> 40n) & MASK_64;
+  const digest = (word >> 104n) & MASK_64;
+  const reason = (
+    Object.keys(VERIFICATION_STATUS) as VerificationReason[]
+  ).find((key) => VERIFICATION_STATUS[key] === status);
+
+  return {
+    status,
+    reason: reason ?? "unknown",
+    verified: status === VERIFICATION_STATUS.valid,
+    recordCount: Number((word >> 8n) & 0xffffffffn),
+    failedPathHash: hash === 0n ? null : hash.toString(16).padStart(16, "0"),
+    contentDigest: digest === 0n ? null : digest.toString(16).padStart(16, "0"),
+    version: Number(word >> 248n),
+  };
+}
+
+/**
+ * Hash a failing path the way the DON does (64-bit FNV-1a over UTF-8)
+ * @returns 16 hex digits
+ */
+export function hashFailedPath(path: string): string {
+  let hash = FNV_OFFSET;
+  for (const byte of new TextEncoder().encode(path)) {
+    hash ^= BigInt(byte);
+    hash = (hash * FNV_PRIME) & MASK_64;
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+/**
+ * Describe where a violation occurred as a single path
+ * @returns `file#record/pointer` for directory records, the pointer otherwise
+ */
+export function formatFailedPath(violation: {
+  pointer: string;
+  file?: string;
+  record?: number;
+}): string {
+  const record = violation.record === undefined ? "" : `#${violation.record}`;
+  return `${violation.file ?? ""}${record}${violation.pointer}`;
+}
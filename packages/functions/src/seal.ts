@@ -0,0 +1,160 @@
+/**
+ * Sealing encrypted submissions (see src/envelope.ts for the format).
+ *
+ * Only contributors and tests seal envelopes, so this module is not inlined
+ * into the DON source.
+ */
+
+import {
+  ENVELOPE_ALGORITHM,
+  ENVELOPE_MAGIC,
+  ENVELOPE_VERSION,
+  deriveWrappingKey,
+  type EnvelopeHeader,
+  type EnvelopeRecipient,
+} from "./envelope.js";
+
+/**
+ * An X25519 key pair, both halves as 32 raw bytes in base64
+ */
+export interface EncryptionKeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+/**
+ * Options for sealEnvelope
+ */
+export interface SealOptions {
+  /** MIME type of the data, recorded in the (unencrypted) header */
+  contentType?: string;
+}
+
+/**
+ * Generate an X25519 key pair for receiving encrypted submissions
+ */
+export async function generateEncryptionKeyPair(): Promise<EncryptionKeyPair> {
+  const pair = (await crypto.subtle.generateKey({ name: "X25519" }, true, [
+    "deriveBits",
+  ])) as CryptoKeyPair;
+  const publicKey = new Uint8Array(
+    await crypto.subtle.exportKey("raw", pair.publicKey),
+  );
+  const pkcs8 = new Uint8Array(
+    await crypto.subtle.exportKey("pkcs8", pair.privateKey),
+  );
+  return {
+    publicKey: encodeBase64(publicKey),
+    // The raw key is the last 32 bytes of the PKCS#8 encoding
+    privateKey: encodeBase64(pkcs8.subarray(pkcs8.length - 32)),
+  };
+}
+
+/**
+ * Encrypt data so that only the given recipients can read it
+ * @param data - The plaintext
+ * @param publicKeys - Recipients' X25519 public keys in base64
+ * @param options - Optional content type
+ * @returns The envelope bytes
+ * @throws Error if there are no recipients or a key is not 32 bytes
+ */
+export async function sealEnvelope(
+  data: Uint8Array,
+  publicKeys: string[],
+  options: SealOptions = {},
+): Promise<Uint8Array> {
+  if (publicKeys.length === 0) {
+    throw new Error("An envelope needs at least one recipient");
+  }
+
+  const contentKey = crypto.getRandomValues(new Uint8Array(32));
+  const recipients: EnvelopeRecipient[] = [];
+  for (const publicKey of new Set(publicKeys)) {
+    recipients.push(await wrapKey(contentKey, publicKey));
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const header: EnvelopeHeader = {
+    version: ENVELOPE_VERSION,
+    algorithm: ENVELOPE_ALGORITHM,
+    ...(options.contentType && { contentType: options.contentType }),
+    iv: encodeBase64(iv),
+    recipients,
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    contentKey,
+    "AES-GCM",
+    false,
+    ["encrypt"],
+  );
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: headerBytes },
+      key,
+      data.slice(),
+    ),
+  );
+
+  const out = new Uint8Array(8 + headerBytes.length + ciphertext.length);
+  out.set(new TextEncoder().encode(ENVELOPE_MAGIC), 0);
+  new DataView(out.buffer).setUint32(4, headerBytes.length);
+  out.set(headerBytes, 8);
+  out.set(ciphertext, 8 + headerBytes.length);
+  return out;
+}
+
+// ============ Helpers ============
+
+/**
+ * Wrap the content key for one recipient with a fresh ephemeral key
+ */
+async function wrapKey(
+  contentKey: Uint8Array,
+  publicKey: string,
+): Promise<EnvelopeRecipient> {
+  const recipientPublicKey = decodeBase64(publicKey);
+  if (recipientPublicKey.length !== 32) {
+    throw new Error(`Invalid X25519 public key: ${publicKey}`);
+  }
+
+  const ephemeral = (await crypto.subtle.generateKey({ name: "X25519" }, true, [
+    "deriveBits",
+  ])) as CryptoKeyPair;
+  const ephemeralPublicKey = new Uint8Array(
+    await crypto.subtle.exportKey("raw", ephemeral.publicKey),
+  );
+  const wrappingKey = await deriveWrappingKey(
+    ephemeral.privateKey,
+    recipientPublicKey,
+    ephemeralPublicKey,
+    recipientPublicKey,
+  );
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappedKey = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      wrappingKey,
+      contentKey.slice(),
+    ),
+  );
+
+  return {
+    publicKey,
+    ephemeralPublicKey: encodeBase64(ephemeralPublicKey),
+    wrappedKey: encodeBase64(wrappedKey),
+    iv: encodeBase64(iv),
+  };
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function decodeBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
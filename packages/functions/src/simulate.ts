@@ -1,13 +1,24 @@
-import {
-  simulateScript,
-  decodeResult,
-  ReturnType,
-} from "@chainlink/functions-toolkit";
+import { simulateScript } from "@chainlink/functions-toolkit";
 import { getVerificationSource } from "./index.js";
+import {
+  decodeVerificationResult,
+  hashFailedPath,
+  type VerificationReason,
+} from "./result.js";
 
 export interface SimulationResult {
   /** Whether the data passed schema validation */
   verified: boolean;
+  /** Why the data passed or failed (null if the simulation itself failed) */
+  reason: VerificationReason | "unknown" | null;
+  /** Number of records checked */
+  recordCount: number;
+  /** The first failing path, e.g. "/0/temperature" or "day1.csv#3/temperature" */
+  failedPath: string | null;
+  /** Hash of the failing path as returned on-chain */
+  failedPathHash: string | null;
+  /** First 64 bits of the data's content digest as returned on-chain */
+  contentDigest: string | null;
   /** Raw response hex string from the simulation */
   responseHex: string | null;
   /** Error message if the simulation failed */
@@ -20,26 +31,37 @@ export interface SimulationResult {
  * Simulate the verification source code locally using the Chainlink Functions toolkit.
  * Requires Deno to be installed.
  *
- * @param dataCid - IPFS CID of the data to verify
+ * @param dataCid - IPFS CID of the data to verify (a directory CID when the
+ *   schema declares `"x-submission": { "layout": "directory" }`)
  * @param schemaCid - IPFS CID of the JSON Schema
  * @param gatewayOverride - Optional gateway base URL (for testing with local server)
+ * @param secrets - Optional DON secrets, such as `submissionKey` for
+ *   encrypted submissions
+ * @param knownDigests - Content digests of earlier submissions to the
+ *   bounty; data matching one is reported as a duplicate
  * @returns Simulation result with verification outcome and logs
  */
 export async function simulateVerification(
   dataCid: string,
   schemaCid: string,
   gatewayOverride?: string,
+  secrets?: Record<string, string>,
+  knownDigests?: string[],
 ): Promise<SimulationResult> {
   const source = getVerificationSource();
 
   const simArgs = [dataCid, schemaCid];
-  if (gatewayOverride) {
-    simArgs.push(gatewayOverride);
+  if (gatewayOverride || knownDigests?.length) {
+    simArgs.push(gatewayOverride ?? "");
+  }
+  if (knownDigests?.length) {
+    simArgs.push(knownDigests.join(","));
   }
 
   const result = await simulateScript({
     source,
     args: simArgs,
+    secrets,
     maxOnChainResponseBytes: 256,
     maxExecutionTimeMs: 10_000,
     maxMemoryUsageMb: 128,
@@ -51,32 +73,40 @@ export async function simulateVerification(
   });
 
   const logs = result.capturedTerminalOutput ?? "";
+  const failed = {
+    verified: false,
+    reason: null,
+    recordCount: 0,
+    failedPath: null,
+    failedPathHash: null,
+    contentDigest: null,
+    responseHex: null,
+    logs,
+  };
 
   if (result.errorString) {
-    return {
-      verified: false,
-      responseHex: null,
-      error: result.errorString,
-      logs,
-    };
+    return { ...failed, error: result.errorString };
   }
 
   if (!result.responseBytesHexstring) {
-    return {
-      verified: false,
-      responseHex: null,
-      error: "No response returned from simulation",
-      logs,
-    };
+    return { ...failed, error: "No response returned from simulation" };
   }
 
-  const decoded = decodeResult(
-    result.responseBytesHexstring,
-    ReturnType.uint256,
-  );
+  const decoded = decodeVerificationResult(result.responseBytesHexstring);
+  // The path itself only appears in the logs; trust it if its hash matches
+  const logged = /^Failed path: (.*) \(hash [0-9a-f]+\)$/m.exec(logs)?.[1];
+  const failedPath =
+    logged !== undefined && hashFailedPath(logged) === decoded.failedPathHash
+      ? logged
+      : null;
 
   return {
-    verified: BigInt(decoded) === 1n,
+    verified: decoded.verified,
+    reason: decoded.reason,
+    recordCount: decoded.recordCount,
+    failedPath,
+    failedPathHash: decoded.failedPathHash,
+    contentDigest: decoded.contentDigest,
     responseHex: result.responseBytesHexstring,
     error: null,
     logs,
@@ -1,155 +1,89 @@
-/* global Functions, args, console */
+// Generated by scripts/bundle-source.ts from src/source.template.js. Do not edit.
+/* global Functions, args, secrets, console, crypto, TextDecoder */
 // Chainlink Functions verification source code
 // Runs on the Chainlink DON (Deno sandbox)
 //
-// args[0] = IPFS CID of the submitted data
-// args[1] = IPFS CID of the JSON Schema to validate against
-// args[2] = (optional) Gateway base URL override (for testing)
+// Every request carries this script, so it stays small: it fetches the
+// verifier module (src/verifier.js) from IPFS, checks it against the SHA-256
+// pinned below and runs it. See src/verifier.template.js for the args,
+// secrets and result.
 //
-// Returns: Functions.encodeUint256(1) if valid, Functions.encodeUint256(0) if invalid
-
-const dataCid = args[0];
-const schemaCid = args[1];
-const gatewayOverride = args[2];
-
-if (!dataCid || !schemaCid) {
-  console.log("Missing required arguments: dataCid and schemaCid");
-  return Functions.encodeUint256(0);
-}
-
-console.log(`Data CID: ${dataCid}`);
-console.log(`Schema CID: ${schemaCid}`);
-
-// --- IPFS Fetching ---
-
-const GATEWAYS = gatewayOverride
-  ? [gatewayOverride]
+// The verifier must be pinned on IPFS under VERIFIER_CID. Fetching it takes
+// one HTTP query per gateway tried, out of the request's query allowance.
+// If no gateway returns it, the result is verifier-fetch-failed rather than
+// an error, so the submission is not mistaken for invalid data.
+
+const VERIFIER_CID =
+  "bafkreihmzrqghz4iid546ysulpx5g2aenavlc7mm4oni5vx5vhqfk47ipu";
+const VERIFIER_SHA256 =
+  "eccc6063e78840fbcf62545befd36804682ab17d8ce39a8ed6fda9e05573e87d";
+
+const VERIFIER_GATEWAYS = args[2]
+  ? [args[2]]
   : ["https://w3s.link/ipfs/", "https://ipfs.io/ipfs/"];
 
-async function fetchFromIPFS(cid) {
-  for (const gw of GATEWAYS) {
-    const sep = gw.endsWith("/") ? "" : "/";
-    const url = `${gw}${sep}${cid}`;
-    console.log(`Fetching: ${url}`);
-    const res = await Functions.makeHttpRequest({ url, timeout: 8000 });
-    if (!res.error) {
-      return res.data;
-    }
-    console.log(`Gateway failed: ${gw} — ${res.message || "unknown error"}`);
+// Encoded as in src/result.ts: version 1, status verifier-fetch-failed
+const VERIFIER_FETCH_FAILED = (1n << 248n) | 8n;
+
+// The DON allows 5 HTTP requests per execution. The verifier's schema and
+// data fetches share what the verifier fetch left, and fail once it is spent.
+const MAX_HTTP_REQUESTS = 5;
+let httpRequests = 0;
+function makeHttpRequest(request) {
+  if (httpRequests >= MAX_HTTP_REQUESTS) {
+    return Promise.resolve({
+      error: true,
+      message: `HTTP request limit (${MAX_HTTP_REQUESTS}) reached`,
+    });
   }
-  return null;
+  httpRequests++;
+  return Functions.makeHttpRequest(request);
 }
 
-// --- JSON Schema Validator ---
-
-function getType(value) {
-  if (value === null) return "null";
-  if (Array.isArray(value)) return "array";
-  return typeof value;
+async function sha256Hex(bytes) {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+  return Array.from(hash, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
 }
 
-function validate(data, schema) {
-  if (typeof schema !== "object" || schema === null) return true;
-
-  // type
-  if (schema.type) {
-    const actual = getType(data);
-    if (schema.type === "integer") {
-      if (typeof data !== "number" || !Number.isInteger(data)) return false;
-    } else if (actual !== schema.type) {
-      return false;
-    }
-  }
-
-  // enum
-  if (Array.isArray(schema.enum)) {
-    if (!schema.enum.some((v) => JSON.stringify(v) === JSON.stringify(data))) {
-      return false;
-    }
-  }
-
-  // const
-  if ("const" in schema) {
-    if (JSON.stringify(data) !== JSON.stringify(schema.const)) return false;
-  }
-
-  // number constraints
-  if (typeof data === "number") {
-    if (schema.minimum !== undefined && data < schema.minimum) return false;
-    if (schema.maximum !== undefined && data > schema.maximum) return false;
-  }
-
-  // string constraints
-  if (typeof data === "string") {
-    if (schema.minLength !== undefined && data.length < schema.minLength)
-      return false;
-    if (schema.maxLength !== undefined && data.length > schema.maxLength)
-      return false;
-    if (schema.pattern) {
-      const re = new RegExp(schema.pattern);
-      if (!re.test(data)) return false;
-    }
-  }
-
-  // array constraints
-  if (Array.isArray(data)) {
-    if (schema.minItems !== undefined && data.length < schema.minItems)
-      return false;
-    if (schema.maxItems !== undefined && data.length > schema.maxItems)
-      return false;
-    if (schema.items) {
-      for (const item of data) {
-        if (!validate(item, schema.items)) return false;
-      }
-    }
-  }
-
-  // object constraints
-  if (getType(data) === "object") {
-    // required
-    if (Array.isArray(schema.required)) {
-      for (const key of schema.required) {
-        if (!(key in data)) return false;
-      }
-    }
-    // properties
-    if (schema.properties) {
-      for (const key of Object.keys(schema.properties)) {
-        if (key in data) {
-          if (!validate(data[key], schema.properties[key])) return false;
-        }
-      }
+// The verifier is a single raw block, so its bytes are exactly what the CID
+// hashes. A gateway serving anything else is skipped.
+async function fetchVerifier() {
+  for (const gw of VERIFIER_GATEWAYS) {
+    const sep = gw.endsWith("/") ? "" : "/";
+    const res = await makeHttpRequest({
+      url: `${gw}${sep}${VERIFIER_CID}?format=raw`,
+      timeout: 8000,
+      responseType: "arraybuffer",
+      headers: { Accept: "application/vnd.ipld.raw" },
+    });
+    if (res.error) {
+      console.log(
+        `Verifier fetch failed: ${gw} — ${res.message || "unknown error"}`,
+      );
+      continue;
     }
-    // additionalProperties
-    if (schema.additionalProperties === false && schema.properties) {
-      const allowed = new Set(Object.keys(schema.properties));
-      for (const key of Object.keys(data)) {
-        if (!allowed.has(key)) return false;
-      }
+    const bytes = new Uint8Array(res.data);
+    if ((await sha256Hex(bytes)) !== VERIFIER_SHA256) {
+      console.log(`Verifier fetch failed: ${gw} — content does not match`);
+      continue;
     }
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
   }
-
-  return true;
-}
-
-// --- Main Logic ---
-
-const schema = await fetchFromIPFS(schemaCid);
-if (schema === null) {
-  console.log("Failed to fetch schema from IPFS");
-  return Functions.encodeUint256(0);
+  return null;
 }
 
-const data = await fetchFromIPFS(dataCid);
-if (data === null) {
-  console.log("Failed to fetch data from IPFS");
-  return Functions.encodeUint256(0);
+const verifier = await fetchVerifier();
+if (verifier === null) {
+  console.log(`Verifier ${VERIFIER_CID} is not available`);
+  return Functions.encodeUint256(VERIFIER_FETCH_FAILED);
 }
-
-console.log("Schema fetched successfully");
-console.log("Data fetched successfully");
-
-const valid = validate(data, schema);
-console.log(`Validation result: ${valid ? "VALID" : "INVALID"}`);
-
-return Functions.encodeUint256(valid ? 1 : 0);
+const { default: verify } = await import(
+  `data:text/javascript,${encodeURIComponent(verifier)}`
+);
+return verify(
+  Object.assign(Object.create(Functions), { makeHttpRequest }),
+  args,
+  secrets,
+);
@@ -0,0 +1,86 @@
+/* global Functions, args, secrets, console, crypto, TextDecoder */
+// Chainlink Functions verification source code
+// Runs on the Chainlink DON (Deno sandbox)
+//
+// Every request carries this script, so it stays small: it fetches the
+// verifier module (src/verifier.js) from IPFS, checks it against the SHA-256
+// pinned below and runs it. See src/verifier.template.js for the args,
+// secrets and result.
+//
+// The verifier must be pinned on IPFS under VERIFIER_CID. Fetching it takes
+// one HTTP query per gateway tried, out of the request's query allowance.
+// If no gateway returns it, the result is verifier-fetch-failed rather than
+// an error, so the submission is not mistaken for invalid data.
+
+const VERIFIER_CID = /* @verifier cid */ "";
+const VERIFIER_SHA256 = /* @verifier sha256 */ "";
+
+const VERIFIER_GATEWAYS = args[2]
+  ? [args[2]]
+  : ["https://w3s.link/ipfs/", "https://ipfs.io/ipfs/"];
+
+// Encoded as in src/result.ts: version 1, status verifier-fetch-failed
+const VERIFIER_FETCH_FAILED = (1n << 248n) | 8n;
+
+// The DON allows 5 HTTP requests per execution. The verifier's schema and
+// data fetches share what the verifier fetch left, and fail once it is spent.
+const MAX_HTTP_REQUESTS = 5;
+let httpRequests = 0;
+function makeHttpRequest(request) {
+  if (httpRequests >= MAX_HTTP_REQUESTS) {
+    return Promise.resolve({
+      error: true,
+      message: `HTTP request limit (${MAX_HTTP_REQUESTS}) reached`,
+    });
+  }
+  httpRequests++;
+  return Functions.makeHttpRequest(request);
+}
+
+async function sha256Hex(bytes) {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+  return Array.from(hash, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+// The verifier is a single raw block, so its bytes are exactly what the CID
+// hashes. A gateway serving anything else is skipped.
+async function fetchVerifier() {
+  for (const gw of VERIFIER_GATEWAYS) {
+    const sep = gw.endsWith("/") ? "" : "/";
+    const res = await makeHttpRequest({
+      url: `${gw}${sep}${VERIFIER_CID}?format=raw`,
+      timeout: 8000,
+      responseType: "arraybuffer",
+      headers: { Accept: "application/vnd.ipld.raw" },
+    });
+    if (res.error) {
+      console.log(
+        `Verifier fetch failed: ${gw} — ${res.message || "unknown error"}`,
+      );
+      continue;
+    }
+    const bytes = new Uint8Array(res.data);
+    if ((await sha256Hex(bytes)) !== VERIFIER_SHA256) {
+      console.log(`Verifier fetch failed: ${gw} — content does not match`);
+      continue;
+    }
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  }
+  return null;
+}
+
+const verifier = await fetchVerifier();
+if (verifier === null) {
+  console.log(`Verifier ${VERIFIER_CID} is not available`);
+  return Functions.encodeUint256(VERIFIER_FETCH_FAILED);
+}
+const { default: verify } = await import(
+  `data:text/javascript,${encodeURIComponent(verifier)}`
+);
+return verify(
+  Object.assign(Object.create(Functions), { makeHttpRequest }),
+  args,
+  secrets,
+);
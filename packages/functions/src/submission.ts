@@ -0,0 +1,431 @@
+/**
+ * Submission layout and format rules for bounties.
+ *
+ * A bounty schema may carry an `x-submission` extension describing how a
+ * submission is laid out and encoded. With the default `layout: "file"` the
+ * data CID is one document in `format` (JSON unless declared otherwise),
+ * validated against the rest of the schema; NDJSON, CSV and TSV documents
+ * are arrays of rows, so `items` describes a row.
+ *
+ * With `layout: "directory"` the data CID is a UnixFS directory: every file
+ * matching one of the `include` globs is split into records (one per JSON
+ * file, one per NDJSON line or CSV/TSV row), and each record is validated
+ * against the rest of the schema.
+ *
+ * ```json
+ * {
+ *   "x-submission": {
+ *     "layout": "directory",
+ *     "include": ["*.jsonl"],
+ *     "minFiles": 1,
+ *     "minRecords": 100
+ *   },
+ *   "type": "object",
+ *   "required": ["temperature"]
+ * }
+ * ```
+ *
+ * Inlined into the DON source alongside the validator, so it may only
+ * import from other bundled modules.
+ */
+
+/* global TextDecoder */
+
+import {
+  checkSchema,
+  compileSchema,
+  validate,
+  type SchemaIssue,
+  type SchemaViolation,
+} from "./validator.js";
+import {
+  COERCION_MODES,
+  DATA_FORMATS,
+  detectFormat,
+  formatFromPath,
+  parseDocument,
+  type CoercionMode,
+  type DataFormat,
+} from "./formats.js";
+import type { UnixFSFile } from "./unixfs.js";
+
+/**
+ * How a submission is laid out, read from the schema's `x-submission` key
+ */
+export interface SubmissionRules {
+  /** "file" for a single document, "directory" for a UnixFS directory */
+  layout: "file" | "directory";
+  /** Globs selecting the files to verify (directory layout only) */
+  include: string[];
+  /** Minimum number of matching files */
+  minFiles: number;
+  /** Maximum number of matching files */
+  maxFiles?: number;
+  /** Minimum number of records in each matching file */
+  minRecords?: number;
+  /** Maximum number of records in each matching file */
+  maxRecords?: number;
+  /** Data format; "auto" detects it from the file extension or contents */
+  format: DataFormat | "auto";
+  /** Cell delimiter for CSV/TSV */
+  delimiter?: string;
+  /** Whether CSV/TSV files start with a header row */
+  header: boolean;
+  /** How CSV/TSV cells are coerced from strings */
+  coerce: CoercionMode;
+}
+
+/**
+ * A violation found while verifying a submission
+ */
+export interface SubmissionViolation extends SchemaViolation {
+  /** Path of the offending file ("" for single documents and directory-level limits) */
+  file: string;
+  /** Index of the offending record within the file, if any */
+  record?: number;
+}
+
+/**
+ * The outcome of verifying a submission
+ */
+export interface SubmissionReport {
+  /** All violations found (empty when the submission is valid) */
+  violations: SubmissionViolation[];
+  /** Number of records checked */
+  recordCount: number;
+}
+
+/** Schema key holding the submission rules */
+export const SUBMISSION_KEY = "x-submission";
+
+/** Files checked when a directory layout does not set `include` */
+export const DEFAULT_INCLUDE = [
+  "*.json",
+  "*.jsonl",
+  "*.ndjson",
+  "*.csv",
+  "*.tsv",
+];
+
+const RULE_KEYS = [
+  "layout",
+  "include",
+  "minFiles",
+  "maxFiles",
+  "minRecords",
+  "maxRecords",
+  "format",
+  "delimiter",
+  "header",
+  "coerce",
+];
+
+const DIRECTORY_ONLY_KEYS = [
+  "include",
+  "minFiles",
+  "maxFiles",
+  "minRecords",
+  "maxRecords",
+];
+
+/**
+ * Check a bounty schema, including its `x-submission` rules
+ * @param schema - The bounty's JSON Schema
+ * @returns Problems that make the schema unusable (empty when usable)
+ */
+export function checkSubmissionSchema(schema: unknown): SchemaIssue[] {
+  const issues = checkSchema(schema);
+  if (typeof schema !== "object" || schema === null) return issues;
+
+  const rules = (schema as Record<string, unknown>)[SUBMISSION_KEY];
+  if (rules === undefined) return issues;
+
+  const at = `/${SUBMISSION_KEY}`;
+  const issue = (key: string, message: string) =>
+    issues.push({
+      schemaPointer: key ? `${at}/${key}` : at,
+      keyword: SUBMISSION_KEY,
+      message,
+    });
+
+  if (typeof rules !== "object" || rules === null || Array.isArray(rules)) {
+    issue("", `${SUBMISSION_KEY} must be an object`);
+    return issues;
+  }
+  const r = rules as Record<string, unknown>;
+
+  for (const key of Object.keys(r)) {
+    if (!RULE_KEYS.includes(key)) issue(key, `unsupported rule "${key}"`);
+  }
+
+  const layout = r.layout ?? "file";
+  if (layout !== "file" && layout !== "directory") {
+    issue("layout", 'layout must be "file" or "directory"');
+  } else if (layout === "file") {
+    for (const key of DIRECTORY_ONLY_KEYS) {
+      if (key in r) issue(key, `${key} requires layout "directory"`);
+    }
+  }
+
+  if ("include" in r) {
+    const include = r.include;
+    const globs = Array.isArray(include) ? include : [include];
+    if (
+      globs.length === 0 ||
+      !globs.every((g) => typeof g === "string" && globToRegExp(g) !== null)
+    ) {
+      issue("include", "include must be a glob or a non-empty array of globs");
+    }
+  }
+
+  if (
+    "format" in r &&
+    !(DATA_FORMATS as unknown[]).concat("auto").includes(r.format)
+  ) {
+    issue("format", `format must be one of ${DATA_FORMATS.join(", ")} or auto`);
+  }
+  if (
+    "delimiter" in r &&
+    (typeof r.delimiter !== "string" || !/^[^"\r\n]+$/.test(r.delimiter))
+  ) {
+    issue("delimiter", "delimiter must be a non-empty string without quotes");
+  }
+  if ("header" in r && typeof r.header !== "boolean") {
+    issue("header", "header must be a boolean");
+  }
+  if ("coerce" in r && !(COERCION_MODES as unknown[]).includes(r.coerce)) {
+    issue("coerce", `coerce must be one of ${COERCION_MODES.join(", ")}`);
+  }
+
+  for (const key of ["minFiles", "maxFiles", "minRecords", "maxRecords"]) {
+    const value = r[key];
+    if (
+      value !== undefined &&
+      (typeof value !== "number" || !Number.isInteger(value) || value < 0)
+    ) {
+      issue(key, `${key} must be a non-negative integer`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Read the submission rules from a bounty schema
+ * @param schema - A schema that passed checkSubmissionSchema()
+ * @returns The rules, with defaults applied
+ */
+export function getSubmissionRules(schema: unknown): SubmissionRules {
+  const raw =
+    typeof schema === "object" && schema !== null
+      ? ((schema as Record<string, unknown>)[SUBMISSION_KEY] as
+          Record<string, unknown> | undefined)
+      : undefined;
+  const include = raw?.include ?? DEFAULT_INCLUDE;
+  const layout = raw?.layout === "directory" ? "directory" : "file";
+
+  return {
+    layout,
+    include: Array.isArray(include)
+      ? (include as string[])
+      : [include as string],
+    minFiles: typeof raw?.minFiles === "number" ? raw.minFiles : 1,
+    maxFiles: typeof raw?.maxFiles === "number" ? raw.maxFiles : undefined,
+    minRecords:
+      typeof raw?.minRecords === "number" ? raw.minRecords : undefined,
+    maxRecords:
+      typeof raw?.maxRecords === "number" ? raw.maxRecords : undefined,
+    format:
+      (raw?.format as DataFormat | "auto" | undefined) ??
+      (layout === "directory" ? "auto" : "json"),
+    delimiter: typeof raw?.delimiter === "string" ? raw.delimiter : undefined,
+    header: raw?.header !== false,
+    coerce: (raw?.coerce as CoercionMode | undefined) ?? "schema",
+  };
+}
+
+/**
+ * Verify a single-document submission
+ * @param text - The document text
+ * @param schema - The bounty's JSON Schema, applied to the whole document
+ * @param rules - The schema's submission rules
+ * @returns The violations found and the number of records checked (the
+ *   rows of an NDJSON/CSV/TSV document or a JSON array, otherwise 1)
+ */
+export function verifyDocument(
+  text: string,
+  schema: unknown,
+  rules: SubmissionRules,
+): SubmissionReport {
+  const format = rules.format === "auto" ? detectFormat(text) : rules.format;
+  const rowSchema =
+    typeof schema === "object" && schema !== null
+      ? (schema as Record<string, unknown>).items
+      : undefined;
+
+  let document: unknown;
+  try {
+    document = parseDocument(text, {
+      ...rules,
+      format,
+      rowSchema,
+      rootSchema: schema,
+    });
+  } catch (error) {
+    return { violations: [parseViolation("", format, error)], recordCount: 0 };
+  }
+  return {
+    violations: validate(document, schema).map((v) => ({ ...v, file: "" })),
+    recordCount: Array.isArray(document) ? document.length : 1,
+  };
+}
+
+/**
+ * Verify the files of a directory submission
+ * @param files - Every file in the submitted directory
+ * @param schema - The bounty's JSON Schema, applied to each record
+ * @param rules - The schema's submission rules
+ * @param maxViolations - Stop after this many violations (defaults to all)
+ * @returns The violations found and the number of records checked
+ */
+export function verifyDirectory(
+  files: UnixFSFile[],
+  schema: unknown,
+  rules: SubmissionRules,
+  maxViolations = Infinity,
+): SubmissionReport {
+  const violations: SubmissionViolation[] = [];
+  let recordCount = 0;
+  // The schema is checked once, not again for every record
+  const validateRecord = compileSchema(schema);
+  const globs = rules.include.map((g) => globToRegExp(g)!);
+  const matched = files.filter((f) => globs.some((g) => g.test(f.path)));
+  const limit = (
+    keyword: string,
+    expected: number,
+    actual: number,
+    message: string,
+    file = "",
+  ) =>
+    violations.push({ file, pointer: "", keyword, expected, actual, message });
+
+  if (matched.length < rules.minFiles) {
+    limit(
+      "minFiles",
+      rules.minFiles,
+      matched.length,
+      `must contain at least ${rules.minFiles} file(s) matching ${rules.include.join(", ")}`,
+    );
+  }
+  if (rules.maxFiles !== undefined && matched.length > rules.maxFiles) {
+    limit(
+      "maxFiles",
+      rules.maxFiles,
+      matched.length,
+      `must contain at most ${rules.maxFiles} matching file(s)`,
+    );
+  }
+
+  for (const file of matched) {
+    if (violations.length >= maxViolations) break;
+
+    let format: DataFormat = "json";
+    let records: unknown[];
+    try {
+      const text = new TextDecoder("utf-8", { fatal: true }).decode(file.bytes);
+      format =
+        rules.format !== "auto"
+          ? rules.format
+          : (formatFromPath(file.path) ?? detectFormat(text));
+      const parsed = parseDocument(text, {
+        ...rules,
+        format,
+        rowSchema: schema,
+      });
+      records = format === "json" ? [parsed] : (parsed as unknown[]);
+    } catch (error) {
+      violations.push(parseViolation(file.path, format, error));
+      continue;
+    }
+
+    if (rules.minRecords !== undefined && records.length < rules.minRecords) {
+      limit(
+        "minRecords",
+        rules.minRecords,
+        records.length,
+        `must contain at least ${rules.minRecords} record(s)`,
+        file.path,
+      );
+    }
+    if (rules.maxRecords !== undefined && records.length > rules.maxRecords) {
+      limit(
+        "maxRecords",
+        rules.maxRecords,
+        records.length,
+        `must contain at most ${rules.maxRecords} record(s)`,
+        file.path,
+      );
+    }
+
+    for (let i = 0; i < records.length; i++) {
+      if (violations.length >= maxViolations) break;
+      recordCount++;
+      for (const v of validateRecord(records[i])) {
+        violations.push({ ...v, file: file.path, record: i });
+      }
+    }
+  }
+
+  return { violations: violations.slice(0, maxViolations), recordCount };
+}
+
+/**
+ * Convert a glob to a regular expression matching whole paths.
+ * Supports `*` and `?` (within one path segment), `**` (across segments)
+ * and `{a,b}` alternatives.
+ * @returns The expression, or null if the glob is malformed
+ */
+export function globToRegExp(glob: string): RegExp | null {
+  let source = "";
+  let depth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      source += "(?:";
+      depth++;
+    } else if (char === "}" && depth > 0) {
+      source += ")";
+      depth--;
+    } else if (char === "," && depth > 0) {
+      source += "|";
+    } else {
+      source += /[.+^$()|[\]\\{}]/.test(char) ? `\\${char}` : char;
+    }
+  }
+  return depth === 0 ? new RegExp("^" + source + "$") : null;
+}
+
+// ============ Helpers ============
+
+function parseViolation(
+  file: string,
+  format: DataFormat,
+  error: unknown,
+): SubmissionViolation {
+  return {
+    file,
+    pointer: "",
+    keyword: "parse",
+    expected: format,
+    actual: error instanceof Error ? error.message : String(error),
+    message: `must be valid ${format.toUpperCase()}`,
+  };
+}
@@ -0,0 +1,450 @@
+/**
+ * Minimal CAR and UnixFS reader for the Chainlink Functions source.
+ *
+ * Gateways return a whole directory DAG as a single CARv1 response
+ * (`?format=car`), which keeps a multi-file submission within the DON's
+ * HTTP request limit. This module decodes that response and walks the
+ * dag-pb/UnixFS directory (including HAMT-sharded directories) to recover
+ * each file's path and contents, and resolves paths inside a DAG.
+ *
+ * Like the validator, it is inlined into the DON source by
+ * scripts/bundle-source.ts and must stay self-contained.
+ */
+
+/* global TextDecoder */
+
+/**
+ * A file recovered from a UnixFS directory
+ */
+export interface UnixFSFile {
+  /** Path relative to the directory root, using "/" separators */
+  path: string;
+  /** File contents */
+  bytes: Uint8Array;
+}
+
+/**
+ * A decoded CARv1 file
+ */
+export interface CarContents {
+  /** Root CIDs from the CAR header, as raw CID bytes */
+  roots: Uint8Array[];
+  /** Block data keyed by the hex encoding of each block's CID bytes */
+  blocks: Map<string, Uint8Array>;
+}
+
+export const CODEC_RAW = 0x55;
+const CODEC_DAG_PB = 0x70;
+
+const UNIXFS_RAW = 0;
+const UNIXFS_DIRECTORY = 1;
+const UNIXFS_FILE = 2;
+const UNIXFS_HAMT_SHARD = 5;
+
+/**
+ * A dag-pb link
+ */
+export interface PBLink {
+  hash: Uint8Array;
+  name: string;
+  size: number;
+}
+
+interface PBNode {
+  links: PBLink[];
+  data: Uint8Array | undefined;
+}
+
+interface UnixFSData {
+  type: number;
+  data: Uint8Array | undefined;
+  fanout: number | undefined;
+}
+
+/**
+ * Decode a CARv1 file
+ * @param bytes - The raw CAR bytes
+ * @returns The header roots and all blocks
+ * @throws Error if the CAR is malformed
+ */
+export function readCar(bytes: Uint8Array): CarContents {
+  const [headerLength, headerStart] = readVarint(bytes, 0);
+  const headerEnd = headerStart + headerLength;
+  if (headerEnd > bytes.length) throw new Error("CAR header is truncated");
+
+  const [header] = readCbor(bytes.subarray(headerStart, headerEnd), 0);
+  const rawRoots = isRecord(header) ? header.roots : undefined;
+  if (!isRecord(header) || header.version !== 1 || !Array.isArray(rawRoots)) {
+    throw new Error("Not a CARv1 file");
+  }
+  const roots = rawRoots.map((root) => {
+    if (!(root instanceof Uint8Array) || root[0] !== 0) {
+      throw new Error("CAR header has an invalid root CID");
+    }
+    return root.subarray(1);
+  });
+
+  const blocks = new Map<string, Uint8Array>();
+  let offset = headerEnd;
+  while (offset < bytes.length) {
+    const [length, start] = readVarint(bytes, offset);
+    const end = start + length;
+    if (end > bytes.length) throw new Error("CAR block is truncated");
+    const cidEnd = readCidEnd(bytes, start);
+    blocks.set(
+      toHex(bytes.subarray(start, cidEnd)),
+      bytes.subarray(cidEnd, end),
+    );
+    offset = end;
+  }
+
+  return { roots, blocks };
+}
+
+/**
+ * List every file under the root directory of a CAR
+ * @param bytes - The raw CAR bytes, rooted at a UnixFS directory
+ * @returns Files in directory order, with paths relative to the root
+ * @throws Error if the root is not a directory or blocks are missing
+ */
+export function readDirectoryCar(bytes: Uint8Array): UnixFSFile[] {
+  const { roots, blocks } = readCar(bytes);
+  const root = roots[0];
+  if (!root) throw new Error("CAR has no root CID");
+  if (entryKind(root, blocks) !== "directory") {
+    throw new Error("Root CID is not a UnixFS directory");
+  }
+
+  const files: UnixFSFile[] = [];
+  walkDirectory(root, "", blocks, files);
+  return files;
+}
+
+/**
+ * Read a file from a CAR
+ * @param bytes - The raw CAR bytes, rooted at a raw block or UnixFS file,
+ *   or at a directory when `path` is given
+ * @param path - Path segments to follow from the root
+ * @returns The file contents
+ * @throws Error if the target is not a file or blocks are missing
+ */
+export function readFileCar(
+  bytes: Uint8Array,
+  path: string[] = [],
+): Uint8Array {
+  const { roots, blocks } = readCar(bytes);
+  const root = roots[0];
+  if (!root) throw new Error("CAR has no root CID");
+  const cid = resolvePath(root, path, blocks);
+  if (entryKind(cid, blocks) !== "file") {
+    throw new Error(
+      path.length > 0
+        ? `"${path.join("/")}" is not a file`
+        : "Root CID is not a file",
+    );
+  }
+  return readFile(cid, blocks);
+}
+
+// ============ UnixFS ============
+
+function getBlock(
+  cid: Uint8Array,
+  blocks: Map<string, Uint8Array>,
+): Uint8Array {
+  const block = blocks.get(toHex(cid));
+  if (!block) throw new Error(`Block ${toHex(cid)} is missing from the CAR`);
+  return block;
+}
+
+export function cidCodec(cid: Uint8Array): number {
+  if (cid[0] === 0x12 && cid[1] === 0x20) return CODEC_DAG_PB; // CIDv0
+  const [, afterVersion] = readVarint(cid, 0);
+  const [codec] = readVarint(cid, afterVersion);
+  return codec;
+}
+
+export function entryKind(
+  cid: Uint8Array,
+  blocks: Map<string, Uint8Array>,
+): "file" | "directory" | "other" {
+  const codec = cidCodec(cid);
+  if (codec === CODEC_RAW) return "file";
+  if (codec !== CODEC_DAG_PB) return "other";
+
+  const node = decodePBNode(getBlock(cid, blocks));
+  const { type } = decodeUnixFSData(node.data);
+  if (type === UNIXFS_DIRECTORY || type === UNIXFS_HAMT_SHARD) {
+    return "directory";
+  }
+  if (type === UNIXFS_FILE || type === UNIXFS_RAW) return "file";
+  return "other";
+}
+
+/**
+ * The links of a directory with HAMT shards flattened and bucket prefixes
+ * removed from the names
+ * @param partial - Skip shards whose blocks are not in the CAR, as in a CAR
+ *   for a path, which only carries the shards along that path
+ */
+export function directoryLinks(
+  cid: Uint8Array,
+  blocks: Map<string, Uint8Array>,
+  partial = false,
+): PBLink[] {
+  const node = decodePBNode(getBlock(cid, blocks));
+  const unixfs = decodeUnixFSData(node.data);
+  // HAMT link names start with a fixed-width hex bucket index
+  const padLength =
+    unixfs.type === UNIXFS_HAMT_SHARD
+      ? ((unixfs.fanout ?? 256) - 1).toString(16).length
+      : 0;
+
+  const links: PBLink[] = [];
+  for (const link of node.links) {
+    if (padLength > 0 && link.name.length === padLength) {
+      if (partial && !blocks.has(toHex(link.hash))) continue;
+      links.push(...directoryLinks(link.hash, blocks, partial));
+    } else {
+      links.push({ ...link, name: link.name.slice(padLength) });
+    }
+  }
+  return links;
+}
+
+/**
+ * Follow path segments from a root CID through nested directories
+ * @throws Error if a segment does not name an entry
+ */
+export function resolvePath(
+  root: Uint8Array,
+  path: string[],
+  blocks: Map<string, Uint8Array>,
+): Uint8Array {
+  let cid = root;
+  for (const [index, name] of path.entries()) {
+    const link =
+      entryKind(cid, blocks) === "directory"
+        ? directoryLinks(cid, blocks, true).find((l) => l.name === name)
+        : undefined;
+    if (!link) {
+      throw new Error(`No entry at "${path.slice(0, index + 1).join("/")}"`);
+    }
+    cid = link.hash;
+  }
+  return cid;
+}
+
+function walkDirectory(
+  cid: Uint8Array,
+  prefix: string,
+  blocks: Map<string, Uint8Array>,
+  files: UnixFSFile[],
+): void {
+  for (const link of directoryLinks(cid, blocks)) {
+    const path = prefix + link.name;
+    const kind = entryKind(link.hash, blocks);
+    if (kind === "directory") {
+      walkDirectory(link.hash, `${path}/`, blocks, files);
+    } else if (kind === "file") {
+      files.push({ path, bytes: readFile(link.hash, blocks) });
+    }
+  }
+}
+
+function readFile(
+  cid: Uint8Array,
+  blocks: Map<string, Uint8Array>,
+): Uint8Array {
+  const block = getBlock(cid, blocks);
+  if (cidCodec(cid) === CODEC_RAW) return block;
+
+  const node = decodePBNode(block);
+  const parts: Uint8Array[] = [];
+  const { data } = decodeUnixFSData(node.data);
+  if (data) parts.push(data);
+  for (const link of node.links) {
+    parts.push(readFile(link.hash, blocks));
+  }
+  if (parts.length === 1) return parts[0]!;
+
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// ============ dag-pb ============
+
+function decodePBNode(bytes: Uint8Array): PBNode {
+  const node: PBNode = { links: [], data: undefined };
+  for (const [field, value] of readProtobuf(bytes)) {
+    if (field === 1 && value instanceof Uint8Array) node.data = value;
+    if (field === 2 && value instanceof Uint8Array) {
+      const link: PBLink = { hash: new Uint8Array(), name: "", size: 0 };
+      for (const [linkField, linkValue] of readProtobuf(value)) {
+        if (linkField === 1 && linkValue instanceof Uint8Array) {
+          link.hash = linkValue;
+        }
+        if (linkField === 2 && linkValue instanceof Uint8Array) {
+          link.name = new TextDecoder().decode(linkValue);
+        }
+        if (linkField === 3 && typeof linkValue === "number") {
+          link.size = linkValue;
+        }
+      }
+      node.links.push(link);
+    }
+  }
+  return node;
+}
+
+function decodeUnixFSData(bytes: Uint8Array | undefined): UnixFSData {
+  if (!bytes) throw new Error("dag-pb node has no UnixFS data");
+  const result: UnixFSData = { type: -1, data: undefined, fanout: undefined };
+  for (const [field, value] of readProtobuf(bytes)) {
+    if (field === 1 && typeof value === "number") result.type = value;
+    if (field === 2 && value instanceof Uint8Array) result.data = value;
+    if (field === 6 && typeof value === "number") result.fanout = value;
+  }
+  return result;
+}
+
+/**
+ * Decode the fields of a protobuf message (varint and length-delimited only)
+ */
+function readProtobuf(bytes: Uint8Array): [number, number | Uint8Array][] {
+  const fields: [number, number | Uint8Array][] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const [key, afterKey] = readVarint(bytes, offset);
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+    if (wireType === 0) {
+      const [value, next] = readVarint(bytes, afterKey);
+      fields.push([field, value]);
+      offset = next;
+    } else if (wireType === 2) {
+      const [length, start] = readVarint(bytes, afterKey);
+      if (start + length > bytes.length)
+        throw new Error("Protobuf field is truncated");
+      fields.push([field, bytes.subarray(start, start + length)]);
+      offset = start + length;
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+  return fields;
+}
+
+// ============ Encoding helpers ============
+
+export function readVarint(
+  bytes: Uint8Array,
+  offset: number,
+): [number, number] {
+  let value = 0;
+  let multiplier = 1;
+  let position = offset;
+  for (;;) {
+    const byte = bytes[position];
+    if (byte === undefined) throw new Error("Varint is truncated");
+    value += (byte & 0x7f) * multiplier;
+    position++;
+    if (byte < 0x80) return [value, position];
+    multiplier *= 128;
+  }
+}
+
+function readCidEnd(bytes: Uint8Array, offset: number): number {
+  if (bytes[offset] === 0x12 && bytes[offset + 1] === 0x20) return offset + 34;
+  const [, afterVersion] = readVarint(bytes, offset);
+  const [, afterCodec] = readVarint(bytes, afterVersion);
+  const [, afterHashCode] = readVarint(bytes, afterCodec);
+  const [digestLength, digestStart] = readVarint(bytes, afterHashCode);
+  return digestStart + digestLength;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (const byte of bytes) hex += byte.toString(16).padStart(2, "0");
+  return hex;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Decode the DAG-CBOR subset used by CAR headers: integers, strings, bytes,
+ * arrays, maps, booleans, null and CID links (tag 42, returned as bytes)
+ */
+function readCbor(bytes: Uint8Array, offset: number): [unknown, number] {
+  const initial = bytes[offset];
+  if (initial === undefined) throw new Error("CBOR value is truncated");
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+  let position = offset + 1;
+
+  let argument: number;
+  if (info < 24) {
+    argument = info;
+  } else if (info <= 27) {
+    const size = 2 ** (info - 24);
+    argument = 0;
+    for (let i = 0; i < size; i++) {
+      const byte = bytes[position + i];
+      if (byte === undefined) throw new Error("CBOR value is truncated");
+      argument = argument * 256 + byte;
+    }
+    position += size;
+  } else {
+    throw new Error("Unsupported CBOR encoding");
+  }
+
+  switch (major) {
+    case 0:
+      return [argument, position];
+    case 1:
+      return [-1 - argument, position];
+    case 2:
+      return [
+        bytes.subarray(position, position + argument),
+        position + argument,
+      ];
+    case 3:
+      return [
+        new TextDecoder().decode(bytes.subarray(position, position + argument)),
+        position + argument,
+      ];
+    case 4: {
+      const items: unknown[] = [];
+      for (let i = 0; i < argument; i++) {
+        const [item, next] = readCbor(bytes, position);
+        items.push(item);
+        position = next;
+      }
+      return [items, position];
+    }
+    case 5: {
+      const map: Record<string, unknown> = {};
+      for (let i = 0; i < argument; i++) {
+        const [key, afterKey] = readCbor(bytes, position);
+        const [value, afterValue] = readCbor(bytes, afterKey);
+        map[String(key)] = value;
+        position = afterValue;
+      }
+      return [map, position];
+    }
+    case 6:
+      return readCbor(bytes, position);
+    default:
+      if (info === 20) return [false, position];
+      if (info === 21) return [true, position];
+      if (info === 22) return [null, position];
+      throw new Error("Unsupported CBOR value");
+  }
+}
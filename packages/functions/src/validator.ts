@@ -0,0 +1,995 @@
+/**
+ * JSON Schema validator shared by the Chainlink Functions source, the SDK
+ * and the frontend.
+ *
+ * Covers the Draft 2020-12 core and validation vocabularies (plus the
+ * draft-07 forms of `items`, `additionalItems` and `dependencies`), local
+ * `$ref` resolution and common `format` checks. Schemas that use anything
+ * else are rejected with an InvalidSchemaError instead of silently passing.
+ * Keywords starting with "x-" are treated as extensions and ignored.
+ *
+ * This module is inlined into the DON source by scripts/bundle-source.ts,
+ * so it must stay self-contained: no imports and no Node or browser APIs.
+ */
+
+/**
+ * A single way in which data failed to match a schema
+ */
+export interface SchemaViolation {
+  /** JSON pointer to the failing value ("" for the root) */
+  pointer: string;
+  /** The schema keyword that failed (e.g. "type", "required") */
+  keyword: string;
+  /** What the schema expected (the keyword's value, or a derived value) */
+  expected: unknown;
+  /** What was found in the data */
+  actual: unknown;
+  /** Human-readable description of the failure */
+  message: string;
+}
+
+/**
+ * A problem with the schema itself, such as an unsupported keyword
+ */
+export interface SchemaIssue {
+  /** JSON pointer to the offending keyword within the schema */
+  schemaPointer: string;
+  /** The offending keyword */
+  keyword: string;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Error thrown when a schema cannot be used for validation
+ */
+export class InvalidSchemaError extends Error {
+  /** Every problem found in the schema */
+  readonly issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    const details = issues
+      .map((issue) => `  ${issue.schemaPointer || "/"}: ${issue.message}`)
+      .join("\n");
+    super(`Invalid or unsupported JSON Schema:\n${details}`);
+    this.name = "InvalidSchemaError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * `format` values the validator can check
+ */
+export const SUPPORTED_FORMATS = [
+  "date-time",
+  "date",
+  "time",
+  "duration",
+  "email",
+  "hostname",
+  "ipv4",
+  "ipv6",
+  "uri",
+  "uri-reference",
+  "uuid",
+  "regex",
+  "json-pointer",
+];
+
+/** Keywords that carry no assertion and are accepted as-is */
+const ANNOTATION_KEYWORDS = [
+  "$schema",
+  "$id",
+  "$anchor",
+  "$comment",
+  "$vocabulary",
+  "$defs",
+  "definitions",
+  "title",
+  "description",
+  "default",
+  "examples",
+  "deprecated",
+  "readOnly",
+  "writeOnly",
+  "contentEncoding",
+  "contentMediaType",
+  "contentSchema",
+];
+
+/** Keywords the validator asserts */
+const ASSERTION_KEYWORDS = [
+  "$ref",
+  "type",
+  "enum",
+  "const",
+  "multipleOf",
+  "maximum",
+  "exclusiveMaximum",
+  "minimum",
+  "exclusiveMinimum",
+  "maxLength",
+  "minLength",
+  "pattern",
+  "format",
+  "items",
+  "prefixItems",
+  "additionalItems",
+  "contains",
+  "minContains",
+  "maxContains",
+  "maxItems",
+  "minItems",
+  "uniqueItems",
+  "properties",
+  "patternProperties",
+  "additionalProperties",
+  "propertyNames",
+  "maxProperties",
+  "minProperties",
+  "required",
+  "dependentRequired",
+  "dependentSchemas",
+  "dependencies",
+  "allOf",
+  "anyOf",
+  "oneOf",
+  "not",
+  "if",
+  "then",
+  "else",
+];
+
+const TYPE_NAMES = [
+  "null",
+  "boolean",
+  "object",
+  "array",
+  "number",
+  "string",
+  "integer",
+];
+
+const NUMBER_KEYWORDS = [
+  "multipleOf",
+  "maximum",
+  "exclusiveMaximum",
+  "minimum",
+  "exclusiveMinimum",
+];
+
+const COUNT_KEYWORDS = [
+  "maxLength",
+  "minLength",
+  "maxItems",
+  "minItems",
+  "minContains",
+  "maxContains",
+  "maxProperties",
+  "minProperties",
+];
+
+/** Keywords whose value is a single subschema */
+const SUBSCHEMA_KEYWORDS = [
+  "additionalItems",
+  "contains",
+  "additionalProperties",
+  "propertyNames",
+  "not",
+  "if",
+  "then",
+  "else",
+];
+
+/** Keywords whose value is an array of subschemas */
+const SCHEMA_ARRAY_KEYWORDS = ["allOf", "anyOf", "oneOf", "prefixItems"];
+
+/** Keywords whose value is a map of subschemas */
+const SCHEMA_MAP_KEYWORDS = [
+  "$defs",
+  "definitions",
+  "properties",
+  "patternProperties",
+  "dependentSchemas",
+];
+
+interface ValidationContext {
+  /** Resolved target of every $ref string in the schema */
+  refs: Map<string, unknown>;
+  /** `$ref@pointer` pairs currently being evaluated, to stop ref cycles */
+  active: Set<string>;
+}
+
+type SchemaObject = Record<string, unknown>;
+
+/**
+ * Validate data against a JSON Schema
+ * @param data - The data to validate
+ * @param schema - The JSON Schema to validate against
+ * @returns All violations found (empty when the data is valid)
+ * @throws InvalidSchemaError if the schema is malformed or uses unsupported keywords
+ */
+export function validate(data: unknown, schema: unknown): SchemaViolation[] {
+  return compileSchema(schema)(data);
+}
+
+/**
+ * Check a schema once and return a function validating data against it,
+ * for validating many records with the same schema
+ * @param schema - The JSON Schema to validate against
+ * @returns A function returning all violations found in its argument
+ * @throws InvalidSchemaError if the schema is malformed or uses unsupported keywords
+ */
+export function compileSchema(
+  schema: unknown,
+): (data: unknown) => SchemaViolation[] {
+  const refs = new Map<string, unknown>();
+  const issues = inspectSchema(schema, refs);
+  if (issues.length > 0) {
+    throw new InvalidSchemaError(issues);
+  }
+
+  return (data) => {
+    const violations: SchemaViolation[] = [];
+    validateNode(data, schema, "", violations, { refs, active: new Set() });
+    return violations;
+  };
+}
+
+/**
+ * Check a schema without validating any data
+ * @param schema - The JSON Schema to check
+ * @returns Problems that would make validate() throw (empty when usable)
+ */
+export function checkSchema(schema: unknown): SchemaIssue[] {
+  return inspectSchema(schema, new Map());
+}
+
+/**
+ * Resolve the `$ref`s in a schema the way validate() does
+ * @param schema - The root JSON Schema
+ * @returns The target of every `$ref` string that resolves
+ */
+export function resolveSchemaRefs(schema: unknown): Map<string, unknown> {
+  const refs = new Map<string, unknown>();
+  inspectSchema(schema, refs);
+  return refs;
+}
+
+/**
+ * Whether an object has a key of its own. The `in` operator also finds
+ * inherited keys such as "constructor", which data must not satisfy.
+ */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * JSON type name of a value, distinguishing null and arrays from objects
+ */
+export function getType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+// ============ Schema inspection ============
+
+function isPlainObject(value: unknown): value is SchemaObject {
+  return getType(value) === "object";
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function compileRegExp(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, "u");
+  } catch {
+    try {
+      return new RegExp(pattern);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Walk the whole schema, collecting issues and resolving every $ref into `refs`
+ */
+function inspectSchema(
+  root: unknown,
+  refs: Map<string, unknown>,
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const anchors = new Map<string, unknown>();
+  const refSites: { ref: string; schemaPointer: string }[] = [];
+
+  const issue = (schemaPointer: string, keyword: string, message: string) =>
+    issues.push({ schemaPointer, keyword, message });
+
+  const walk = (schema: unknown, ptr: string): void => {
+    if (typeof schema === "boolean") return;
+    if (!isPlainObject(schema)) {
+      issue(ptr, "", "schema must be an object or a boolean");
+      return;
+    }
+
+    for (const key of Object.keys(schema)) {
+      const value = schema[key];
+      const at = `${ptr}/${escapePointer(key)}`;
+
+      if (key.startsWith("x-")) continue;
+
+      if (ANNOTATION_KEYWORDS.includes(key)) {
+        if (key === "$id" && ptr !== "") {
+          issue(at, key, "$id is only supported on the root schema");
+        }
+        if (key === "$anchor") {
+          if (typeof value !== "string") {
+            issue(at, key, "$anchor must be a string");
+          } else {
+            anchors.set(value, schema);
+          }
+        }
+        if (key === "$defs" || key === "definitions") {
+          walkMap(value, at, key);
+        }
+        continue;
+      }
+
+      if (!ASSERTION_KEYWORDS.includes(key)) {
+        issue(at, key, `unsupported keyword "${key}"`);
+        continue;
+      }
+
+      if (key === "$ref") {
+        if (typeof value !== "string") {
+          issue(at, key, "$ref must be a string");
+        } else {
+          refSites.push({ ref: value, schemaPointer: at });
+        }
+      } else if (key === "type") {
+        const types = Array.isArray(value) ? value : [value];
+        if (
+          types.length === 0 ||
+          !types.every((t) => typeof t === "string" && TYPE_NAMES.includes(t))
+        ) {
+          issue(at, key, "type must be a JSON type name or an array of them");
+        }
+      } else if (key === "enum") {
+        if (!Array.isArray(value)) issue(at, key, "enum must be an array");
+      } else if (NUMBER_KEYWORDS.includes(key)) {
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+          issue(at, key, `${key} must be a number`);
+        } else if (key === "multipleOf" && value <= 0) {
+          issue(at, key, "multipleOf must be greater than 0");
+        }
+      } else if (COUNT_KEYWORDS.includes(key)) {
+        if (
+          typeof value !== "number" ||
+          !Number.isInteger(value) ||
+          value < 0
+        ) {
+          issue(at, key, `${key} must be a non-negative integer`);
+        }
+      } else if (key === "pattern") {
+        if (typeof value !== "string" || compileRegExp(value) === null) {
+          issue(at, key, "pattern must be a valid regular expression");
+        }
+      } else if (key === "format") {
+        if (typeof value !== "string" || !SUPPORTED_FORMATS.includes(value)) {
+          issue(at, key, `unsupported format "${String(value)}"`);
+        }
+      } else if (key === "uniqueItems") {
+        if (typeof value !== "boolean") {
+          issue(at, key, "uniqueItems must be a boolean");
+        }
+      } else if (key === "required") {
+        if (!isStringArray(value)) {
+          issue(at, key, "required must be an array of strings");
+        }
+      } else if (key === "dependentRequired") {
+        if (
+          !isPlainObject(value) ||
+          !Object.values(value).every((v) => isStringArray(v))
+        ) {
+          issue(at, key, "dependentRequired must map to arrays of strings");
+        }
+      } else if (key === "dependencies") {
+        if (!isPlainObject(value)) {
+          issue(at, key, "dependencies must be an object");
+        } else {
+          for (const [name, dep] of Object.entries(value)) {
+            if (!isStringArray(dep)) walk(dep, `${at}/${escapePointer(name)}`);
+          }
+        }
+      } else if (key === "items") {
+        if (Array.isArray(value)) {
+          value.forEach((item, i) => walk(item, `${at}/${i}`));
+        } else {
+          walk(value, at);
+        }
+      } else if (SUBSCHEMA_KEYWORDS.includes(key)) {
+        walk(value, at);
+      } else if (SCHEMA_ARRAY_KEYWORDS.includes(key)) {
+        if (!Array.isArray(value) || value.length === 0) {
+          issue(at, key, `${key} must be a non-empty array of schemas`);
+        } else {
+          value.forEach((item, i) => walk(item, `${at}/${i}`));
+        }
+      } else if (SCHEMA_MAP_KEYWORDS.includes(key)) {
+        walkMap(value, at, key);
+        if (key === "patternProperties" && isPlainObject(value)) {
+          for (const pattern of Object.keys(value)) {
+            if (compileRegExp(pattern) === null) {
+              issue(
+                `${at}/${escapePointer(pattern)}`,
+                key,
+                "patternProperties keys must be valid regular expressions",
+              );
+            }
+          }
+        }
+      }
+    }
+  };
+
+  const walkMap = (value: unknown, at: string, key: string): void => {
+    if (!isPlainObject(value)) {
+      issue(at, key, `${key} must be an object of schemas`);
+      return;
+    }
+    for (const [name, sub] of Object.entries(value)) {
+      walk(sub, `${at}/${escapePointer(name)}`);
+    }
+  };
+
+  walk(root, "");
+
+  const rootId =
+    isPlainObject(root) && typeof root.$id === "string" ? root.$id : undefined;
+  for (const { ref, schemaPointer } of refSites) {
+    const target = resolveRef(ref, root, rootId, anchors);
+    if (target === undefined) {
+      issue(
+        schemaPointer,
+        "$ref",
+        `cannot resolve $ref "${ref}" (only references within the schema are supported)`,
+      );
+    } else {
+      refs.set(ref, target);
+    }
+  }
+
+  return issues;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+/**
+ * Resolve a local $ref ("#", "#/json/pointer" or "#anchor")
+ */
+function resolveRef(
+  ref: string,
+  root: unknown,
+  rootId: string | undefined,
+  anchors: Map<string, unknown>,
+): unknown {
+  let fragment: string;
+  if (ref.startsWith("#")) {
+    fragment = ref.slice(1);
+  } else if (rootId && ref.startsWith(`${rootId.replace(/#$/, "")}#`)) {
+    fragment = ref.slice(ref.indexOf("#") + 1);
+  } else if (rootId && ref === rootId) {
+    return root;
+  } else {
+    return undefined;
+  }
+
+  try {
+    fragment = decodeURIComponent(fragment);
+  } catch {
+    return undefined;
+  }
+
+  if (fragment === "") return root;
+  if (!fragment.startsWith("/")) return anchors.get(fragment);
+
+  let node: unknown = root;
+  for (const raw of fragment.slice(1).split("/")) {
+    const segment = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (Array.isArray(node)) {
+      node = node[Number(segment)];
+    } else if (isPlainObject(node) && hasOwn(node, segment)) {
+      node = node[segment];
+    } else {
+      return undefined;
+    }
+    if (node === undefined) return undefined;
+  }
+  return typeof node === "boolean" || isPlainObject(node) ? node : undefined;
+}
+
+// ============ Value helpers ============
+
+/**
+ * Serialize a value with sorted object keys so equal JSON values compare equal
+ */
+export function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${canonical(value[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+function matchesType(data: unknown, type: string): boolean {
+  if (type === "integer") {
+    return typeof data === "number" && Number.isInteger(data);
+  }
+  return getType(data) === type;
+}
+
+function isMultipleOf(value: number, divisor: number): boolean {
+  const quotient = value / divisor;
+  if (!Number.isFinite(quotient)) return false;
+  return Math.abs(quotient - Math.round(quotient)) < 1e-9;
+}
+
+// ============ Formats ============
+
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_RE = /^(\d{2}):(\d{2}):(\d{2})(\.\d+)?(z|[+-](\d{2}):(\d{2}))$/i;
+const DURATION_RE =
+  /^P(?!$)((\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?|\d+W)$/;
+const EMAIL_RE =
+  /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/i;
+const HOSTNAME_LABEL_RE = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+const IPV4_RE =
+  /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const URI_RE = /^[a-z][a-z0-9+.-]*:[^\s]*$/i;
+const URI_REFERENCE_RE = /^[^\s]*$/;
+const JSON_POINTER_RE = /^(\/([^~/]|~[01])*)*$/;
+
+function isValidDate(value: string): boolean {
+  const match = DATE_RE.exec(value);
+  if (!match) return false;
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const leap = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+  const days = [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+  return month >= 1 && month <= 12 && day >= 1 && day <= days[month - 1]!;
+}
+
+function isValidTime(value: string): boolean {
+  const match = TIME_RE.exec(value);
+  if (!match) return false;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  const second = Number(match[3]);
+  const offsetHour = match[6] ? Number(match[6]) : 0;
+  const offsetMinute = match[7] ? Number(match[7]) : 0;
+  return (
+    hour <= 23 &&
+    minute <= 59 &&
+    second <= 60 &&
+    offsetHour <= 23 &&
+    offsetMinute <= 59
+  );
+}
+
+function isValidIPv6(value: string): boolean {
+  if (value.includes(":::") || value.split("::").length > 2) return false;
+  let text = value;
+  let extra = 0;
+  const lastColon = text.lastIndexOf(":");
+  const tail = text.slice(lastColon + 1);
+  if (tail.includes(".")) {
+    if (!IPV4_RE.test(tail)) return false;
+    text = `${text.slice(0, lastColon + 1)}0`;
+    extra = 1;
+  }
+  const compressed = text.includes("::");
+  const groups = text
+    .split(/::/)
+    .flatMap((part) => (part === "" ? [] : part.split(":")));
+  if (!groups.every((g) => /^[0-9a-f]{1,4}$/i.test(g))) return false;
+  const count = groups.length + extra;
+  return compressed ? count <= 7 : count === 8;
+}
+
+function checkFormat(format: string, value: string): boolean {
+  switch (format) {
+    case "date-time": {
+      const [date, time, ...rest] = value.split(/[tT ]/);
+      return (
+        rest.length === 0 &&
+        date !== undefined &&
+        time !== undefined &&
+        isValidDate(date) &&
+        isValidTime(time)
+      );
+    }
+    case "date":
+      return isValidDate(value);
+    case "time":
+      return isValidTime(value);
+    case "duration":
+      return DURATION_RE.test(value);
+    case "email":
+      return EMAIL_RE.test(value);
+    case "hostname":
+      return (
+        value.length <= 253 &&
+        value.split(".").every((label) => HOSTNAME_LABEL_RE.test(label))
+      );
+    case "ipv4":
+      return IPV4_RE.test(value);
+    case "ipv6":
+      return isValidIPv6(value);
+    case "uri":
+      return URI_RE.test(value);
+    case "uri-reference":
+      return URI_REFERENCE_RE.test(value);
+    case "uuid":
+      return UUID_RE.test(value);
+    case "regex":
+      return compileRegExp(value) !== null;
+    case "json-pointer":
+      return JSON_POINTER_RE.test(value);
+    default:
+      return false;
+  }
+}
+
+// ============ Validation ============
+
+function validateNode(
+  data: unknown,
+  schema: unknown,
+  pointer: string,
+  violations: SchemaViolation[],
+  ctx: ValidationContext,
+): void {
+  if (schema === true) return;
+  if (schema === false) {
+    violations.push({
+      pointer,
+      keyword: "false",
+      expected: false,
+      actual: data,
+      message: "no value is allowed here",
+    });
+    return;
+  }
+  if (!isPlainObject(schema)) return;
+  const s = schema;
+  const fail = (
+    keyword: string,
+    expected: unknown,
+    actual: unknown,
+    message: string,
+    at = pointer,
+  ) => violations.push({ pointer: at, keyword, expected, actual, message });
+  const matches = (sub: unknown, value = data, at = pointer): boolean => {
+    const found: SchemaViolation[] = [];
+    validateNode(value, sub, at, found, ctx);
+    return found.length === 0;
+  };
+
+  // $ref (applies alongside sibling keywords in 2020-12)
+  if (typeof s.$ref === "string") {
+    const key = `${s.$ref}@${pointer}`;
+    if (!ctx.active.has(key)) {
+      ctx.active.add(key);
+      validateNode(data, ctx.refs.get(s.$ref), pointer, violations, ctx);
+      ctx.active.delete(key);
+    }
+  }
+
+  // type
+  if (s.type !== undefined) {
+    const types = (Array.isArray(s.type) ? s.type : [s.type]) as string[];
+    if (!types.some((t) => matchesType(data, t))) {
+      fail("type", s.type, getType(data), `must be ${types.join(" or ")}`);
+      return;
+    }
+  }
+
+  // enum / const
+  if (Array.isArray(s.enum)) {
+    const target = canonical(data);
+    if (!s.enum.some((v) => canonical(v) === target)) {
+      fail("enum", s.enum, data, "must be equal to one of the allowed values");
+    }
+  }
+  if (hasOwn(s, "const") && canonical(data) !== canonical(s.const)) {
+    fail("const", s.const, data, "must be equal to constant");
+  }
+
+  // number constraints
+  if (typeof data === "number") {
+    if (typeof s.minimum === "number" && data < s.minimum) {
+      fail("minimum", s.minimum, data, `must be >= ${s.minimum}`);
+    }
+    if (typeof s.maximum === "number" && data > s.maximum) {
+      fail("maximum", s.maximum, data, `must be <= ${s.maximum}`);
+    }
+    if (typeof s.exclusiveMinimum === "number" && data <= s.exclusiveMinimum) {
+      fail(
+        "exclusiveMinimum",
+        s.exclusiveMinimum,
+        data,
+        `must be > ${s.exclusiveMinimum}`,
+      );
+    }
+    if (typeof s.exclusiveMaximum === "number" && data >= s.exclusiveMaximum) {
+      fail(
+        "exclusiveMaximum",
+        s.exclusiveMaximum,
+        data,
+        `must be < ${s.exclusiveMaximum}`,
+      );
+    }
+    if (typeof s.multipleOf === "number" && !isMultipleOf(data, s.multipleOf)) {
+      fail(
+        "multipleOf",
+        s.multipleOf,
+        data,
+        `must be multiple of ${s.multipleOf}`,
+      );
+    }
+  }
+
+  // string constraints (lengths count Unicode code points)
+  if (typeof data === "string") {
+    const length = [...data].length;
+    if (typeof s.minLength === "number" && length < s.minLength) {
+      fail(
+        "minLength",
+        s.minLength,
+        length,
+        `must NOT have fewer than ${s.minLength} characters`,
+      );
+    }
+    if (typeof s.maxLength === "number" && length > s.maxLength) {
+      fail(
+        "maxLength",
+        s.maxLength,
+        length,
+        `must NOT have more than ${s.maxLength} characters`,
+      );
+    }
+    if (
+      typeof s.pattern === "string" &&
+      !compileRegExp(s.pattern)?.test(data)
+    ) {
+      fail("pattern", s.pattern, data, `must match pattern "${s.pattern}"`);
+    }
+    if (typeof s.format === "string" && !checkFormat(s.format, data)) {
+      fail("format", s.format, data, `must match format "${s.format}"`);
+    }
+  }
+
+  // array constraints
+  if (Array.isArray(data)) {
+    if (typeof s.minItems === "number" && data.length < s.minItems) {
+      fail(
+        "minItems",
+        s.minItems,
+        data.length,
+        `must NOT have fewer than ${s.minItems} items`,
+      );
+    }
+    if (typeof s.maxItems === "number" && data.length > s.maxItems) {
+      fail(
+        "maxItems",
+        s.maxItems,
+        data.length,
+        `must NOT have more than ${s.maxItems} items`,
+      );
+    }
+    if (s.uniqueItems === true) {
+      const seen = new Map<string, number>();
+      data.forEach((item, index) => {
+        const key = canonical(item);
+        const first = seen.get(key);
+        if (first !== undefined) {
+          fail(
+            "uniqueItems",
+            true,
+            item,
+            `must NOT have duplicate items (items ${first} and ${index} are identical)`,
+            `${pointer}/${index}`,
+          );
+        } else {
+          seen.set(key, index);
+        }
+      });
+    }
+
+    // prefixItems / items (draft-07 tuple form: items array + additionalItems)
+    const prefix = Array.isArray(s.prefixItems)
+      ? s.prefixItems
+      : Array.isArray(s.items)
+        ? s.items
+        : [];
+    const rest = Array.isArray(s.items) ? s.additionalItems : s.items;
+    data.forEach((item, index) => {
+      const sub = index < prefix.length ? prefix[index] : rest;
+      if (sub !== undefined) {
+        validateNode(item, sub, `${pointer}/${index}`, violations, ctx);
+      }
+    });
+
+    if (s.contains !== undefined) {
+      const count = data.filter((item, index) =>
+        matches(s.contains, item, `${pointer}/${index}`),
+      ).length;
+      const min = typeof s.minContains === "number" ? s.minContains : 1;
+      if (count < min) {
+        fail(
+          s.minContains !== undefined ? "minContains" : "contains",
+          min,
+          count,
+          `must contain at least ${min} valid item(s)`,
+        );
+      }
+      if (typeof s.maxContains === "number" && count > s.maxContains) {
+        fail(
+          "maxContains",
+          s.maxContains,
+          count,
+          `must contain at most ${s.maxContains} valid item(s)`,
+        );
+      }
+    }
+  }
+
+  // object constraints
+  if (isPlainObject(data)) {
+    const keys = Object.keys(data);
+    const properties = isPlainObject(s.properties) ? s.properties : undefined;
+    const patternProperties = isPlainObject(s.patternProperties)
+      ? Object.entries(s.patternProperties).map(
+          ([pattern, sub]) => [compileRegExp(pattern)!, sub] as const,
+        )
+      : [];
+
+    if (typeof s.minProperties === "number" && keys.length < s.minProperties) {
+      fail(
+        "minProperties",
+        s.minProperties,
+        keys.length,
+        `must NOT have fewer than ${s.minProperties} properties`,
+      );
+    }
+    if (typeof s.maxProperties === "number" && keys.length > s.maxProperties) {
+      fail(
+        "maxProperties",
+        s.maxProperties,
+        keys.length,
+        `must NOT have more than ${s.maxProperties} properties`,
+      );
+    }
+
+    const requireKeys = (required: string[], keyword: string, why = "") => {
+      for (const key of required) {
+        if (!hasOwn(data, key)) {
+          fail(
+            keyword,
+            key,
+            undefined,
+            `must have required property '${key}'${why}`,
+            `${pointer}/${escapePointer(key)}`,
+          );
+        }
+      }
+    };
+
+    if (isStringArray(s.required)) {
+      requireKeys(s.required, "required");
+    }
+
+    const dependentRequired = isPlainObject(s.dependentRequired)
+      ? Object.entries(s.dependentRequired)
+      : [];
+    const dependentSchemas = isPlainObject(s.dependentSchemas)
+      ? Object.entries(s.dependentSchemas)
+      : [];
+    if (isPlainObject(s.dependencies)) {
+      for (const entry of Object.entries(s.dependencies)) {
+        if (isStringArray(entry[1])) dependentRequired.push(entry);
+        else dependentSchemas.push(entry);
+      }
+    }
+    for (const [trigger, required] of dependentRequired) {
+      if (hasOwn(data, trigger) && isStringArray(required)) {
+        requireKeys(
+          required,
+          "dependentRequired",
+          ` when '${trigger}' is present`,
+        );
+      }
+    }
+    for (const [trigger, sub] of dependentSchemas) {
+      if (hasOwn(data, trigger)) {
+        validateNode(data, sub, pointer, violations, ctx);
+      }
+    }
+
+    for (const key of keys) {
+      const at = `${pointer}/${escapePointer(key)}`;
+      const value = data[key];
+      let evaluated = false;
+
+      if (properties && hasOwn(properties, key)) {
+        evaluated = true;
+        validateNode(value, properties[key], at, violations, ctx);
+      }
+      for (const [regex, sub] of patternProperties) {
+        if (regex.test(key)) {
+          evaluated = true;
+          validateNode(value, sub, at, violations, ctx);
+        }
+      }
+      if (!evaluated && s.additionalProperties !== undefined) {
+        if (s.additionalProperties === false) {
+          fail(
+            "additionalProperties",
+            properties ? Object.keys(properties) : [],
+            key,
+            "must NOT have additional properties",
+            at,
+          );
+        } else {
+          validateNode(value, s.additionalProperties, at, violations, ctx);
+        }
+      }
+      if (s.propertyNames !== undefined && !matches(s.propertyNames, key, at)) {
+        fail(
+          "propertyNames",
+          s.propertyNames,
+          key,
+          `property name '${key}' is invalid`,
+          at,
+        );
+      }
+    }
+  }
+
+  // applicators
+  if (Array.isArray(s.allOf)) {
+    for (const sub of s.allOf) {
+      validateNode(data, sub, pointer, violations, ctx);
+    }
+  }
+  if (Array.isArray(s.anyOf)) {
+    if (!s.anyOf.some((sub) => matches(sub))) {
+      fail("anyOf", 1, 0, "must match at least one schema in anyOf");
+    }
+  }
+  if (Array.isArray(s.oneOf)) {
+    const count = s.oneOf.filter((sub) => matches(sub)).length;
+    if (count !== 1) {
+      fail("oneOf", 1, count, "must match exactly one schema in oneOf");
+    }
+  }
+  if (s.not !== undefined && matches(s.not)) {
+    fail("not", s.not, data, "must NOT be valid against the schema in not");
+  }
+  if (s.if !== undefined) {
+    const branch = matches(s.if) ? s.then : s.else;
+    if (branch !== undefined) {
+      validateNode(data, branch, pointer, violations, ctx);
+    }
+  }
+}
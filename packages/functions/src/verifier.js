@@ -0,0 +1,2245 @@
+// Generated by scripts/bundle-source.ts from src/verifier.template.js. Do not edit.
+/* global console */
+export default async function verify(Functions, args, secrets) {
+  // Chainlink Functions verifier module
+  // Runs on the Chainlink DON (Deno sandbox), loaded by src/source.js
+  //
+  // This is the body of `verify(Functions, args, secrets)`, the default export
+  // of src/verifier.js. It receives the request's args and secrets.
+  //
+  // args[0] = IPFS CID of the submitted data (a directory when the schema
+  //           declares "x-submission": { "layout": "directory" })
+  // args[1] = IPFS CID of the JSON Schema to validate against
+  // args[2] = (optional) Gateway base URL override (for testing); "" for the
+  //           default gateways
+  // args[3] = (optional) Comma-separated content digests (hex) of earlier
+  //           submissions to the bounty; matching data is a duplicate
+  //
+  // secrets.submissionKey = (optional) X25519 private key (base64) for bounties
+  //           that accept encrypted submissions (see src/envelope.ts)
+  //
+  // Returns: Functions.encodeUint256(result), where result packs a status code,
+  // the number of records checked, a hash of the first failing path and the
+  // data's content digest (see src/result.ts). The low byte is 1 if valid.
+
+  const dataCid = args[0];
+  const schemaCid = args[1];
+  const gatewayOverride = args[2];
+  const knownDigests = (args[3] || "")
+    .split(",")
+    .map((digest) => digest.trim())
+    .filter(Boolean);
+
+  // --- IPFS Fetching ---
+
+  const GATEWAYS = gatewayOverride
+    ? [gatewayOverride]
+    : ["https://w3s.link/ipfs/", "https://ipfs.io/ipfs/"];
+
+  function isTimeout(res) {
+    return (
+      res.code === "ECONNABORTED" || /abort|timeout/i.test(res.message || "")
+    );
+  }
+
+  // Trustless retrieval: every fetch asks for a CAR and checks each block
+  // against the requested CID, so a gateway cannot substitute other content.
+  // A mismatching gateway is skipped like a failing one. `read` verifies the
+  // CAR and extracts the data. Returns { data }, with data null once every
+  // gateway has failed; timedOut is set when every failure was a timeout.
+  async function fetchFromIPFS(cid, read) {
+    let timedOut = true;
+    for (const gw of GATEWAYS) {
+      const sep = gw.endsWith("/") ? "" : "/";
+      const url = `${gw}${sep}${cid}?format=car`;
+      console.log(`Fetching: ${url}`);
+      const res = await Functions.makeHttpRequest({
+        url,
+        timeout: 8000,
+        responseType: "arraybuffer",
+        headers: { Accept: "application/vnd.ipld.car" },
+      });
+      if (!res.error) {
+        try {
+          return { data: await read(new Uint8Array(res.data), cid) };
+        } catch (error) {
+          timedOut = false;
+          console.log(`Gateway failed: ${gw} — ${error.message}`);
+          continue;
+        }
+      }
+      timedOut = timedOut && isTimeout(res);
+      console.log(`Gateway failed: ${gw} — ${res.message || "unknown error"}`);
+    }
+    return { data: null, timedOut };
+  }
+
+  async function readVerifiedCar(car, cid) {
+    await verifyCar(car, cid);
+    return car;
+  }
+
+  function decodeText(bytes) {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  }
+
+  // --- JSON Schema Validator ---
+  // Inlined from src/validator.ts by scripts/bundle-source.ts
+
+  class InvalidSchemaError extends Error {
+    issues;
+    constructor(issues) {
+      const details = issues
+        .map((issue) => `  ${issue.schemaPointer || "/"}: ${issue.message}`)
+        .join("\n");
+      super(`Invalid or unsupported JSON Schema:\n${details}`);
+      this.name = "InvalidSchemaError";
+      this.issues = issues;
+    }
+  }
+  const SUPPORTED_FORMATS = [
+    "date-time",
+    "date",
+    "time",
+    "duration",
+    "email",
+    "hostname",
+    "ipv4",
+    "ipv6",
+    "uri",
+    "uri-reference",
+    "uuid",
+    "regex",
+    "json-pointer",
+  ];
+  const ANNOTATION_KEYWORDS = [
+    "$schema",
+    "$id",
+    "$anchor",
+    "$comment",
+    "$vocabulary",
+    "$defs",
+    "definitions",
+    "title",
+    "description",
+    "default",
+    "examples",
+    "deprecated",
+    "readOnly",
+    "writeOnly",
+    "contentEncoding",
+    "contentMediaType",
+    "contentSchema",
+  ];
+  const ASSERTION_KEYWORDS = [
+    "$ref",
+    "type",
+    "enum",
+    "const",
+    "multipleOf",
+    "maximum",
+    "exclusiveMaximum",
+    "minimum",
+    "exclusiveMinimum",
+    "maxLength",
+    "minLength",
+    "pattern",
+    "format",
+    "items",
+    "prefixItems",
+    "additionalItems",
+    "contains",
+    "minContains",
+    "maxContains",
+    "maxItems",
+    "minItems",
+    "uniqueItems",
+    "properties",
+    "patternProperties",
+    "additionalProperties",
+    "propertyNames",
+    "maxProperties",
+    "minProperties",
+    "required",
+    "dependentRequired",
+    "dependentSchemas",
+    "dependencies",
+    "allOf",
+    "anyOf",
+    "oneOf",
+    "not",
+    "if",
+    "then",
+    "else",
+  ];
+  const TYPE_NAMES = [
+    "null",
+    "boolean",
+    "object",
+    "array",
+    "number",
+    "string",
+    "integer",
+  ];
+  const NUMBER_KEYWORDS = [
+    "multipleOf",
+    "maximum",
+    "exclusiveMaximum",
+    "minimum",
+    "exclusiveMinimum",
+  ];
+  const COUNT_KEYWORDS = [
+    "maxLength",
+    "minLength",
+    "maxItems",
+    "minItems",
+    "minContains",
+    "maxContains",
+    "maxProperties",
+    "minProperties",
+  ];
+  const SUBSCHEMA_KEYWORDS = [
+    "additionalItems",
+    "contains",
+    "additionalProperties",
+    "propertyNames",
+    "not",
+    "if",
+    "then",
+    "else",
+  ];
+  const SCHEMA_ARRAY_KEYWORDS = ["allOf", "anyOf", "oneOf", "prefixItems"];
+  const SCHEMA_MAP_KEYWORDS = [
+    "$defs",
+    "definitions",
+    "properties",
+    "patternProperties",
+    "dependentSchemas",
+  ];
+  function validate(data, schema) {
+    return compileSchema(schema)(data);
+  }
+  function compileSchema(schema) {
+    const refs = new Map();
+    const issues = inspectSchema(schema, refs);
+    if (issues.length > 0) {
+      throw new InvalidSchemaError(issues);
+    }
+    return (data) => {
+      const violations = [];
+      validateNode(data, schema, "", violations, { refs, active: new Set() });
+      return violations;
+    };
+  }
+  function checkSchema(schema) {
+    return inspectSchema(schema, new Map());
+  }
+  function resolveSchemaRefs(schema) {
+    const refs = new Map();
+    inspectSchema(schema, refs);
+    return refs;
+  }
+  function hasOwn(object, key) {
+    return Object.prototype.hasOwnProperty.call(object, key);
+  }
+  function getType(value) {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+  }
+  function isPlainObject(value) {
+    return getType(value) === "object";
+  }
+  function escapePointer(key) {
+    return key.replace(/~/g, "~0").replace(/\//g, "~1");
+  }
+  function compileRegExp(pattern) {
+    try {
+      return new RegExp(pattern, "u");
+    } catch {
+      try {
+        return new RegExp(pattern);
+      } catch {
+        return null;
+      }
+    }
+  }
+  function inspectSchema(root, refs) {
+    const issues = [];
+    const anchors = new Map();
+    const refSites = [];
+    const issue = (schemaPointer, keyword, message) =>
+      issues.push({ schemaPointer, keyword, message });
+    const walk = (schema, ptr) => {
+      if (typeof schema === "boolean") return;
+      if (!isPlainObject(schema)) {
+        issue(ptr, "", "schema must be an object or a boolean");
+        return;
+      }
+      for (const key of Object.keys(schema)) {
+        const value = schema[key];
+        const at = `${ptr}/${escapePointer(key)}`;
+        if (key.startsWith("x-")) continue;
+        if (ANNOTATION_KEYWORDS.includes(key)) {
+          if (key === "$id" && ptr !== "") {
+            issue(at, key, "$id is only supported on the root schema");
+          }
+          if (key === "$anchor") {
+            if (typeof value !== "string") {
+              issue(at, key, "$anchor must be a string");
+            } else {
+              anchors.set(value, schema);
+            }
+          }
+          if (key === "$defs" || key === "definitions") {
+            walkMap(value, at, key);
+          }
+          continue;
+        }
+        if (!ASSERTION_KEYWORDS.includes(key)) {
+          issue(at, key, `unsupported keyword "${key}"`);
+          continue;
+        }
+        if (key === "$ref") {
+          if (typeof value !== "string") {
+            issue(at, key, "$ref must be a string");
+          } else {
+            refSites.push({ ref: value, schemaPointer: at });
+          }
+        } else if (key === "type") {
+          const types = Array.isArray(value) ? value : [value];
+          if (
+            types.length === 0 ||
+            !types.every((t) => typeof t === "string" && TYPE_NAMES.includes(t))
+          ) {
+            issue(at, key, "type must be a JSON type name or an array of them");
+          }
+        } else if (key === "enum") {
+          if (!Array.isArray(value)) issue(at, key, "enum must be an array");
+        } else if (NUMBER_KEYWORDS.includes(key)) {
+          if (typeof value !== "number" || !Number.isFinite(value)) {
+            issue(at, key, `${key} must be a number`);
+          } else if (key === "multipleOf" && value <= 0) {
+            issue(at, key, "multipleOf must be greater than 0");
+          }
+        } else if (COUNT_KEYWORDS.includes(key)) {
+          if (
+            typeof value !== "number" ||
+            !Number.isInteger(value) ||
+            value < 0
+          ) {
+            issue(at, key, `${key} must be a non-negative integer`);
+          }
+        } else if (key === "pattern") {
+          if (typeof value !== "string" || compileRegExp(value) === null) {
+            issue(at, key, "pattern must be a valid regular expression");
+          }
+        } else if (key === "format") {
+          if (typeof value !== "string" || !SUPPORTED_FORMATS.includes(value)) {
+            issue(at, key, `unsupported format "${String(value)}"`);
+          }
+        } else if (key === "uniqueItems") {
+          if (typeof value !== "boolean") {
+            issue(at, key, "uniqueItems must be a boolean");
+          }
+        } else if (key === "required") {
+          if (!isStringArray(value)) {
+            issue(at, key, "required must be an array of strings");
+          }
+        } else if (key === "dependentRequired") {
+          if (
+            !isPlainObject(value) ||
+            !Object.values(value).every((v) => isStringArray(v))
+          ) {
+            issue(at, key, "dependentRequired must map to arrays of strings");
+          }
+        } else if (key === "dependencies") {
+          if (!isPlainObject(value)) {
+            issue(at, key, "dependencies must be an object");
+          } else {
+            for (const [name, dep] of Object.entries(value)) {
+              if (!isStringArray(dep))
+                walk(dep, `${at}/${escapePointer(name)}`);
+            }
+          }
+        } else if (key === "items") {
+          if (Array.isArray(value)) {
+            value.forEach((item, i) => walk(item, `${at}/${i}`));
+          } else {
+            walk(value, at);
+          }
+        } else if (SUBSCHEMA_KEYWORDS.includes(key)) {
+          walk(value, at);
+        } else if (SCHEMA_ARRAY_KEYWORDS.includes(key)) {
+          if (!Array.isArray(value) || value.length === 0) {
+            issue(at, key, `${key} must be a non-empty array of schemas`);
+          } else {
+            value.forEach((item, i) => walk(item, `${at}/${i}`));
+          }
+        } else if (SCHEMA_MAP_KEYWORDS.includes(key)) {
+          walkMap(value, at, key);
+          if (key === "patternProperties" && isPlainObject(value)) {
+            for (const pattern of Object.keys(value)) {
+              if (compileRegExp(pattern) === null) {
+                issue(
+                  `${at}/${escapePointer(pattern)}`,
+                  key,
+                  "patternProperties keys must be valid regular expressions",
+                );
+              }
+            }
+          }
+        }
+      }
+    };
+    const walkMap = (value, at, key) => {
+      if (!isPlainObject(value)) {
+        issue(at, key, `${key} must be an object of schemas`);
+        return;
+      }
+      for (const [name, sub] of Object.entries(value)) {
+        walk(sub, `${at}/${escapePointer(name)}`);
+      }
+    };
+    walk(root, "");
+    const rootId =
+      isPlainObject(root) && typeof root.$id === "string"
+        ? root.$id
+        : undefined;
+    for (const { ref, schemaPointer } of refSites) {
+      const target = resolveRef(ref, root, rootId, anchors);
+      if (target === undefined) {
+        issue(
+          schemaPointer,
+          "$ref",
+          `cannot resolve $ref "${ref}" (only references within the schema are supported)`,
+        );
+      } else {
+        refs.set(ref, target);
+      }
+    }
+    return issues;
+  }
+  function isStringArray(value) {
+    return Array.isArray(value) && value.every((v) => typeof v === "string");
+  }
+  function resolveRef(ref, root, rootId, anchors) {
+    let fragment;
+    if (ref.startsWith("#")) {
+      fragment = ref.slice(1);
+    } else if (rootId && ref.startsWith(`${rootId.replace(/#$/, "")}#`)) {
+      fragment = ref.slice(ref.indexOf("#") + 1);
+    } else if (rootId && ref === rootId) {
+      return root;
+    } else {
+      return undefined;
+    }
+    try {
+      fragment = decodeURIComponent(fragment);
+    } catch {
+      return undefined;
+    }
+    if (fragment === "") return root;
+    if (!fragment.startsWith("/")) return anchors.get(fragment);
+    let node = root;
+    for (const raw of fragment.slice(1).split("/")) {
+      const segment = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+      if (Array.isArray(node)) {
+        node = node[Number(segment)];
+      } else if (isPlainObject(node) && hasOwn(node, segment)) {
+        node = node[segment];
+      } else {
+        return undefined;
+      }
+      if (node === undefined) return undefined;
+    }
+    return typeof node === "boolean" || isPlainObject(node) ? node : undefined;
+  }
+  function canonical(value) {
+    if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+    if (isPlainObject(value)) {
+      const keys = Object.keys(value).sort();
+      return `{${keys.map((k) => `${JSON.stringify(k)}:${canonical(value[k])}`).join(",")}}`;
+    }
+    return JSON.stringify(value) ?? "undefined";
+  }
+  function matchesType(data, type) {
+    if (type === "integer") {
+      return typeof data === "number" && Number.isInteger(data);
+    }
+    return getType(data) === type;
+  }
+  function isMultipleOf(value, divisor) {
+    const quotient = value / divisor;
+    if (!Number.isFinite(quotient)) return false;
+    return Math.abs(quotient - Math.round(quotient)) < 1e-9;
+  }
+  const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+  const TIME_RE = /^(\d{2}):(\d{2}):(\d{2})(\.\d+)?(z|[+-](\d{2}):(\d{2}))$/i;
+  const DURATION_RE =
+    /^P(?!$)((\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?|\d+W)$/;
+  const EMAIL_RE =
+    /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/i;
+  const HOSTNAME_LABEL_RE = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+  const IPV4_RE =
+    /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+  const UUID_RE =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  const URI_RE = /^[a-z][a-z0-9+.-]*:[^\s]*$/i;
+  const URI_REFERENCE_RE = /^[^\s]*$/;
+  const JSON_POINTER_RE = /^(\/([^~/]|~[01])*)*$/;
+  function isValidDate(value) {
+    const match = DATE_RE.exec(value);
+    if (!match) return false;
+    const year = Number(match[1]);
+    const month = Number(match[2]);
+    const day = Number(match[3]);
+    const leap = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+    const days = [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+    return month >= 1 && month <= 12 && day >= 1 && day <= days[month - 1];
+  }
+  function isValidTime(value) {
+    const match = TIME_RE.exec(value);
+    if (!match) return false;
+    const hour = Number(match[1]);
+    const minute = Number(match[2]);
+    const second = Number(match[3]);
+    const offsetHour = match[6] ? Number(match[6]) : 0;
+    const offsetMinute = match[7] ? Number(match[7]) : 0;
+    return (
+      hour <= 23 &&
+      minute <= 59 &&
+      second <= 60 &&
+      offsetHour <= 23 &&
+      offsetMinute <= 59
+    );
+  }
+  function isValidIPv6(value) {
+    if (value.includes(":::") || value.split("::").length > 2) return false;
+    let text = value;
+    let extra = 0;
+    const lastColon = text.lastIndexOf(":");
+    const tail = text.slice(lastColon + 1);
+    if (tail.includes(".")) {
+      if (!IPV4_RE.test(tail)) return false;
+      text = `${text.slice(0, lastColon + 1)}0`;
+      extra = 1;
+    }
+    const compressed = text.includes("::");
+    const groups = text
+      .split(/::/)
+      .flatMap((part) => (part === "" ? [] : part.split(":")));
+    if (!groups.every((g) => /^[0-9a-f]{1,4}$/i.test(g))) return false;
+    const count = groups.length + extra;
+    return compressed ? count <= 7 : count === 8;
+  }
+  function checkFormat(format, value) {
+    switch (format) {
+      case "date-time": {
+        const [date, time, ...rest] = value.split(/[tT ]/);
+        return (
+          rest.length === 0 &&
+          date !== undefined &&
+          time !== undefined &&
+          isValidDate(date) &&
+          isValidTime(time)
+        );
+      }
+      case "date":
+        return isValidDate(value);
+      case "time":
+        return isValidTime(value);
+      case "duration":
+        return DURATION_RE.test(value);
+      case "email":
+        return EMAIL_RE.test(value);
+      case "hostname":
+        return (
+          value.length <= 253 &&
+          value.split(".").every((label) => HOSTNAME_LABEL_RE.test(label))
+        );
+      case "ipv4":
+        return IPV4_RE.test(value);
+      case "ipv6":
+        return isValidIPv6(value);
+      case "uri":
+        return URI_RE.test(value);
+      case "uri-reference":
+        return URI_REFERENCE_RE.test(value);
+      case "uuid":
+        return UUID_RE.test(value);
+      case "regex":
+        return compileRegExp(value) !== null;
+      case "json-pointer":
+        return JSON_POINTER_RE.test(value);
+      default:
+        return false;
+    }
+  }
+  function validateNode(data, schema, pointer, violations, ctx) {
+    if (schema === true) return;
+    if (schema === false) {
+      violations.push({
+        pointer,
+        keyword: "false",
+        expected: false,
+        actual: data,
+        message: "no value is allowed here",
+      });
+      return;
+    }
+    if (!isPlainObject(schema)) return;
+    const s = schema;
+    const fail = (keyword, expected, actual, message, at = pointer) =>
+      violations.push({ pointer: at, keyword, expected, actual, message });
+    const matches = (sub, value = data, at = pointer) => {
+      const found = [];
+      validateNode(value, sub, at, found, ctx);
+      return found.length === 0;
+    };
+    if (typeof s.$ref === "string") {
+      const key = `${s.$ref}@${pointer}`;
+      if (!ctx.active.has(key)) {
+        ctx.active.add(key);
+        validateNode(data, ctx.refs.get(s.$ref), pointer, violations, ctx);
+        ctx.active.delete(key);
+      }
+    }
+    if (s.type !== undefined) {
+      const types = Array.isArray(s.type) ? s.type : [s.type];
+      if (!types.some((t) => matchesType(data, t))) {
+        fail("type", s.type, getType(data), `must be ${types.join(" or ")}`);
+        return;
+      }
+    }
+    if (Array.isArray(s.enum)) {
+      const target = canonical(data);
+      if (!s.enum.some((v) => canonical(v) === target)) {
+        fail(
+          "enum",
+          s.enum,
+          data,
+          "must be equal to one of the allowed values",
+        );
+      }
+    }
+    if (hasOwn(s, "const") && canonical(data) !== canonical(s.const)) {
+      fail("const", s.const, data, "must be equal to constant");
+    }
+    if (typeof data === "number") {
+      if (typeof s.minimum === "number" && data < s.minimum) {
+        fail("minimum", s.minimum, data, `must be >= ${s.minimum}`);
+      }
+      if (typeof s.maximum === "number" && data > s.maximum) {
+        fail("maximum", s.maximum, data, `must be <= ${s.maximum}`);
+      }
+      if (
+        typeof s.exclusiveMinimum === "number" &&
+        data <= s.exclusiveMinimum
+      ) {
+        fail(
+          "exclusiveMinimum",
+          s.exclusiveMinimum,
+          data,
+          `must be > ${s.exclusiveMinimum}`,
+        );
+      }
+      if (
+        typeof s.exclusiveMaximum === "number" &&
+        data >= s.exclusiveMaximum
+      ) {
+        fail(
+          "exclusiveMaximum",
+          s.exclusiveMaximum,
+          data,
+          `must be < ${s.exclusiveMaximum}`,
+        );
+      }
+      if (
+        typeof s.multipleOf === "number" &&
+        !isMultipleOf(data, s.multipleOf)
+      ) {
+        fail(
+          "multipleOf",
+          s.multipleOf,
+          data,
+          `must be multiple of ${s.multipleOf}`,
+        );
+      }
+    }
+    if (typeof data === "string") {
+      const length = [...data].length;
+      if (typeof s.minLength === "number" && length < s.minLength) {
+        fail(
+          "minLength",
+          s.minLength,
+          length,
+          `must NOT have fewer than ${s.minLength} characters`,
+        );
+      }
+      if (typeof s.maxLength === "number" && length > s.maxLength) {
+        fail(
+          "maxLength",
+          s.maxLength,
+          length,
+          `must NOT have more than ${s.maxLength} characters`,
+        );
+      }
+      if (
+        typeof s.pattern === "string" &&
+        !compileRegExp(s.pattern)?.test(data)
+      ) {
+        fail("pattern", s.pattern, data, `must match pattern "${s.pattern}"`);
+      }
+      if (typeof s.format === "string" && !checkFormat(s.format, data)) {
+        fail("format", s.format, data, `must match format "${s.format}"`);
+      }
+    }
+    if (Array.isArray(data)) {
+      if (typeof s.minItems === "number" && data.length < s.minItems) {
+        fail(
+          "minItems",
+          s.minItems,
+          data.length,
+          `must NOT have fewer than ${s.minItems} items`,
+        );
+      }
+      if (typeof s.maxItems === "number" && data.length > s.maxItems) {
+        fail(
+          "maxItems",
+          s.maxItems,
+          data.length,
+          `must NOT have more than ${s.maxItems} items`,
+        );
+      }
+      if (s.uniqueItems === true) {
+        const seen = new Map();
+        data.forEach((item, index) => {
+          const key = canonical(item);
+          const first = seen.get(key);
+          if (first !== undefined) {
+            fail(
+              "uniqueItems",
+              true,
+              item,
+              `must NOT have duplicate items (items ${first} and ${index} are identical)`,
+              `${pointer}/${index}`,
+            );
+          } else {
+            seen.set(key, index);
+          }
+        });
+      }
+      const prefix = Array.isArray(s.prefixItems)
+        ? s.prefixItems
+        : Array.isArray(s.items)
+          ? s.items
+          : [];
+      const rest = Array.isArray(s.items) ? s.additionalItems : s.items;
+      data.forEach((item, index) => {
+        const sub = index < prefix.length ? prefix[index] : rest;
+        if (sub !== undefined) {
+          validateNode(item, sub, `${pointer}/${index}`, violations, ctx);
+        }
+      });
+      if (s.contains !== undefined) {
+        const count = data.filter((item, index) =>
+          matches(s.contains, item, `${pointer}/${index}`),
+        ).length;
+        const min = typeof s.minContains === "number" ? s.minContains : 1;
+        if (count < min) {
+          fail(
+            s.minContains !== undefined ? "minContains" : "contains",
+            min,
+            count,
+            `must contain at least ${min} valid item(s)`,
+          );
+        }
+        if (typeof s.maxContains === "number" && count > s.maxContains) {
+          fail(
+            "maxContains",
+            s.maxContains,
+            count,
+            `must contain at most ${s.maxContains} valid item(s)`,
+          );
+        }
+      }
+    }
+    if (isPlainObject(data)) {
+      const keys = Object.keys(data);
+      const properties = isPlainObject(s.properties) ? s.properties : undefined;
+      const patternProperties = isPlainObject(s.patternProperties)
+        ? Object.entries(s.patternProperties).map(([pattern, sub]) => [
+            compileRegExp(pattern),
+            sub,
+          ])
+        : [];
+      if (
+        typeof s.minProperties === "number" &&
+        keys.length < s.minProperties
+      ) {
+        fail(
+          "minProperties",
+          s.minProperties,
+          keys.length,
+          `must NOT have fewer than ${s.minProperties} properties`,
+        );
+      }
+      if (
+        typeof s.maxProperties === "number" &&
+        keys.length > s.maxProperties
+      ) {
+        fail(
+          "maxProperties",
+          s.maxProperties,
+          keys.length,
+          `must NOT have more than ${s.maxProperties} properties`,
+        );
+      }
+      const requireKeys = (required, keyword, why = "") => {
+        for (const key of required) {
+          if (!hasOwn(data, key)) {
+            fail(
+              keyword,
+              key,
+              undefined,
+              `must have required property '${key}'${why}`,
+              `${pointer}/${escapePointer(key)}`,
+            );
+          }
+        }
+      };
+      if (isStringArray(s.required)) {
+        requireKeys(s.required, "required");
+      }
+      const dependentRequired = isPlainObject(s.dependentRequired)
+        ? Object.entries(s.dependentRequired)
+        : [];
+      const dependentSchemas = isPlainObject(s.dependentSchemas)
+        ? Object.entries(s.dependentSchemas)
+        : [];
+      if (isPlainObject(s.dependencies)) {
+        for (const entry of Object.entries(s.dependencies)) {
+          if (isStringArray(entry[1])) dependentRequired.push(entry);
+          else dependentSchemas.push(entry);
+        }
+      }
+      for (const [trigger, required] of dependentRequired) {
+        if (hasOwn(data, trigger) && isStringArray(required)) {
+          requireKeys(
+            required,
+            "dependentRequired",
+            ` when '${trigger}' is present`,
+          );
+        }
+      }
+      for (const [trigger, sub] of dependentSchemas) {
+        if (hasOwn(data, trigger)) {
+          validateNode(data, sub, pointer, violations, ctx);
+        }
+      }
+      for (const key of keys) {
+        const at = `${pointer}/${escapePointer(key)}`;
+        const value = data[key];
+        let evaluated = false;
+        if (properties && hasOwn(properties, key)) {
+          evaluated = true;
+          validateNode(value, properties[key], at, violations, ctx);
+        }
+        for (const [regex, sub] of patternProperties) {
+          if (regex.test(key)) {
+            evaluated = true;
+            validateNode(value, sub, at, violations, ctx);
+          }
+        }
+        if (!evaluated && s.additionalProperties !== undefined) {
+          if (s.additionalProperties === false) {
+            fail(
+              "additionalProperties",
+              properties ? Object.keys(properties) : [],
+              key,
+              "must NOT have additional properties",
+              at,
+            );
+          } else {
+            validateNode(value, s.additionalProperties, at, violations, ctx);
+          }
+        }
+        if (
+          s.propertyNames !== undefined &&
+          !matches(s.propertyNames, key, at)
+        ) {
+          fail(
+            "propertyNames",
+            s.propertyNames,
+            key,
+            `property name '${key}' is invalid`,
+            at,
+          );
+        }
+      }
+    }
+    if (Array.isArray(s.allOf)) {
+      for (const sub of s.allOf) {
+        validateNode(data, sub, pointer, violations, ctx);
+      }
+    }
+    if (Array.isArray(s.anyOf)) {
+      if (!s.anyOf.some((sub) => matches(sub))) {
+        fail("anyOf", 1, 0, "must match at least one schema in anyOf");
+      }
+    }
+    if (Array.isArray(s.oneOf)) {
+      const count = s.oneOf.filter((sub) => matches(sub)).length;
+      if (count !== 1) {
+        fail("oneOf", 1, count, "must match exactly one schema in oneOf");
+      }
+    }
+    if (s.not !== undefined && matches(s.not)) {
+      fail("not", s.not, data, "must NOT be valid against the schema in not");
+    }
+    if (s.if !== undefined) {
+      const branch = matches(s.if) ? s.then : s.else;
+      if (branch !== undefined) {
+        validateNode(data, branch, pointer, violations, ctx);
+      }
+    }
+  }
+
+  // --- Trustless Retrieval, Data Formats and Directory Submissions ---
+  // Inlined from src/unixfs.ts, src/integrity.ts, src/formats.ts and
+  // src/submission.ts
+
+  /* global TextDecoder */
+  const CODEC_RAW = 0x55;
+  const CODEC_DAG_PB = 0x70;
+  const UNIXFS_RAW = 0;
+  const UNIXFS_DIRECTORY = 1;
+  const UNIXFS_FILE = 2;
+  const UNIXFS_HAMT_SHARD = 5;
+  function readCar(bytes) {
+    const [headerLength, headerStart] = readVarint(bytes, 0);
+    const headerEnd = headerStart + headerLength;
+    if (headerEnd > bytes.length) throw new Error("CAR header is truncated");
+    const [header] = readCbor(bytes.subarray(headerStart, headerEnd), 0);
+    const rawRoots = isRecord(header) ? header.roots : undefined;
+    if (!isRecord(header) || header.version !== 1 || !Array.isArray(rawRoots)) {
+      throw new Error("Not a CARv1 file");
+    }
+    const roots = rawRoots.map((root) => {
+      if (!(root instanceof Uint8Array) || root[0] !== 0) {
+        throw new Error("CAR header has an invalid root CID");
+      }
+      return root.subarray(1);
+    });
+    const blocks = new Map();
+    let offset = headerEnd;
+    while (offset < bytes.length) {
+      const [length, start] = readVarint(bytes, offset);
+      const end = start + length;
+      if (end > bytes.length) throw new Error("CAR block is truncated");
+      const cidEnd = readCidEnd(bytes, start);
+      blocks.set(
+        toHex(bytes.subarray(start, cidEnd)),
+        bytes.subarray(cidEnd, end),
+      );
+      offset = end;
+    }
+    return { roots, blocks };
+  }
+  function readDirectoryCar(bytes) {
+    const { roots, blocks } = readCar(bytes);
+    const root = roots[0];
+    if (!root) throw new Error("CAR has no root CID");
+    if (entryKind(root, blocks) !== "directory") {
+      throw new Error("Root CID is not a UnixFS directory");
+    }
+    const files = [];
+    walkDirectory(root, "", blocks, files);
+    return files;
+  }
+  function readFileCar(bytes, path = []) {
+    const { roots, blocks } = readCar(bytes);
+    const root = roots[0];
+    if (!root) throw new Error("CAR has no root CID");
+    const cid = resolvePath(root, path, blocks);
+    if (entryKind(cid, blocks) !== "file") {
+      throw new Error(
+        path.length > 0
+          ? `"${path.join("/")}" is not a file`
+          : "Root CID is not a file",
+      );
+    }
+    return readFile(cid, blocks);
+  }
+  function getBlock(cid, blocks) {
+    const block = blocks.get(toHex(cid));
+    if (!block) throw new Error(`Block ${toHex(cid)} is missing from the CAR`);
+    return block;
+  }
+  function cidCodec(cid) {
+    if (cid[0] === 0x12 && cid[1] === 0x20) return CODEC_DAG_PB;
+    const [, afterVersion] = readVarint(cid, 0);
+    const [codec] = readVarint(cid, afterVersion);
+    return codec;
+  }
+  function entryKind(cid, blocks) {
+    const codec = cidCodec(cid);
+    if (codec === CODEC_RAW) return "file";
+    if (codec !== CODEC_DAG_PB) return "other";
+    const node = decodePBNode(getBlock(cid, blocks));
+    const { type } = decodeUnixFSData(node.data);
+    if (type === UNIXFS_DIRECTORY || type === UNIXFS_HAMT_SHARD) {
+      return "directory";
+    }
+    if (type === UNIXFS_FILE || type === UNIXFS_RAW) return "file";
+    return "other";
+  }
+  function directoryLinks(cid, blocks, partial = false) {
+    const node = decodePBNode(getBlock(cid, blocks));
+    const unixfs = decodeUnixFSData(node.data);
+    const padLength =
+      unixfs.type === UNIXFS_HAMT_SHARD
+        ? ((unixfs.fanout ?? 256) - 1).toString(16).length
+        : 0;
+    const links = [];
+    for (const link of node.links) {
+      if (padLength > 0 && link.name.length === padLength) {
+        if (partial && !blocks.has(toHex(link.hash))) continue;
+        links.push(...directoryLinks(link.hash, blocks, partial));
+      } else {
+        links.push({ ...link, name: link.name.slice(padLength) });
+      }
+    }
+    return links;
+  }
+  function resolvePath(root, path, blocks) {
+    let cid = root;
+    for (const [index, name] of path.entries()) {
+      const link =
+        entryKind(cid, blocks) === "directory"
+          ? directoryLinks(cid, blocks, true).find((l) => l.name === name)
+          : undefined;
+      if (!link) {
+        throw new Error(`No entry at "${path.slice(0, index + 1).join("/")}"`);
+      }
+      cid = link.hash;
+    }
+    return cid;
+  }
+  function walkDirectory(cid, prefix, blocks, files) {
+    for (const link of directoryLinks(cid, blocks)) {
+      const path = prefix + link.name;
+      const kind = entryKind(link.hash, blocks);
+      if (kind === "directory") {
+        walkDirectory(link.hash, `${path}/`, blocks, files);
+      } else if (kind === "file") {
+        files.push({ path, bytes: readFile(link.hash, blocks) });
+      }
+    }
+  }
+  function readFile(cid, blocks) {
+    const block = getBlock(cid, blocks);
+    if (cidCodec(cid) === CODEC_RAW) return block;
+    const node = decodePBNode(block);
+    const parts = [];
+    const { data } = decodeUnixFSData(node.data);
+    if (data) parts.push(data);
+    for (const link of node.links) {
+      parts.push(readFile(link.hash, blocks));
+    }
+    if (parts.length === 1) return parts[0];
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      out.set(part, offset);
+      offset += part.length;
+    }
+    return out;
+  }
+  function decodePBNode(bytes) {
+    const node = { links: [], data: undefined };
+    for (const [field, value] of readProtobuf(bytes)) {
+      if (field === 1 && value instanceof Uint8Array) node.data = value;
+      if (field === 2 && value instanceof Uint8Array) {
+        const link = { hash: new Uint8Array(), name: "", size: 0 };
+        for (const [linkField, linkValue] of readProtobuf(value)) {
+          if (linkField === 1 && linkValue instanceof Uint8Array) {
+            link.hash = linkValue;
+          }
+          if (linkField === 2 && linkValue instanceof Uint8Array) {
+            link.name = new TextDecoder().decode(linkValue);
+          }
+          if (linkField === 3 && typeof linkValue === "number") {
+            link.size = linkValue;
+          }
+        }
+        node.links.push(link);
+      }
+    }
+    return node;
+  }
+  function decodeUnixFSData(bytes) {
+    if (!bytes) throw new Error("dag-pb node has no UnixFS data");
+    const result = { type: -1, data: undefined, fanout: undefined };
+    for (const [field, value] of readProtobuf(bytes)) {
+      if (field === 1 && typeof value === "number") result.type = value;
+      if (field === 2 && value instanceof Uint8Array) result.data = value;
+      if (field === 6 && typeof value === "number") result.fanout = value;
+    }
+    return result;
+  }
+  function readProtobuf(bytes) {
+    const fields = [];
+    let offset = 0;
+    while (offset < bytes.length) {
+      const [key, afterKey] = readVarint(bytes, offset);
+      const field = Math.floor(key / 8);
+      const wireType = key % 8;
+      if (wireType === 0) {
+        const [value, next] = readVarint(bytes, afterKey);
+        fields.push([field, value]);
+        offset = next;
+      } else if (wireType === 2) {
+        const [length, start] = readVarint(bytes, afterKey);
+        if (start + length > bytes.length)
+          throw new Error("Protobuf field is truncated");
+        fields.push([field, bytes.subarray(start, start + length)]);
+        offset = start + length;
+      } else {
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+      }
+    }
+    return fields;
+  }
+  function readVarint(bytes, offset) {
+    let value = 0;
+    let multiplier = 1;
+    let position = offset;
+    for (;;) {
+      const byte = bytes[position];
+      if (byte === undefined) throw new Error("Varint is truncated");
+      value += (byte & 0x7f) * multiplier;
+      position++;
+      if (byte < 0x80) return [value, position];
+      multiplier *= 128;
+    }
+  }
+  function readCidEnd(bytes, offset) {
+    if (bytes[offset] === 0x12 && bytes[offset + 1] === 0x20)
+      return offset + 34;
+    const [, afterVersion] = readVarint(bytes, offset);
+    const [, afterCodec] = readVarint(bytes, afterVersion);
+    const [, afterHashCode] = readVarint(bytes, afterCodec);
+    const [digestLength, digestStart] = readVarint(bytes, afterHashCode);
+    return digestStart + digestLength;
+  }
+  function toHex(bytes) {
+    let hex = "";
+    for (const byte of bytes) hex += byte.toString(16).padStart(2, "0");
+    return hex;
+  }
+  function isRecord(value) {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+  function readCbor(bytes, offset) {
+    const initial = bytes[offset];
+    if (initial === undefined) throw new Error("CBOR value is truncated");
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+    let position = offset + 1;
+    let argument;
+    if (info < 24) {
+      argument = info;
+    } else if (info <= 27) {
+      const size = 2 ** (info - 24);
+      argument = 0;
+      for (let i = 0; i < size; i++) {
+        const byte = bytes[position + i];
+        if (byte === undefined) throw new Error("CBOR value is truncated");
+        argument = argument * 256 + byte;
+      }
+      position += size;
+    } else {
+      throw new Error("Unsupported CBOR encoding");
+    }
+    switch (major) {
+      case 0:
+        return [argument, position];
+      case 1:
+        return [-1 - argument, position];
+      case 2:
+        return [
+          bytes.subarray(position, position + argument),
+          position + argument,
+        ];
+      case 3:
+        return [
+          new TextDecoder().decode(
+            bytes.subarray(position, position + argument),
+          ),
+          position + argument,
+        ];
+      case 4: {
+        const items = [];
+        for (let i = 0; i < argument; i++) {
+          const [item, next] = readCbor(bytes, position);
+          items.push(item);
+          position = next;
+        }
+        return [items, position];
+      }
+      case 5: {
+        const map = {};
+        for (let i = 0; i < argument; i++) {
+          const [key, afterKey] = readCbor(bytes, position);
+          const [value, afterValue] = readCbor(bytes, afterKey);
+          map[String(key)] = value;
+          position = afterValue;
+        }
+        return [map, position];
+      }
+      case 6:
+        return readCbor(bytes, position);
+      default:
+        if (info === 20) return [false, position];
+        if (info === 21) return [true, position];
+        if (info === 22) return [null, position];
+        throw new Error("Unsupported CBOR value");
+    }
+  }
+
+  /* global crypto */
+  class IntegrityError extends Error {
+    cid;
+    constructor(cid, message) {
+      super(`Response for ${cid} failed verification: ${message}`);
+      this.name = "IntegrityError";
+      this.cid = cid;
+    }
+  }
+  const HASH_IDENTITY = 0x00;
+  const HASH_SHA2_256 = 0x12;
+  const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+  const BASE58_ALPHABET =
+    "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+  function parseCID(cid) {
+    if (cid.length === 46 && cid.startsWith("Qm")) return decodeBase58(cid);
+    const body = cid.slice(1);
+    switch (cid[0]) {
+      case "b":
+        return decodeBase32(body);
+      case "B":
+        return decodeBase32(body.toLowerCase());
+      case "z":
+        return decodeBase58(body);
+      case "f":
+        return decodeBase16(body);
+      default:
+        throw new Error(`Unsupported CID encoding: ${cid}`);
+    }
+  }
+  async function verifyCar(bytes, cid) {
+    let car;
+    let expected;
+    try {
+      car = readCar(bytes);
+      expected = toHex(parseCID(cid));
+    } catch (error) {
+      throw new IntegrityError(cid, errorMessage(error));
+    }
+    const root = car.roots[0];
+    if (!root || toHex(root) !== expected) {
+      throw new IntegrityError(cid, "CAR root is not the requested CID");
+    }
+    if (!car.blocks.has(expected)) {
+      throw new IntegrityError(cid, "CAR does not contain the root block");
+    }
+    for (const [blockCid, block] of car.blocks) {
+      const { code, digest } = readMultihash(blockCid);
+      let actual;
+      if (code === HASH_SHA2_256) {
+        actual = new Uint8Array(
+          await crypto.subtle.digest("SHA-256", block.slice()),
+        );
+      } else if (code === HASH_IDENTITY) {
+        actual = block;
+      } else {
+        throw new IntegrityError(
+          cid,
+          `block ${blockCid} uses unsupported hash 0x${code.toString(16)}`,
+        );
+      }
+      if (toHex(actual) !== digest) {
+        throw new IntegrityError(
+          cid,
+          `block ${blockCid} does not match its hash`,
+        );
+      }
+    }
+  }
+  async function readVerifiedFile(bytes, cid, path = []) {
+    await verifyCar(bytes, cid);
+    try {
+      return readFileCar(bytes, path);
+    } catch (error) {
+      throw new IntegrityError(cid, errorMessage(error));
+    }
+  }
+  function readMultihash(cidHex) {
+    const cid = decodeBase16(cidHex);
+    let offset = 0;
+    if (!(cid[0] === 0x12 && cid[1] === 0x20)) {
+      [, offset] = readVarint(cid, 0);
+      [, offset] = readVarint(cid, offset);
+    }
+    const [code, afterCode] = readVarint(cid, offset);
+    const [length, digestStart] = readVarint(cid, afterCode);
+    return {
+      code,
+      digest: toHex(cid.subarray(digestStart, digestStart + length)),
+    };
+  }
+  function decodeBase32(text) {
+    const out = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const char of text) {
+      const value = BASE32_ALPHABET.indexOf(char);
+      if (value < 0) throw new Error(`Invalid base32 character "${char}"`);
+      buffer = ((buffer << 5) | value) & 0xffff;
+      bits += 5;
+      if (bits >= 8) {
+        bits -= 8;
+        out.push((buffer >> bits) & 0xff);
+      }
+    }
+    return new Uint8Array(out);
+  }
+  function decodeBase58(text) {
+    const out = [];
+    for (const char of text) {
+      let carry = BASE58_ALPHABET.indexOf(char);
+      if (carry < 0) throw new Error(`Invalid base58 character "${char}"`);
+      for (let i = 0; i < out.length; i++) {
+        carry += out[i] * 58;
+        out[i] = carry & 0xff;
+        carry >>= 8;
+      }
+      while (carry > 0) {
+        out.push(carry & 0xff);
+        carry >>= 8;
+      }
+    }
+    for (const char of text) {
+      if (char !== "1") break;
+      out.push(0);
+    }
+    return new Uint8Array(out.reverse());
+  }
+  function decodeBase16(text) {
+    if (!/^([0-9a-f]{2})*$/i.test(text)) throw new Error("Invalid base16 CID");
+    return new Uint8Array(
+      (text.match(/../g) ?? []).map((byte) => parseInt(byte, 16)),
+    );
+  }
+  function errorMessage(error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const DATA_FORMATS = ["json", "ndjson", "csv", "tsv"];
+  const COERCION_MODES = ["none", "numbers", "schema"];
+  const NUMERIC_RE = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+  function formatFromPath(path) {
+    const extension = /\.([^./]+)$/.exec(path)?.[1]?.toLowerCase();
+    switch (extension) {
+      case "json":
+        return "json";
+      case "jsonl":
+      case "ndjson":
+        return "ndjson";
+      case "csv":
+        return "csv";
+      case "tsv":
+      case "tab":
+        return "tsv";
+      default:
+        return undefined;
+    }
+  }
+  function detectFormat(text) {
+    const trimmed = text.trim();
+    if (/^[[{]/.test(trimmed)) {
+      try {
+        JSON.parse(trimmed);
+        return "json";
+      } catch {
+        const lines = trimmed.split(/\r?\n/).filter((l) => l.trim() !== "");
+        if (lines.every((line) => isJSON(line))) return "ndjson";
+      }
+    }
+    const firstLine = trimmed.split(/\r?\n/, 1)[0] ?? "";
+    return firstLine.includes("\t") ? "tsv" : "csv";
+  }
+  function parseDocument(text, options) {
+    const source = text.replace(/^\uFEFF/, "");
+    switch (options.format) {
+      case "json":
+        return JSON.parse(source);
+      case "ndjson":
+        return parseNDJSON(source);
+      case "csv":
+      case "tsv": {
+        const delimiter =
+          options.delimiter ?? (options.format === "tsv" ? "\t" : ",");
+        const rows = parseDelimited(source, delimiter);
+        return toRecords(
+          rows,
+          options.header ?? true,
+          options.coerce ?? "schema",
+          options.rowSchema,
+          options.rootSchema ?? options.rowSchema,
+        );
+      }
+    }
+  }
+  function parseDelimited(text, delimiter) {
+    const rows = [];
+    let row = [];
+    let cell = "";
+    let quoted = false;
+    let i = 0;
+    const endRow = () => {
+      row.push(cell);
+      if (row.length > 1 || row[0] !== "") rows.push(row);
+      row = [];
+      cell = "";
+    };
+    while (i < text.length) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i += 2;
+        } else if (char === '"') {
+          quoted = false;
+          i++;
+        } else {
+          cell += char;
+          i++;
+        }
+      } else if (char === '"' && cell === "") {
+        quoted = true;
+        i++;
+      } else if (text.startsWith(delimiter, i)) {
+        row.push(cell);
+        cell = "";
+        i += delimiter.length;
+      } else if (char === "\n" || char === "\r") {
+        endRow();
+        i += char === "\r" && text[i + 1] === "\n" ? 2 : 1;
+      } else {
+        cell += char;
+        i++;
+      }
+    }
+    if (quoted) throw new Error("unterminated quoted cell");
+    if (cell !== "" || row.length > 0) endRow();
+    return rows;
+  }
+  function isJSON(text) {
+    try {
+      JSON.parse(text);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+  function parseNDJSON(text) {
+    const records = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim() === "") return;
+      try {
+        records.push(JSON.parse(line));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`line ${index + 1}: ${reason}`);
+      }
+    });
+    return records;
+  }
+  function toRecords(rows, header, coerce, rowSchema, rootSchema) {
+    const refs =
+      coerce === "schema" ? resolveSchemaRefs(rootSchema) : new Map();
+    const applied = appliedSchemas(rowSchema, refs);
+    if (!header) {
+      const types = [];
+      const typesAt = (i) =>
+        (types[i] ??= columnTypes(applied, refs, (schema) => {
+          const prefixItems = Array.isArray(schema.prefixItems)
+            ? schema.prefixItems
+            : [];
+          return i < prefixItems.length ? prefixItems[i] : schema.items;
+        }));
+      return rows.map((cells) =>
+        cells.map((cell, i) => coerceCell(cell, coerce, typesAt(i))),
+      );
+    }
+    const [names = [], ...body] = rows;
+    const seen = new Set();
+    for (const name of names) {
+      if (seen.has(name)) throw new Error(`duplicate column "${name}"`);
+      seen.add(name);
+    }
+    const types = names.map((name) =>
+      columnTypes(applied, refs, (schema) => {
+        const properties = asObject(schema.properties);
+        return properties && Object.hasOwn(properties, name)
+          ? properties[name]
+          : undefined;
+      }),
+    );
+    return body.map((cells, index) => {
+      if (cells.length !== names.length) {
+        throw new Error(
+          `row ${index + 1}: expected ${names.length} cells, found ${cells.length}`,
+        );
+      }
+      const record = {};
+      names.forEach((name, i) => {
+        record[name] = coerceCell(cells[i], coerce, types[i]);
+      });
+      return record;
+    });
+  }
+  function appliedSchemas(schema, refs, seen = new Set()) {
+    const node = asObject(schema);
+    if (!node || seen.has(node)) return [];
+    seen.add(node);
+    const applied = [node];
+    if (typeof node.$ref === "string") {
+      applied.push(...appliedSchemas(refs.get(node.$ref), refs, seen));
+    }
+    if (Array.isArray(node.allOf)) {
+      for (const member of node.allOf) {
+        applied.push(...appliedSchemas(member, refs, seen));
+      }
+    }
+    return applied;
+  }
+  function columnTypes(rowSchemas, refs, select) {
+    return rowSchemas
+      .flatMap((schema) => appliedSchemas(select(schema), refs))
+      .flatMap((schema) =>
+        Array.isArray(schema.type) ? schema.type : [schema.type],
+      );
+  }
+  function coerceCell(cell, mode, types) {
+    if (mode === "none") return cell;
+    const value = cell.trim();
+    if (mode === "numbers") {
+      return NUMERIC_RE.test(value) ? Number(value) : cell;
+    }
+    if (
+      (types.includes("number") || types.includes("integer")) &&
+      NUMERIC_RE.test(value)
+    ) {
+      return Number(value);
+    }
+    if (types.includes("boolean") && /^(true|false)$/i.test(value)) {
+      return value.toLowerCase() === "true";
+    }
+    if (types.includes("null") && value === "") return null;
+    return cell;
+  }
+  function asObject(value) {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+      ? value
+      : undefined;
+  }
+
+  const SUBMISSION_KEY = "x-submission";
+  const DEFAULT_INCLUDE = ["*.json", "*.jsonl", "*.ndjson", "*.csv", "*.tsv"];
+  const RULE_KEYS = [
+    "layout",
+    "include",
+    "minFiles",
+    "maxFiles",
+    "minRecords",
+    "maxRecords",
+    "format",
+    "delimiter",
+    "header",
+    "coerce",
+  ];
+  const DIRECTORY_ONLY_KEYS = [
+    "include",
+    "minFiles",
+    "maxFiles",
+    "minRecords",
+    "maxRecords",
+  ];
+  function checkSubmissionSchema(schema) {
+    const issues = checkSchema(schema);
+    if (typeof schema !== "object" || schema === null) return issues;
+    const rules = schema[SUBMISSION_KEY];
+    if (rules === undefined) return issues;
+    const at = `/${SUBMISSION_KEY}`;
+    const issue = (key, message) =>
+      issues.push({
+        schemaPointer: key ? `${at}/${key}` : at,
+        keyword: SUBMISSION_KEY,
+        message,
+      });
+    if (typeof rules !== "object" || rules === null || Array.isArray(rules)) {
+      issue("", `${SUBMISSION_KEY} must be an object`);
+      return issues;
+    }
+    const r = rules;
+    for (const key of Object.keys(r)) {
+      if (!RULE_KEYS.includes(key)) issue(key, `unsupported rule "${key}"`);
+    }
+    const layout = r.layout ?? "file";
+    if (layout !== "file" && layout !== "directory") {
+      issue("layout", 'layout must be "file" or "directory"');
+    } else if (layout === "file") {
+      for (const key of DIRECTORY_ONLY_KEYS) {
+        if (key in r) issue(key, `${key} requires layout "directory"`);
+      }
+    }
+    if ("include" in r) {
+      const include = r.include;
+      const globs = Array.isArray(include) ? include : [include];
+      if (
+        globs.length === 0 ||
+        !globs.every((g) => typeof g === "string" && globToRegExp(g) !== null)
+      ) {
+        issue(
+          "include",
+          "include must be a glob or a non-empty array of globs",
+        );
+      }
+    }
+    if ("format" in r && !DATA_FORMATS.concat("auto").includes(r.format)) {
+      issue(
+        "format",
+        `format must be one of ${DATA_FORMATS.join(", ")} or auto`,
+      );
+    }
+    if (
+      "delimiter" in r &&
+      (typeof r.delimiter !== "string" || !/^[^"\r\n]+$/.test(r.delimiter))
+    ) {
+      issue("delimiter", "delimiter must be a non-empty string without quotes");
+    }
+    if ("header" in r && typeof r.header !== "boolean") {
+      issue("header", "header must be a boolean");
+    }
+    if ("coerce" in r && !COERCION_MODES.includes(r.coerce)) {
+      issue("coerce", `coerce must be one of ${COERCION_MODES.join(", ")}`);
+    }
+    for (const key of ["minFiles", "maxFiles", "minRecords", "maxRecords"]) {
+      const value = r[key];
+      if (
+        value !== undefined &&
+        (typeof value !== "number" || !Number.isInteger(value) || value < 0)
+      ) {
+        issue(key, `${key} must be a non-negative integer`);
+      }
+    }
+    return issues;
+  }
+  function getSubmissionRules(schema) {
+    const raw =
+      typeof schema === "object" && schema !== null
+        ? schema[SUBMISSION_KEY]
+        : undefined;
+    const include = raw?.include ?? DEFAULT_INCLUDE;
+    const layout = raw?.layout === "directory" ? "directory" : "file";
+    return {
+      layout,
+      include: Array.isArray(include) ? include : [include],
+      minFiles: typeof raw?.minFiles === "number" ? raw.minFiles : 1,
+      maxFiles: typeof raw?.maxFiles === "number" ? raw.maxFiles : undefined,
+      minRecords:
+        typeof raw?.minRecords === "number" ? raw.minRecords : undefined,
+      maxRecords:
+        typeof raw?.maxRecords === "number" ? raw.maxRecords : undefined,
+      format: raw?.format ?? (layout === "directory" ? "auto" : "json"),
+      delimiter: typeof raw?.delimiter === "string" ? raw.delimiter : undefined,
+      header: raw?.header !== false,
+      coerce: raw?.coerce ?? "schema",
+    };
+  }
+  function verifyDocument(text, schema, rules) {
+    const format = rules.format === "auto" ? detectFormat(text) : rules.format;
+    const rowSchema =
+      typeof schema === "object" && schema !== null ? schema.items : undefined;
+    let document;
+    try {
+      document = parseDocument(text, {
+        ...rules,
+        format,
+        rowSchema,
+        rootSchema: schema,
+      });
+    } catch (error) {
+      return {
+        violations: [parseViolation("", format, error)],
+        recordCount: 0,
+      };
+    }
+    return {
+      violations: validate(document, schema).map((v) => ({ ...v, file: "" })),
+      recordCount: Array.isArray(document) ? document.length : 1,
+    };
+  }
+  function verifyDirectory(files, schema, rules, maxViolations = Infinity) {
+    const violations = [];
+    let recordCount = 0;
+    const validateRecord = compileSchema(schema);
+    const globs = rules.include.map((g) => globToRegExp(g));
+    const matched = files.filter((f) => globs.some((g) => g.test(f.path)));
+    const limit = (keyword, expected, actual, message, file = "") =>
+      violations.push({
+        file,
+        pointer: "",
+        keyword,
+        expected,
+        actual,
+        message,
+      });
+    if (matched.length < rules.minFiles) {
+      limit(
+        "minFiles",
+        rules.minFiles,
+        matched.length,
+        `must contain at least ${rules.minFiles} file(s) matching ${rules.include.join(", ")}`,
+      );
+    }
+    if (rules.maxFiles !== undefined && matched.length > rules.maxFiles) {
+      limit(
+        "maxFiles",
+        rules.maxFiles,
+        matched.length,
+        `must contain at most ${rules.maxFiles} matching file(s)`,
+      );
+    }
+    for (const file of matched) {
+      if (violations.length >= maxViolations) break;
+      let format = "json";
+      let records;
+      try {
+        const text = new TextDecoder("utf-8", { fatal: true }).decode(
+          file.bytes,
+        );
+        format =
+          rules.format !== "auto"
+            ? rules.format
+            : (formatFromPath(file.path) ?? detectFormat(text));
+        const parsed = parseDocument(text, {
+          ...rules,
+          format,
+          rowSchema: schema,
+        });
+        records = format === "json" ? [parsed] : parsed;
+      } catch (error) {
+        violations.push(parseViolation(file.path, format, error));
+        continue;
+      }
+      if (rules.minRecords !== undefined && records.length < rules.minRecords) {
+        limit(
+          "minRecords",
+          rules.minRecords,
+          records.length,
+          `must contain at least ${rules.minRecords} record(s)`,
+          file.path,
+        );
+      }
+      if (rules.maxRecords !== undefined && records.length > rules.maxRecords) {
+        limit(
+          "maxRecords",
+          rules.maxRecords,
+          records.length,
+          `must contain at most ${rules.maxRecords} record(s)`,
+          file.path,
+        );
+      }
+      for (let i = 0; i < records.length; i++) {
+        if (violations.length >= maxViolations) break;
+        recordCount++;
+        for (const v of validateRecord(records[i])) {
+          violations.push({ ...v, file: file.path, record: i });
+        }
+      }
+    }
+    return { violations: violations.slice(0, maxViolations), recordCount };
+  }
+  function globToRegExp(glob) {
+    let source = "";
+    let depth = 0;
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (char === "*" && glob[i + 1] === "*") {
+        const slash = glob[i + 2] === "/";
+        source += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+      } else if (char === "*") {
+        source += "[^/]*";
+      } else if (char === "?") {
+        source += "[^/]";
+      } else if (char === "{") {
+        source += "(?:";
+        depth++;
+      } else if (char === "}" && depth > 0) {
+        source += ")";
+        depth--;
+      } else if (char === "," && depth > 0) {
+        source += "|";
+      } else {
+        source += /[.+^$()|[\]\\{}]/.test(char) ? `\\${char}` : char;
+      }
+    }
+    return depth === 0 ? new RegExp("^" + source + "$") : null;
+  }
+  function parseViolation(file, format, error) {
+    return {
+      file,
+      pointer: "",
+      keyword: "parse",
+      expected: format,
+      actual: error instanceof Error ? error.message : String(error),
+      message: `must be valid ${format.toUpperCase()}`,
+    };
+  }
+
+  // --- Result Encoding ---
+  // Inlined from src/result.ts
+
+  /* global TextEncoder */
+  const VERIFICATION_STATUS = {
+    invalid: 0,
+    valid: 1,
+    "schema-fetch-failed": 2,
+    "data-fetch-failed": 3,
+    timeout: 4,
+    "schema-rejected": 5,
+    "decryption-failed": 6,
+    duplicate: 7,
+    "verifier-fetch-failed": 8,
+  };
+  const RESULT_VERSION = 1;
+  const MAX_RECORD_COUNT = 0xffffffff;
+  const FNV_OFFSET = 0xcbf29ce484222325n;
+  const FNV_PRIME = 0x100000001b3n;
+  const MASK_64 = 0xffffffffffffffffn;
+  function encodeVerificationResult(outcome) {
+    const count = Math.min(
+      Math.max(Math.floor(outcome.recordCount ?? 0), 0),
+      MAX_RECORD_COUNT,
+    );
+    const hash =
+      outcome.failedPath === undefined
+        ? 0n
+        : BigInt("0x" + hashFailedPath(outcome.failedPath));
+    const digest = outcome.contentDigest
+      ? BigInt("0x" + outcome.contentDigest.slice(0, 16))
+      : 0n;
+    return (
+      (BigInt(RESULT_VERSION) << 248n) |
+      (digest << 104n) |
+      (hash << 40n) |
+      (BigInt(count) << 8n) |
+      BigInt(VERIFICATION_STATUS[outcome.reason])
+    );
+  }
+  function decodeVerificationResult(value) {
+    const word =
+      typeof value === "string"
+        ? BigInt(value.startsWith("0x") ? value : "0x" + value)
+        : BigInt(value);
+    if (word < 0n || word >> 256n !== 0n) {
+      throw new Error("Verification result is not a uint256");
+    }
+    const status = Number(word & 0xffn);
+    const hash = (word >> 40n) & MASK_64;
+    const digest = (word >> 104n) & MASK_64;
+    const reason = Object.keys(VERIFICATION_STATUS).find(
+      (key) => VERIFICATION_STATUS[key] === status,
+    );
+    return {
+      status,
+      reason: reason ?? "unknown",
+      verified: status === VERIFICATION_STATUS.valid,
+      recordCount: Number((word >> 8n) & 0xffffffffn),
+      failedPathHash: hash === 0n ? null : hash.toString(16).padStart(16, "0"),
+      contentDigest:
+        digest === 0n ? null : digest.toString(16).padStart(16, "0"),
+      version: Number(word >> 248n),
+    };
+  }
+  function hashFailedPath(path) {
+    let hash = FNV_OFFSET;
+    for (const byte of new TextEncoder().encode(path)) {
+      hash ^= BigInt(byte);
+      hash = (hash * FNV_PRIME) & MASK_64;
+    }
+    return hash.toString(16).padStart(16, "0");
+  }
+  function formatFailedPath(violation) {
+    const record = violation.record === undefined ? "" : `#${violation.record}`;
+    return `${violation.file ?? ""}${record}${violation.pointer}`;
+  }
+
+  // --- Encrypted Submissions ---
+  // Inlined from src/envelope.ts
+
+  /* global atob */
+  const ENVELOPE_MAGIC = "SBE1";
+  const ENVELOPE_VERSION = 1;
+  const ENVELOPE_ALGORITHM = "X25519-HKDF-SHA256-A256GCM";
+  const ENVELOPE_INFO = "storacha-bounty-envelope v1";
+  const X25519_PKCS8_PREFIX = [
+    0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e,
+    0x04, 0x22, 0x04, 0x20,
+  ];
+  class DecryptionError extends Error {
+    constructor(message) {
+      super(message);
+      this.name = "DecryptionError";
+    }
+  }
+  function isEnvelope(bytes) {
+    return (
+      bytes.length >= 8 &&
+      String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]) ===
+        ENVELOPE_MAGIC
+    );
+  }
+  function readEnvelope(bytes) {
+    if (!isEnvelope(bytes)) {
+      throw new DecryptionError("Not an encrypted submission");
+    }
+    const length = new DataView(
+      bytes.buffer,
+      bytes.byteOffset,
+      bytes.byteLength,
+    ).getUint32(4);
+    if (8 + length > bytes.length) {
+      throw new DecryptionError("Envelope header is truncated");
+    }
+    const headerBytes = bytes.subarray(8, 8 + length);
+    let header;
+    try {
+      header = JSON.parse(new TextDecoder().decode(headerBytes));
+    } catch {
+      throw new DecryptionError("Envelope header is not JSON");
+    }
+    if (header.version !== ENVELOPE_VERSION) {
+      throw new DecryptionError(
+        `Unsupported envelope version: ${header.version}`,
+      );
+    }
+    if (header.algorithm !== ENVELOPE_ALGORITHM) {
+      throw new DecryptionError(
+        `Unsupported envelope algorithm: ${header.algorithm}`,
+      );
+    }
+    if (!Array.isArray(header.recipients) || typeof header.iv !== "string") {
+      throw new DecryptionError("Envelope header is incomplete");
+    }
+    return { header, headerBytes, ciphertext: bytes.subarray(8 + length) };
+  }
+  async function deriveWrappingKey(
+    privateKey,
+    peerPublicKey,
+    ephemeralPublicKey,
+    recipientPublicKey,
+  ) {
+    const peer = await crypto.subtle.importKey(
+      "raw",
+      peerPublicKey.slice(),
+      { name: "X25519" },
+      false,
+      [],
+    );
+    const shared = await crypto.subtle.deriveBits(
+      { name: "X25519", public: peer },
+      privateKey,
+      256,
+    );
+    const hkdf = await crypto.subtle.importKey("raw", shared, "HKDF", false, [
+      "deriveKey",
+    ]);
+    const salt = new Uint8Array(64);
+    salt.set(ephemeralPublicKey, 0);
+    salt.set(recipientPublicKey, 32);
+    return crypto.subtle.deriveKey(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt,
+        info: new TextEncoder().encode(ENVELOPE_INFO),
+      },
+      hkdf,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+  }
+  async function importPrivateKey(privateKey) {
+    const raw = decodeBase64(privateKey);
+    if (raw.length !== 32) {
+      throw new DecryptionError("Private key must be 32 bytes");
+    }
+    const pkcs8 = new Uint8Array(X25519_PKCS8_PREFIX.length + 32);
+    pkcs8.set(X25519_PKCS8_PREFIX, 0);
+    pkcs8.set(raw, X25519_PKCS8_PREFIX.length);
+    return crypto.subtle.importKey("pkcs8", pkcs8, { name: "X25519" }, true, [
+      "deriveBits",
+    ]);
+  }
+  async function openEnvelope(bytes, privateKey) {
+    const { header, headerBytes, ciphertext } = readEnvelope(bytes);
+    const key = await importPrivateKey(privateKey);
+    for (const recipient of header.recipients) {
+      const recipientPublicKey = decodeBase64(recipient.publicKey);
+      const ephemeralPublicKey = decodeBase64(recipient.ephemeralPublicKey);
+      let contentKey;
+      try {
+        const wrappingKey = await deriveWrappingKey(
+          key,
+          ephemeralPublicKey,
+          ephemeralPublicKey,
+          recipientPublicKey,
+        );
+        const rawKey = await crypto.subtle.decrypt(
+          { name: "AES-GCM", iv: decodeBase64(recipient.iv).slice() },
+          wrappingKey,
+          decodeBase64(recipient.wrappedKey).slice(),
+        );
+        contentKey = await crypto.subtle.importKey(
+          "raw",
+          rawKey,
+          "AES-GCM",
+          false,
+          ["decrypt"],
+        );
+      } catch {
+        continue;
+      }
+      try {
+        return new Uint8Array(
+          await crypto.subtle.decrypt(
+            {
+              name: "AES-GCM",
+              iv: decodeBase64(header.iv).slice(),
+              additionalData: headerBytes.slice(),
+            },
+            contentKey,
+            ciphertext.slice(),
+          ),
+        );
+      } catch {
+        throw new DecryptionError("Encrypted data failed authentication");
+      }
+    }
+    throw new DecryptionError("Key is not a recipient of this envelope");
+  }
+  function decodeBase64(text) {
+    let binary;
+    try {
+      binary = atob(text);
+    } catch {
+      throw new DecryptionError("Invalid base64 in envelope");
+    }
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  // --- Duplicate Detection ---
+  // Inlined from src/digest.ts
+
+  async function contentDigest(bytes) {
+    return toHex(
+      new Uint8Array(await crypto.subtle.digest("SHA-256", bytes.slice())),
+    );
+  }
+  async function directoryDigest(files) {
+    const sorted = [...files].sort((a, b) =>
+      a.path < b.path ? -1 : a.path > b.path ? 1 : 0,
+    );
+    let listing = "";
+    for (const file of sorted) {
+      listing += `${file.path}\0${await contentDigest(file.bytes)}\n`;
+    }
+    return contentDigest(new TextEncoder().encode(listing));
+  }
+  function sameDigest(a, b) {
+    return (
+      a.length >= 16 &&
+      b.length >= 16 &&
+      a.slice(0, 16).toLowerCase() === b.slice(0, 16).toLowerCase()
+    );
+  }
+
+  // --- Main Logic ---
+
+  // Log and encode the outcome; the log shows the fields as stored on-chain
+  function finish(outcome) {
+    const result = encodeVerificationResult(outcome);
+    const { reason, recordCount, failedPathHash } =
+      decodeVerificationResult(result);
+    console.log(
+      `Validation result: ${reason.toUpperCase()} (${recordCount} records checked)`,
+    );
+    if (failedPathHash !== null) {
+      console.log(
+        `Failed path: ${outcome.failedPath} (hash ${failedPathHash})`,
+      );
+    }
+    return Functions.encodeUint256(result);
+  }
+
+  if (!dataCid || !schemaCid) {
+    console.log("Missing required arguments: dataCid and schemaCid");
+    return finish({ reason: "invalid" });
+  }
+
+  console.log(`Data CID: ${dataCid}`);
+  console.log(`Schema CID: ${schemaCid}`);
+
+  const schemaFetch = await fetchFromIPFS(schemaCid, readVerifiedFile);
+  if (schemaFetch.data === null) {
+    console.log("Failed to fetch schema from IPFS");
+    return finish({
+      reason: schemaFetch.timedOut ? "timeout" : "schema-fetch-failed",
+    });
+  }
+
+  let schema;
+  try {
+    schema = JSON.parse(decodeText(schemaFetch.data));
+  } catch (error) {
+    console.log(`Schema is not a JSON file: ${error.message}`);
+    return finish({ reason: "schema-rejected", failedPath: "" });
+  }
+
+  // Unsupported or malformed schemas never count as a pass
+  const schemaIssues = checkSubmissionSchema(schema);
+  if (schemaIssues.length > 0) {
+    for (const issue of schemaIssues.slice(0, 5)) {
+      console.log(
+        `Schema rejected at "${issue.schemaPointer}": ${issue.message}`,
+      );
+    }
+    return finish({
+      reason: "schema-rejected",
+      failedPath: schemaIssues[0].schemaPointer,
+    });
+  }
+  console.log("Schema fetched successfully");
+
+  const rules = getSubmissionRules(schema);
+  let report;
+  let digest;
+
+  if (rules.layout === "directory") {
+    // A directory CAR costs a single HTTP request
+    const carFetch = await fetchFromIPFS(dataCid, readVerifiedCar);
+    if (carFetch.data === null) {
+      console.log("Failed to fetch data from IPFS");
+      return finish({
+        reason: carFetch.timedOut ? "timeout" : "data-fetch-failed",
+      });
+    }
+
+    let files;
+    try {
+      files = readDirectoryCar(carFetch.data);
+    } catch (error) {
+      console.log(`Failed to read directory: ${error.message}`);
+      return finish({ reason: "invalid", failedPath: "" });
+    }
+    console.log(`Directory fetched successfully (${files.length} files)`);
+
+    digest = await directoryDigest(files);
+    if (knownDigests.some((known) => sameDigest(digest, known))) {
+      console.log(`Duplicate of an earlier submission (digest ${digest})`);
+      return finish({ reason: "duplicate", contentDigest: digest });
+    }
+
+    report = verifyDirectory(files, schema, rules, 5);
+  } else {
+    const dataFetch = await fetchFromIPFS(dataCid, readVerifiedFile);
+    if (dataFetch.data === null) {
+      console.log("Failed to fetch data from IPFS");
+      return finish({
+        reason: dataFetch.timedOut ? "timeout" : "data-fetch-failed",
+      });
+    }
+
+    // Encrypted submissions are opened with the DON-hosted verifier key
+    let bytes = dataFetch.data;
+    if (isEnvelope(bytes)) {
+      const submissionKey =
+        typeof secrets === "object" && secrets
+          ? secrets.submissionKey
+          : undefined;
+      if (!submissionKey) {
+        console.log("Data is encrypted but no submissionKey secret is set");
+        return finish({ reason: "decryption-failed" });
+      }
+      try {
+        bytes = await openEnvelope(bytes, submissionKey);
+      } catch (error) {
+        console.log(`Failed to decrypt data: ${error.message}`);
+        return finish({ reason: "decryption-failed" });
+      }
+      console.log("Data decrypted successfully");
+    }
+
+    // Digest the plaintext: sealing is randomized, so ciphertexts never match
+    digest = await contentDigest(bytes);
+    if (knownDigests.some((known) => sameDigest(digest, known))) {
+      console.log(`Duplicate of an earlier submission (digest ${digest})`);
+      return finish({ reason: "duplicate", contentDigest: digest });
+    }
+
+    // Read as text so CSV, TSV and NDJSON reach the parser unchanged
+    let text;
+    try {
+      text = decodeText(bytes);
+    } catch (error) {
+      console.log(`Failed to read data: ${error.message}`);
+      return finish({ reason: "invalid", failedPath: "" });
+    }
+    console.log(`Data fetched successfully (${rules.format})`);
+
+    report = verifyDocument(text, schema, rules);
+  }
+
+  const { violations, recordCount } = report;
+  for (const v of violations.slice(0, 5)) {
+    const where = v.file
+      ? `${v.file}${v.record === undefined ? "" : `#${v.record}`}`
+      : "";
+    console.log(
+      `Violation at ${where}"${v.pointer}" (${v.keyword}): ${v.message}`,
+    );
+  }
+
+  return finish(
+    violations.length === 0
+      ? { reason: "valid", recordCount, contentDigest: digest }
+      : {
+          reason: "invalid",
+          recordCount,
+          failedPath: formatFailedPath(violations[0]),
+          contentDigest: digest,
+        },
+  );
+}
@@ -0,0 +1,275 @@
+/* global Functions, args, secrets, console */
+// Chainlink Functions verifier module
+// Runs on the Chainlink DON (Deno sandbox), loaded by src/source.js
+//
+// This is the body of `verify(Functions, args, secrets)`, the default export
+// of src/verifier.js. It receives the request's args and secrets.
+//
+// args[0] = IPFS CID of the submitted data (a directory when the schema
+//           declares "x-submission": { "layout": "directory" })
+// args[1] = IPFS CID of the JSON Schema to validate against
+// args[2] = (optional) Gateway base URL override (for testing); "" for the
+//           default gateways
+// args[3] = (optional) Comma-separated content digests (hex) of earlier
+//           submissions to the bounty; matching data is a duplicate
+//
+// secrets.submissionKey = (optional) X25519 private key (base64) for bounties
+//           that accept encrypted submissions (see src/envelope.ts)
+//
+// Returns: Functions.encodeUint256(result), where result packs a status code,
+// the number of records checked, a hash of the first failing path and the
+// data's content digest (see src/result.ts). The low byte is 1 if valid.
+
+const dataCid = args[0];
+const schemaCid = args[1];
+const gatewayOverride = args[2];
+const knownDigests = (args[3] || "")
+  .split(",")
+  .map((digest) => digest.trim())
+  .filter(Boolean);
+
+// --- IPFS Fetching ---
+
+const GATEWAYS = gatewayOverride
+  ? [gatewayOverride]
+  : ["https://w3s.link/ipfs/", "https://ipfs.io/ipfs/"];
+
+function isTimeout(res) {
+  return (
+    res.code === "ECONNABORTED" || /abort|timeout/i.test(res.message || "")
+  );
+}
+
+// Trustless retrieval: every fetch asks for a CAR and checks each block
+// against the requested CID, so a gateway cannot substitute other content.
+// A mismatching gateway is skipped like a failing one. `read` verifies the
+// CAR and extracts the data. Returns { data }, with data null once every
+// gateway has failed; timedOut is set when every failure was a timeout.
+async function fetchFromIPFS(cid, read) {
+  let timedOut = true;
+  for (const gw of GATEWAYS) {
+    const sep = gw.endsWith("/") ? "" : "/";
+    const url = `${gw}${sep}${cid}?format=car`;
+    console.log(`Fetching: ${url}`);
+    const res = await Functions.makeHttpRequest({
+      url,
+      timeout: 8000,
+      responseType: "arraybuffer",
+      headers: { Accept: "application/vnd.ipld.car" },
+    });
+    if (!res.error) {
+      try {
+        return { data: await read(new Uint8Array(res.data), cid) };
+      } catch (error) {
+        timedOut = false;
+        console.log(`Gateway failed: ${gw} — ${error.message}`);
+        continue;
+      }
+    }
+    timedOut = timedOut && isTimeout(res);
+    console.log(`Gateway failed: ${gw} — ${res.message || "unknown error"}`);
+  }
+  return { data: null, timedOut };
+}
+
+async function readVerifiedCar(car, cid) {
+  await verifyCar(car, cid);
+  return car;
+}
+
+function decodeText(bytes) {
+  return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+}
+
+// --- JSON Schema Validator ---
+// Inlined from src/validator.ts by scripts/bundle-source.ts
+
+/* @bundle validator */
+
+// --- Trustless Retrieval, Data Formats and Directory Submissions ---
+// Inlined from src/unixfs.ts, src/integrity.ts, src/formats.ts and
+// src/submission.ts
+
+/* global readDirectoryCar, TextDecoder */
+/* @bundle unixfs */
+
+/* global verifyCar, readVerifiedFile */
+/* @bundle integrity */
+
+/* @bundle formats */
+
+/* global checkSubmissionSchema, getSubmissionRules, verifyDirectory, verifyDocument */
+/* @bundle submission */
+
+// --- Result Encoding ---
+// Inlined from src/result.ts
+
+/* global encodeVerificationResult, decodeVerificationResult, formatFailedPath */
+/* @bundle result */
+
+// --- Encrypted Submissions ---
+// Inlined from src/envelope.ts
+
+/* global isEnvelope, openEnvelope */
+/* @bundle envelope */
+
+// --- Duplicate Detection ---
+// Inlined from src/digest.ts
+
+/* global contentDigest, directoryDigest, sameDigest */
+/* @bundle digest */
+
+// --- Main Logic ---
+
+// Log and encode the outcome; the log shows the fields as stored on-chain
+function finish(outcome) {
+  const result = encodeVerificationResult(outcome);
+  const { reason, recordCount, failedPathHash } =
+    decodeVerificationResult(result);
+  console.log(
+    `Validation result: ${reason.toUpperCase()} (${recordCount} records checked)`,
+  );
+  if (failedPathHash !== null) {
+    console.log(`Failed path: ${outcome.failedPath} (hash ${failedPathHash})`);
+  }
+  return Functions.encodeUint256(result);
+}
+
+if (!dataCid || !schemaCid) {
+  console.log("Missing required arguments: dataCid and schemaCid");
+  return finish({ reason: "invalid" });
+}
+
+console.log(`Data CID: ${dataCid}`);
+console.log(`Schema CID: ${schemaCid}`);
+
+const schemaFetch = await fetchFromIPFS(schemaCid, readVerifiedFile);
+if (schemaFetch.data === null) {
+  console.log("Failed to fetch schema from IPFS");
+  return finish({
+    reason: schemaFetch.timedOut ? "timeout" : "schema-fetch-failed",
+  });
+}
+
+let schema;
+try {
+  schema = JSON.parse(decodeText(schemaFetch.data));
+} catch (error) {
+  console.log(`Schema is not a JSON file: ${error.message}`);
+  return finish({ reason: "schema-rejected", failedPath: "" });
+}
+
+// Unsupported or malformed schemas never count as a pass
+const schemaIssues = checkSubmissionSchema(schema);
+if (schemaIssues.length > 0) {
+  for (const issue of schemaIssues.slice(0, 5)) {
+    console.log(
+      `Schema rejected at "${issue.schemaPointer}": ${issue.message}`,
+    );
+  }
+  return finish({
+    reason: "schema-rejected",
+    failedPath: schemaIssues[0].schemaPointer,
+  });
+}
+console.log("Schema fetched successfully");
+
+const rules = getSubmissionRules(schema);
+let report;
+let digest;
+
+if (rules.layout === "directory") {
+  // A directory CAR costs a single HTTP request
+  const carFetch = await fetchFromIPFS(dataCid, readVerifiedCar);
+  if (carFetch.data === null) {
+    console.log("Failed to fetch data from IPFS");
+    return finish({
+      reason: carFetch.timedOut ? "timeout" : "data-fetch-failed",
+    });
+  }
+
+  let files;
+  try {
+    files = readDirectoryCar(carFetch.data);
+  } catch (error) {
+    console.log(`Failed to read directory: ${error.message}`);
+    return finish({ reason: "invalid", failedPath: "" });
+  }
+  console.log(`Directory fetched successfully (${files.length} files)`);
+
+  digest = await directoryDigest(files);
+  if (knownDigests.some((known) => sameDigest(digest, known))) {
+    console.log(`Duplicate of an earlier submission (digest ${digest})`);
+    return finish({ reason: "duplicate", contentDigest: digest });
+  }
+
+  report = verifyDirectory(files, schema, rules, 5);
+} else {
+  const dataFetch = await fetchFromIPFS(dataCid, readVerifiedFile);
+  if (dataFetch.data === null) {
+    console.log("Failed to fetch data from IPFS");
+    return finish({
+      reason: dataFetch.timedOut ? "timeout" : "data-fetch-failed",
+    });
+  }
+
+  // Encrypted submissions are opened with the DON-hosted verifier key
+  let bytes = dataFetch.data;
+  if (isEnvelope(bytes)) {
+    const submissionKey =
+      typeof secrets === "object" && secrets
+        ? secrets.submissionKey
+        : undefined;
+    if (!submissionKey) {
+      console.log("Data is encrypted but no submissionKey secret is set");
+      return finish({ reason: "decryption-failed" });
+    }
+    try {
+      bytes = await openEnvelope(bytes, submissionKey);
+    } catch (error) {
+      console.log(`Failed to decrypt data: ${error.message}`);
+      return finish({ reason: "decryption-failed" });
+    }
+    console.log("Data decrypted successfully");
+  }
+
+  // Digest the plaintext: sealing is randomized, so ciphertexts never match
+  digest = await contentDigest(bytes);
+  if (knownDigests.some((known) => sameDigest(digest, known))) {
+    console.log(`Duplicate of an earlier submission (digest ${digest})`);
+    return finish({ reason: "duplicate", contentDigest: digest });
+  }
+
+  // Read as text so CSV, TSV and NDJSON reach the parser unchanged
+  let text;
+  try {
+    text = decodeText(bytes);
+  } catch (error) {
+    console.log(`Failed to read data: ${error.message}`);
+    return finish({ reason: "invalid", failedPath: "" });
+  }
+  console.log(`Data fetched successfully (${rules.format})`);
+
+  report = verifyDocument(text, schema, rules);
+}
+
+const { violations, recordCount } = report;
+for (const v of violations.slice(0, 5)) {
+  const where = v.file
+    ? `${v.file}${v.record === undefined ? "" : `#${v.record}`}`
+    : "";
+  console.log(
+    `Violation at ${where}"${v.pointer}" (${v.keyword}): ${v.message}`,
+  );
+}
+
+return finish(
+  violations.length === 0
+    ? { reason: "valid", recordCount, contentDigest: digest }
+    : {
+        reason: "invalid",
+        recordCount,
+        failedPath: formatFailedPath(violations[0]),
+        contentDigest: digest,
+      },
+);
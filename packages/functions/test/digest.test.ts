@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "node:crypto";
+import { contentDigest, directoryDigest, sameDigest } from "../src/digest.js";
+import { fingerprintDocument, rowOverlap } from "../src/fingerprint.js";
+import { getSubmissionRules } from "../src/submission.js";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const sha256 = (text: string) =>
+  createHash("sha256").update(text).digest("hex");
+
+describe("contentDigest", () => {
+  it("should hash the bytes with SHA-256", async () => {
+    expect(await contentDigest(encode("hello"))).toBe(sha256("hello"));
+  });
+});
+
+describe("directoryDigest", () => {
+  it("should not depend on file order", async () => {
+    const a = { path: "a.json", bytes: encode("1") };
+    const b = { path: "sub/b.json", bytes: encode("2") };
+
+    expect(await directoryDigest([a, b])).toBe(await directoryDigest([b, a]));
+    expect(await directoryDigest([a, b])).toBe(
+      sha256(`a.json\0${sha256("1")}\nsub/b.json\0${sha256("2")}\n`),
+    );
+  });
+
+  it("should change when a file is renamed", async () => {
+    const bytes = encode("1");
+    expect(await directoryDigest([{ path: "a.json", bytes }])).not.toBe(
+      await directoryDigest([{ path: "b.json", bytes }]),
+    );
+  });
+});
+
+describe("sameDigest", () => {
+  it("should compare the 64 bits kept on-chain", () => {
+    const digest = sha256("hello");
+    expect(sameDigest(digest, digest.slice(0, 16).toUpperCase())).toBe(true);
+    expect(sameDigest(digest, sha256("world"))).toBe(false);
+    expect(sameDigest(digest, "")).toBe(false);
+  });
+});
+
+describe("fingerprintDocument", () => {
+  const csv = getSubmissionRules({ "x-submission": { format: "csv" } });
+
+  it("should hash each CSV row", async () => {
+    const a = await fingerprintDocument(encode("t,v\nx,1\ny,2\n"), csv);
+    // Same rows, reordered, with CRLF line endings
+    const b = await fingerprintDocument(encode("t,v\r\ny,2\r\nx,1\r\n"), csv);
+
+    expect(a.digest).not.toBe(b.digest);
+    expect(a.rows).toHaveLength(2);
+    expect([...b.rows!].sort()).toEqual([...a.rows!].sort());
+  });
+
+  it("should ignore key order and whitespace in JSON records", async () => {
+    const json = getSubmissionRules({});
+    const a = await fingerprintDocument(encode('[{"a":1,"b":2}]'), json);
+    const b = await fingerprintDocument(
+      encode('[\n  { "b": 2, "a": 1 }\n]'),
+      json,
+    );
+    expect(b.rows).toEqual(a.rows);
+  });
+
+  it("should have no rows for single objects and unparseable data", async () => {
+    const json = getSubmissionRules({});
+    expect((await fingerprintDocument(encode('{"a":1}'), json)).rows).toBe(
+      null,
+    );
+    expect(
+      (await fingerprintDocument(encode("{not json"), json)).rows,
+    ).toBeNull();
+    expect(
+      (await fingerprintDocument(new Uint8Array([0xff, 0xfe]), json)).rows,
+    ).toBeNull();
+  });
+});
+
+describe("rowOverlap", () => {
+  it("should measure the share of repeated rows", () => {
+    expect(rowOverlap(["a", "b", "c", "d"], ["b", "d", "x"])).toBe(0.5);
+    expect(rowOverlap(["a"], ["a"])).toBe(1);
+    expect(rowOverlap([], ["a"])).toBe(0);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  DecryptionError,
+  isEnvelope,
+  openEnvelope,
+  readEnvelope,
+} from "../src/envelope.js";
+import { generateEncryptionKeyPair, sealEnvelope } from "../src/seal.js";
+
+const DATA = new TextEncoder().encode('{"name":"Alice","age":30}');
+
+/** Replace an ASCII string in the envelope with one of the same length */
+function patch(bytes: Uint8Array, from: string, to: string): Uint8Array {
+  const text = Array.from(bytes, (b) => String.fromCharCode(b)).join("");
+  const index = text.indexOf(from);
+  expect(index).toBeGreaterThan(0);
+  const out = bytes.slice();
+  out.set(new TextEncoder().encode(to), index);
+  return out;
+}
+
+describe("sealEnvelope / openEnvelope", () => {
+  it("should round-trip data for every recipient", async () => {
+    const creator = await generateEncryptionKeyPair();
+    const verifier = await generateEncryptionKeyPair();
+    const sealed = await sealEnvelope(
+      DATA,
+      [creator.publicKey, verifier.publicKey],
+      { contentType: "application/json" },
+    );
+
+    expect(isEnvelope(sealed)).toBe(true);
+    expect(await openEnvelope(sealed, creator.privateKey)).toEqual(DATA);
+    expect(await openEnvelope(sealed, verifier.privateKey)).toEqual(DATA);
+
+    const { header } = readEnvelope(sealed);
+    expect(header.contentType).toBe("application/json");
+    expect(header.recipients.map((r) => r.publicKey)).toEqual([
+      creator.publicKey,
+      verifier.publicKey,
+    ]);
+  });
+
+  it("should not contain the plaintext", async () => {
+    const { publicKey } = await generateEncryptionKeyPair();
+    const sealed = await sealEnvelope(DATA, [publicKey]);
+    expect(new TextDecoder().decode(sealed)).not.toContain("Alice");
+  });
+
+  it("should reject a key that is not a recipient", async () => {
+    const creator = await generateEncryptionKeyPair();
+    const other = await generateEncryptionKeyPair();
+    const sealed = await sealEnvelope(DATA, [creator.publicKey]);
+
+    await expect(openEnvelope(sealed, other.privateKey)).rejects.toThrow(
+      "Key is not a recipient of this envelope",
+    );
+  });
+
+  it("should reject tampered ciphertext and headers", async () => {
+    const { publicKey, privateKey } = await generateEncryptionKeyPair();
+    const sealed = await sealEnvelope(DATA, [publicKey], {
+      contentType: "application/json",
+    });
+
+    const body = sealed.slice();
+    body[body.length - 1]! ^= 1;
+    await expect(openEnvelope(body, privateKey)).rejects.toThrow(
+      "Encrypted data failed authentication",
+    );
+
+    // The header is authenticated too, so relabelling the content is caught
+    const relabelled = patch(sealed, "application/json", "application/jsox");
+    await expect(openEnvelope(relabelled, privateKey)).rejects.toThrow(
+      DecryptionError,
+    );
+  });
+
+  it("should reject data that is not an envelope", async () => {
+    const { privateKey } = await generateEncryptionKeyPair();
+    expect(isEnvelope(DATA)).toBe(false);
+    await expect(openEnvelope(DATA, privateKey)).rejects.toThrow(
+      "Not an encrypted submission",
+    );
+  });
+
+  it("should reject unknown envelope versions", async () => {
+    const { publicKey, privateKey } = await generateEncryptionKeyPair();
+    const sealed = await sealEnvelope(DATA, [publicKey]);
+    const bumped = patch(sealed, '"version":1', '"version":9');
+
+    await expect(openEnvelope(bumped, privateKey)).rejects.toThrow(
+      "Unsupported envelope version: 9",
+    );
+  });
+
+  it("should require at least one recipient", async () => {
+    await expect(sealEnvelope(DATA, [])).rejects.toThrow(
+      "An envelope needs at least one recipient",
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectFormat,
+  formatFromPath,
+  parseDelimited,
+  parseDocument,
+} from "../src/formats.js";
+
+describe("formatFromPath", () => {
+  it("should map known extensions", () => {
+    expect(formatFromPath("a.json")).toBe("json");
+    expect(formatFromPath("dir/a.JSONL")).toBe("ndjson");
+    expect(formatFromPath("a.ndjson")).toBe("ndjson");
+    expect(formatFromPath("a.csv")).toBe("csv");
+    expect(formatFromPath("a.tsv")).toBe("tsv");
+    expect(formatFromPath("README")).toBeUndefined();
+  });
+});
+
+describe("detectFormat", () => {
+  it("should sniff the format from the contents", () => {
+    expect(detectFormat('{"a":1}')).toBe("json");
+    expect(detectFormat("[1,\n2]")).toBe("json");
+    expect(detectFormat('{"a":1}\n{"a":2}\n')).toBe("ndjson");
+    expect(detectFormat("a\tb\n1\t2")).toBe("tsv");
+    expect(detectFormat("a,b\n1,2")).toBe("csv");
+  });
+});
+
+describe("parseDelimited", () => {
+  it("should handle quotes, escaped quotes and embedded newlines", () => {
+    expect(
+      parseDelimited('a,b\r\n"x, y","say ""hi"""\n"multi\nline",\n', ","),
+    ).toEqual([
+      ["a", "b"],
+      ["x, y", 'say "hi"'],
+      ["multi\nline", ""],
+    ]);
+  });
+
+  it("should skip blank lines", () => {
+    expect(parseDelimited("a\n\n\nb", ",")).toEqual([["a"], ["b"]]);
+  });
+
+  it("should reject unterminated quotes", () => {
+    expect(() => parseDelimited('a,"b\n', ",")).toThrow(
+      "unterminated quoted cell",
+    );
+  });
+});
+
+describe("parseDocument", () => {
+  const rowSchema = {
+    type: "object",
+    properties: {
+      id: { type: "integer" },
+      active: { type: "boolean" },
+      note: { type: ["string", "null"] },
+      code: { type: "string" },
+    },
+  };
+
+  it("should coerce CSV cells using the row schema", () => {
+    const text = "\uFEFFid,active,note,code\n7,TRUE,,007\n";
+    expect(parseDocument(text, { format: "csv", rowSchema })).toEqual([
+      { id: 7, active: true, note: null, code: "007" },
+    ]);
+  });
+
+  it("should follow $ref and allOf to column types", () => {
+    const rootSchema = {
+      $defs: {
+        reading: { $ref: "#/$defs/number" },
+        number: { type: "number" },
+        flags: { properties: { active: { type: "boolean" } } },
+      },
+      items: {
+        $ref: "#/$defs/flags",
+        allOf: [{ properties: { value: { $ref: "#/$defs/reading" } } }],
+        properties: { id: { allOf: [{ type: "integer" }] } },
+      },
+    };
+    const text = "id,value,active\n7,2.5,true\n";
+    expect(
+      parseDocument(text, {
+        format: "csv",
+        rowSchema: rootSchema.items,
+        rootSchema,
+      }),
+    ).toEqual([{ id: 7, value: 2.5, active: true }]);
+    const tupleSchema = {
+      $defs: { n: { type: "integer" } },
+      items: { prefixItems: [{ $ref: "#/$defs/n" }], items: false },
+    };
+    expect(
+      parseDocument("1,2\n", {
+        format: "csv",
+        header: false,
+        rowSchema: tupleSchema.items,
+        rootSchema: tupleSchema,
+      }),
+    ).toEqual([[1, "2"]]);
+  });
+
+  it("should follow $anchor and $id references like the validator", () => {
+    const rootSchema = {
+      $id: "https://example.com/readings",
+      $defs: {
+        count: { $anchor: "count", type: "integer" },
+        flag: { type: "boolean" },
+      },
+      items: {
+        properties: {
+          count: { $ref: "#count" },
+          flag: { $ref: "https://example.com/readings#/$defs/flag" },
+        },
+      },
+    };
+    expect(
+      parseDocument("count,flag\n3,false\n", {
+        format: "csv",
+        rowSchema: rootSchema.items,
+        rootSchema,
+      }),
+    ).toEqual([{ count: 3, flag: false }]);
+  });
+
+  it("should not follow inherited or unresolvable references", () => {
+    const text = "constructor,value\n1,2\n";
+    expect(
+      parseDocument(text, {
+        format: "csv",
+        rowSchema: {
+          properties: { value: { $ref: "https://example.com/number" } },
+        },
+      }),
+    ).toEqual([{ constructor: "1", value: "2" }]);
+  });
+
+  it("should support numbers-only and no coercion", () => {
+    const text = "id,code\n7,007\n";
+    expect(parseDocument(text, { format: "csv", coerce: "numbers" })).toEqual([
+      { id: 7, code: 7 },
+    ]);
+    expect(parseDocument(text, { format: "csv", coerce: "none" })).toEqual([
+      { id: "7", code: "007" },
+    ]);
+  });
+
+  it("should return arrays of cells without a header", () => {
+    expect(
+      parseDocument("a\t1\nb\t2\n", {
+        format: "tsv",
+        header: false,
+        rowSchema: { prefixItems: [{ type: "string" }, { type: "number" }] },
+      }),
+    ).toEqual([
+      ["a", 1],
+      ["b", 2],
+    ]);
+  });
+
+  it("should honour a custom delimiter", () => {
+    expect(
+      parseDocument("a;b\n1;2\n", { format: "csv", delimiter: ";" }),
+    ).toEqual([{ a: "1", b: "2" }]);
+  });
+
+  it("should reject ragged rows and duplicate columns", () => {
+    expect(() => parseDocument("a,b\n1\n", { format: "csv" })).toThrow(
+      "row 1: expected 2 cells, found 1",
+    );
+    expect(() => parseDocument("a,a\n1,2\n", { format: "csv" })).toThrow(
+      'duplicate column "a"',
+    );
+  });
+
+  it("should report the failing NDJSON line", () => {
+    expect(() =>
+      parseDocument('{"a":1}\n\n{oops}\n', { format: "ndjson" }),
+    ).toThrow(/^line 3: /);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { encodeDirectory, encodeFile } from "@storacha/upload-client/unixfs";
+import * as CAR from "@storacha/upload-client/car";
+import {
+  IntegrityError,
+  parseCID,
+  readVerifiedFile,
+  verifyCar,
+} from "../src/integrity.js";
+
+type Block = Awaited<ReturnType<typeof encodeFile>>["blocks"][number];
+
+async function toCar(blocks: Block[], root: Block["cid"]) {
+  const car = await CAR.encode(blocks, root);
+  return new Uint8Array(await car.arrayBuffer());
+}
+
+function hex(bytes: Uint8Array) {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+describe("parseCID", () => {
+  it("should decode base32, base16 and CIDv0 strings", async () => {
+    const { cid } = await encodeFile(new Blob(["x".repeat(1024 * 1024 + 10)]));
+
+    expect(parseCID(cid.toString())).toEqual(cid.bytes);
+    expect(parseCID(cid.toString().toUpperCase())).toEqual(cid.bytes);
+    expect(parseCID(`f${hex(cid.bytes)}`)).toEqual(cid.bytes);
+    expect(parseCID(cid.toV0().toString())).toEqual(cid.toV0().bytes);
+  });
+
+  it("should reject unknown multibase prefixes", () => {
+    expect(() => parseCID("mAXASIA")).toThrow("Unsupported CID encoding");
+  });
+});
+
+describe("verifyCar", () => {
+  it("should accept a CAR whose blocks match the CID", async () => {
+    const { cid, blocks } = await encodeFile(new Blob(["y".repeat(300_000)]));
+    await expect(
+      verifyCar(await toCar(blocks, cid), cid.toString()),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should reject a CAR for a different CID", async () => {
+    const requested = await encodeFile(new Blob(["requested"]));
+    const served = await encodeFile(new Blob(["served"]));
+    const car = await toCar(served.blocks, served.cid);
+
+    await expect(verifyCar(car, requested.cid.toString())).rejects.toThrow(
+      "CAR root is not the requested CID",
+    );
+  });
+
+  it("should reject a block whose bytes were altered", async () => {
+    const { cid, blocks } = await encodeFile(new Blob(["original"]));
+    const car = await toCar(blocks, cid);
+    car[car.length - 1]! ^= 1;
+
+    const error = await verifyCar(car, cid.toString()).catch((e) => e);
+    expect(error).toBeInstanceOf(IntegrityError);
+    expect(error.cid).toBe(cid.toString());
+    expect(error.message).toContain("does not match its hash");
+  });
+
+  it("should reject responses that are not CARs", async () => {
+    const { cid } = await encodeFile(new Blob(["{}"]));
+    await expect(
+      verifyCar(new TextEncoder().encode("{}"), cid.toString()),
+    ).rejects.toBeInstanceOf(IntegrityError);
+  });
+});
+
+describe("readVerifiedFile", () => {
+  it("should return the contents of a multi-block file", async () => {
+    const body = "z".repeat(1024 * 1024 + 10);
+    const { cid, blocks } = await encodeFile(new Blob([body]));
+
+    const bytes = await readVerifiedFile(
+      await toCar(blocks, cid),
+      cid.toString(),
+    );
+    expect(new TextDecoder().decode(bytes)).toBe(body);
+  });
+
+  it("should reject CARs with missing blocks", async () => {
+    const { cid, blocks } = await encodeFile(
+      new Blob(["w".repeat(1024 * 1024 + 10)]),
+    );
+    const rootOnly = blocks.filter((b) => b.cid.equals(cid));
+
+    await expect(
+      readVerifiedFile(await toCar(rootOnly, cid), cid.toString()),
+    ).rejects.toThrow("missing from the CAR");
+  });
+
+  it("should reject directories", async () => {
+    const { cid, blocks } = await encodeDirectory([new File(["{}"], "a.json")]);
+    await expect(
+      readVerifiedFile(await toCar(blocks, cid), cid.toString()),
+    ).rejects.toThrow("Root CID is not a file");
+  });
+
+  it("should read a path from a CAR holding only the blocks along it", async () => {
+    const { cid, blocks } = await encodeDirectory([
+      new File(["{}"], "a.json"),
+      new File(['{"b":2}'], "data/b.json"),
+    ]);
+    const dataDir = blocks.find(
+      (b) => b.cid.code === 0x70 && !b.cid.equals(cid),
+    );
+    const file = blocks.find((b) => b.bytes.length === 7);
+    const pathOnly = blocks.filter(
+      (b) => b.cid.equals(cid) || b === dataDir || b === file,
+    );
+
+    const bytes = await readVerifiedFile(
+      await toCar(pathOnly, cid),
+      cid.toString(),
+      ["data", "b.json"],
+    );
+    expect(new TextDecoder().decode(bytes)).toBe('{"b":2}');
+  });
+});
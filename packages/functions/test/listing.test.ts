@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { encodeDirectory, encodeFile } from "@storacha/upload-client/unixfs";
+import * as CAR from "@storacha/upload-client/car";
+import { IntegrityError } from "../src/integrity.js";
+import {
+  formatCID,
+  listDirectoryCar,
+  listVerifiedDirectory,
+} from "../src/listing.js";
+
+type Block = Awaited<ReturnType<typeof encodeFile>>["blocks"][number];
+
+async function toCar(blocks: Block[], root: Block["cid"]) {
+  const car = await CAR.encode(blocks, root);
+  return new Uint8Array(await car.arrayBuffer());
+}
+
+describe("formatCID", () => {
+  it("should encode CIDv1 as base32 and CIDv0 as base58btc", async () => {
+    const { cid } = await encodeFile(new Blob(["x".repeat(1024 * 1024 + 10)]));
+
+    expect(formatCID(cid.bytes)).toBe(cid.toString());
+    expect(formatCID(cid.toV0().bytes)).toBe(cid.toV0().toString());
+  });
+});
+
+describe("listDirectoryCar", () => {
+  it("should list names, CIDs, sizes and types of one level", async () => {
+    const { cid, blocks } = await encodeDirectory([
+      new File(['{"a":1}'], "a.json"),
+      new File(["nested"], "data/b.txt"),
+    ]);
+    const file = blocks.find((b) => b.bytes.length === 7)!;
+
+    const entries = listDirectoryCar(await toCar(blocks, cid));
+
+    expect(entries.map((e) => [e.name, e.type])).toEqual([
+      ["a.json", "file"],
+      ["data", "directory"],
+    ]);
+    expect(entries[0]).toMatchObject({ cid: file.cid.toString(), size: 7 });
+    expect(entries[1]!.size).toBeGreaterThan(6);
+  });
+
+  it("should report dag-pb entries missing from the CAR as unknown", async () => {
+    const { cid, blocks } = await encodeDirectory([
+      new File(['{"a":1}'], "a.json"),
+      new File(["nested"], "data/b.txt"),
+    ]);
+    const rootOnly = blocks.filter((b) => b.cid.equals(cid));
+
+    const entries = listDirectoryCar(await toCar(rootOnly, cid));
+    expect(entries.map((e) => [e.name, e.type])).toEqual([
+      ["a.json", "file"],
+      ["data", "unknown"],
+    ]);
+  });
+
+  it("should flatten HAMT shards", async () => {
+    const { cid, blocks } = await encodeDirectory(
+      Array.from(
+        { length: 1001 },
+        (_, i) => new File([String(i)], `${i}.json`),
+      ),
+    );
+
+    const entries = listDirectoryCar(await toCar(blocks, cid));
+    expect(entries).toHaveLength(1001);
+    expect(new Set(entries.map((e) => e.name))).toContain("500.json");
+  });
+
+  it("should list a directory below the root", async () => {
+    const { cid, blocks } = await encodeDirectory([
+      new File(["nested"], "data/b.txt"),
+    ]);
+    const car = await toCar(blocks, cid);
+
+    expect(listDirectoryCar(car, ["data"]).map((e) => e.name)).toEqual([
+      "b.txt",
+    ]);
+    expect(() => listDirectoryCar(car, ["data", "b.txt"])).toThrow(
+      '"data/b.txt" is not a directory',
+    );
+  });
+});
+
+describe("listVerifiedDirectory", () => {
+  it("should list a verified directory", async () => {
+    const { cid, blocks } = await encodeDirectory([new File(["{}"], "a.json")]);
+
+    const entries = await listVerifiedDirectory(
+      await toCar(blocks, cid),
+      cid.toString(),
+    );
+    expect(entries.map((e) => e.name)).toEqual(["a.json"]);
+  });
+
+  it("should reject files", async () => {
+    const { cid, blocks } = await encodeFile(new Blob(["hello"]));
+
+    await expect(
+      listVerifiedDirectory(await toCar(blocks, cid), cid.toString()),
+    ).rejects.toThrow(IntegrityError);
+  });
+});
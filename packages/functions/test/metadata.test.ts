@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  BOUNTY_METADATA_SCHEMA,
+  BOUNTY_METADATA_VERSION,
+  InvalidBountyMetadataError,
+  encodeBountyMetadata,
+  parseBountyMetadata,
+} from "../src/metadata.js";
+import { checkSchema } from "../src/validator.js";
+
+const KEY = "A".repeat(43) + "=";
+
+describe("encodeBountyMetadata", () => {
+  it("should stamp the current version and round-trip", () => {
+    const json = encodeBountyMetadata({
+      title: "Weather data",
+      description: "Daily readings",
+      requirements: ["Format: CSV"],
+      encryption: { publicKey: KEY },
+    });
+
+    expect(JSON.parse(json).version).toBe(BOUNTY_METADATA_VERSION);
+    expect(parseBountyMetadata(json)).toEqual({
+      version: 1,
+      title: "Weather data",
+      description: "Daily readings",
+      requirements: ["Format: CSV"],
+      encryption: { publicKey: KEY },
+    });
+  });
+
+  it("should refuse metadata that does not match the schema", () => {
+    expect(() =>
+      encodeBountyMetadata({
+        title: "",
+        description: "Daily readings",
+        encryption: { publicKey: "short" },
+      }),
+    ).toThrow(InvalidBountyMetadataError);
+  });
+});
+
+describe("parseBountyMetadata", () => {
+  it("should upgrade unversioned documents", () => {
+    expect(
+      parseBountyMetadata({ title: "Weather data", description: "Daily" }),
+    ).toEqual({ version: 1, title: "Weather data", description: "Daily" });
+  });
+
+  it("should read newer versions that still match the schema", () => {
+    const metadata = parseBountyMetadata(
+      JSON.stringify({
+        version: 3,
+        title: "Weather data",
+        description: "Daily",
+        license: "CC-BY-4.0",
+      }),
+    );
+
+    expect(metadata.version).toBe(3);
+    expect(metadata).toHaveProperty("license", "CC-BY-4.0");
+  });
+
+  it("should report every violation", () => {
+    try {
+      parseBountyMetadata({ version: 1, title: 42, tags: ["a", "a"] });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidBountyMetadataError);
+      const pointers = (error as InvalidBountyMetadataError).violations.map(
+        (violation) => violation.pointer,
+      );
+      expect(pointers).toEqual(["/description", "/title", "/tags/1"]);
+    }
+  });
+
+  it.each([
+    ["not JSON", "{"],
+    ["an array", []],
+    ["a bad version", { version: "2", title: "T", description: "D" }],
+    ["a negative version", { version: -1, title: "T", description: "D" }],
+  ])("should reject %s", (_, input) => {
+    expect(() => parseBountyMetadata(input)).toThrow(
+      InvalidBountyMetadataError,
+    );
+  });
+
+  it("should publish a schema the validator supports", () => {
+    expect(checkSchema(BOUNTY_METADATA_SCHEMA)).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeVerificationResult,
+  encodeVerificationResult,
+  formatFailedPath,
+  hashFailedPath,
+} from "../src/result.js";
+
+describe("encodeVerificationResult", () => {
+  it("should round-trip every field", () => {
+    const encoded = encodeVerificationResult({
+      reason: "invalid",
+      recordCount: 1234,
+      failedPath: "/3/temperature",
+      contentDigest: "00ab" + "cd".repeat(30),
+    });
+
+    expect(decodeVerificationResult(encoded)).toEqual({
+      status: 0,
+      reason: "invalid",
+      verified: false,
+      recordCount: 1234,
+      failedPathHash: hashFailedPath("/3/temperature"),
+      contentDigest: "00abcdcdcdcdcdcd",
+      version: 1,
+    });
+  });
+
+  it("should fit in one uint256 and saturate the record count", () => {
+    const encoded = encodeVerificationResult({
+      reason: "valid",
+      recordCount: 2 ** 40,
+    });
+
+    expect(encoded < 2n ** 256n).toBe(true);
+    expect(decodeVerificationResult(encoded)).toMatchObject({
+      verified: true,
+      recordCount: 0xffffffff,
+      failedPathHash: null,
+      contentDigest: null,
+    });
+  });
+
+  it("should encode each status in the low byte", () => {
+    expect(
+      encodeVerificationResult({ reason: "schema-fetch-failed" }) & 0xffn,
+    ).toBe(2n);
+    expect(
+      encodeVerificationResult({ reason: "data-fetch-failed" }) & 0xffn,
+    ).toBe(3n);
+    expect(encodeVerificationResult({ reason: "timeout" }) & 0xffn).toBe(4n);
+    expect(encodeVerificationResult({ reason: "duplicate" }) & 0xffn).toBe(7n);
+    expect(
+      encodeVerificationResult({ reason: "verifier-fetch-failed" }) & 0xffn,
+    ).toBe(8n);
+  });
+});
+
+describe("decodeVerificationResult", () => {
+  it("should decode legacy 0/1 results", () => {
+    expect(decodeVerificationResult(1n)).toMatchObject({
+      reason: "valid",
+      verified: true,
+      version: 0,
+    });
+    expect(decodeVerificationResult("0x" + "0".repeat(64))).toMatchObject({
+      reason: "invalid",
+      verified: false,
+    });
+  });
+
+  it("should report unknown status codes", () => {
+    expect(decodeVerificationResult(0x99).reason).toBe("unknown");
+  });
+
+  it("should reject values outside uint256", () => {
+    expect(() => decodeVerificationResult(2n ** 256n)).toThrow("not a uint256");
+  });
+});
+
+describe("hashFailedPath", () => {
+  it("should produce 64-bit FNV-1a digests", () => {
+    expect(hashFailedPath("")).toBe("cbf29ce484222325");
+    expect(hashFailedPath("a")).toBe("af63dc4c8601ec8c");
+  });
+});
+
+describe("formatFailedPath", () => {
+  it("should prefix directory records with file and index", () => {
+    expect(formatFailedPath({ pointer: "/a" })).toBe("/a");
+    expect(formatFailedPath({ pointer: "/a", file: "x.csv", record: 2 })).toBe(
+      "x.csv#2/a",
+    );
+    expect(formatFailedPath({ pointer: "", file: "x.csv" })).toBe("x.csv");
+  });
+});
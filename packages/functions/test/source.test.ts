@@ -3,17 +3,27 @@ import { readFileSync } from "node:fs";
 import { createServer, type Server } from "node:http";
 import { fileURLToPath } from "node:url";
 import { dirname, join } from "node:path";
+import { simulateScript } from "@chainlink/functions-toolkit";
+import { encodeDirectory, encodeFile } from "@storacha/upload-client/unixfs";
+import * as CAR from "@storacha/upload-client/car";
 import {
-  simulateScript,
-  decodeResult,
-  ReturnType,
-} from "@chainlink/functions-toolkit";
+  bundleVerificationSource,
+  bundleVerifier,
+  rawBlockCID,
+  MAX_SOURCE_BYTES,
+} from "../scripts/bundle-source.js";
+import { simulateVerification } from "../src/simulate.js";
+import { decodeVerificationResult, hashFailedPath } from "../src/result.js";
+import { generateEncryptionKeyPair, sealEnvelope } from "../src/seal.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 const SOURCE_PATH = join(__dirname, "..", "src", "source.js");
 const source = readFileSync(SOURCE_PATH, "utf-8");
+const VERIFIER_PATH = join(__dirname, "..", "src", "verifier.js");
+const verifier = readFileSync(VERIFIER_PATH, "utf-8");
+const verifierCid = rawBlockCID(new TextEncoder().encode(verifier));
 
 // --- Test fixtures ---
 
@@ -78,23 +88,124 @@ const ARRAY_SCHEMA = {
 const VALID_ARRAY_DATA = { tags: ["web3", "ipfs"] };
 const INVALID_ARRAY_ITEMS_DATA = { tags: ["web3", 42] };
 
-// --- Local HTTP server for test fixtures ---
+const REF_SCHEMA = {
+  $defs: {
+    reading: {
+      type: "object",
+      required: ["at", "value"],
+      properties: {
+        at: { type: "string", format: "date-time" },
+        value: { type: "number", multipleOf: 0.5 },
+      },
+    },
+  },
+  type: "array",
+  items: { $ref: "#/$defs/reading" },
+  uniqueItems: true,
+};
+
+const VALID_REF_DATA = [
+  { at: "2024-01-01T00:00:00Z", value: 1.5 },
+  { at: "2024-01-01T01:00:00Z", value: 2 },
+];
+
+const DIRECTORY_SCHEMA = {
+  "x-submission": {
+    layout: "directory",
+    include: ["*.json", "*.jsonl"],
+    minRecords: 2,
+  },
+  type: "object",
+  required: ["temperature"],
+  properties: { temperature: { type: "number" } },
+};
+
+const CSV_SCHEMA = {
+  "x-submission": { format: "csv" },
+  type: "array",
+  minItems: 1,
+  items: {
+    type: "object",
+    required: ["station", "temperature"],
+    properties: {
+      station: { type: "string", minLength: 1 },
+      temperature: { type: "number" },
+    },
+  },
+};
+
+const UNSUPPORTED_SCHEMA = {
+  type: "object",
+  unevaluatedProperties: false,
+};
+
+// --- Local trustless gateway for test fixtures ---
+
+interface Fixture {
+  cid: string;
+  car: Uint8Array;
+}
 
-type Fixtures = Record<string, unknown>;
 let server: Server;
 let gatewayUrl: string;
-const fixtures: Fixtures = {};
+// CAR responses by CID, and fixture names mapped to their CIDs
+const cars: Record<string, Uint8Array> = {};
+const names: Record<string, string> = {};
+// What the gateway serves for the verifier's raw block
+let verifierBody: string = verifier;
+
+type Block = Awaited<ReturnType<typeof encodeFile>>["blocks"][number];
+
+async function toFixture(blocks: Block[], root: Block["cid"]) {
+  const car = await CAR.encode(blocks, root);
+  return {
+    cid: root.toString(),
+    car: new Uint8Array(await car.arrayBuffer()),
+  };
+}
+
+/** A JSON document, or a string or bytes as-is, encoded as a UnixFS file */
+async function fileCar(data: unknown): Promise<Fixture> {
+  const body =
+    typeof data === "string" || data instanceof Uint8Array
+      ? data
+      : JSON.stringify(data);
+  const { cid, blocks } = await encodeFile(new Blob([body]));
+  return toFixture(blocks, cid);
+}
+
+async function directoryCar(files: Record<string, string>): Promise<Fixture> {
+  const { cid, blocks } = await encodeDirectory(
+    Object.entries(files).map(([name, body]) => new File([body], name)),
+  );
+  return toFixture(blocks, cid);
+}
+
+async function addFixture(name: string, data: unknown) {
+  const fixture =
+    typeof data === "object" && data !== null && "car" in data
+      ? (data as Fixture)
+      : await fileCar(data);
+  cars[fixture.cid] = fixture.car;
+  names[name] = fixture.cid;
+  return fixture.cid;
+}
 
-function addFixture(cid: string, data: unknown) {
-  fixtures[cid] = data;
+/** The CID of a named fixture (unknown names pass through unchanged) */
+function cidOf(name: string): string {
+  return names[name] ?? name;
 }
 
 beforeAll(async () => {
   server = createServer((req, res) => {
-    const cid = req.url?.replace("/", "");
-    if (cid && cid in fixtures) {
-      res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(JSON.stringify(fixtures[cid]));
+    const [path, query] = (req.url ?? "").split("?");
+    const car = cars[path!.replace("/", "")];
+    if (path === `/${verifierCid}` && query === "format=raw") {
+      res.writeHead(200, { "Content-Type": "application/vnd.ipld.raw" });
+      res.end(verifierBody);
+    } else if (car && query === "format=car") {
+      res.writeHead(200, { "Content-Type": "application/vnd.ipld.car" });
+      res.end(car);
     } else {
       res.writeHead(404);
       res.end("Not found");
@@ -117,18 +228,19 @@ afterAll(() => {
 
 // --- Helpers ---
 
-async function runSource(args: string[]) {
+async function runSource(args: string[], secrets?: Record<string, string>) {
   return simulateScript({
     source,
-    args,
+    args: args.map(cidOf),
+    secrets,
     maxOnChainResponseBytes: 256,
     maxExecutionTimeMs: 10_000,
     numAllowedQueries: 5,
   });
 }
 
-function decodeUint256(hex: string): bigint {
-  return BigInt(decodeResult(hex, ReturnType.uint256));
+function decodeReason(hex: string) {
+  return decodeVerificationResult(hex).reason;
 }
 
 // --- Tests ---
@@ -137,29 +249,77 @@ describe("Verification Source", () => {
   it("should load the source file", () => {
     expect(source).toBeDefined();
     expect(source.length).toBeGreaterThan(0);
-    expect(source).toContain("Functions.encodeUint256");
-    expect(source).toContain("args[0]");
-    expect(source).toContain("args[1]");
+    expect(source).toContain("return verify(");
+    expect(verifier).toContain("Functions.encodeUint256");
+    expect(verifier).toContain("args[0]");
+    expect(verifier).toContain("args[1]");
+  });
+
+  it("should match the bundled templates (run `pnpm bundle` if this fails)", async () => {
+    expect(await bundleVerifier()).toBe(verifier);
+    expect(await bundleVerificationSource(verifier)).toBe(source);
+  });
+
+  it("should stay small enough to store on-chain", () => {
+    expect(Buffer.byteLength(source)).toBeLessThanOrEqual(MAX_SOURCE_BYTES);
+  });
+
+  it("should pin the verifier by CID and hash", () => {
+    expect(source).toContain(verifierCid);
+    expect(source).not.toContain("@verifier");
+  });
+
+  it("should pin the CID Storacha gives the verifier file", async () => {
+    const { cid } = await encodeFile(new Blob([verifier]));
+    expect(cid.toString()).toBe(verifierCid);
+  });
+
+  it("should inline the shared validator into the verifier", () => {
+    expect(verifier).not.toContain("@bundle");
+    expect(verifier).toContain("function validate(data, schema)");
   });
 
-  it("should return 0 for missing arguments", async () => {
-    const result = await runSource([]);
+  it("should refuse a verifier that does not match the pinned hash", async () => {
+    verifierBody = verifier.replace(
+      "function validate(data, schema) {",
+      "function validate(data, schema) {\n  return [];",
+    );
+    try {
+      const result = await runSource(["", "", gatewayUrl]);
+      expect(result.errorString).toBeFalsy();
+      expect(decodeVerificationResult(result.responseBytesHexstring!)).toEqual({
+        status: 8,
+        reason: "verifier-fetch-failed",
+        verified: false,
+        recordCount: 0,
+        failedPathHash: null,
+        contentDigest: null,
+        version: 1,
+      });
+      expect(result.capturedTerminalOutput).toContain("content does not match");
+    } finally {
+      verifierBody = verifier;
+    }
+  });
+
+  it("should reject missing arguments", async () => {
+    const result = await runSource(["", "", gatewayUrl]);
     expect(result.errorString).toBeFalsy();
-    expect(decodeUint256(result.responseBytesHexstring!)).toBe(0n);
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("invalid");
   });
 
-  it("should return 1 for valid data matching schema", async () => {
-    addFixture("valid-schema", VALID_SCHEMA);
-    addFixture("valid-data", VALID_DATA);
+  it("should accept valid data matching schema", async () => {
+    await addFixture("valid-schema", VALID_SCHEMA);
+    await addFixture("valid-data", VALID_DATA);
 
     const result = await runSource(["valid-data", "valid-schema", gatewayUrl]);
     expect(result.errorString).toBeFalsy();
-    expect(decodeUint256(result.responseBytesHexstring!)).toBe(1n);
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("valid");
   });
 
-  it("should return 0 for missing required field", async () => {
-    addFixture("missing-required-schema", VALID_SCHEMA);
-    addFixture("missing-required-data", MISSING_REQUIRED_DATA);
+  it("should reject missing required field", async () => {
+    await addFixture("missing-required-schema", VALID_SCHEMA);
+    await addFixture("missing-required-data", MISSING_REQUIRED_DATA);
 
     const result = await runSource([
       "missing-required-data",
@@ -167,12 +327,12 @@ describe("Verification Source", () => {
       gatewayUrl,
     ]);
     expect(result.errorString).toBeFalsy();
-    expect(decodeUint256(result.responseBytesHexstring!)).toBe(0n);
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("invalid");
   });
 
-  it("should return 0 for wrong type", async () => {
-    addFixture("wrong-type-schema", VALID_SCHEMA);
-    addFixture("wrong-type-data", WRONG_TYPE_DATA);
+  it("should reject wrong type", async () => {
+    await addFixture("wrong-type-schema", VALID_SCHEMA);
+    await addFixture("wrong-type-data", WRONG_TYPE_DATA);
 
     const result = await runSource([
       "wrong-type-data",
@@ -180,22 +340,24 @@ describe("Verification Source", () => {
       gatewayUrl,
     ]);
     expect(result.errorString).toBeFalsy();
-    expect(decodeUint256(result.responseBytesHexstring!)).toBe(0n);
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("invalid");
   });
 
-  it("should return 0 for fetch failure (bad CID)", async () => {
+  it("should report schema fetch failures (bad CID)", async () => {
     const result = await runSource([
       "nonexistent-data",
       "nonexistent-schema",
       gatewayUrl,
     ]);
     expect(result.errorString).toBeFalsy();
-    expect(decodeUint256(result.responseBytesHexstring!)).toBe(0n);
+    expect(decodeReason(result.responseBytesHexstring!)).toBe(
+      "schema-fetch-failed",
+    );
   });
 
-  it("should return 0 for invalid enum value", async () => {
-    addFixture("enum-schema", ENUM_SCHEMA);
-    addFixture("invalid-enum-data", INVALID_ENUM_DATA);
+  it("should reject invalid enum value", async () => {
+    await addFixture("enum-schema", ENUM_SCHEMA);
+    await addFixture("invalid-enum-data", INVALID_ENUM_DATA);
 
     const result = await runSource([
       "invalid-enum-data",
@@ -203,12 +365,12 @@ describe("Verification Source", () => {
       gatewayUrl,
     ]);
     expect(result.errorString).toBeFalsy();
-    expect(decodeUint256(result.responseBytesHexstring!)).toBe(0n);
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("invalid");
   });
 
-  it("should return 1 for valid enum value", async () => {
-    addFixture("enum-schema-v", ENUM_SCHEMA);
-    addFixture("valid-enum-data", VALID_ENUM_DATA);
+  it("should accept valid enum value", async () => {
+    await addFixture("enum-schema-v", ENUM_SCHEMA);
+    await addFixture("valid-enum-data", VALID_ENUM_DATA);
 
     const result = await runSource([
       "valid-enum-data",
@@ -216,12 +378,12 @@ describe("Verification Source", () => {
       gatewayUrl,
     ]);
     expect(result.errorString).toBeFalsy();
-    expect(decodeUint256(result.responseBytesHexstring!)).toBe(1n);
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("valid");
   });
 
-  it("should return 0 for string length violation", async () => {
-    addFixture("strlen-schema", STRING_LENGTH_SCHEMA);
-    addFixture("short-string-data", SHORT_STRING_DATA);
+  it("should reject string length violation", async () => {
+    await addFixture("strlen-schema", STRING_LENGTH_SCHEMA);
+    await addFixture("short-string-data", SHORT_STRING_DATA);
 
     const result = await runSource([
       "short-string-data",
@@ -229,12 +391,12 @@ describe("Verification Source", () => {
       gatewayUrl,
     ]);
     expect(result.errorString).toBeFalsy();
-    expect(decodeUint256(result.responseBytesHexstring!)).toBe(0n);
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("invalid");
   });
 
-  it("should return 0 for invalid array items", async () => {
-    addFixture("array-schema", ARRAY_SCHEMA);
-    addFixture("invalid-array-data", INVALID_ARRAY_ITEMS_DATA);
+  it("should reject invalid array items", async () => {
+    await addFixture("array-schema", ARRAY_SCHEMA);
+    await addFixture("invalid-array-data", INVALID_ARRAY_ITEMS_DATA);
 
     const result = await runSource([
       "invalid-array-data",
@@ -242,12 +404,12 @@ describe("Verification Source", () => {
       gatewayUrl,
     ]);
     expect(result.errorString).toBeFalsy();
-    expect(decodeUint256(result.responseBytesHexstring!)).toBe(0n);
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("invalid");
   });
 
-  it("should return 1 for valid array items", async () => {
-    addFixture("array-schema-v", ARRAY_SCHEMA);
-    addFixture("valid-array-data", VALID_ARRAY_DATA);
+  it("should accept valid array items", async () => {
+    await addFixture("array-schema-v", ARRAY_SCHEMA);
+    await addFixture("valid-array-data", VALID_ARRAY_DATA);
 
     const result = await runSource([
       "valid-array-data",
@@ -255,6 +417,449 @@ describe("Verification Source", () => {
       gatewayUrl,
     ]);
     expect(result.errorString).toBeFalsy();
-    expect(decodeUint256(result.responseBytesHexstring!)).toBe(1n);
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("valid");
+  });
+
+  it("should accept data matching a schema with $ref and formats", async () => {
+    await addFixture("ref-schema", REF_SCHEMA);
+    await addFixture("valid-ref-data", VALID_REF_DATA);
+
+    const result = await runSource([
+      "valid-ref-data",
+      "ref-schema",
+      gatewayUrl,
+    ]);
+    expect(result.errorString).toBeFalsy();
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("valid");
+  });
+
+  it("should reject schemas with unsupported keywords", async () => {
+    await addFixture("unsupported-schema", UNSUPPORTED_SCHEMA);
+    await addFixture("unsupported-data", {});
+
+    const result = await runSource([
+      "unsupported-data",
+      "unsupported-schema",
+      gatewayUrl,
+    ]);
+    expect(result.errorString).toBeFalsy();
+    expect(decodeReason(result.responseBytesHexstring!)).toBe(
+      "schema-rejected",
+    );
+  });
+
+  it("should accept a directory whose files all match", async () => {
+    await addFixture("dir-schema", DIRECTORY_SCHEMA);
+    await addFixture(
+      "valid-dir",
+      await directoryCar({
+        "day1.jsonl": '{"temperature":20}\n{"temperature":21}\n',
+        "day2.jsonl": '{"temperature":19}\n{"temperature":18}\n',
+        "README.md": "not checked",
+      }),
+    );
+
+    const result = await runSource(["valid-dir", "dir-schema", gatewayUrl]);
+    expect(result.errorString).toBeFalsy();
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("valid");
+  });
+
+  it("should reject data when any record in a directory is invalid", async () => {
+    await addFixture("dir-schema-invalid", DIRECTORY_SCHEMA);
+    await addFixture(
+      "invalid-dir",
+      await directoryCar({
+        "day1.jsonl": '{"temperature":20}\n{"temperature":"hot"}\n',
+      }),
+    );
+
+    const result = await runSource([
+      "invalid-dir",
+      "dir-schema-invalid",
+      gatewayUrl,
+    ]);
+    expect(result.errorString).toBeFalsy();
+    expect(result.capturedTerminalOutput).toContain("day1.jsonl#1");
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("invalid");
+  });
+
+  it("should reject data when a file has too few records", async () => {
+    await addFixture("dir-schema-short", DIRECTORY_SCHEMA);
+    await addFixture(
+      "short-dir",
+      await directoryCar({ "day1.jsonl": '{"temperature":20}\n' }),
+    );
+
+    const result = await runSource([
+      "short-dir",
+      "dir-schema-short",
+      gatewayUrl,
+    ]);
+    expect(result.errorString).toBeFalsy();
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("invalid");
+  });
+
+  it("should verify directories through simulateVerification", async () => {
+    await addFixture("dir-schema-sim", DIRECTORY_SCHEMA);
+    await addFixture(
+      "sim-dir",
+      await directoryCar({
+        "a.jsonl": '{"temperature":1}\n{"temperature":2}\n',
+        "b.jsonl": '{"temperature":3}\n{"temperature":4}\n',
+      }),
+    );
+
+    const result = await simulateVerification(
+      cidOf("sim-dir"),
+      cidOf("dir-schema-sim"),
+      gatewayUrl,
+    );
+    expect(result.error).toBeNull();
+    expect(result.verified).toBe(true);
+    expect(result.reason).toBe("valid");
+    expect(result.recordCount).toBe(4);
+  });
+
+  it("should verify CSV rows from a directory", async () => {
+    await addFixture(
+      "csv-dir",
+      await directoryCar({ "day1.csv": "temperature\n20\nwarm\n" }),
+    );
+    await addFixture("dir-schema-csv", {
+      ...DIRECTORY_SCHEMA,
+      "x-submission": { layout: "directory", include: "*.csv" },
+    });
+
+    const result = await runSource(["csv-dir", "dir-schema-csv", gatewayUrl]);
+    expect(result.errorString).toBeFalsy();
+    expect(result.capturedTerminalOutput).toContain("day1.csv#1");
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("invalid");
+  });
+});
+
+describe("Data formats", () => {
+  it("should accept a valid CSV document", async () => {
+    await addFixture("csv-schema", CSV_SCHEMA);
+    await addFixture("csv-valid", 'station,temperature\nA1,20.5\n"B, 2",-3\n');
+
+    const result = await runSource(["csv-valid", "csv-schema", gatewayUrl]);
+    expect(result.errorString).toBeFalsy();
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("valid");
+  });
+
+  it("should reject data when a CSV cell has the wrong type", async () => {
+    await addFixture("csv-schema-type", CSV_SCHEMA);
+    await addFixture("csv-bad-type", "station,temperature\nA1,hot\n");
+
+    const result = await runSource([
+      "csv-bad-type",
+      "csv-schema-type",
+      gatewayUrl,
+    ]);
+    expect(result.errorString).toBeFalsy();
+    expect(result.capturedTerminalOutput).toContain('"/0/temperature"');
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("invalid");
+  });
+
+  it("should reject a malformed CSV document", async () => {
+    await addFixture("csv-schema-ragged", CSV_SCHEMA);
+    await addFixture("csv-ragged", "station,temperature\nA1\n");
+
+    const result = await runSource([
+      "csv-ragged",
+      "csv-schema-ragged",
+      gatewayUrl,
+    ]);
+    expect(result.errorString).toBeFalsy();
+    expect(result.capturedTerminalOutput).toContain("must be valid CSV");
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("invalid");
+  });
+
+  it("should verify NDJSON documents", async () => {
+    await addFixture("ndjson-schema", {
+      ...CSV_SCHEMA,
+      "x-submission": { format: "ndjson" },
+    });
+    await addFixture(
+      "ndjson-data",
+      '{"station":"A1","temperature":1}\n{"station":"B2","temperature":2}\n',
+    );
+
+    const result = await runSource([
+      "ndjson-data",
+      "ndjson-schema",
+      gatewayUrl,
+    ]);
+    expect(result.errorString).toBeFalsy();
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("valid");
+  });
+});
+
+describe("Result encoding", () => {
+  it("should report data fetch failures separately from schema ones", async () => {
+    await addFixture("fetch-schema", VALID_SCHEMA);
+
+    const result = await runSource([
+      "missing-data",
+      "fetch-schema",
+      gatewayUrl,
+    ]);
+    expect(result.errorString).toBeFalsy();
+    expect(decodeReason(result.responseBytesHexstring!)).toBe(
+      "data-fetch-failed",
+    );
+  });
+
+  it("should fit the result in a single 32-byte word", async () => {
+    await addFixture("size-schema", VALID_SCHEMA);
+    await addFixture("size-data", VALID_DATA);
+
+    const result = await runSource(["size-data", "size-schema", gatewayUrl]);
+    expect(result.responseBytesHexstring).toMatch(/^0x[0-9a-f]{64}$/);
+  });
+
+  it("should expose the reason, record count and failing path", async () => {
+    await addFixture("encoded-schema", CSV_SCHEMA);
+    await addFixture("encoded-data", "station,temperature\nA1,20\nB2,hot\n");
+
+    const result = await simulateVerification(
+      cidOf("encoded-data"),
+      cidOf("encoded-schema"),
+      gatewayUrl,
+    );
+    expect(result.error).toBeNull();
+    expect(result).toMatchObject({
+      verified: false,
+      reason: "invalid",
+      recordCount: 2,
+      failedPath: "/1/temperature",
+      failedPathHash: hashFailedPath("/1/temperature"),
+    });
+  });
+
+  it("should locate failing records within a directory", async () => {
+    await addFixture("encoded-dir-schema", DIRECTORY_SCHEMA);
+    await addFixture(
+      "encoded-dir",
+      await directoryCar({
+        "day1.jsonl": '{"temperature":1}\n{"temperature":"hot"}\n',
+      }),
+    );
+
+    const result = await simulateVerification(
+      cidOf("encoded-dir"),
+      cidOf("encoded-dir-schema"),
+      gatewayUrl,
+    );
+    expect(result.failedPath).toBe("day1.jsonl#1/temperature");
+    expect(result.recordCount).toBe(2);
+  });
+});
+
+describe("Trustless retrieval", () => {
+  it("should reject a CAR rooted at a different CID", async () => {
+    await addFixture("swap-schema", VALID_SCHEMA);
+    const dataCid = await addFixture("swap-data", { name: "swap", age: 1 });
+    cars[dataCid] = (await fileCar(MISSING_REQUIRED_DATA)).car;
+
+    const result = await runSource(["swap-data", "swap-schema", gatewayUrl]);
+    expect(result.errorString).toBeFalsy();
+    expect(result.capturedTerminalOutput).toContain(
+      "CAR root is not the requested CID",
+    );
+    expect(decodeReason(result.responseBytesHexstring!)).toBe(
+      "data-fetch-failed",
+    );
+  });
+
+  it("should reject blocks that do not match their hash", async () => {
+    await addFixture("corrupt-schema", VALID_SCHEMA);
+    const { cid, car } = await fileCar({ name: "corrupt", age: 2 });
+    const tampered = car.slice();
+    tampered[tampered.length - 2]! ^= 1;
+    await addFixture("corrupt-data", { cid, car: tampered });
+
+    const result = await runSource([
+      "corrupt-data",
+      "corrupt-schema",
+      gatewayUrl,
+    ]);
+    expect(result.errorString).toBeFalsy();
+    expect(result.capturedTerminalOutput).toContain("does not match its hash");
+    expect(decodeReason(result.responseBytesHexstring!)).toBe(
+      "data-fetch-failed",
+    );
+  });
+});
+
+describe("Encrypted submissions", () => {
+  const json = (data: unknown) =>
+    new TextEncoder().encode(JSON.stringify(data));
+
+  it("should decrypt with the submissionKey secret and validate", async () => {
+    const creator = await generateEncryptionKeyPair();
+    const verifier = await generateEncryptionKeyPair();
+    await addFixture("sealed-schema", VALID_SCHEMA);
+    await addFixture(
+      "sealed-valid",
+      await sealEnvelope(json(VALID_DATA), [
+        creator.publicKey,
+        verifier.publicKey,
+      ]),
+    );
+    await addFixture(
+      "sealed-invalid",
+      await sealEnvelope(json(MISSING_REQUIRED_DATA), [verifier.publicKey]),
+    );
+
+    const secrets = { submissionKey: verifier.privateKey };
+    const valid = await runSource(
+      ["sealed-valid", "sealed-schema", gatewayUrl],
+      secrets,
+    );
+    expect(valid.errorString).toBeFalsy();
+    expect(valid.capturedTerminalOutput).toContain("Data decrypted");
+    expect(decodeReason(valid.responseBytesHexstring!)).toBe("valid");
+
+    const invalid = await runSource(
+      ["sealed-invalid", "sealed-schema", gatewayUrl],
+      secrets,
+    );
+    expect(decodeReason(invalid.responseBytesHexstring!)).toBe("invalid");
+  });
+
+  it("should fail encrypted data without a usable key", async () => {
+    const creator = await generateEncryptionKeyPair();
+    const stranger = await generateEncryptionKeyPair();
+    await addFixture("locked-schema", VALID_SCHEMA);
+    await addFixture(
+      "locked-data",
+      await sealEnvelope(json(VALID_DATA), [creator.publicKey]),
+    );
+
+    const missing = await runSource([
+      "locked-data",
+      "locked-schema",
+      gatewayUrl,
+    ]);
+    expect(missing.errorString).toBeFalsy();
+    expect(missing.capturedTerminalOutput).toContain(
+      "no submissionKey secret is set",
+    );
+    expect(decodeReason(missing.responseBytesHexstring!)).toBe(
+      "decryption-failed",
+    );
+
+    const wrong = await runSource(
+      ["locked-data", "locked-schema", gatewayUrl],
+      { submissionKey: stranger.privateKey },
+    );
+    expect(wrong.capturedTerminalOutput).toContain(
+      "Key is not a recipient of this envelope",
+    );
+    expect(decodeReason(wrong.responseBytesHexstring!)).toBe(
+      "decryption-failed",
+    );
+  });
+});
+
+describe("Duplicate detection", () => {
+  const sha256 = async (data: unknown) =>
+    Buffer.from(
+      await crypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(JSON.stringify(data)),
+      ),
+    ).toString("hex");
+
+  it("should return the data's content digest", async () => {
+    await addFixture("digest-schema", VALID_SCHEMA);
+    await addFixture("digest-data", VALID_DATA);
+
+    const result = await simulateVerification(
+      cidOf("digest-data"),
+      cidOf("digest-schema"),
+      gatewayUrl,
+    );
+    expect(result.reason).toBe("valid");
+    expect(result.contentDigest).toBe((await sha256(VALID_DATA)).slice(0, 16));
+  });
+
+  it("should reject data matching an earlier submission's digest", async () => {
+    await addFixture("dup-schema", VALID_SCHEMA);
+    await addFixture("dup-data", VALID_DATA);
+    const digest = await sha256(VALID_DATA);
+
+    const result = await runSource([
+      "dup-data",
+      "dup-schema",
+      gatewayUrl,
+      `0123456789abcdef, ${digest.slice(0, 16)}`,
+    ]);
+    expect(result.errorString).toBeFalsy();
+    expect(result.capturedTerminalOutput).toContain("Duplicate of an earlier");
+    expect(
+      decodeVerificationResult(result.responseBytesHexstring!),
+    ).toMatchObject({
+      reason: "duplicate",
+      verified: false,
+      contentDigest: digest.slice(0, 16),
+    });
+
+    const fresh = await runSource([
+      "dup-data",
+      "dup-schema",
+      gatewayUrl,
+      "0123456789abcdef",
+    ]);
+    expect(decodeReason(fresh.responseBytesHexstring!)).toBe("valid");
+  });
+
+  it("should compare the plaintext of encrypted submissions", async () => {
+    const verifier = await generateEncryptionKeyPair();
+    const plaintext = new TextEncoder().encode(JSON.stringify(VALID_DATA));
+    await addFixture("dup-sealed-schema", VALID_SCHEMA);
+    await addFixture(
+      "dup-sealed",
+      await sealEnvelope(plaintext, [verifier.publicKey]),
+    );
+
+    const result = await runSource(
+      [
+        "dup-sealed",
+        "dup-sealed-schema",
+        gatewayUrl,
+        (await sha256(VALID_DATA)).slice(0, 16),
+      ],
+      { submissionKey: verifier.privateKey },
+    );
+    expect(result.capturedTerminalOutput).toContain("Data decrypted");
+    expect(decodeReason(result.responseBytesHexstring!)).toBe("duplicate");
+  });
+
+  it("should digest directories by their files", async () => {
+    await addFixture("dup-dir-schema", DIRECTORY_SCHEMA);
+    const files = {
+      "a.jsonl": '{"temperature":1}\n{"temperature":2}\n',
+      "b.jsonl": '{"temperature":3}\n{"temperature":4}\n',
+    };
+    await addFixture("dup-dir", await directoryCar(files));
+
+    const first = await simulateVerification(
+      cidOf("dup-dir"),
+      cidOf("dup-dir-schema"),
+      gatewayUrl,
+    );
+    expect(first.reason).toBe("valid");
+    expect(first.contentDigest).toMatch(/^[0-9a-f]{16}$/);
+
+    const again = await simulateVerification(
+      cidOf("dup-dir"),
+      cidOf("dup-dir-schema"),
+      gatewayUrl,
+      undefined,
+      [first.contentDigest!],
+    );
+    expect(again.reason).toBe("duplicate");
   });
 });
@@ -0,0 +1,302 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkSubmissionSchema,
+  getSubmissionRules,
+  globToRegExp,
+  verifyDirectory,
+  verifyDocument,
+} from "../src/submission.js";
+import type { UnixFSFile } from "../src/unixfs.js";
+
+const RECORD_SCHEMA = {
+  "x-submission": {
+    layout: "directory",
+    include: ["*.json", "*.jsonl"],
+    minRecords: 2,
+  },
+  type: "object",
+  required: ["temperature"],
+  properties: { temperature: { type: "number" } },
+};
+
+function file(path: string, contents: string): UnixFSFile {
+  return { path, bytes: new TextEncoder().encode(contents) };
+}
+
+describe("globToRegExp", () => {
+  it("should match within a single path segment", () => {
+    const glob = globToRegExp("*.json")!;
+    expect(glob.test("a.json")).toBe(true);
+    expect(glob.test("dir/a.json")).toBe(false);
+    expect(glob.test("a.jsonl")).toBe(false);
+  });
+
+  it("should support **, ? and {a,b}", () => {
+    expect(globToRegExp("**/*.json")!.test("a/b/c.json")).toBe(true);
+    expect(globToRegExp("**/*.json")!.test("c.json")).toBe(true);
+    expect(globToRegExp("day-?.csv")!.test("day-1.csv")).toBe(true);
+    expect(globToRegExp("*.{jsonl,ndjson}")!.test("a.ndjson")).toBe(true);
+    expect(globToRegExp("*.{json")).toBeNull();
+  });
+});
+
+describe("checkSubmissionSchema", () => {
+  it("should accept valid rules and schemas without rules", () => {
+    expect(checkSubmissionSchema(RECORD_SCHEMA)).toEqual([]);
+    expect(checkSubmissionSchema({ type: "object" })).toEqual([]);
+  });
+
+  it("should reject malformed or unknown rules", () => {
+    const issues = checkSubmissionSchema({
+      "x-submission": {
+        layout: "archive",
+        include: [],
+        minRecords: -1,
+        maxBytes: 10,
+      },
+    });
+    expect(issues.map((i) => i.schemaPointer)).toEqual([
+      "/x-submission/maxBytes",
+      "/x-submission/layout",
+      "/x-submission/include",
+      "/x-submission/minRecords",
+    ]);
+  });
+
+  it("should reject directory rules on single-file layouts", () => {
+    expect(
+      checkSubmissionSchema({ "x-submission": { minFiles: 2 } })[0]?.message,
+    ).toBe('minFiles requires layout "directory"');
+  });
+
+  it("should validate format options", () => {
+    expect(
+      checkSubmissionSchema({
+        "x-submission": { format: "csv", delimiter: ";", header: false },
+      }),
+    ).toEqual([]);
+    const issues = checkSubmissionSchema({
+      "x-submission": {
+        format: "xml",
+        delimiter: '"',
+        header: "yes",
+        coerce: "all",
+      },
+    });
+    expect(issues.map((i) => i.schemaPointer)).toEqual([
+      "/x-submission/format",
+      "/x-submission/delimiter",
+      "/x-submission/header",
+      "/x-submission/coerce",
+    ]);
+  });
+
+  it("should include issues from the schema itself", () => {
+    expect(
+      checkSubmissionSchema({ unevaluatedProperties: false })[0]?.keyword,
+    ).toBe("unevaluatedProperties");
+  });
+});
+
+describe("getSubmissionRules", () => {
+  it("should apply defaults", () => {
+    expect(getSubmissionRules({ type: "object" })).toEqual({
+      layout: "file",
+      include: ["*.json", "*.jsonl", "*.ndjson", "*.csv", "*.tsv"],
+      minFiles: 1,
+      maxFiles: undefined,
+      minRecords: undefined,
+      maxRecords: undefined,
+      format: "json",
+      delimiter: undefined,
+      header: true,
+      coerce: "schema",
+    });
+    expect(
+      getSubmissionRules({
+        "x-submission": { layout: "directory", include: "*.csv" },
+      }).include,
+    ).toEqual(["*.csv"]);
+    expect(
+      getSubmissionRules({ "x-submission": { layout: "directory" } }).format,
+    ).toBe("auto");
+  });
+});
+
+describe("verifyDirectory", () => {
+  const rules = getSubmissionRules(RECORD_SCHEMA);
+
+  it("should pass when every matching file is valid", () => {
+    const files = [
+      file("a.jsonl", '{"temperature":1}\n\n{"temperature":2}\n'),
+      file("notes.txt", "ignored"),
+    ];
+    expect(verifyDirectory(files, RECORD_SCHEMA, rules)).toEqual({
+      violations: [],
+      recordCount: 2,
+    });
+  });
+
+  it("should validate each NDJSON line as a record", () => {
+    const files = [
+      file("a.jsonl", '{"temperature":1}\n{"temperature":"hot"}\n{}'),
+    ];
+    expect(
+      verifyDirectory(files, RECORD_SCHEMA, rules).violations.map((v) => [
+        v.file,
+        v.record,
+        v.pointer,
+        v.keyword,
+      ]),
+    ).toEqual([
+      ["a.jsonl", 1, "/temperature", "type"],
+      ["a.jsonl", 2, "/temperature", "required"],
+    ]);
+  });
+
+  it("should enforce per-file record limits", () => {
+    const files = [file("one.jsonl", '{"temperature":1}')];
+    expect(verifyDirectory(files, RECORD_SCHEMA, rules).violations).toEqual([
+      {
+        file: "one.jsonl",
+        pointer: "",
+        keyword: "minRecords",
+        expected: 2,
+        actual: 1,
+        message: "must contain at least 2 record(s)",
+      },
+    ]);
+  });
+
+  it("should enforce file counts", () => {
+    const { violations } = verifyDirectory(
+      [file("a.txt", "x")],
+      RECORD_SCHEMA,
+      { ...rules, minFiles: 1 },
+    );
+    expect(violations[0]).toMatchObject({
+      file: "",
+      keyword: "minFiles",
+      expected: 1,
+      actual: 0,
+    });
+
+    const tooMany = verifyDirectory(
+      [
+        file("a.json", '{"temperature":1}'),
+        file("b.json", '{"temperature":2}'),
+      ],
+      RECORD_SCHEMA,
+      { ...rules, minRecords: undefined, maxFiles: 1 },
+    );
+    expect(tooMany.violations.map((v) => v.keyword)).toEqual(["maxFiles"]);
+  });
+
+  it("should report files that are not valid JSON", () => {
+    const files = [
+      file("a.json", "{not json"),
+      file("b.jsonl", '{"temperature":1}\n{oops}'),
+    ];
+    expect(
+      verifyDirectory(files, RECORD_SCHEMA, rules).violations.map((v) => [
+        v.file,
+        v.keyword,
+        v.expected,
+      ]),
+    ).toEqual([
+      ["a.json", "parse", "json"],
+      ["b.jsonl", "parse", "ndjson"],
+    ]);
+  });
+
+  it("should split CSV and TSV files into coerced records", () => {
+    const files = [
+      file("a.csv", "temperature\n1\n2.5\n"),
+      file("b.tsv", "temperature\tstation\n3\tx\nwarm\ty\n"),
+    ];
+    expect(
+      verifyDirectory(files, RECORD_SCHEMA, {
+        ...rules,
+        include: ["*.csv", "*.tsv"],
+      }).violations.map((v) => [v.file, v.record, v.keyword]),
+    ).toEqual([["b.tsv", 1, "type"]]);
+  });
+
+  it("should stop after maxViolations", () => {
+    const files = [file("a.jsonl", "{}\n{}\n{}\n{}")];
+    const report = verifyDirectory(files, RECORD_SCHEMA, rules, 2);
+    expect(report.violations).toHaveLength(2);
+    expect(report.recordCount).toBe(2);
+  });
+});
+
+describe("verifyDocument", () => {
+  const schema = {
+    "x-submission": { format: "csv" },
+    type: "array",
+    items: {
+      type: "object",
+      properties: { temperature: { type: "number" } },
+    },
+  };
+  const rules = getSubmissionRules(schema);
+
+  it("should validate the parsed document as a whole", () => {
+    expect(verifyDocument("temperature\n1\n2\n", schema, rules)).toEqual({
+      violations: [],
+      recordCount: 2,
+    });
+    expect(
+      verifyDocument("temperature\n1\nhot\n", schema, rules).violations.map(
+        (v) => [v.file, v.pointer, v.keyword],
+      ),
+    ).toEqual([["", "/1/temperature", "type"]]);
+  });
+
+  it("should coerce columns typed through references", () => {
+    const referenced = {
+      "x-submission": { format: "csv" },
+      $defs: {
+        reading: {
+          type: "object",
+          properties: { temperature: { type: "number" } },
+        },
+      },
+      type: "array",
+      items: { $ref: "#/$defs/reading" },
+    };
+    expect(
+      verifyDocument(
+        "temperature\n1\n2.5\n",
+        referenced,
+        getSubmissionRules(referenced),
+      ),
+    ).toEqual({ violations: [], recordCount: 2 });
+  });
+
+  it("should report parse errors against the declared format", () => {
+    expect(verifyDocument('"temperature\n1', schema, rules).violations).toEqual(
+      [
+        {
+          file: "",
+          pointer: "",
+          keyword: "parse",
+          expected: "csv",
+          actual: "unterminated quoted cell",
+          message: "must be valid CSV",
+        },
+      ],
+    );
+  });
+
+  it("should keep treating plain documents as JSON", () => {
+    const plain = getSubmissionRules({ type: "object" });
+    expect(verifyDocument('{"a":1}', { type: "object" }, plain)).toEqual({
+      violations: [],
+      recordCount: 1,
+    });
+    expect(
+      verifyDocument("a,b", { type: "object" }, plain).violations[0]?.expected,
+    ).toBe("json");
+  });
+});
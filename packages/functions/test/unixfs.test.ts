@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { encodeDirectory, encodeFile } from "@storacha/upload-client/unixfs";
+import * as CAR from "@storacha/upload-client/car";
+import { readCar, readDirectoryCar, readFileCar } from "../src/unixfs.js";
+
+type Block = Awaited<ReturnType<typeof encodeFile>>["blocks"][number];
+
+async function toCar(blocks: Block[], root: Block["cid"]) {
+  const car = await CAR.encode(blocks, root);
+  return new Uint8Array(await car.arrayBuffer());
+}
+
+function text(bytes: Uint8Array) {
+  return new TextDecoder().decode(bytes);
+}
+
+describe("readCar", () => {
+  it("should decode roots and blocks", async () => {
+    const { cid, blocks } = await encodeFile(new Blob(["hello"]));
+    const { roots, blocks: decoded } = readCar(await toCar(blocks, cid));
+
+    expect(roots).toHaveLength(1);
+    expect(roots[0]).toEqual(cid.bytes);
+    expect(decoded.size).toBe(blocks.length);
+  });
+
+  it("should reject data that is not a CAR", () => {
+    expect(() => readCar(new TextEncoder().encode('{"a":1}'))).toThrow();
+  });
+});
+
+describe("readDirectoryCar", () => {
+  it("should list files with paths relative to the root", async () => {
+    const { cid, blocks } = await encodeDirectory([
+      new File(['{"a":1}'], "a.json"),
+      new File(['{"b":2}\n{"b":3}\n'], "data/b.jsonl"),
+      new File(["notes"], "README.md"),
+    ]);
+
+    const files = readDirectoryCar(await toCar(blocks, cid));
+
+    expect(
+      Object.fromEntries(files.map((f) => [f.path, text(f.bytes)])),
+    ).toEqual({
+      "README.md": "notes",
+      "a.json": '{"a":1}',
+      "data/b.jsonl": '{"b":2}\n{"b":3}\n',
+    });
+  });
+
+  it("should reassemble files split across several blocks", async () => {
+    const large = "x".repeat(1024 * 1024 + 10);
+    const { cid, blocks } = await encodeDirectory([
+      new File([large], "big.txt"),
+    ]);
+
+    const [file] = readDirectoryCar(await toCar(blocks, cid));
+    expect(file?.bytes.length).toBe(large.length);
+    expect(text(file!.bytes)).toBe(large);
+  });
+
+  it("should walk HAMT-sharded directories", async () => {
+    const entries = Array.from(
+      { length: 1001 },
+      (_, i) => new File([String(i)], `${i}.json`),
+    );
+    const { cid, blocks } = await encodeDirectory(entries);
+
+    const files = readDirectoryCar(await toCar(blocks, cid));
+    expect(files).toHaveLength(1001);
+    expect(text(files.find((f) => f.path === "500.json")!.bytes)).toBe("500");
+  });
+
+  it("should reject a root that is not a directory", async () => {
+    const { cid, blocks } = await encodeFile(new Blob(["hello"]));
+    const car = await toCar(blocks, cid);
+
+    expect(() => readDirectoryCar(car)).toThrow(
+      "Root CID is not a UnixFS directory",
+    );
+  });
+
+  it("should report blocks missing from the CAR", async () => {
+    const { cid, blocks } = await encodeDirectory([
+      new File(['{"a":1}'], "a.json"),
+    ]);
+    const rootOnly = blocks.filter((b) => b.cid.equals(cid));
+    const car = await toCar(rootOnly, cid);
+
+    expect(() => readDirectoryCar(car)).toThrow("missing from the CAR");
+  });
+});
+
+describe("readFileCar", () => {
+  it("should follow a path below the root", async () => {
+    const { cid, blocks } = await encodeDirectory([
+      new File(['{"a":1}'], "a.json"),
+      new File(["nested"], "data/my file.txt"),
+    ]);
+    const car = await toCar(blocks, cid);
+
+    expect(text(readFileCar(car, ["data", "my file.txt"]))).toBe("nested");
+    expect(() => readFileCar(car, ["data", "missing.txt"])).toThrow(
+      'No entry at "data/missing.txt"',
+    );
+    expect(() => readFileCar(car, ["data"])).toThrow('"data" is not a file');
+  });
+
+  it("should find entries of HAMT-sharded directories", async () => {
+    const entries = Array.from(
+      { length: 1001 },
+      (_, i) => new File([String(i)], `${i}.json`),
+    );
+    const { cid, blocks } = await encodeDirectory(entries);
+
+    const bytes = readFileCar(await toCar(blocks, cid), ["500.json"]);
+    expect(text(bytes)).toBe("500");
+  });
+});
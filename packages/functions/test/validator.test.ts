@@ -0,0 +1,412 @@
+import { describe, it, expect } from "vitest";
+import {
+  validate,
+  checkSchema,
+  compileSchema,
+  InvalidSchemaError,
+} from "../src/validator.js";
+
+const VALID_SCHEMA = {
+  type: "object",
+  required: ["name", "age"],
+  properties: {
+    name: { type: "string", minLength: 1 },
+    age: { type: "integer", minimum: 0 },
+    email: { type: "string", pattern: "^\\S+@\\S+\\.\\S+$" },
+  },
+};
+
+describe("validate", () => {
+  it("should return no violations for valid data", () => {
+    expect(
+      validate(
+        { name: "Alice", age: 30, email: "alice@example.com" },
+        VALID_SCHEMA,
+      ),
+    ).toEqual([]);
+  });
+
+  it("should accept boolean schemas", () => {
+    expect(validate({ anything: true }, true)).toEqual([]);
+    expect(validate(42, false)[0]?.keyword).toBe("false");
+  });
+
+  it("should point at missing required properties", () => {
+    expect(validate({ name: "Bob" }, VALID_SCHEMA)).toEqual([
+      {
+        pointer: "/age",
+        keyword: "required",
+        expected: "age",
+        actual: undefined,
+        message: "must have required property 'age'",
+      },
+    ]);
+  });
+
+  it("should report expected and actual types", () => {
+    expect(validate({ name: "Charlie", age: "thirty" }, VALID_SCHEMA)).toEqual([
+      {
+        pointer: "/age",
+        keyword: "type",
+        expected: "integer",
+        actual: "string",
+        message: "must be integer",
+      },
+    ]);
+    expect(validate(1.5, { type: "integer" })[0]?.actual).toBe("number");
+    expect(validate(null, { type: "object" })[0]?.actual).toBe("null");
+  });
+
+  it("should report every violation rather than stopping at the first", () => {
+    const violations = validate(
+      { name: "", age: -1, email: "nope" },
+      VALID_SCHEMA,
+    );
+    expect(
+      violations.map((v) => [v.pointer, v.keyword, v.expected, v.actual]),
+    ).toEqual([
+      ["/name", "minLength", 1, 0],
+      ["/age", "minimum", 0, -1],
+      ["/email", "pattern", "^\\S+@\\S+\\.\\S+$", "nope"],
+    ]);
+  });
+
+  it("should validate enum and const", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        status: { enum: ["active", "inactive"] },
+        version: { const: 1 },
+      },
+    };
+    const violations = validate({ status: "deleted", version: 2 }, schema);
+    expect(violations.map((v) => [v.keyword, v.expected, v.actual])).toEqual([
+      ["enum", ["active", "inactive"], "deleted"],
+      ["const", 1, 2],
+    ]);
+  });
+
+  it("should validate numeric and length upper bounds", () => {
+    expect(validate(11, { maximum: 10 })[0]?.keyword).toBe("maximum");
+    expect(validate("abcd", { maxLength: 3 })[0]?.actual).toBe(4);
+    expect(validate([1, 2, 3], { maxItems: 2 })[0]?.keyword).toBe("maxItems");
+  });
+
+  it("should validate array items with indexed pointers", () => {
+    const schema = {
+      type: "array",
+      items: { type: "string" },
+      minItems: 1,
+    };
+    expect(validate([], schema)[0]?.keyword).toBe("minItems");
+    expect(validate(["web3", 42], schema)).toEqual([
+      {
+        pointer: "/1",
+        keyword: "type",
+        expected: "string",
+        actual: "number",
+        message: "must be string",
+      },
+    ]);
+  });
+
+  it("should escape pointer segments and reject additional properties", () => {
+    const schema = {
+      type: "object",
+      properties: { "a~b": { type: "number" } },
+      additionalProperties: false,
+    };
+    expect(validate({ "a~b": "x", "c/d": 2 }, schema)).toEqual([
+      {
+        pointer: "/a~0b",
+        keyword: "type",
+        expected: "number",
+        actual: "string",
+        message: "must be number",
+      },
+      {
+        pointer: "/c~1d",
+        keyword: "additionalProperties",
+        expected: ["a~b"],
+        actual: "c/d",
+        message: "must NOT have additional properties",
+      },
+    ]);
+  });
+
+  it("should not let inherited keys satisfy object keywords", () => {
+    const strict = {
+      type: "object",
+      properties: { name: { type: "string" } },
+      additionalProperties: false,
+    };
+    const extra = JSON.parse('{"name":"A","toString":1,"constructor":2}');
+    expect(validate(extra, strict).map((v) => v.pointer)).toEqual([
+      "/toString",
+      "/constructor",
+    ]);
+
+    expect(
+      validate({}, { type: "object", required: ["constructor"] })[0]?.keyword,
+    ).toBe("required");
+    expect(
+      validate(
+        { name: "A" },
+        {
+          dependentRequired: { toString: ["id"] },
+          dependentSchemas: { valueOf: false },
+        },
+      ),
+    ).toEqual([]);
+    expect(() => validate({}, { $ref: "#/constructor" })).toThrow(
+      InvalidSchemaError,
+    );
+  });
+
+  it("should resolve local $ref through $defs, pointers and anchors", () => {
+    const schema = {
+      $defs: {
+        positive: { type: "integer", exclusiveMinimum: 0 },
+        "a/b": { $anchor: "label", type: "string", minLength: 2 },
+      },
+      type: "object",
+      properties: {
+        count: { $ref: "#/$defs/positive" },
+        label: { $ref: "#label" },
+        other: { $ref: "#/$defs/a~1b" },
+      },
+    };
+    expect(validate({ count: 3, label: "ok", other: "ok" }, schema)).toEqual(
+      [],
+    );
+    expect(
+      validate({ count: 0, label: "x", other: "y" }, schema).map((v) => [
+        v.pointer,
+        v.keyword,
+      ]),
+    ).toEqual([
+      ["/count", "exclusiveMinimum"],
+      ["/label", "minLength"],
+      ["/other", "minLength"],
+    ]);
+  });
+
+  it("should follow recursive $ref without looping", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        value: { type: "number" },
+        children: { type: "array", items: { $ref: "#" } },
+      },
+    };
+    const tree = {
+      value: 1,
+      children: [{ value: 2, children: [{ value: "3" }] }],
+    };
+    expect(validate(tree, schema)[0]?.pointer).toBe(
+      "/children/0/children/0/value",
+    );
+    expect(
+      validate(
+        {},
+        { $defs: { loop: { $ref: "#/$defs/loop" } }, $ref: "#/$defs/loop" },
+      ),
+    ).toEqual([]);
+  });
+
+  it("should apply allOf, anyOf, oneOf and not", () => {
+    expect(validate(5, { allOf: [{ minimum: 1 }, { maximum: 3 }] })).toEqual([
+      {
+        pointer: "",
+        keyword: "maximum",
+        expected: 3,
+        actual: 5,
+        message: "must be <= 3",
+      },
+    ]);
+    expect(
+      validate("x", { anyOf: [{ type: "number" }, { type: "null" }] })[0],
+    ).toMatchObject({ keyword: "anyOf", expected: 1, actual: 0 });
+    expect(
+      validate(2, { oneOf: [{ type: "integer" }, { minimum: 1 }] })[0],
+    ).toMatchObject({ keyword: "oneOf", actual: 2 });
+    expect(
+      validate(2, { oneOf: [{ type: "integer" }, { type: "string" }] }),
+    ).toEqual([]);
+    expect(validate("admin", { not: { const: "admin" } })[0]?.keyword).toBe(
+      "not",
+    );
+  });
+
+  it("should apply if/then/else and dependent keywords", () => {
+    const schema = {
+      type: "object",
+      if: { properties: { country: { const: "US" } } },
+      then: { required: ["zip"] },
+      else: { required: ["postcode"] },
+      dependentRequired: { card: ["cvv"] },
+      dependentSchemas: { coupon: { properties: { total: { minimum: 10 } } } },
+    };
+    expect(validate({ country: "US", zip: "1" }, schema)).toEqual([]);
+    expect(
+      validate({ country: "DE", card: "x", coupon: "y", total: 5 }, schema).map(
+        (v) => [v.pointer, v.keyword],
+      ),
+    ).toEqual([
+      ["/cvv", "dependentRequired"],
+      ["/total", "minimum"],
+      ["/postcode", "required"],
+    ]);
+  });
+
+  it("should validate numeric and array keywords", () => {
+    expect(validate(0.3, { multipleOf: 0.1 })).toEqual([]);
+    expect(validate(7, { multipleOf: 2 })[0]?.keyword).toBe("multipleOf");
+    expect(validate(10, { exclusiveMaximum: 10 })[0]?.keyword).toBe(
+      "exclusiveMaximum",
+    );
+    expect(
+      validate([1, { a: 1, b: 2 }, { b: 2, a: 1 }], { uniqueItems: true }),
+    ).toMatchObject([{ pointer: "/2", keyword: "uniqueItems" }]);
+    const tuple = {
+      prefixItems: [{ type: "string" }, { type: "number" }],
+      items: false,
+    };
+    expect(validate(["a", 1], tuple)).toEqual([]);
+    expect(validate(["a", 1, true], tuple)[0]).toMatchObject({
+      pointer: "/2",
+      keyword: "false",
+    });
+    expect(validate([1, 2], { contains: { type: "string" } })[0]?.keyword).toBe(
+      "contains",
+    );
+    expect(
+      validate(["a", "b", 1], {
+        contains: { type: "string" },
+        maxContains: 1,
+      })[0]?.keyword,
+    ).toBe("maxContains");
+  });
+
+  it("should validate object keywords", () => {
+    const schema = {
+      type: "object",
+      properties: { id: { type: "string" } },
+      patternProperties: { "^n_": { type: "number" } },
+      additionalProperties: { type: "boolean" },
+      propertyNames: { maxLength: 5 },
+      minProperties: 2,
+    };
+    expect(validate({ id: "a", n_x: 1, flag: true }, schema)).toEqual([]);
+    expect(
+      validate({ n_x: "1", flag: 1, toolong: true }, schema).map((v) => [
+        v.pointer,
+        v.keyword,
+      ]),
+    ).toEqual([
+      ["/n_x", "type"],
+      ["/flag", "type"],
+      ["/toolong", "propertyNames"],
+    ]);
+    expect(validate({}, schema)[0]?.keyword).toBe("minProperties");
+  });
+
+  it("should support type arrays and count string length in code points", () => {
+    expect(validate(null, { type: ["string", "null"] })).toEqual([]);
+    expect(validate("😀😀", { maxLength: 2 })).toEqual([]);
+  });
+
+  it("should check formats", () => {
+    const ok: [string, string][] = [
+      ["date-time", "2024-02-29T12:30:00Z"],
+      ["date", "2024-02-29"],
+      ["time", "23:59:60+01:00"],
+      ["email", "alice@example.com"],
+      ["uri", "https://example.com/a?b=c"],
+      ["uuid", "123e4567-e89b-12d3-a456-426614174000"],
+      ["ipv4", "192.168.0.1"],
+      ["ipv6", "2001:db8::1"],
+      ["hostname", "w3s.link"],
+      ["duration", "P1DT2H"],
+    ];
+    for (const [format, value] of ok) {
+      expect(validate(value, { format }), format).toEqual([]);
+    }
+    const bad: [string, string][] = [
+      ["date-time", "2023-02-29T12:30:00Z"],
+      ["date", "2024-13-01"],
+      ["email", "not-an-email"],
+      ["uri", "/relative"],
+      ["ipv4", "256.0.0.1"],
+      ["ipv6", "1::2::3"],
+    ];
+    for (const [format, value] of bad) {
+      expect(validate(value, { format })[0]?.keyword, format).toBe("format");
+    }
+    expect(validate(42, { format: "date" })).toEqual([]);
+  });
+
+  it("should accept annotations and x- extensions", () => {
+    const schema = {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $id: "https://example.com/bounty.json",
+      title: "Row",
+      description: "A row",
+      "x-ui": { widget: "table" },
+      properties: { a: { default: 1, examples: [1], deprecated: true } },
+    };
+    expect(checkSchema(schema)).toEqual([]);
+    expect(validate({ a: 1 }, schema)).toEqual([]);
+  });
+
+  it("should reject schemas with unsupported keywords instead of passing", () => {
+    const schema = {
+      type: "object",
+      properties: { a: { unevaluatedProperties: false, foo: 1 } },
+    };
+    expect(() => validate({ a: {} }, schema)).toThrow(InvalidSchemaError);
+    expect(checkSchema(schema)).toEqual([
+      {
+        schemaPointer: "/properties/a/unevaluatedProperties",
+        keyword: "unevaluatedProperties",
+        message: 'unsupported keyword "unevaluatedProperties"',
+      },
+      {
+        schemaPointer: "/properties/a/foo",
+        keyword: "foo",
+        message: 'unsupported keyword "foo"',
+      },
+    ]);
+  });
+
+  it("should reject unknown formats, remote refs and malformed values", () => {
+    const issues = checkSchema({
+      properties: {
+        a: { format: "iri" },
+        b: { $ref: "https://example.com/other.json" },
+        c: { $ref: "#/$defs/missing" },
+        d: { pattern: "(" },
+        e: { minimum: "1" },
+        f: { type: "text" },
+      },
+    });
+    expect(issues.map((i) => i.keyword)).toEqual([
+      "format",
+      "pattern",
+      "minimum",
+      "type",
+      "$ref",
+      "$ref",
+    ]);
+    expect(() => validate(42, null)).toThrow(InvalidSchemaError);
+  });
+
+  it("should compile a schema once for many values", () => {
+    const check = compileSchema(VALID_SCHEMA);
+    expect(check({ name: "Ada", age: 36 })).toEqual([]);
+    expect(check({ name: "Ada", age: -1 })).toEqual(
+      validate({ name: "Ada", age: -1 }, VALID_SCHEMA),
+    );
+    expect(() => compileSchema({ type: "text" })).toThrow(InvalidSchemaError);
+  });
+});
@@ -1,4 +1,5 @@
 import { StorachaBountyClient } from "@storacha-chainlink/sdk";
+import { loadAgentCredentials } from "@storacha-chainlink/sdk/node";
 import { ethers } from "ethers";
 import dotenv from "dotenv";
 
@@ -9,17 +10,32 @@ const privateKey = process.env.PRIVATE_KEY;
 const dataRegistryAddress = process.env.DATA_REGISTRY_ADDRESS;
 const bountyIdEnv = process.env.BOUNTY_ID;
 const storachaEmail = process.env.STORACHA_EMAIL;
+const storachaKey = process.env.STORACHA_KEY;
 
 async function main() {
-  if (!rpcUrl || !privateKey || !dataRegistryAddress || !storachaEmail) {
+  if (
+    !rpcUrl ||
+    !privateKey ||
+    !dataRegistryAddress ||
+    (!storachaEmail && !storachaKey)
+  ) {
     throw new Error(
-      "RPC_URL, PRIVATE_KEY, DATA_REGISTRY_ADDRESS, STORACHA_EMAIL must be set",
+      "RPC_URL, PRIVATE_KEY, DATA_REGISTRY_ADDRESS and STORACHA_EMAIL (or STORACHA_KEY and STORACHA_PROOF) must be set",
     );
   }
 
-  const storacha = await StorachaBountyClient.create();
-  await storacha.authorize(storachaEmail);
-  await storacha.createSpace({ name: "bounty-submissions" });
+  let storacha;
+  if (storachaKey) {
+    const credentials = await loadAgentCredentials();
+    storacha = await StorachaBountyClient.fromPrincipal(
+      credentials.privateKey,
+      credentials.proof,
+    );
+  } else {
+    storacha = await StorachaBountyClient.create();
+    await storacha.authorize(storachaEmail);
+    await storacha.createSpace({ name: "bounty-submissions" });
+  }
 
   const bountyId =
     bountyIdEnv && Number.isFinite(Number(bountyIdEnv))
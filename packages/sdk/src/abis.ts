@@ -0,0 +1,98 @@
+/**
+ * Human-readable ABIs for the bounty marketplace contracts.
+ * Kept in sync with packages/contracts/contracts/*.sol by hand;
+ * only the functions, events and errors used by the SDK are listed.
+ */
+
+/** BountyRegistry ABI */
+export const BOUNTY_REGISTRY_ABI = [
+  // Functions
+  "function createBounty(string metadataUri, string schemaUri, uint256 deadline, uint256 maxSubmissions) payable returns (uint256)",
+  "function cancelBounty(uint256 bountyId)",
+  "function increaseReward(uint256 bountyId) payable",
+  "function extendDeadline(uint256 bountyId, uint256 newDeadline)",
+  "function expireBounty(uint256 bountyId)",
+  "function getBounty(uint256 bountyId) view returns (tuple(uint256 id, address creator, string metadataUri, string schemaUri, uint256 reward, uint256 deadline, uint8 status, uint256 maxSubmissions, uint256 submissionCount, uint256 createdAt))",
+  "function isBountyActive(uint256 bountyId) view returns (bool)",
+  "function getTotalBounties() view returns (uint256)",
+  "function getBountiesByCreator(address creator) view returns (uint256[])",
+  "function escrowManager() view returns (address)",
+  "function MIN_REWARD() view returns (uint256)",
+  // Events
+  "event BountyCreated(uint256 indexed id, address indexed creator, uint256 reward, string metadataUri, string schemaUri, uint256 indexed deadline)",
+  "event BountyCompleted(uint256 indexed id, address indexed winner, string cid)",
+  "event BountyCancelled(uint256 indexed id, address indexed creator)",
+  "event BountyExpired(uint256 indexed id, address indexed creator, uint256 reward)",
+  "event RewardIncreased(uint256 indexed id, uint256 amountAdded, uint256 newReward)",
+  "event DeadlineExtended(uint256 indexed id, uint256 newDeadline)",
+  // Errors
+  "error InsufficientReward()",
+  "error InvalidDeadline()",
+  "error BountyNotFound()",
+  "error Unauthorized()",
+  "error InvalidStatus()",
+  "error MaxSubmissionsReached()",
+  "error EscrowManagerNotSet()",
+  "error EscrowDepositFailed()",
+  "error DataRegistryNotSet()",
+  "error InvalidAddress()",
+] as const;
+
+/** DataRegistry ABI */
+export const DATA_REGISTRY_ABI = [
+  // Functions
+  "function submitData(uint256 bountyId, string cid, string metadata) returns (uint256)",
+  "function getSubmission(uint256 submissionId) view returns (tuple(uint256 id, uint256 bountyId, address contributor, string cid, string metadata, uint8 status, uint256 submittedAt, uint256 verifiedAt))",
+  "function getVerificationResult(uint256 submissionId) view returns (bytes)",
+  "function getBountySubmissions(uint256 bountyId) view returns (uint256[])",
+  "function getSubmissionsByContributor(address contributor) view returns (uint256[])",
+  "function getTotalSubmissions() view returns (uint256)",
+  "function commitSubmission(uint256 bountyId, bytes32 commitment)",
+  "function revealSubmission(uint256 bountyId, string cid, string metadata, bytes32 salt) returns (uint256)",
+  "function computeCommitment(uint256 bountyId, string cid, bytes32 salt, address contributor) pure returns (bytes32)",
+  "function commitments(address contributor, bytes32 commitment) view returns (uint256 bountyId, uint256 committedAt)",
+  "function revealDelay() view returns (uint256)",
+  "function commitRequired() view returns (bool)",
+  // Events
+  "event DataSubmitted(uint256 indexed submissionId, uint256 indexed bountyId, address indexed contributor, string cid)",
+  "event VerificationRequested(uint256 indexed submissionId, uint256 indexed bountyId, string cid)",
+  "event SubmissionVerified(uint256 indexed submissionId, uint256 indexed bountyId, address indexed contributor, bool accepted)",
+  "event PaymentReleased(uint256 indexed submissionId, address indexed contributor, uint256 amount)",
+  "event SubmissionCommitted(bytes32 indexed commitment, uint256 indexed bountyId, address indexed contributor)",
+  "event SubmissionRevealed(bytes32 indexed commitment, uint256 indexed submissionId)",
+  // Errors
+  "error BountyNotActive()",
+  "error InvalidCID()",
+  "error SubmissionNotFound()",
+  "error Unauthorized()",
+  "error FunctionsConsumerNotSet()",
+  "error EscrowManagerNotSet()",
+  "error InvalidStatus()",
+  "error PaymentFailed()",
+  "error CommitRequired()",
+  "error CommitmentExists()",
+  "error CommitmentNotFound()",
+  "error RevealTooEarly()",
+  "error DuplicateCID()",
+] as const;
+
+/** EscrowManager ABI */
+export const ESCROW_MANAGER_ABI = [
+  // Functions
+  "function getEscrow(uint256 bountyId) view returns (tuple(uint256 bountyId, address depositor, uint256 amount, uint8 status, uint256 createdAt, uint256 releasedAt))",
+  "function isEscrowFunded(uint256 bountyId) view returns (bool)",
+  "function getEscrowAmount(uint256 bountyId) view returns (uint256)",
+  // Events
+  "event FundsDeposited(uint256 indexed bountyId, address indexed depositor, uint256 amount)",
+  "event FundsReleased(uint256 indexed bountyId, address indexed recipient, uint256 amount)",
+  "event FundsRefunded(uint256 indexed bountyId, address indexed depositor, uint256 amount)",
+  // Errors
+  "error Unauthorized()",
+  "error InvalidAmount()",
+  "error InvalidBountyId()",
+  "error EscrowNotFound()",
+  "error EscrowAlreadyExists()",
+  "error InvalidEscrowStatus()",
+  "error TransferFailed()",
+  "error InvalidAddress()",
+] as const;
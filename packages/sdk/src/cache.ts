@@ -0,0 +1,230 @@
+/**
+ * Cache stores for IPFS fetches: a bytes-bounded in-memory LRU and an
+ * IndexedDB store for browsers. The filesystem store for Node lives in
+ * fs-cache.ts so browser bundles never import node:fs.
+ */
+
+import type {
+  CacheEntry,
+  CacheStore,
+  CacheStoreOptions,
+  CacheStoreStats,
+} from "./types.js";
+
+/** Default size limit of the in-memory cache (50 MB) */
+export const DEFAULT_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Size of an entry's data in bytes, as counted against maxBytes
+ */
+export function entrySize(entry: CacheEntry): number {
+  const { data, representation } = entry;
+  if (representation === "bytes" && data instanceof Uint8Array) {
+    return data.byteLength;
+  }
+  if (representation === "text" && typeof data === "string") {
+    return textEncoder.encode(data).byteLength;
+  }
+  return textEncoder.encode(JSON.stringify(data) ?? "").byteLength;
+}
+
+/**
+ * In-memory cache that evicts the least recently used entries once the
+ * cached data exceeds `maxBytes` (default: 50 MB). An entry larger than
+ * the limit is not cached at all.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { entry: CacheEntry; size: number }>();
+  private bytes = 0;
+  private evictions = 0;
+  private readonly maxBytes: number;
+
+  constructor(options?: CacheStoreOptions) {
+    this.maxBytes = options?.maxBytes ?? DEFAULT_CACHE_MAX_BYTES;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const item = this.entries.get(key);
+    if (!item) return undefined;
+    // Map iteration order doubles as recency order
+    this.entries.delete(key);
+    this.entries.set(key, item);
+    return item.entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.delete(key);
+    const size = entrySize(entry);
+    if (size > this.maxBytes) return;
+
+    this.entries.set(key, { entry, size });
+    this.bytes += size;
+    for (const [oldest, item] of this.entries) {
+      if (this.bytes <= this.maxBytes) break;
+      this.entries.delete(oldest);
+      this.bytes -= item.size;
+      this.evictions++;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const item = this.entries.get(key);
+    if (!item) return;
+    this.entries.delete(key);
+    this.bytes -= item.size;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  async stats(): Promise<CacheStoreStats> {
+    return {
+      keys: Array.from(this.entries.keys()),
+      bytes: this.bytes,
+      maxBytes: Number.isFinite(this.maxBytes) ? this.maxBytes : null,
+      evictions: this.evictions,
+    };
+  }
+}
+
+/**
+ * Options for IndexedDBCacheStore
+ */
+export interface IndexedDBCacheStoreOptions extends CacheStoreOptions {
+  /** Database name (default: "storacha-bounty-cache") */
+  name?: string;
+}
+
+interface CacheMeta {
+  key: string;
+  size: number;
+  accessedAt: number;
+}
+
+const ENTRIES = "entries";
+const META = "meta";
+
+/**
+ * Browser cache backed by IndexedDB, so content survives page reloads.
+ * Unbounded unless `maxBytes` is set, in which case the least recently
+ * used entries are evicted.
+ */
+export class IndexedDBCacheStore implements CacheStore {
+  private db?: Promise<IDBDatabase>;
+  private evictions = 0;
+  private readonly name: string;
+  private readonly maxBytes: number | null;
+
+  constructor(options?: IndexedDBCacheStoreOptions) {
+    this.name = options?.name ?? "storacha-bounty-cache";
+    this.maxBytes = options?.maxBytes ?? null;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const tx = (await this.open()).transaction([ENTRIES, META], "readwrite");
+    const entry = await request<CacheEntry | undefined>(
+      tx.objectStore(ENTRIES).get(key),
+    );
+    const meta = await request<CacheMeta | undefined>(
+      tx.objectStore(META).get(key),
+    );
+    if (entry && meta) {
+      tx.objectStore(META).put({ ...meta, accessedAt: Date.now() });
+    }
+    await complete(tx);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const size = entrySize(entry);
+    if (this.maxBytes !== null && size > this.maxBytes) {
+      await this.delete(key);
+      return;
+    }
+
+    const tx = (await this.open()).transaction([ENTRIES, META], "readwrite");
+    tx.objectStore(ENTRIES).put(entry, key);
+    tx.objectStore(META).put({ key, size, accessedAt: Date.now() });
+    await complete(tx);
+    if (this.maxBytes !== null) await this.evict(this.maxBytes);
+  }
+
+  async delete(key: string): Promise<void> {
+    const tx = (await this.open()).transaction([ENTRIES, META], "readwrite");
+    tx.objectStore(ENTRIES).delete(key);
+    tx.objectStore(META).delete(key);
+    await complete(tx);
+  }
+
+  async clear(): Promise<void> {
+    const tx = (await this.open()).transaction([ENTRIES, META], "readwrite");
+    tx.objectStore(ENTRIES).clear();
+    tx.objectStore(META).clear();
+    await complete(tx);
+  }
+
+  async stats(): Promise<CacheStoreStats> {
+    const metas = await this.readMeta();
+    return {
+      keys: metas.map((meta) => meta.key),
+      bytes: metas.reduce((sum, meta) => sum + meta.size, 0),
+      maxBytes: this.maxBytes,
+      evictions: this.evictions,
+    };
+  }
+
+  private async evict(maxBytes: number): Promise<void> {
+    const metas = await this.readMeta();
+    let bytes = metas.reduce((sum, meta) => sum + meta.size, 0);
+    if (bytes <= maxBytes) return;
+
+    const tx = (await this.open()).transaction([ENTRIES, META], "readwrite");
+    for (const meta of metas.sort((a, b) => a.accessedAt - b.accessedAt)) {
+      if (bytes <= maxBytes) break;
+      tx.objectStore(ENTRIES).delete(meta.key);
+      tx.objectStore(META).delete(meta.key);
+      bytes -= meta.size;
+      this.evictions++;
+    }
+    await complete(tx);
+  }
+
+  private async readMeta(): Promise<CacheMeta[]> {
+    const tx = (await this.open()).transaction(META, "readonly");
+    return request<CacheMeta[]>(tx.objectStore(META).getAll());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(this.name, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(ENTRIES);
+        req.result.createObjectStore(META, { keyPath: "key" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return this.db;
+  }
+}
+
+// ============ Helper Functions ============
+
+function request<T>(req: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function complete(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -4,27 +4,100 @@
  */
 
 import * as Client from "@storacha/client";
+import * as Proof from "@storacha/client/proof";
+import { StoreIndexedDB } from "@storacha/client/stores/indexeddb";
+import { StoreMemory } from "@storacha/client/stores/memory";
+import {
+  IntegrityError,
+  readVerifiedFile,
+} from "@storacha-chainlink/functions/integrity";
+import { listVerifiedDirectory } from "@storacha-chainlink/functions/listing";
 import {
   DEFAULT_GATEWAYS,
   IPFSFetchError,
   type AccountInfo,
+  type AccountSelector,
+  type AgentKey,
   type AuthorizationStatus,
+  type BountyDelegationOptions,
   type CacheEntry,
+  type CacheRepresentation,
+  type CacheStats,
+  type CacheStore,
   type CID,
   type CreateSpaceOptions,
+  type DelegationInfo,
   type DelegationOptions,
   type DelegationResult,
   type DID,
+  type DirectoryEntry,
   type Email,
   type FetchOptions,
   type FetchRawResult,
   type FetchResult,
   type FileInput,
+  type GatewayAttempt,
+  type GatewayStats,
+  type ListDelegationsOptions,
+  type ListDirectoryOptions,
+  type ListUploadsOptions,
+  type RemoveManyOptions,
+  type RemoveManyResult,
   type SpaceInfo,
+  type SpaceUsage,
+  type StreamOptions,
   type StorachaBountyClientConfig,
+  type UploadEntry,
   type UploadOptions,
   type UploadResult,
 } from "./types.js";
+import { MemoryCacheStore } from "./cache.js";
+import { GatewayHealth } from "./gateways.js";
+import { exportSigner, parseAgentKey } from "./keys.js";
+
+/**
+ * Resolved fetch options that apply to each gateway request
+ */
+type GatewayRequestOptions = Required<
+  Pick<
+    FetchOptions,
+    "timeout" | "maxRetries" | "trustless" | "strategy" | "hedgeDelay"
+  >
+> & {
+  /** Which blocks a trustless request asks for (default: "all") */
+  dagScope?: "all" | "entity";
+};
+
+/**
+ * A UCAN delegation as the Storacha client returns it
+ */
+type UCANDelegation = ReturnType<Client.Client["proofs"]>[number];
+
+/**
+ * An authorized account as the Storacha client returns it
+ */
+type StorachaAccount = Client.Account.Account;
+
+/**
+ * What SpaceInfo is read from: the spaces the Storacha client lists,
+ * creates and adds all have these
+ */
+interface StorachaSpace {
+  did(): string;
+  readonly name: string;
+  readonly access?: { type: string };
+}
+
+/**
+ * An agent store as the Storacha client expects it
+ */
+type AgentDataStore = NonNullable<Parameters<typeof Client.create>[0]>["store"];
+
+/** Default window for delegation expiry warnings: 7 days */
+const DEFAULT_EXPIRY_WARNING = 7 * 24 * 60 * 60;
+
+/** Abilities a contributor needs to upload to a bounty's space */
+const BOUNTY_UPLOAD_ABILITIES = ["space/blob/add", "upload/add"] as const;
 
 /**
  * StorachaBountyClient provides a simplified interface to Storacha
@@ -45,9 +118,13 @@ import {
  */
 export class StorachaBountyClient {
   private client: Client.Client;
-  private cache: Map<string, CacheEntry> = new Map();
+  private cache: CacheStore;
+  private cacheHits = 0;
+  private cacheMisses = 0;
   private gatewayBaseUrl: string;
   private gateways: string[];
+  private gatewayHealth: GatewayHealth;
+  private delegationExpiry: StorachaBountyClientConfig["delegationExpiry"];
 
   private constructor(
     client: Client.Client,
@@ -67,10 +144,17 @@ export class StorachaBountyClient {
       config?.serviceUrl && config.serviceUrl.length > 0
         ? [normalizedBase, ...DEFAULT_GATEWAYS]
         : [...DEFAULT_GATEWAYS];
+    this.gatewayHealth = new GatewayHealth(config?.gatewayHealth);
+    this.cache = config?.cache ?? new MemoryCacheStore();
+    this.delegationExpiry = config?.delegationExpiry;
   }
 
+  /**
+   * A custom list is used as given; the configured gateways are ordered by
+   * health, with open circuits last
+   */
   private getGatewayList(gateways?: string[]): string[] {
-    return gateways ?? [...this.gateways];
+    return gateways ?? this.gatewayHealth.order(this.gateways);
   }
 
   /**
@@ -81,8 +165,69 @@ export class StorachaBountyClient {
   static async create(
     config?: StorachaBountyClientConfig,
   ): Promise<StorachaBountyClient> {
-    const client = await Client.create(config?.clientOptions);
-    return new StorachaBountyClient(client, config);
+    const client = await Client.create(
+      config?.store
+        ? { ...config.clientOptions, store: openAgentStore(config.store) }
+        : config?.clientOptions,
+    );
+    return StorachaBountyClient.init(client, config);
+  }
+
+  /**
+   * Create a client from an agent key and a space delegation, without an
+   * email login. Suits CI, backend verifiers and scripts; in Node,
+   * loadAgentCredentials from `@storacha-chainlink/sdk/node` reads both
+   * from the environment or files.
+   * @param privateKey - The agent's Ed25519 key, multibase base64 ("Mg...")
+   * @param proof - A delegation to the agent's DID: the base64 from
+   *   createDelegation, the output of `storacha delegation create --base64`,
+   *   or the archive bytes. Its space becomes the current space.
+   * @param config - Optional configuration; the store defaults to "memory"
+   * @throws Error if the key or proof cannot be parsed
+   *
+   * @example
+   * ```typescript
+   * const client = await StorachaBountyClient.fromPrincipal(
+   *   process.env.STORACHA_KEY!,
+   *   process.env.STORACHA_PROOF,
+   * );
+   * await client.uploadJSON({ hello: 'world' });
+   * ```
+   */
+  static async fromPrincipal(
+    privateKey: string,
+    proof?: Uint8Array | string,
+    config?: StorachaBountyClientConfig,
+  ): Promise<StorachaBountyClient> {
+    const principal = parseAgentKey(privateKey);
+    const delegation =
+      proof === undefined ? undefined : await parseProof(proof);
+    const client = await Client.create({
+      ...config?.clientOptions,
+      principal,
+      store: openAgentStore(config?.store ?? "memory"),
+    });
+    if (delegation) {
+      const space = await client.addSpace(delegation);
+      await client.setCurrentSpace(space.did());
+    }
+    return StorachaBountyClient.init(client, config);
+  }
+
+  /**
+   * Wrap a Storacha client, load gateway stats and report expiring
+   * delegations
+   */
+  private static async init(
+    client: Client.Client,
+    config?: StorachaBountyClientConfig,
+  ): Promise<StorachaBountyClient> {
+    const instance = new StorachaBountyClient(client, config);
+    await instance.gatewayHealth.load();
+    if (config?.delegationExpiry?.onExpiring) {
+      instance.checkExpiringDelegations();
+    }
+    return instance;
   }
 
   // ============ Authentication ============
@@ -110,32 +255,27 @@ export class StorachaBountyClient {
 
   /**
    * Check the current authorization status
+   * @param account - Account to report as `account` (default: the first)
    * @returns The current authorization status
+   * @throws Error if `account` is given but not authorized
    */
-  async getAuthorizationStatus(): Promise<AuthorizationStatus> {
-    const accounts = this.client.accounts();
-    const accountEntries = Object.entries(accounts);
+  async getAuthorizationStatus(
+    account?: AccountSelector,
+  ): Promise<AuthorizationStatus> {
+    const accounts = this.getAccounts();
 
-    if (accountEntries.length === 0) {
-      return { isAuthorized: false };
+    if (accounts.length === 0) {
+      return { isAuthorized: false, accounts };
     }
 
-    const [did, account] = accountEntries[0]!;
+    const [did] = this.selectAccount(account);
     const currentSpace = this.client.currentSpace();
 
     return {
       isAuthorized: true,
-      account: {
-        did: did as DID,
-        email: (account as unknown as { email: () => string }).email() as Email,
-      },
-      currentSpace: currentSpace
-        ? {
-            did: currentSpace.did() as DID,
-            name: currentSpace.name,
-            isCurrentSpace: true,
-          }
-        : undefined,
+      account: accounts.find((info) => info.did === did),
+      accounts,
+      currentSpace: currentSpace ? toSpaceInfo(currentSpace, true) : undefined,
     };
   }
 
@@ -151,28 +291,50 @@ export class StorachaBountyClient {
     }));
   }
 
+  /**
+   * Find an authorized account by DID or email, or the first one
+   * @throws Error if there are no authorized accounts, or none matches
+   */
+  private selectAccount(selector?: AccountSelector): [DID, StorachaAccount] {
+    const accounts = Object.entries(this.client.accounts()) as [
+      DID,
+      StorachaAccount,
+    ][];
+    if (accounts.length === 0) {
+      throw new Error("No authorized account found. Call authorize() first.");
+    }
+    if (selector === undefined) return accounts[0]!;
+
+    const match = accounts.find(
+      ([did, account]) =>
+        did === selector ||
+        (account as unknown as { email: () => string }).email() === selector,
+    );
+    if (!match) {
+      throw new Error(`Account ${selector} is not authorized`);
+    }
+    return match;
+  }
+
   // ============ Space Management ============
 
   /**
    * Create a new space for storing data
-   * @param options - Options for creating the space
-   * @returns The created space information
+   * @param options - The space's name, and the account that provisions it
+   * @returns The created space information, as saved by the agent
+   * @throws Error if no account is authorized, or `options.account` is not
    *
    * @example
    * ```typescript
-   * const space = await client.createSpace({ name: 'bounty-submissions' });
+   * const space = await client.createSpace({
+   *   name: 'bounty-submissions',
+   *   account: 'work@example.com',
+   * });
    * console.log('Space DID:', space.did);
    * ```
    */
   async createSpace(options?: CreateSpaceOptions): Promise<SpaceInfo> {
-    const accounts = this.client.accounts();
-    const accountEntries = Object.entries(accounts);
-
-    if (accountEntries.length === 0) {
-      throw new Error("No authorized account found. Call authorize() first.");
-    }
-
-    const [, account] = accountEntries[0]!;
+    const [, account] = this.selectAccount(options?.account);
     const space = await this.client.createSpace(
       options?.name ?? "bounty-space",
       {
@@ -183,11 +345,9 @@ export class StorachaBountyClient {
     // Automatically set as current space
     await this.client.setCurrentSpace(space.did());
 
-    return {
-      did: space.did() as DID,
-      name: options?.name,
-      isCurrentSpace: true,
-    };
+    // Read back what the agent saved rather than echoing the options
+    const saved = this.client.spaces().find((s) => s.did() === space.did());
+    return toSpaceInfo(saved ?? space, true);
   }
 
   /**
@@ -198,11 +358,9 @@ export class StorachaBountyClient {
     const spaces = this.client.spaces();
     const currentSpace = this.client.currentSpace();
 
-    return spaces.map((space: { did: () => string; name?: string }) => ({
-      did: space.did() as DID,
-      name: space.name,
-      isCurrentSpace: currentSpace?.did() === space.did(),
-    }));
+    return spaces.map((space) =>
+      toSpaceInfo(space, currentSpace?.did() === space.did()),
+    );
   }
 
   /**
@@ -213,11 +371,7 @@ export class StorachaBountyClient {
     const space = this.client.currentSpace();
     if (!space) return undefined;
 
-    return {
-      did: space.did() as DID,
-      name: space.name,
-      isCurrentSpace: true,
-    };
+    return toSpaceInfo(space, true);
   }
 
   /**
@@ -239,19 +393,68 @@ export class StorachaBountyClient {
    * @returns The added space information
    */
   async addSpace(proof: Uint8Array | string): Promise<SpaceInfo> {
-    const proofBytes =
-      typeof proof === "string" ? base64ToUint8Array(proof) : proof;
-
-    // Import the delegation and add the space
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const delegation = await (Client as any).Delegation.extract(proofBytes);
+    const delegation = await extractDelegation(proof);
     const space = await this.client.addSpace(delegation);
 
-    return {
-      did: space.did() as DID,
-      name: space.name,
-      isCurrentSpace: false,
+    return toSpaceInfo(
+      space,
+      this.client.currentSpace()?.did() === space.did(),
+    );
+  }
+
+  /**
+   * Get how much a space stores, and the storage limit of the account's
+   * plan
+   * @param spaceDid - A space this agent has (see getSpaces)
+   * @param account - Account whose plan to check (default: the first
+   *   authorized account; quota is null if there is none)
+   * @throws Error if the space is unknown, `account` is not authorized, or
+   *   the usage report fails
+   *
+   * @example
+   * ```typescript
+   * const { bytesStored, quota } = await client.getSpaceUsage(space.did);
+   * if (quota !== null && bytesStored > (quota * 9n) / 10n) {
+   *   console.warn('Space is over 90% of the plan limit');
+   * }
+   * ```
+   */
+  async getSpaceUsage(
+    spaceDid: DID,
+    account?: AccountSelector,
+  ): Promise<SpaceUsage> {
+    const space = this.client.spaces().find((s) => s.did() === spaceDid);
+    if (!space) {
+      throw new Error(`Unknown space ${spaceDid}. Add it with addSpace first.`);
+    }
+
+    const report = await space.usage.get();
+    if ("error" in report && report.error) {
+      throw new Error(
+        `Failed to get usage of ${spaceDid}: ${report.error.message}`,
+        { cause: report.error },
+      );
+    }
+    const usage: SpaceUsage = {
+      did: spaceDid,
+      bytesStored: report.ok ?? 0n,
+      quota: null,
     };
+
+    if (account === undefined && this.getAccounts().length === 0) {
+      return usage;
+    }
+    const [accountDid, selected] = this.selectAccount(account);
+    usage.account = accountDid;
+    const plan = await selected.plan.get();
+    if (plan.ok) {
+      usage.plan = plan.ok.product as DID;
+      // Older plan services do not report a limit
+      const { limit } = plan.ok as { limit?: unknown };
+      usage.quota =
+        typeof limit === "string" && /^\d+$/.test(limit) ? BigInt(limit) : null;
+    }
+    return usage;
   }
 
   // ============ File Upload ============
@@ -260,12 +463,15 @@ export class StorachaBountyClient {
    * Upload a single file to Storacha
    * @param file - The file to upload (File, Blob, or FileInput)
    * @param options - Upload options
-   * @returns The upload result with CID
+   * @returns The upload result with CID and size
    *
    * @example
    * ```typescript
    * const file = new File(['Hello, World!'], 'hello.txt', { type: 'text/plain' });
-   * const result = await client.uploadFile(file);
+   * const result = await client.uploadFile(file, {
+   *   onProgress: ({ bytesSent, totalBytes }) =>
+   *     console.log(`${Math.round((100 * bytesSent) / totalBytes)}%`),
+   * });
    * console.log('CID:', result.cidString);
    * ```
    */
@@ -287,28 +493,16 @@ export class StorachaBountyClient {
       blob = file;
     }
 
-    const cid = await this.client.uploadFile(blob, {
-      onShardStored: options?.onShardStored
-        ? (meta: { cid: unknown; size: number }) => {
-            options.onShardStored?.({
-              cid: meta.cid as CID,
-              size: meta.size,
-            });
-          }
-        : undefined,
-    });
-
-    return {
-      cid: cid as unknown as CID,
-      cidString: cid.toString(),
-    };
+    return this.upload(blob.size, options, (uploadOptions) =>
+      this.client.uploadFile(blob, uploadOptions),
+    );
   }
 
   /**
    * Upload multiple files as a directory
    * @param files - Array of files to upload
    * @param options - Upload options
-   * @returns The upload result with root CID
+   * @returns The upload result with root CID and total size
    *
    * @example
    * ```typescript
@@ -325,21 +519,10 @@ export class StorachaBountyClient {
   ): Promise<UploadResult> {
     this.ensureCurrentSpace();
 
-    const cid = await this.client.uploadDirectory(files, {
-      onShardStored: options?.onShardStored
-        ? (meta: { cid: unknown; size: number }) => {
-            options.onShardStored?.({
-              cid: meta.cid as CID,
-              size: meta.size,
-            });
-          }
-        : undefined,
-    });
-
-    return {
-      cid: cid as unknown as CID,
-      cidString: cid.toString(),
-    };
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    return this.upload(totalBytes, options, (uploadOptions) =>
+      this.client.uploadDirectory(files, uploadOptions),
+    );
   }
 
   /**
@@ -405,23 +588,227 @@ export class StorachaBountyClient {
       { expiration },
     );
 
+    return this.toDelegationResult(delegation);
+  }
+
+  /**
+   * Let a contributor upload to the current space for one bounty. The
+   * delegation only grants `space/blob/add` and `upload/add`, can cap the
+   * size of each stored blob, and expires at the bounty deadline. It records
+   * the bounty ID, so the contributor can check it with inspectDelegation
+   * before importing it with addSpace.
+   * @param audienceDid - The contributor's agent DID
+   * @param options - The bounty, its deadline and an optional size cap
+   * @returns The delegation to send to the contributor
+   * @throws Error if no space is selected or the deadline has passed
+   *
+   * @example
+   * ```typescript
+   * const bounty = await market.getBounty(42n);
+   * const access = await client.createBountyDelegation('did:key:z6Mk...', {
+   *   bountyId: bounty.id,
+   *   deadline: bounty.deadline,
+   *   maxShardSize: 50 * 1024 * 1024,
+   * });
+   * // Share access.base64 with the contributor, who runs:
+   * // await contributorClient.addSpace(access.base64);
+   * ```
+   */
+  async createBountyDelegation(
+    audienceDid: DID,
+    options: BountyDelegationOptions,
+  ): Promise<DelegationResult> {
+    this.ensureCurrentSpace();
+
+    const expiration = toUnixSeconds(options.deadline);
+    if (expiration <= Math.floor(Date.now() / 1000)) {
+      throw new Error(
+        `Bounty ${options.bountyId} deadline has passed; cannot delegate upload access`,
+      );
+    }
+    const { maxShardSize } = options;
+    if (
+      maxShardSize !== undefined &&
+      (!Number.isInteger(maxShardSize) || maxShardSize <= 0)
+    ) {
+      throw new Error("maxShardSize must be a positive integer");
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const audience = (Client as any).DID.parse(audienceDid);
+    const space = this.client.currentSpace()!;
+
+    // The agent finds proofs for the plain abilities, then signs the
+    // capabilities and facts passed here, so the caveats narrow the grant.
+    // The space's metadata must stay the first fact for addSpace.
+    const delegation = await this.client.createDelegation(
+      audience,
+      [...BOUNTY_UPLOAD_ABILITIES],
+      {
+        expiration,
+        capabilities: [
+          {
+            can: "space/blob/add",
+            with: space.did(),
+            ...(maxShardSize !== undefined && {
+              nb: { blob: { size: maxShardSize } },
+            }),
+          },
+          { can: "upload/add", with: space.did() },
+        ],
+        facts: [
+          { space: space.meta() ?? {} },
+          { bounty: { id: options.bountyId.toString() } },
+        ],
+      } as Parameters<typeof this.client.createDelegation>[2],
+    );
+
+    return this.toDelegationResult(delegation);
+  }
+
+  /**
+   * Get all proofs (delegations) available to the client
+   * @returns Array of delegation information
+   */
+  getProofs(): unknown[] {
+    return this.client.proofs();
+  }
+
+  /**
+   * List delegations this agent issued, or received as proofs
+   * @param options - Which direction to list, and whether to keep expired ones
+   * @returns The delegations, soonest expiry first
+   *
+   * @example
+   * ```typescript
+   * for (const d of client.listDelegations()) {
+   *   console.log(d.audience, d.capabilities.map((c) => c.can), d.expiration);
+   * }
+   * ```
+   */
+  listDelegations(options?: ListDelegationsOptions): DelegationInfo[] {
+    const delegations =
+      options?.direction === "received"
+        ? this.client.proofs()
+        : this.client.delegations();
+    return delegations
+      .map((delegation) => this.toDelegationInfo(delegation))
+      .filter((info) => options?.includeExpired !== false || !info.expired)
+      .sort((a, b) => (a.expiration ?? Infinity) - (b.expiration ?? Infinity));
+  }
+
+  /**
+   * Decode a delegation proof without importing it, e.g. to check what an
+   * incoming proof grants before passing it to addSpace
+   * @param proof - The delegation archive (as Uint8Array or base64 string)
+   * @throws Error if the proof is not a delegation archive
+   *
+   * @example
+   * ```typescript
+   * const info = await client.inspectDelegation(proofBase64);
+   * if (info.audience !== client.getAgentDid() || info.expired) {
+   *   throw new Error('Proof is not usable by this agent');
+   * }
+   * await client.addSpace(proofBase64);
+   * ```
+   */
+  async inspectDelegation(proof: Uint8Array | string): Promise<DelegationInfo> {
+    return this.toDelegationInfo(await extractDelegation(proof));
+  }
+
+  /**
+   * Revoke a delegation this agent issued. Agents holding it, and anything
+   * they delegated from it, lose access.
+   * @param cid - CID of the delegation (DelegationResult.cid or
+   *   DelegationInfo.cid)
+   * @throws Error if the service rejects the revocation
+   */
+  async revokeDelegation(cid: string): Promise<void> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const link = (Client as any).Link.parse(cid);
+    const result = await this.client.revokeDelegation(link);
+    if (result.error) {
+      throw new Error(
+        `Failed to revoke delegation ${cid}: ${result.error.message}`,
+        { cause: result.error },
+      );
+    }
+  }
+
+  /**
+   * Find issued and received delegations that expire within the warning
+   * window, and pass them to `delegationExpiry.onExpiring` if any were found
+   * @returns The delegations about to expire, soonest first
+   */
+  checkExpiringDelegations(): DelegationInfo[] {
+    const expiring = [
+      ...this.listDelegations({ includeExpired: false }),
+      ...this.listDelegations({ direction: "received", includeExpired: false }),
+    ]
+      .filter((info) => info.expiringSoon)
+      .sort((a, b) => a.expiration! - b.expiration!);
+    if (expiring.length > 0) {
+      this.delegationExpiry?.onExpiring?.(expiring);
+    }
+    return expiring;
+  }
+
+  /**
+   * Serialize a delegation for transport
+   */
+  private async toDelegationResult(
+    delegation: UCANDelegation,
+  ): Promise<DelegationResult> {
     const archive = await delegation.archive();
     if (!archive.ok) {
       throw new Error("Failed to archive delegation");
     }
 
     return {
+      cid: delegation.cid.toString(),
       archive: archive.ok,
       base64: uint8ArrayToBase64(archive.ok),
     };
   }
 
   /**
-   * Get all proofs (delegations) available to the client
-   * @returns Array of delegation information
+   * Describe a delegation, flagging it if it expires within the warning window
    */
-  getProofs(): unknown[] {
-    return this.client.proofs();
+  private toDelegationInfo(delegation: UCANDelegation): DelegationInfo {
+    const now = Math.floor(Date.now() / 1000);
+    const warnWithin =
+      this.delegationExpiry?.warnWithin ?? DEFAULT_EXPIRY_WARNING;
+    const expiration = Number.isFinite(delegation.expiration)
+      ? delegation.expiration
+      : null;
+    const bounty = delegation.facts?.find(
+      (fact): fact is { bounty: { id: string } } =>
+        typeof (fact.bounty as { id?: unknown } | undefined)?.id === "string",
+    );
+
+    return {
+      cid: delegation.cid.toString(),
+      issuer: delegation.issuer.did() as DID,
+      audience: delegation.audience.did() as DID,
+      capabilities: delegation.capabilities.map((capability) => {
+        const nb = (capability as { nb?: Record<string, unknown> }).nb;
+        return {
+          can: capability.can,
+          with: capability.with,
+          ...(nb && Object.keys(nb).length > 0 && { nb }),
+        };
+      }),
+      expiration,
+      ...(delegation.notBefore !== undefined && {
+        notBefore: delegation.notBefore,
+      }),
+      expired: expiration !== null && expiration <= now,
+      expiringSoon:
+        expiration !== null &&
+        expiration > now &&
+        expiration - now <= warnWithin,
+      ...(bounty && { bountyId: BigInt(bounty.bounty.id) }),
+    };
   }
 
   // ============ Content Management ============
@@ -442,6 +829,92 @@ export class StorachaBountyClient {
     await this.client.remove(cidLink);
   }
 
+  /**
+   * List the uploads in the current space, fetching a page at a time
+   * @param options - Where to start and the page size
+   * @returns The uploads, in the order the service lists them
+   * @throws Error if no space is set, or the service rejects the listing
+   *
+   * @example
+   * ```typescript
+   * for await (const upload of client.listUploads({ size: 100 })) {
+   *   console.log(upload.root, upload.size, upload.insertedAt);
+   * }
+   * ```
+   */
+  async *listUploads(
+    options: ListUploadsOptions = {},
+  ): AsyncGenerator<UploadEntry> {
+    this.ensureCurrentSpace();
+    let blobSizes: Map<string, number> | undefined;
+    let cursor = options.cursor;
+    do {
+      const page = await this.client.capability.upload.list({
+        ...(cursor && { cursor }),
+        ...(options.size && { size: options.size }),
+      });
+      // Sizes come from the space's blobs, listed once and only if the
+      // service reports shards
+      if (!blobSizes && page.results.some((upload) => upload.shards?.length)) {
+        blobSizes = await this.listBlobSizes();
+      }
+      for (const upload of page.results) {
+        const shards = upload.shards ?? [];
+        yield {
+          root: upload.root.toString(),
+          shards: shards.map((shard) => shard.toString()),
+          size: shardsSize(shards, blobSizes),
+          insertedAt: new Date(upload.insertedAt),
+          updatedAt: new Date(upload.updatedAt),
+          ...(page.cursor && { cursor: page.cursor }),
+        };
+      }
+      const next = page.results.length > 0 ? page.cursor : undefined;
+      cursor = next !== cursor ? next : undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Remove several uploads from the current space, continuing past
+   * failures
+   * @param cids - Root CIDs of the uploads
+   * @param options - Dry run, and whether to remove shards as well
+   * @returns Which roots were removed and which failed. A dry run only
+   *   checks that the CIDs parse.
+   * @throws Error if no space is set
+   *
+   * @example
+   * ```typescript
+   * const preview = await client.removeMany(roots, { dryRun: true });
+   * console.log('Would remove', preview.removed);
+   * await client.removeMany(preview.removed, { shards: true });
+   * ```
+   */
+  async removeMany(
+    cids: Array<string | { toString(): string }>,
+    options: RemoveManyOptions = {},
+  ): Promise<RemoveManyResult> {
+    this.ensureCurrentSpace();
+    const dryRun = options.dryRun ?? false;
+    const result: RemoveManyResult = { dryRun, removed: [], failed: [] };
+    for (const root of new Set(cids.map((cid) => cid.toString()))) {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const cidLink = (Client as any).Link.parse(root);
+        if (!dryRun) {
+          await this.client.remove(cidLink, { shards: options.shards });
+        }
+        result.removed.push(root);
+      } catch (error) {
+        result.failed.push({
+          root,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return result;
+  }
+
   /**
    * Get the retrieval URL for a CID
    * @param cid - The CID to get the URL for
@@ -456,7 +929,8 @@ export class StorachaBountyClient {
 
   /**
    * Fetch data from IPFS by CID with automatic gateway fallback
-   * @param cid - The CID to fetch
+   * @param cid - The CID to fetch, optionally followed by a path inside it
+   *   (`cid/sub/path`). Path segments are URL-encoded for you.
    * @param options - Fetch options
    * @returns The fetched data with metadata
    *
@@ -466,6 +940,9 @@ export class StorachaBountyClient {
    * const result = await client.fetchByCID<{ name: string }>('bafybeig...');
    * console.log(result.data.name);
    *
+   * // Fetch a file from an uploaded directory
+   * const file = await client.fetchByCID('bafybeig.../data/my file.json');
+   *
    * // Fetch with custom options
    * const result = await client.fetchByCID('bafybeig...', {
    *   timeout: 5000,
@@ -478,94 +955,95 @@ export class StorachaBountyClient {
     options?: FetchOptions,
   ): Promise<FetchResult<T>> {
     const cidString = typeof cid === "string" ? cid : cid.toString();
+    const target = parseCIDPath(cidString);
     const {
       timeout = 10000,
       maxRetries = 2,
       useCache = true,
-      cacheTTL = 300000,
+      cacheTTL = Infinity,
       gateways,
+      trustless = false,
+      strategy = "sequential",
+      hedgeDelay = 500,
     } = options ?? {};
     const gatewayList = this.getGatewayList(gateways);
 
     // Check cache first
     if (useCache) {
-      const cached = this.getFromCache<T>(cidString);
+      const cached = await this.getParsedFromCache<T>(cidString, trustless);
       if (cached) {
+        this.cacheHits++;
         return {
           data: cached.data,
           cid: cidString,
           gateway: cached.gateway,
           contentType: cached.contentType,
           cached: true,
+          attempts: [],
         };
       }
+      this.cacheMisses++;
     }
 
-    const gatewayErrors = new Map<string, Error>();
-
-    for (const gateway of gatewayList) {
-      const url = `${gateway}${cidString}`;
-
-      for (let attempt = 0; attempt <= maxRetries; attempt++) {
-        try {
-          const response = await this.fetchWithTimeout(url, timeout);
-
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    const { data, contentType, representation, gateway, attempts } =
+      await this.fetchFromGateways(
+        target.url,
+        gatewayList,
+        { timeout, maxRetries, trustless, strategy, hedgeDelay },
+        async (response) => {
+          if (trustless) {
+            // The CAR carries no content type, so JSON is detected by parsing
+            return decodeBody<T>(
+              await this.readVerified(response, target),
+              "application/octet-stream",
+              true,
+            );
           }
 
           const contentType =
             response.headers.get("content-type") ?? "application/octet-stream";
-          let data: T;
-
           if (contentType.includes("application/json")) {
-            data = (await response.json()) as T;
-          } else {
-            // For non-JSON, return as text and let caller handle parsing
-            data = (await response.text()) as unknown as T;
-          }
-
-          // Cache the result
-          if (useCache) {
-            this.setCache(cidString, {
-              data,
+            return {
+              data: (await response.json()) as T,
               contentType,
-              gateway,
-              cachedAt: Date.now(),
-              ttl: cacheTTL,
-            });
+              representation: "json" as const,
+            };
           }
-
+          // For non-JSON, return as text and let caller handle parsing
           return {
-            data,
-            cid: cidString,
-            gateway,
+            data: (await response.text()) as unknown as T,
             contentType,
-            cached: false,
+            representation: "text" as const,
           };
-        } catch (error) {
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-
-          // Only store the last error for this gateway
-          if (attempt === maxRetries) {
-            gatewayErrors.set(gateway, new Error(errorMessage));
-          }
+        },
+      ).finally(() => this.gatewayHealth.save());
 
-          // Exponential backoff before retry
-          if (attempt < maxRetries) {
-            await this.delay(Math.pow(2, attempt) * 100);
-          }
-        }
-      }
+    // Cache the result
+    if (useCache) {
+      await this.setCache(cidString, {
+        data,
+        representation,
+        contentType,
+        gateway,
+        cachedAt: Date.now(),
+        ttl: cacheTTL,
+        verified: trustless,
+      });
     }
 
-    throw new IPFSFetchError(cidString, gatewayErrors);
+    return {
+      data,
+      cid: cidString,
+      gateway,
+      contentType,
+      cached: false,
+      attempts,
+    };
   }
 
   /**
    * Fetch raw bytes from IPFS by CID with automatic gateway fallback
-   * @param cid - The CID to fetch
+   * @param cid - The CID to fetch, optionally followed by a path inside it
    * @param options - Fetch options
    * @returns The raw bytes with metadata
    *
@@ -580,106 +1058,347 @@ export class StorachaBountyClient {
     options?: FetchOptions,
   ): Promise<FetchRawResult> {
     const cidString = typeof cid === "string" ? cid : cid.toString();
+    const target = parseCIDPath(cidString);
     const {
       timeout = 10000,
       maxRetries = 2,
       useCache = true,
-      cacheTTL = 300000,
+      cacheTTL = Infinity,
       gateways,
+      trustless = false,
+      strategy = "sequential",
+      hedgeDelay = 500,
     } = options ?? {};
     const gatewayList = this.getGatewayList(gateways);
 
     // Check cache first
     if (useCache) {
-      const cached = this.getFromCache<Uint8Array>(cidString);
-      if (cached && cached.data instanceof Uint8Array) {
+      const cached = await this.getFromCache<Uint8Array>(cidString, "bytes");
+      // Unverified entries do not satisfy a trustless fetch
+      if (cached && (!trustless || cached.verified)) {
+        this.cacheHits++;
         return {
           data: cached.data,
           cid: cidString,
           gateway: cached.gateway,
           contentType: cached.contentType,
           cached: true,
+          attempts: [],
         };
       }
+      this.cacheMisses++;
     }
 
-    const gatewayErrors = new Map<string, Error>();
+    const { data, contentType, gateway, attempts } =
+      await this.fetchFromGateways(
+        target.url,
+        gatewayList,
+        { timeout, maxRetries, trustless, strategy, hedgeDelay },
+        async (response) =>
+          trustless
+            ? {
+                data: await this.readVerified(response, target),
+                contentType: "application/octet-stream",
+              }
+            : {
+                data: new Uint8Array(await response.arrayBuffer()),
+                contentType:
+                  response.headers.get("content-type") ??
+                  "application/octet-stream",
+              },
+      ).finally(() => this.gatewayHealth.save());
+
+    // Cache the result
+    if (useCache) {
+      await this.setCache(cidString, {
+        data,
+        representation: "bytes",
+        contentType,
+        gateway,
+        cachedAt: Date.now(),
+        ttl: cacheTTL,
+        verified: trustless,
+      });
+    }
 
-    for (const gateway of gatewayList) {
-      const url = `${gateway}${cidString}`;
+    return {
+      data,
+      cid: cidString,
+      gateway,
+      contentType,
+      cached: false,
+      attempts,
+    };
+  }
 
-      for (let attempt = 0; attempt <= maxRetries; attempt++) {
-        try {
-          const response = await this.fetchWithTimeout(url, timeout);
+  /**
+   * Stream content from IPFS without buffering it, for large datasets
+   *
+   * If a gateway fails part-way through, the next gateway is asked for the
+   * rest with an HTTP Range request, so the bytes already received are not
+   * downloaded again. Gateways that ignore the Range header are handled by
+   * skipping the bytes already received. Streamed content is not cached.
+   * @param cid - The CID to stream, optionally followed by a path inside it
+   * @param options - Stream options
+   * @returns A stream of the content. It errors with IPFSFetchError if
+   *   every gateway fails, or with the abort reason if `signal` aborts.
+   *
+   * @example
+   * ```typescript
+   * const stream = client.streamByCID('bafybeig...', {
+   *   onProgress: ({ loaded, total }) => console.log(loaded, total),
+   * });
+   * for await (const chunk of stream) {
+   *   // ...
+   * }
+   * ```
+   */
+  streamByCID(
+    cid: string | { toString(): string },
+    options?: StreamOptions,
+  ): ReadableStream<Uint8Array> {
+    const cidString = typeof cid === "string" ? cid : cid.toString();
+    const { url } = parseCIDPath(cidString);
+    const {
+      timeout = 10000,
+      idleTimeout = timeout,
+      gateways,
+      signal,
+      onProgress,
+    } = options ?? {};
+    const gatewayList = this.getGatewayList(gateways);
+    const gatewayErrors = new Map<string, Error>();
 
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-          }
+    let index = 0;
+    let loaded = 0;
+    let total: number | null = null;
+    // Bytes to drop from a gateway that ignored the Range header
+    let skip = 0;
+    let current:
+      | {
+          gateway: string;
+          reader: ReadableStreamDefaultReader<Uint8Array>;
+          controller: AbortController;
+          /** Removes the attempt's listener from the caller's signal */
+          detach: () => void;
+        }
+      | undefined;
+
+    // Abort the current attempt and stop following the caller's signal
+    const release = (reason?: unknown): void => {
+      if (!current) return;
+      current.controller.abort(reason);
+      current.reader.cancel(reason).catch(() => {});
+      current.detach();
+      current = undefined;
+    };
 
-          const contentType =
-            response.headers.get("content-type") ?? "application/octet-stream";
-          const arrayBuffer = await response.arrayBuffer();
-          const data = new Uint8Array(arrayBuffer);
+    const fail = (gateway: string, error: unknown): void => {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      gatewayErrors.set(gateway, failure);
+      this.gatewayHealth.recordFailure(gateway, failure);
+      release(failure);
+      index++;
+    };
 
-          // Cache the result
-          if (useCache) {
-            this.setCache(cidString, {
-              data,
-              contentType,
-              gateway,
-              cachedAt: Date.now(),
-              ttl: cacheTTL,
-            });
+    const connect = async (): Promise<NonNullable<typeof current>> => {
+      // fail() advances index, so a reconnect starts after the failed gateway
+      for (const gateway of gatewayList.slice(index)) {
+        signal?.throwIfAborted();
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(signal?.reason);
+        signal?.addEventListener("abort", onAbort, { once: true });
+        const detach = () => signal?.removeEventListener("abort", onAbort);
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
+        const startedAt = Date.now();
+
+        try {
+          const response = await fetch(`${gateway}${url}`, {
+            signal: controller.signal,
+            headers: loaded > 0 ? { Range: `bytes=${loaded}-` } : {},
+          });
+          if (!response.ok || !response.body) {
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
           }
 
+          skip = response.status === 206 ? 0 : loaded;
+          total ??= contentLength(response);
+          this.gatewayHealth.recordSuccess(gateway, Date.now() - startedAt);
           return {
-            data,
-            cid: cidString,
             gateway,
-            contentType,
-            cached: false,
+            reader: response.body.getReader(),
+            controller,
+            detach,
           };
         } catch (error) {
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
+          detach();
+          signal?.throwIfAborted();
+          fail(gateway, error);
+        } finally {
+          clearTimeout(timeoutId);
+        }
+      }
 
-          if (attempt === maxRetries) {
-            gatewayErrors.set(gateway, new Error(errorMessage));
-          }
+      void this.gatewayHealth.save();
+      throw new IPFSFetchError(cidString, gatewayErrors);
+    };
 
-          if (attempt < maxRetries) {
-            await this.delay(Math.pow(2, attempt) * 100);
+    return new ReadableStream<Uint8Array>({
+      pull: async (stream) => {
+        for (;;) {
+          current ??= await connect();
+          const { gateway, reader } = current;
+
+          try {
+            const { done, value } = await readWithin(reader, idleTimeout);
+            if (done) {
+              if (total !== null && loaded < total) {
+                throw new Error(`Response ended after ${loaded} bytes`);
+              }
+              current.detach();
+              current = undefined;
+              void this.gatewayHealth.save();
+              stream.close();
+              return;
+            }
+
+            let chunk = value;
+            if (skip > 0) {
+              const dropped = Math.min(skip, chunk.byteLength);
+              chunk = chunk.subarray(dropped);
+              skip -= dropped;
+              if (chunk.byteLength === 0) continue;
+            }
+
+            loaded += chunk.byteLength;
+            stream.enqueue(chunk);
+            onProgress?.({ loaded, total, gateway });
+            return;
+          } catch (error) {
+            signal?.throwIfAborted();
+            fail(gateway, error);
           }
         }
-      }
-    }
+      },
+      cancel: (reason) => {
+        release(reason);
+      },
+    });
+  }
+
+  /**
+   * List a UnixFS directory, such as one created by uploadDirectory
+   *
+   * Gateways are asked for a CAR of the directory alone
+   * (`dag-scope=entity`), which is checked against the CID like a trustless
+   * fetch. Listings are not cached.
+   * @param cid - The directory's CID, optionally followed by a path to a
+   *   subdirectory (`cid/sub/dir`)
+   * @param options - List options
+   * @returns The directory's entries with their names, CIDs and sizes
+   * @throws IPFSFetchError if no gateway returns a valid listing
+   *
+   * @example
+   * ```typescript
+   * for (const entry of await client.listDirectory('bafybeig...')) {
+   *   console.log(entry.name, entry.size, entry.cid);
+   * }
+   * ```
+   */
+  async listDirectory(
+    cid: string | { toString(): string },
+    options?: ListDirectoryOptions,
+  ): Promise<DirectoryEntry[]> {
+    const target = parseCIDPath(typeof cid === "string" ? cid : cid.toString());
+    const {
+      timeout = 10000,
+      maxRetries = 2,
+      gateways,
+      strategy = "sequential",
+      hedgeDelay = 500,
+    } = options ?? {};
 
-    throw new IPFSFetchError(cidString, gatewayErrors);
+    const { entries } = await this.fetchFromGateways(
+      target.url,
+      this.getGatewayList(gateways),
+      {
+        timeout,
+        maxRetries,
+        trustless: true,
+        strategy,
+        hedgeDelay,
+        dagScope: "entity",
+      },
+      async (response) => ({
+        entries: await listVerifiedDirectory(
+          new Uint8Array(await response.arrayBuffer()),
+          target.cid,
+          target.path,
+        ),
+      }),
+    ).finally(() => this.gatewayHealth.save());
+    return entries;
   }
 
   /**
    * Clear the fetch cache
    * @param cid - Optional CID to clear. If not provided, clears entire cache.
    */
-  clearCache(cid?: string): void {
+  async clearCache(cid?: string): Promise<void> {
     if (cid) {
-      this.cache.delete(cid);
+      for (const representation of CACHE_REPRESENTATIONS) {
+        await this.cache.delete(cacheKey(cid, representation));
+      }
     } else {
-      this.cache.clear();
+      await this.cache.clear();
     }
   }
 
   /**
    * Get cache statistics
-   * @returns Cache size and entry count
+   * @returns Entry count and keys, bytes cached, hit rate since the client
+   *   was created and evictions
    */
-  getCacheStats(): { size: number; entries: string[] } {
+  async getCacheStats(): Promise<CacheStats> {
+    const { keys, bytes, maxBytes, evictions } = await this.cache.stats();
+    const lookups = this.cacheHits + this.cacheMisses;
     return {
-      size: this.cache.size,
-      entries: Array.from(this.cache.keys()),
+      size: keys.length,
+      entries: keys,
+      bytes,
+      maxBytes,
+      hits: this.cacheHits,
+      misses: this.cacheMisses,
+      hitRate: lookups === 0 ? 0 : this.cacheHits / lookups,
+      evictions,
     };
   }
 
+  /**
+   * Get the health of each gateway, in the order they will be tried
+   * @returns Success rate, latency percentiles, recent errors and circuit
+   *   breaker state per gateway
+   *
+   * @example
+   * ```typescript
+   * for (const stats of client.getGatewayStats()) {
+   *   console.log(stats.gateway, stats.circuit, stats.successRate, stats.latency.p90);
+   * }
+   * ```
+   */
+  getGatewayStats(): GatewayStats[] {
+    return this.gatewayHealth.getStats(this.gateways);
+  }
+
+  /**
+   * Forget the recorded health of one gateway, or of every gateway
+   * @param gateway - Optional gateway base URL
+   */
+  async resetGatewayStats(gateway?: string): Promise<void> {
+    this.gatewayHealth.reset(gateway);
+    await this.gatewayHealth.save();
+  }
+
   // ============ Utility Methods ============
 
   /**
@@ -698,6 +1417,41 @@ export class StorachaBountyClient {
     return this.client.agent.did() as DID;
   }
 
+  /**
+   * Export this agent's key, to run the same agent elsewhere with
+   * fromPrincipal. Anyone holding the key can act as the agent.
+   * @throws Error if the agent's key is not an Ed25519 key (create() makes
+   *   agents with non-extractable RSA keys by default)
+   */
+  exportAgentKey(): AgentKey {
+    const signer = this.client.agent.issuer;
+    if (signer.signatureAlgorithm !== "EdDSA") {
+      throw new Error(
+        `Cannot export a ${signer.signatureAlgorithm} agent key; only Ed25519 keys can be exported`,
+      );
+    }
+    return exportSigner(signer as Parameters<typeof exportSigner>[0]);
+  }
+
+  /**
+   * Size of every blob in the current space, keyed by base64 multihash
+   */
+  private async listBlobSizes(): Promise<Map<string, number>> {
+    const sizes = new Map<string, number>();
+    let cursor: string | undefined;
+    do {
+      const page = await this.client.capability.blob.list({
+        ...(cursor && { cursor }),
+      });
+      for (const { blob } of page.results) {
+        sizes.set(uint8ArrayToBase64(blob.digest), blob.size);
+      }
+      const next = page.results.length > 0 ? page.cursor : undefined;
+      cursor = next !== cursor ? next : undefined;
+    } while (cursor);
+    return sizes;
+  }
+
   /**
    * Ensure a current space is set
    * @throws Error if no space is set
@@ -710,35 +1464,304 @@ export class StorachaBountyClient {
     }
   }
 
+  /**
+   * Run an upload with the Storacha client, translating UploadOptions and
+   * reporting progress
+   * @param totalBytes - Size of the content being uploaded
+   * @param start - Starts the upload with the Storacha client's options
+   * @throws The abort reason if `signal` aborts
+   */
+  private async upload(
+    totalBytes: number,
+    options: UploadOptions | undefined,
+    start: (
+      uploadOptions: Parameters<Client.Client["uploadFile"]>[1],
+    ) => Promise<{ toString(): string }>,
+  ): Promise<UploadResult> {
+    const {
+      onShardStored,
+      onProgress,
+      signal,
+      shardSize,
+      retries = 3,
+    } = options ?? {};
+    signal?.throwIfAborted();
+
+    // Bytes sent per shard upload URL; a retried request starts again at 0
+    const sent = new Map<string, number>();
+    let shards = 0;
+    const report = (): void => {
+      let bytesSent = 0;
+      for (const bytes of sent.values()) bytesSent += bytes;
+      onProgress?.({
+        bytesSent: Math.min(bytesSent, totalBytes),
+        totalBytes,
+        shards,
+      });
+    };
+
+    let cid: { toString(): string };
+    try {
+      cid = await start({
+        shardSize,
+        retries,
+        signal,
+        onShardStored: (meta: { cid: unknown; size: number }) => {
+          // Stop between shards, as the signal only cancels requests
+          signal?.throwIfAborted();
+          shards++;
+          onShardStored?.({ cid: meta.cid as CID, size: meta.size });
+          report();
+        },
+        onUploadProgress: (status) => {
+          // Without upload progress support, fetch reports each shard once
+          sent.set(status.url ?? `shard-${sent.size}`, status.loaded);
+          report();
+        },
+      });
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw error;
+    }
+
+    onProgress?.({ bytesSent: totalBytes, totalBytes, shards });
+    return {
+      cid: cid as unknown as CID,
+      cidString: cid.toString(),
+      size: totalBytes,
+    };
+  }
+
+  /**
+   * Fetch a CID from a list of gateways
+   *
+   * Gateways are started in order. Sequential starts the next gateway once
+   * the previous one has failed, race starts them all at once, and hedged
+   * also starts the next one after `hedgeDelay` ms without an answer. The
+   * first success aborts every other request.
+   * @param read - Turns a successful response into data
+   * @throws IPFSFetchError if every gateway fails
+   */
+  private fetchFromGateways<R>(
+    cid: string,
+    gateways: string[],
+    options: GatewayRequestOptions,
+    read: (response: Response) => Promise<R>,
+  ): Promise<R & { gateway: string; attempts: GatewayAttempt[] }> {
+    const gatewayErrors = new Map<string, Error>();
+    const started: Array<{
+      gateway: string;
+      startedAt: number;
+      controller: AbortController;
+      attempt?: GatewayAttempt;
+    }> = [];
+    const hedgeDelay =
+      options.strategy === "race"
+        ? 0
+        : options.strategy === "hedged"
+          ? options.hedgeDelay
+          : Infinity;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
+
+      if (gateways.length === 0) {
+        reject(new IPFSFetchError(cid, gatewayErrors));
+        return;
+      }
+
+      const launch = (): void => {
+        clearTimeout(hedgeTimer);
+        const gateway = gateways[started.length];
+        if (settled || gateway === undefined) return;
+
+        const entry = {
+          gateway,
+          startedAt: Date.now(),
+          controller: new AbortController(),
+          attempt: undefined as GatewayAttempt | undefined,
+        };
+        started.push(entry);
+
+        this.fetchFromGateway(
+          `${gateway}${cid}`,
+          options,
+          read,
+          entry.controller.signal,
+        ).then(
+          (result) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(hedgeTimer);
+            const now = Date.now();
+            entry.attempt = {
+              gateway,
+              outcome: "success",
+              duration: now - entry.startedAt,
+            };
+            this.gatewayHealth.recordSuccess(gateway, entry.attempt.duration);
+            const attempts = started.map(
+              (other) =>
+                other.attempt ?? {
+                  gateway: other.gateway,
+                  outcome: "aborted" as const,
+                  duration: now - other.startedAt,
+                },
+            );
+            for (const other of started) {
+              if (other !== entry) other.controller.abort();
+            }
+            resolve({ ...result, gateway, attempts });
+          },
+          (error: unknown) => {
+            if (settled) return;
+            const failure =
+              error instanceof Error ? error : new Error(String(error));
+            entry.attempt = {
+              gateway,
+              outcome: "failed",
+              duration: Date.now() - entry.startedAt,
+              error: failure,
+            };
+            gatewayErrors.set(gateway, failure);
+            this.gatewayHealth.recordFailure(gateway, failure);
+
+            if (started.length < gateways.length) {
+              launch();
+            } else if (started.every((other) => other.attempt)) {
+              settled = true;
+              reject(new IPFSFetchError(cid, gatewayErrors));
+            }
+          },
+        );
+
+        if (started.length < gateways.length) {
+          if (hedgeDelay === 0) {
+            launch();
+          } else if (Number.isFinite(hedgeDelay)) {
+            hedgeTimer = setTimeout(launch, hedgeDelay);
+          }
+        }
+      };
+
+      launch();
+    });
+  }
+
+  /**
+   * Fetch from a single gateway, retrying with exponential backoff
+   * @param signal - Aborts the request when another gateway wins
+   * @throws The last error once every retry has failed
+   */
+  private async fetchFromGateway<T>(
+    url: string,
+    options: GatewayRequestOptions,
+    read: (response: Response) => Promise<T>,
+    signal: AbortSignal,
+  ): Promise<T> {
+    const { timeout, maxRetries, trustless, dagScope = "all" } = options;
+    let lastError = new Error("Request was not attempted");
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        const response = await this.fetchWithTimeout(
+          url,
+          timeout,
+          trustless ? dagScope : undefined,
+          signal,
+        );
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        return await read(response);
+      } catch (error) {
+        // A mismatching response will not improve on retry
+        if (error instanceof IntegrityError) throw error;
+
+        lastError = new Error(
+          error instanceof Error ? error.message : String(error),
+        );
+        if (signal.aborted) break;
+
+        // Exponential backoff before retry
+        if (attempt < maxRetries) {
+          await this.delay(Math.pow(2, attempt) * 100);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
   /**
    * Fetch with timeout support
+   * @param car - Request the content as a CAR for trustless verification,
+   *   with every block ("all") or only those of the target ("entity")
+   * @param signal - Aborts the request, including reading its body
    */
   private async fetchWithTimeout(
     url: string,
     timeout: number,
+    car?: "all" | "entity",
+    signal?: AbortSignal,
   ): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
+    signal?.addEventListener("abort", () => controller.abort(), {
+      once: true,
+    });
 
     try {
-      const response = await fetch(url, { signal: controller.signal });
+      const response = car
+        ? await fetch(
+            `${url}?format=car${car === "entity" ? "&dag-scope=entity" : ""}`,
+            {
+              signal: controller.signal,
+              headers: { Accept: "application/vnd.ipld.car" },
+            },
+          )
+        : await fetch(url, { signal: controller.signal });
       return response;
     } finally {
       clearTimeout(timeoutId);
     }
   }
 
+  /**
+   * Check a CAR response against the requested CID and read the file it
+   * holds at the requested path
+   * @throws IntegrityError if the response does not match the CID
+   */
+  private async readVerified(
+    response: Response,
+    target: CIDPath,
+  ): Promise<Uint8Array> {
+    return readVerifiedFile(
+      new Uint8Array(await response.arrayBuffer()),
+      target.cid,
+      target.path,
+    );
+  }
+
   /**
    * Get an item from cache if it exists and is not expired
    */
-  private getFromCache<T>(cid: string): CacheEntry<T> | undefined {
-    const entry = this.cache.get(cid) as CacheEntry<T> | undefined;
+  private async getFromCache<T>(
+    cid: string,
+    representation: CacheRepresentation,
+  ): Promise<CacheEntry<T> | undefined> {
+    const key = cacheKey(cid, representation);
+    const entry = (await this.cache.get(key).catch(() => undefined)) as
+      CacheEntry<T> | undefined;
     if (!entry) return undefined;
 
     const now = Date.now();
     if (now - entry.cachedAt > entry.ttl) {
       // Entry expired, remove it
-      this.cache.delete(cid);
+      await this.cache.delete(key);
       return undefined;
     }
 
@@ -746,10 +1769,43 @@ export class StorachaBountyClient {
   }
 
   /**
-   * Set an item in cache
+   * Find a JSON or text entry for fetchByCID. Raw bytes cached by
+   * fetchRawByCID are decoded instead of fetching the CID again.
+   * @param trustless - Only accept entries that were verified
    */
-  private setCache<T>(cid: string, entry: CacheEntry<T>): void {
-    this.cache.set(cid, entry as CacheEntry);
+  private async getParsedFromCache<T>(
+    cid: string,
+    trustless: boolean,
+  ): Promise<CacheEntry<T> | undefined> {
+    const usable = <E extends CacheEntry>(entry: E | undefined) =>
+      entry && (!trustless || entry.verified) ? entry : undefined;
+
+    for (const representation of ["json", "text"] as const) {
+      const entry = usable(await this.getFromCache<T>(cid, representation));
+      if (entry) return entry;
+    }
+
+    const raw = usable(await this.getFromCache<Uint8Array>(cid, "bytes"));
+    if (!raw) return undefined;
+    return {
+      ...raw,
+      // Verified bytes came from a CAR and have no real content type
+      ...decodeBody<T>(raw.data, raw.contentType, raw.verified === true),
+    };
+  }
+
+  /**
+   * Set an item in cache. A failing store never fails the fetch.
+   */
+  private async setCache<T>(cid: string, entry: CacheEntry<T>): Promise<void> {
+    try {
+      await this.cache.set(
+        cacheKey(cid, entry.representation),
+        entry as CacheEntry,
+      );
+    } catch {
+      // The content is still returned, just not cached
+    }
   }
 
   /**
@@ -762,6 +1818,192 @@ export class StorachaBountyClient {
 
 // ============ Helper Functions ============
 
+const CACHE_REPRESENTATIONS: CacheRepresentation[] = ["bytes", "json", "text"];
+
+/**
+ * A CID with an optional path inside it
+ */
+interface CIDPath {
+  /** The root CID */
+  cid: string;
+  /** Path segments below the root */
+  path: string[];
+  /** The CID and path as they appear in a gateway URL */
+  url: string;
+}
+
+/**
+ * Split `cid/sub/path` into the CID and its path, URL-encoding each segment
+ * so names with spaces, `#` or `?` reach the gateway intact
+ * @throws Error if the path contains "." or ".." segments
+ */
+function parseCIDPath(value: string): CIDPath {
+  const [cid = "", ...segments] = value.split("/");
+  const path = segments.filter((segment) => segment !== "");
+  if (path.some((segment) => segment === "." || segment === "..")) {
+    throw new Error(`Invalid path "${value}": "." and ".." are not allowed`);
+  }
+  return {
+    cid,
+    path,
+    url: [cid, ...path.map(encodeURIComponent)].join("/"),
+  };
+}
+
+/**
+ * Read the next chunk of a response body, failing if none arrives in time
+ * @throws Error if the read takes longer than `ms` milliseconds
+ */
+async function readWithin(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  ms: number,
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const stalled = new Promise<never>((_resolve, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new Error(`No data received for ${ms}ms`)),
+      ms,
+    );
+  });
+  try {
+    return await Promise.race([reader.read(), stalled]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Total size of a response's content, from Content-Range for partial
+ * responses and Content-Length otherwise
+ */
+function contentLength(response: Response): number | null {
+  const range = response.headers.get("content-range");
+  if (response.status === 206) {
+    const match = range?.match(/\/(\d+)$/);
+    return match ? Number(match[1]) : null;
+  }
+  const length = response.headers.get("content-length");
+  return length !== null && /^\d+$/.test(length) ? Number(length) : null;
+}
+
+/**
+ * Cache key of a CID in one representation
+ */
+function cacheKey(cid: string, representation: CacheRepresentation): string {
+  return `${cid}:${representation}`;
+}
+
+/**
+ * Decode fetched bytes the way fetchByCID returns them: JSON when the
+ * content type says so, text otherwise
+ * @param sniff - Detect JSON by parsing, for content without a content type
+ */
+function decodeBody<T>(
+  bytes: Uint8Array,
+  contentType: string,
+  sniff: boolean,
+): { data: T; contentType: string; representation: "json" | "text" } {
+  const text = new TextDecoder().decode(bytes);
+  if (sniff || contentType.includes("application/json")) {
+    try {
+      return {
+        data: JSON.parse(text) as T,
+        contentType: sniff ? "application/json" : contentType,
+        representation: "json",
+      };
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return {
+    data: text as unknown as T,
+    contentType: sniff ? "text/plain" : contentType,
+    representation: "text",
+  };
+}
+
+/**
+ * Total size of an upload's shards, or null if any is unknown
+ */
+function shardsSize(
+  shards: Array<{ multihash: { bytes: Uint8Array } }>,
+  blobSizes: Map<string, number> | undefined,
+): number | null {
+  if (shards.length === 0 || !blobSizes) return null;
+  let total = 0;
+  for (const shard of shards) {
+    const size = blobSizes.get(uint8ArrayToBase64(shard.multihash.bytes));
+    if (size === undefined) return null;
+    total += size;
+  }
+  return total;
+}
+
+/**
+ * Convert a Date or Unix timestamp to Unix seconds
+ */
+function toUnixSeconds(value: Date | bigint | number): number {
+  return value instanceof Date
+    ? Math.floor(value.getTime() / 1000)
+    : Number(value);
+}
+
+/**
+ * Describe a space as the agent saved it
+ */
+function toSpaceInfo(space: StorachaSpace, isCurrentSpace: boolean): SpaceInfo {
+  return {
+    did: space.did() as DID,
+    name: space.name || undefined,
+    access: space.access?.type === "private" ? "private" : "public",
+    isCurrentSpace,
+  };
+}
+
+/**
+ * Open the agent store named in the config
+ */
+function openAgentStore(
+  store: NonNullable<StorachaBountyClientConfig["store"]>,
+): AgentDataStore {
+  if (store === "memory") return new StoreMemory();
+  if (store === "indexeddb") return new StoreIndexedDB("w3up-client");
+  return store as AgentDataStore;
+}
+
+/**
+ * Decode a proof given to fromPrincipal. Multibase strings ("m...") are
+ * what `storacha delegation create --base64` prints; anything else is a
+ * delegation archive.
+ * @throws Error if the proof is not a delegation
+ */
+async function parseProof(proof: Uint8Array | string): Promise<UCANDelegation> {
+  if (typeof proof === "string" && proof.trim().startsWith("m")) {
+    try {
+      return (await Proof.parse(proof.trim())) as UCANDelegation;
+    } catch (error) {
+      throw new Error("Invalid delegation proof", { cause: error });
+    }
+  }
+  return extractDelegation(typeof proof === "string" ? proof.trim() : proof);
+}
+
+/**
+ * Decode a delegation archive
+ * @throws Error if the bytes are not a delegation archive
+ */
+async function extractDelegation(
+  proof: Uint8Array | string,
+): Promise<UCANDelegation> {
+  const bytes = typeof proof === "string" ? base64ToUint8Array(proof) : proof;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const result = await (Client as any).Delegation.extract(bytes);
+  if (!result.ok) {
+    throw new Error("Invalid delegation proof", { cause: result.error });
+  }
+  return result.ok as UCANDelegation;
+}
+
 /**
  * Convert a base64 string to Uint8Array
  */
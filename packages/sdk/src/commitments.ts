@@ -0,0 +1,116 @@
+/**
+ * Stores for commit-reveal salts: in memory, and Web Storage (such as
+ * localStorage) for browsers. The filesystem store for Node lives in
+ * fs-commitments.ts so browser bundles never import node:fs.
+ */
+
+import type { Address, CommitmentStore, PendingCommitment } from "./types.js";
+
+/**
+ * A PendingCommitment as stored in JSON (bigint as a decimal string)
+ */
+export interface StoredCommitment {
+  commitment: string;
+  bountyId: string;
+  cid: string;
+  metadata?: string;
+  salt: string;
+  contributor: string;
+  committedAt: number;
+}
+
+export function toStoredCommitment(entry: PendingCommitment): StoredCommitment {
+  return { ...entry, bountyId: entry.bountyId.toString() };
+}
+
+export function fromStoredCommitment(
+  stored: StoredCommitment,
+): PendingCommitment {
+  return {
+    ...stored,
+    bountyId: BigInt(stored.bountyId),
+    contributor: stored.contributor as Address,
+  };
+}
+
+/**
+ * Keeps salts for the lifetime of the process. A salt lost before its
+ * reveal means the commitment can never be revealed, so prefer a
+ * persistent store for anything long-running.
+ */
+export class MemoryCommitmentStore implements CommitmentStore {
+  private entries = new Map<string, PendingCommitment>();
+
+  async get(commitment: string): Promise<PendingCommitment | undefined> {
+    return this.entries.get(commitment);
+  }
+
+  async set(entry: PendingCommitment): Promise<void> {
+    this.entries.set(entry.commitment, entry);
+  }
+
+  async delete(commitment: string): Promise<void> {
+    this.entries.delete(commitment);
+  }
+
+  async list(): Promise<PendingCommitment[]> {
+    return [...this.entries.values()];
+  }
+}
+
+/**
+ * Keeps salts in a Web Storage area, one item per commitment under
+ * `<prefix><commitment>`
+ *
+ * @example
+ * ```typescript
+ * const market = new BountyMarketClient({
+ *   runner: signer,
+ *   addresses,
+ *   commitments: new WebStorageCommitmentStore(localStorage),
+ * });
+ * ```
+ */
+export class WebStorageCommitmentStore implements CommitmentStore {
+  private readonly storage: Storage;
+  private readonly prefix: string;
+
+  /**
+   * @param storage - localStorage or sessionStorage
+   * @param prefix - Key prefix (default: "storacha-bounty:commitment:")
+   */
+  constructor(storage: Storage, prefix = "storacha-bounty:commitment:") {
+    this.storage = storage;
+    this.prefix = prefix;
+  }
+
+  async get(commitment: string): Promise<PendingCommitment | undefined> {
+    const raw = this.storage.getItem(this.prefix + commitment);
+    return raw === null
+      ? undefined
+      : fromStoredCommitment(JSON.parse(raw) as StoredCommitment);
+  }
+
+  async set(entry: PendingCommitment): Promise<void> {
+    this.storage.setItem(
+      this.prefix + entry.commitment,
+      JSON.stringify(toStoredCommitment(entry)),
+    );
+  }
+
+  async delete(commitment: string): Promise<void> {
+    this.storage.removeItem(this.prefix + commitment);
+  }
+
+  async list(): Promise<PendingCommitment[]> {
+    const entries: PendingCommitment[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(this.prefix)) {
+        const entry = await this.get(key.slice(this.prefix.length));
+        if (entry) entries.push(entry);
+      }
+    }
+    return entries;
+  }
+}
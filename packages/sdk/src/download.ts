@@ -0,0 +1,58 @@
+/**
+ * downloadToFile - stream IPFS content straight to disk in Node.js
+ */
+
+import { open, rename, rm } from "node:fs/promises";
+import type { StorachaBountyClient } from "./client.js";
+import type { DownloadResult, StreamOptions } from "./types.js";
+
+/**
+ * Download content to a file without holding it in memory
+ *
+ * Data is written to `<path>.partial` and renamed once complete, so an
+ * interrupted download never leaves a truncated file at `path`.
+ * @param client - The client to stream with
+ * @param cid - The CID to download
+ * @param path - Destination file, overwritten if it exists
+ * @param options - Stream options (progress, abort signal, gateways)
+ * @returns The path and number of bytes written
+ * @throws IPFSFetchError if every gateway fails, or the abort reason
+ *
+ * @example
+ * ```typescript
+ * import { downloadToFile } from '@storacha-chainlink/sdk/node';
+ *
+ * await downloadToFile(client, 'bafybeig...', './imagery.tar', {
+ *   onProgress: ({ loaded, total }) => console.log(`${loaded}/${total}`),
+ * });
+ * ```
+ */
+export async function downloadToFile(
+  client: StorachaBountyClient,
+  cid: string | { toString(): string },
+  path: string,
+  options?: StreamOptions,
+): Promise<DownloadResult> {
+  const partial = `${path}.partial`;
+  const reader = client.streamByCID(cid, options).getReader();
+  const file = await open(partial, "w");
+  let size = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      await file.write(value);
+      size += value.byteLength;
+    }
+  } catch (error) {
+    await reader.cancel(error).catch(() => undefined);
+    await file.close();
+    await rm(partial, { force: true });
+    throw error;
+  }
+
+  await file.close();
+  await rename(partial, path);
+  return { path, size };
+}
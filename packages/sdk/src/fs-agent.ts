@@ -0,0 +1,92 @@
+/**
+ * Agent keys and delegations for Node.js: a file-backed agent store, and
+ * credentials loaded from the environment or files
+ */
+
+import { readFile } from "node:fs/promises";
+import { StoreConf } from "@storacha/client/stores/conf";
+
+/** Environment variable holding the agent key */
+export const AGENT_KEY_ENV = "STORACHA_KEY";
+/** Environment variable holding the space delegation */
+export const AGENT_PROOF_ENV = "STORACHA_PROOF";
+
+/**
+ * Keeps the agent's key, delegations and spaces in a JSON file in the
+ * user's config directory (`path` has the location), so an agent survives
+ * restarts. The Storacha CLI stores its agent the same way.
+ */
+export class FileSystemAgentStore extends StoreConf {
+  /**
+   * @param profile - Name of the file, so several agents can coexist
+   *   (default: "storacha-bounty")
+   */
+  constructor(profile = "storacha-bounty") {
+    super({ profile });
+  }
+}
+
+/**
+ * Where loadAgentCredentials looks
+ */
+export interface AgentCredentialOptions {
+  /** Environment to read (default: process.env) */
+  env?: Record<string, string | undefined>;
+  /** File holding the key (default: $STORACHA_KEY_FILE) */
+  keyFile?: string;
+  /** File holding the delegation (default: $STORACHA_PROOF_FILE) */
+  proofFile?: string;
+}
+
+/**
+ * An agent key and the delegation it acts under, ready for
+ * StorachaBountyClient.fromPrincipal
+ */
+export interface AgentCredentials {
+  privateKey: string;
+  /** Base64 text, or archive bytes read from a binary file */
+  proof?: Uint8Array | string;
+}
+
+/**
+ * Load an agent key and space delegation for a non-interactive client.
+ * Files win over variables: the key comes from `keyFile`,
+ * $STORACHA_KEY_FILE or $STORACHA_KEY, and the proof from `proofFile`,
+ * $STORACHA_PROOF_FILE or $STORACHA_PROOF.
+ * @throws Error if no key is configured
+ *
+ * @example
+ * ```typescript
+ * const { privateKey, proof } = await loadAgentCredentials();
+ * const client = await StorachaBountyClient.fromPrincipal(privateKey, proof);
+ * ```
+ */
+export async function loadAgentCredentials(
+  options: AgentCredentialOptions = {},
+): Promise<AgentCredentials> {
+  const env = options.env ?? process.env;
+
+  const keyFile = options.keyFile ?? env[`${AGENT_KEY_ENV}_FILE`];
+  const privateKey = keyFile
+    ? (await readFile(keyFile, "utf8")).trim()
+    : env[AGENT_KEY_ENV]?.trim();
+  if (!privateKey) {
+    throw new Error(
+      `No agent key: set ${AGENT_KEY_ENV} or ${AGENT_KEY_ENV}_FILE`,
+    );
+  }
+
+  const proofFile = options.proofFile ?? env[`${AGENT_PROOF_ENV}_FILE`];
+  let proof: Uint8Array | string | undefined;
+  if (proofFile) {
+    const bytes = new Uint8Array(await readFile(proofFile));
+    const text = new TextDecoder().decode(bytes).trim();
+    // `storacha delegation create -o` writes the archive itself, while
+    // `--base64` output saved to a file is text
+    proof = /^[A-Za-z0-9+/=_-]+$/.test(text) ? text : bytes;
+  } else {
+    proof = env[AGENT_PROOF_ENV]?.trim() || undefined;
+  }
+
+  return { privateKey, proof };
+}
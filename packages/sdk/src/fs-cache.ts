@@ -0,0 +1,253 @@
+/**
+ * FileSystemCacheStore - a persistent fetch cache for Node.js
+ */
+
+import { createHash } from "node:crypto";
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import { entrySize } from "./cache.js";
+import type {
+  CacheEntry,
+  CacheRepresentation,
+  CacheStore,
+  CacheStoreOptions,
+  CacheStoreStats,
+} from "./types.js";
+
+/**
+ * What the eviction index knows about an entry
+ */
+interface IndexEntry {
+  size: number;
+  accessedAt: number;
+}
+
+/**
+ * Entry metadata written next to the data file
+ */
+interface FileMeta {
+  key: string;
+  contentType: string;
+  gateway: string;
+  cachedAt: number;
+  /** null for entries that never expire (JSON has no Infinity) */
+  ttl: number | null;
+  verified?: boolean;
+  representation: CacheRepresentation;
+  size: number;
+}
+
+/**
+ * Cache that stores each entry as two files in a directory: `<hash>.json`
+ * with the metadata and `<hash>.data` with the content. Content survives
+ * restarts, and CIDs are immutable, so entries can be kept indefinitely.
+ * Unbounded unless `maxBytes` is set, in which case the least recently
+ * used entries are evicted (tracked through the data file's mtime).
+ *
+ * With `maxBytes`, the size and last use of every entry are read from the
+ * directory on the first write and then tracked in memory, so writes only
+ * touch the disk to evict. Entries other processes add to the same
+ * directory are not counted until the store is created again.
+ */
+export class FileSystemCacheStore implements CacheStore {
+  private evictions = 0;
+  private readonly directory: string;
+  private readonly maxBytes: number | null;
+  private index: Promise<Map<string, IndexEntry>> | null = null;
+  private bytes = 0;
+
+  /**
+   * @param directory - Cache directory, created on first write
+   */
+  constructor(directory: string, options?: CacheStoreOptions) {
+    this.directory = directory;
+    this.maxBytes = options?.maxBytes ?? null;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const base = this.path(key);
+    let meta: FileMeta;
+    let raw: Buffer;
+    try {
+      meta = JSON.parse(await readFile(`${base}.json`, "utf8")) as FileMeta;
+      raw = await readFile(`${base}.data`);
+    } catch {
+      return undefined;
+    }
+    if (meta.key !== key) return undefined;
+
+    const now = new Date();
+    await utimes(`${base}.data`, now, now).catch(() => undefined);
+    const tracked = this.index && (await this.index).get(key);
+    if (tracked) tracked.accessedAt = now.getTime();
+
+    const data =
+      meta.representation === "bytes"
+        ? new Uint8Array(raw)
+        : meta.representation === "text"
+          ? raw.toString("utf8")
+          : (JSON.parse(raw.toString("utf8")) as unknown);
+    return {
+      data,
+      representation: meta.representation,
+      contentType: meta.contentType,
+      gateway: meta.gateway,
+      cachedAt: meta.cachedAt,
+      ttl: meta.ttl ?? Infinity,
+      verified: meta.verified,
+    };
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const size = entrySize(entry);
+    if (this.maxBytes !== null && size > this.maxBytes) {
+      await this.delete(key);
+      return;
+    }
+
+    const { data, representation } = entry;
+    const meta: FileMeta = {
+      key,
+      contentType: entry.contentType,
+      gateway: entry.gateway,
+      cachedAt: entry.cachedAt,
+      ttl: Number.isFinite(entry.ttl) ? entry.ttl : null,
+      verified: entry.verified,
+      representation,
+      size,
+    };
+
+    await mkdir(this.directory, { recursive: true });
+    const base = this.path(key);
+    // Data first, so a metadata file always has its data
+    await writeFile(
+      `${base}.data`,
+      representation === "bytes"
+        ? (data as Uint8Array)
+        : representation === "text"
+          ? (data as string)
+          : JSON.stringify(data),
+    );
+    await writeFile(`${base}.json`, JSON.stringify(meta));
+
+    if (this.maxBytes !== null) {
+      this.track(await this.loadIndex(), key, { size, accessedAt: Date.now() });
+      if (this.bytes > this.maxBytes) await this.evict(this.maxBytes);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const base = this.path(key);
+    await rm(`${base}.json`, { force: true });
+    await rm(`${base}.data`, { force: true });
+    if (this.index) this.track(await this.index, key, null);
+  }
+
+  async clear(): Promise<void> {
+    for (const file of await this.files()) {
+      if (file.endsWith(".json") || file.endsWith(".data")) {
+        await rm(join(this.directory, file), { force: true });
+      }
+    }
+    if (this.index) {
+      (await this.index).clear();
+      this.bytes = 0;
+    }
+  }
+
+  async stats(): Promise<CacheStoreStats> {
+    const entries = await this.readEntries();
+    return {
+      keys: entries.map((e) => e.key),
+      bytes: entries.reduce((sum, e) => sum + e.size, 0),
+      maxBytes: this.maxBytes,
+      evictions: this.evictions,
+    };
+  }
+
+  /**
+   * Delete the least recently used entries until the tracked total fits
+   */
+  private async evict(maxBytes: number): Promise<void> {
+    const index = await this.loadIndex();
+    const oldest = [...index].sort((a, b) => a[1].accessedAt - b[1].accessedAt);
+    for (const [key] of oldest) {
+      if (this.bytes <= maxBytes) break;
+      await this.delete(key);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Read the size and last use of every entry on disk, once
+   */
+  private loadIndex(): Promise<Map<string, IndexEntry>> {
+    this.index ??= this.readEntries().then((entries) => {
+      const index = new Map<string, IndexEntry>();
+      for (const { key, ...entry } of entries) {
+        this.track(index, key, entry);
+      }
+      return index;
+    });
+    return this.index;
+  }
+
+  /**
+   * Record an entry's size and last use (null once it is deleted), keeping
+   * the tracked total in step
+   */
+  private track(
+    index: Map<string, IndexEntry>,
+    key: string,
+    entry: IndexEntry | null,
+  ): void {
+    this.bytes -= index.get(key)?.size ?? 0;
+    if (entry) {
+      index.set(key, entry);
+      this.bytes += entry.size;
+    } else {
+      index.delete(key);
+    }
+  }
+
+  private async readEntries(): Promise<
+    Array<{ key: string; size: number; accessedAt: number }>
+  > {
+    const entries = [];
+    for (const file of await this.files()) {
+      if (!file.endsWith(".json")) continue;
+      const base = join(this.directory, file.slice(0, -".json".length));
+      try {
+        const meta = JSON.parse(
+          await readFile(`${base}.json`, "utf8"),
+        ) as FileMeta;
+        const { mtimeMs } = await stat(`${base}.data`);
+        entries.push({ key: meta.key, size: meta.size, accessedAt: mtimeMs });
+      } catch {
+        // Half-written or removed concurrently
+      }
+    }
+    return entries;
+  }
+
+  private async files(): Promise<string[]> {
+    try {
+      return await readdir(this.directory);
+    } catch {
+      return [];
+    }
+  }
+
+  private path(key: string): string {
+    const name = createHash("sha256").update(key).digest("hex");
+    return join(this.directory, name);
+  }
+}
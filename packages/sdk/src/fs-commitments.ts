@@ -0,0 +1,69 @@
+/**
+ * FileSystemCommitmentStore - persistent commit-reveal salts for Node.js
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+  fromStoredCommitment,
+  toStoredCommitment,
+  type StoredCommitment,
+} from "./commitments.js";
+import type { CommitmentStore, PendingCommitment } from "./types.js";
+
+/**
+ * Keeps salts in one JSON file, so commitments can still be revealed after
+ * a restart. Writes go through a temporary file and a rename, so a crash
+ * mid-write cannot corrupt the salts already stored.
+ */
+export class FileSystemCommitmentStore implements CommitmentStore {
+  private readonly path: string;
+
+  /**
+   * @param path - JSON file, created (with its directory) on first write
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(commitment: string): Promise<PendingCommitment | undefined> {
+    const entry = (await this.read())[commitment];
+    return entry && fromStoredCommitment(entry);
+  }
+
+  async set(entry: PendingCommitment): Promise<void> {
+    const entries = await this.read();
+    entries[entry.commitment] = toStoredCommitment(entry);
+    await this.write(entries);
+  }
+
+  async delete(commitment: string): Promise<void> {
+    const entries = await this.read();
+    if (!(commitment in entries)) return;
+    delete entries[commitment];
+    await this.write(entries);
+  }
+
+  async list(): Promise<PendingCommitment[]> {
+    return Object.values(await this.read()).map(fromStoredCommitment);
+  }
+
+  private async read(): Promise<Record<string, StoredCommitment>> {
+    try {
+      return JSON.parse(await readFile(this.path, "utf8")) as Record<
+        string,
+        StoredCommitment
+      >;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw error;
+    }
+  }
+
+  private async write(entries: Record<string, StoredCommitment>) {
+    await mkdir(dirname(this.path), { recursive: true });
+    const temp = `${this.path}.tmp`;
+    await writeFile(temp, JSON.stringify(entries, null, 2));
+    await rename(temp, this.path);
+  }
+}
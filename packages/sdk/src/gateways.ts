@@ -0,0 +1,244 @@
+/**
+ * GatewayHealth - per-gateway success rate, latency and circuit breaker
+ * state, used by StorachaBountyClient to order gateways
+ */
+
+import type {
+  CircuitState,
+  GatewayHealthOptions,
+  GatewayStats,
+  GatewayStatsSnapshot,
+  GatewayStatsStore,
+} from "./types.js";
+
+type GatewayRecord = GatewayStatsSnapshot["gateways"][string];
+
+const MAX_RECENT_ERRORS = 5;
+
+/**
+ * Tracks how each gateway has been performing.
+ *
+ * A gateway's circuit opens after `failureThreshold` consecutive failures
+ * and the gateway is skipped for `cooldown` ms. After that the circuit is
+ * half-open: the gateway is tried again, and a single failure reopens it.
+ */
+export class GatewayHealth {
+  private records = new Map<string, GatewayRecord>();
+  private readonly adaptive: boolean;
+  private readonly failureThreshold: number;
+  private readonly cooldown: number;
+  private readonly sampleSize: number;
+  private readonly store?: GatewayStatsStore;
+
+  constructor(options?: GatewayHealthOptions) {
+    this.adaptive = options?.adaptive ?? true;
+    this.failureThreshold = options?.failureThreshold ?? 3;
+    this.cooldown = options?.cooldown ?? 30000;
+    this.sampleSize = options?.sampleSize ?? 50;
+    this.store = options?.store;
+  }
+
+  /**
+   * Load persisted stats, keeping any already recorded in this process
+   */
+  async load(): Promise<void> {
+    let snapshot: GatewayStatsSnapshot | undefined;
+    try {
+      snapshot = await this.store?.load();
+    } catch {
+      // A missing or unreadable store starts from scratch
+      return;
+    }
+    if (snapshot?.version !== 1) return;
+    for (const [gateway, record] of Object.entries(snapshot.gateways)) {
+      if (!this.records.has(gateway)) this.records.set(gateway, record);
+    }
+  }
+
+  /**
+   * Persist the current stats. Failures are ignored: health tracking must
+   * never break a fetch.
+   */
+  async save(): Promise<void> {
+    try {
+      await this.store?.save(this.snapshot());
+    } catch {
+      // Stats are advisory
+    }
+  }
+
+  /**
+   * Get the current stats in a serializable form
+   */
+  snapshot(): GatewayStatsSnapshot {
+    return {
+      version: 1,
+      gateways: Object.fromEntries(
+        Array.from(this.records, ([gateway, record]) => [
+          gateway,
+          structuredClone(record),
+        ]),
+      ),
+    };
+  }
+
+  /**
+   * Record a successful request
+   * @param duration - Milliseconds until the gateway answered
+   */
+  recordSuccess(gateway: string, duration: number): void {
+    const record = this.getRecord(gateway);
+    this.push(record.outcomes, true);
+    this.push(record.latencies, duration);
+    record.consecutiveFailures = 0;
+    record.openedAt = null;
+  }
+
+  /**
+   * Record a failed request, opening the circuit if the gateway keeps failing
+   */
+  recordFailure(gateway: string, error: Error): void {
+    const record = this.getRecord(gateway);
+    const now = Date.now();
+    this.push(record.outcomes, false);
+    record.recentErrors.unshift({ message: error.message, at: now });
+    record.recentErrors.length = Math.min(
+      record.recentErrors.length,
+      MAX_RECENT_ERRORS,
+    );
+    record.consecutiveFailures++;
+
+    // A half-open gateway gets one chance; otherwise wait for the threshold
+    if (
+      this.circuitState(record, now) === "half-open" ||
+      record.consecutiveFailures >= this.failureThreshold
+    ) {
+      record.openedAt = now;
+    }
+  }
+
+  /**
+   * Order gateways for a fetch: healthy gateways by score, then gateways
+   * with an open circuit as a last resort
+   * @param gateways - The gateways in their configured order
+   */
+  order(gateways: string[]): string[] {
+    const now = Date.now();
+    const ranked = gateways.map((gateway, index) => {
+      const record = this.records.get(gateway);
+      return {
+        gateway,
+        index,
+        open: record ? this.circuitState(record, now) === "open" : false,
+        score: this.score(record),
+        retryAt: record?.openedAt ?? 0,
+      };
+    });
+
+    const closed = ranked.filter((r) => !r.open);
+    const open = ranked
+      .filter((r) => r.open)
+      .sort((a, b) => a.retryAt - b.retryAt);
+    if (this.adaptive) {
+      closed.sort((a, b) => b.score - a.score || a.index - b.index);
+    }
+    return [...closed, ...open].map((r) => r.gateway);
+  }
+
+  /**
+   * Get the stats of the given gateways, plus any others seen so far
+   */
+  getStats(gateways: string[]): GatewayStats[] {
+    const now = Date.now();
+    const known = [...new Set([...gateways, ...this.records.keys()])];
+
+    return this.order(known).map((gateway) => {
+      const record = this.records.get(gateway);
+      const outcomes = record?.outcomes ?? [];
+      const latencies = [...(record?.latencies ?? [])].sort((a, b) => a - b);
+      const circuit: CircuitState = record
+        ? this.circuitState(record, now)
+        : "closed";
+
+      return {
+        gateway,
+        requests: outcomes.length,
+        successRate:
+          outcomes.length === 0
+            ? 1
+            : outcomes.filter(Boolean).length / outcomes.length,
+        latency: {
+          p50: percentile(latencies, 50),
+          p90: percentile(latencies, 90),
+          p99: percentile(latencies, 99),
+        },
+        recentErrors: record ? [...record.recentErrors] : [],
+        consecutiveFailures: record?.consecutiveFailures ?? 0,
+        circuit,
+        retryAt:
+          circuit === "open" && record?.openedAt != null
+            ? record.openedAt + this.cooldown
+            : null,
+        score: this.score(record),
+      };
+    });
+  }
+
+  /**
+   * Forget the stats of one gateway, or of every gateway
+   */
+  reset(gateway?: string): void {
+    if (gateway) {
+      this.records.delete(gateway);
+    } else {
+      this.records.clear();
+    }
+  }
+
+  private getRecord(gateway: string): GatewayRecord {
+    let record = this.records.get(gateway);
+    if (!record) {
+      record = {
+        outcomes: [],
+        latencies: [],
+        recentErrors: [],
+        consecutiveFailures: 0,
+        openedAt: null,
+      };
+      this.records.set(gateway, record);
+    }
+    return record;
+  }
+
+  private circuitState(record: GatewayRecord, now: number): CircuitState {
+    if (record.openedAt === null) return "closed";
+    return now - record.openedAt < this.cooldown ? "open" : "half-open";
+  }
+
+  /**
+   * Success rate (smoothed so unused gateways start at 0.5) discounted by
+   * median latency, so a fast gateway beats an equally reliable slow one
+   */
+  private score(record: GatewayRecord | undefined): number {
+    const outcomes = record?.outcomes ?? [];
+    const successes = outcomes.filter(Boolean).length;
+    const rate = (successes + 1) / (outcomes.length + 2);
+    const latencies = [...(record?.latencies ?? [])].sort((a, b) => a - b);
+    const median = percentile(latencies, 50) ?? 0;
+    return rate * (1000 / (1000 + median));
+  }
+
+  private push<T>(samples: T[], value: T): void {
+    samples.push(value);
+    if (samples.length > this.sampleSize) samples.shift();
+  }
+}
+
+/**
+ * Nearest-rank percentile of sorted samples
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(rank - 1, 0)] ?? null;
+}
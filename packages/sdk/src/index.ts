@@ -3,7 +3,7 @@
  *
  * TypeScript SDK for Storacha integration with the data bounty marketplace.
  * Provides a simplified interface for uploading data, managing spaces,
- * and handling UCAN delegations.
+ * handling UCAN delegations, and interacting with the bounty contracts.
  *
  * @example
  * ```typescript
@@ -24,31 +24,207 @@
  * @packageDocumentation
  */
 
-// Main client export
+// Main client exports
 export { StorachaBountyClient } from "./client.js";
+export { BountyMarketClient } from "./market.js";
+export {
+  MemoryCacheStore,
+  IndexedDBCacheStore,
+  DEFAULT_CACHE_MAX_BYTES,
+} from "./cache.js";
+export type { IndexedDBCacheStoreOptions } from "./cache.js";
+export { exportSigner, generateAgentKey, importAgentKey } from "./keys.js";
+export {
+  MemoryCommitmentStore,
+  WebStorageCommitmentStore,
+} from "./commitments.js";
+export {
+  validate as validateAgainstSchema,
+  checkSchema,
+  InvalidSchemaError,
+} from "@storacha-chainlink/functions/validator";
+export type { SchemaIssue } from "@storacha-chainlink/functions/validator";
+export {
+  checkSubmissionSchema,
+  getSubmissionRules,
+  verifyDocument,
+} from "@storacha-chainlink/functions/submission";
+export type {
+  SubmissionRules,
+  SubmissionViolation,
+} from "@storacha-chainlink/functions/submission";
+export type {
+  DataFormat,
+  CoercionMode,
+} from "@storacha-chainlink/functions/formats";
+export {
+  decodeVerificationResult,
+  hashFailedPath,
+  VERIFICATION_STATUS,
+} from "@storacha-chainlink/functions/result";
+export type {
+  VerificationResult,
+  VerificationReason,
+} from "@storacha-chainlink/functions/result";
+export { IntegrityError } from "@storacha-chainlink/functions/integrity";
+export {
+  DecryptionError,
+  isEnvelope,
+  openEnvelope,
+} from "@storacha-chainlink/functions/envelope";
+export {
+  generateEncryptionKeyPair,
+  sealEnvelope,
+} from "@storacha-chainlink/functions/seal";
+export type {
+  EncryptionKeyPair,
+  SealOptions,
+} from "@storacha-chainlink/functions/seal";
+export { contentDigest } from "@storacha-chainlink/functions/digest";
+export {
+  fingerprintDocument,
+  rowOverlap,
+} from "@storacha-chainlink/functions/fingerprint";
+export type { Fingerprint } from "@storacha-chainlink/functions/fingerprint";
+export {
+  BOUNTY_METADATA_SCHEMA,
+  BOUNTY_METADATA_VERSION,
+  encodeBountyMetadata,
+  InvalidBountyMetadataError,
+  parseBountyMetadata,
+} from "@storacha-chainlink/functions/metadata";
+
+// Contract ABIs
+export {
+  BOUNTY_REGISTRY_ABI,
+  DATA_REGISTRY_ABI,
+  ESCROW_MANAGER_ABI,
+} from "./abis.js";
 
 // Type exports
 export type {
   AccountInfo,
+  AccountSelector,
+  Address,
+  AgentKey,
+  AgentStore,
   AuthorizationStatus,
+  Bounty,
+  BountyDelegationOptions,
+  BountyEncryption,
+  BountyMarketAddresses,
+  BountyMarketClientConfig,
+  BountyMetadata,
   CacheEntry,
+  CacheRepresentation,
+  CacheStats,
+  CacheStore,
+  CacheStoreOptions,
+  CacheStoreStats,
   Capability,
+  CircuitState,
   CID,
+  CommitmentStore,
+  CommitResult,
+  ContractErrorName,
+  ContractName,
+  CreateBountyParams,
+  CreateBountyResult,
   CreateSpaceOptions,
+  DelegatedCapability,
+  DelegationExpiryOptions,
+  DelegationInfo,
   DelegationOptions,
   DelegationResult,
   DID,
+  DirectoryEntry,
+  DownloadResult,
+  DuplicateCheckOptions,
+  DuplicateMatch,
+  DuplicateReport,
   Email,
+  Escrow,
   FetchOptions,
   FetchRawResult,
   FetchResult,
+  FetchStrategy,
   FileInput,
+  GatewayAttempt,
+  GatewayHealthOptions,
+  GatewayStats,
+  GatewayStatsSnapshot,
+  GatewayStatsStore,
+  JSONSchema,
+  ListDelegationsOptions,
+  ListDirectoryOptions,
+  ListUploadsOptions,
+  NewBountyMetadata,
+  PendingCommitment,
+  PostBountyParams,
+  PostBountyResult,
+  ReferencedUpload,
+  RemoveManyOptions,
+  RemoveManyResult,
+  RevealOptions,
   ShardMeta,
   SpaceInfo,
+  SpaceUsage,
   StorachaBountyClientConfig,
+  StreamOptions,
+  StreamProgress,
+  Submission,
+  SubmitDataResult,
+  SubmitToBountyOptions,
+  SubmitToBountyResult,
+  TransactionResult,
+  UploadEntry,
   UploadOptions,
+  UploadReference,
+  UploadReferenceOptions,
+  UploadReferenceReport,
   UploadResult,
+  ValidationError,
+} from "./types.js";
+
+// Value exports (classes, constants, enums)
+export {
+  BountyStatus,
+  DEFAULT_GATEWAYS,
+  EscrowStatus,
+  DuplicateSubmissionError,
+  IPFSFetchError,
+  MissingVerifierKeyError,
+  PostBountyError,
+  SubmissionStatus,
 } from "./types.js";
 
-// Value exports (classes, constants)
-export { DEFAULT_GATEWAYS, IPFSFetchError } from "./types.js";
+// Contract error classes
+export {
+  BountyNotActiveError,
+  BountyNotFoundError,
+  CommitRequiredError,
+  CommitmentExistsError,
+  CommitmentNotFoundError,
+  ContractRevertError,
+  DataRegistryNotSetError,
+  DuplicateCIDError,
+  EscrowAlreadyExistsError,
+  EscrowDepositFailedError,
+  EscrowManagerNotSetError,
+  EscrowNotFoundError,
+  FunctionsConsumerNotSetError,
+  InsufficientRewardError,
+  InvalidAddressError,
+  InvalidAmountError,
+  InvalidBountyIdError,
+  InvalidCIDError,
+  InvalidDeadlineError,
+  InvalidEscrowStatusError,
+  InvalidStatusError,
+  MaxSubmissionsReachedError,
+  PaymentFailedError,
+  RevealTooEarlyError,
+  SubmissionNotFoundError,
+  TransferFailedError,
+  UnauthorizedError,
+} from "./types.js";
@@ -0,0 +1,56 @@
+/**
+ * Agent keys for running without an email login: CI jobs, backend
+ * verifiers and scripts load a key and a space delegation instead
+ */
+
+import * as Ed25519 from "@storacha/client/principal/ed25519";
+import type { AgentKey, DID } from "./types.js";
+
+/**
+ * Generate a new Ed25519 agent key
+ * @returns The key and its DID; delegate a space to the DID, then pass the
+ *   key to StorachaBountyClient.fromPrincipal
+ *
+ * @example
+ * ```typescript
+ * const { did, privateKey } = await generateAgentKey();
+ * // Store privateKey as a secret, e.g. STORACHA_KEY
+ * const access = await owner.createDelegation(did, {
+ *   capabilities: ['space/blob/add', 'upload/add'],
+ * });
+ * ```
+ */
+export async function generateAgentKey(): Promise<AgentKey> {
+  return exportSigner(await Ed25519.generate());
+}
+
+/**
+ * Check an agent key and find its DID
+ * @param privateKey - Ed25519 private key, multibase base64 ("Mg..."), as
+ *   printed by generateAgentKey or `storacha key create`
+ * @throws Error if the key cannot be parsed
+ */
+export function importAgentKey(privateKey: string): AgentKey {
+  return exportSigner(parseAgentKey(privateKey));
+}
+
+/**
+ * Parse an agent key into a signer for @storacha/client
+ * @throws Error if the key cannot be parsed
+ */
+export function parseAgentKey(privateKey: string): Ed25519.EdSigner {
+  try {
+    return Ed25519.parse(privateKey.trim());
+  } catch (error) {
+    throw new Error("Invalid agent key: expected a base64 Ed25519 key", {
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Format a signer as an AgentKey
+ */
+export function exportSigner(signer: Ed25519.EdSigner): AgentKey {
+  return { did: signer.did() as DID, privateKey: Ed25519.format(signer) };
+}
@@ -0,0 +1,1612 @@
+/**
+ * BountyMarketClient - typed wrapper around the marketplace contracts
+ * (BountyRegistry, DataRegistry and EscrowManager) built on ethers v6
+ */
+
+import {
+  AbiCoder,
+  Contract,
+  Interface,
+  hexlify,
+  isCallException,
+  keccak256,
+  randomBytes,
+  type ContractTransactionResponse,
+  type Log,
+  type Result,
+  type Signer,
+} from "ethers";
+import type { StorachaBountyClient } from "./client.js";
+import {
+  BOUNTY_REGISTRY_ABI,
+  DATA_REGISTRY_ABI,
+  ESCROW_MANAGER_ABI,
+} from "./abis.js";
+import { MemoryCommitmentStore } from "./commitments.js";
+import {
+  BountyNotActiveError,
+  BountyNotFoundError,
+  CommitRequiredError,
+  CommitmentExistsError,
+  CommitmentNotFoundError,
+  ContractRevertError,
+  DataRegistryNotSetError,
+  DuplicateCIDError,
+  DuplicateSubmissionError,
+  EscrowAlreadyExistsError,
+  EscrowDepositFailedError,
+  EscrowManagerNotSetError,
+  EscrowNotFoundError,
+  FunctionsConsumerNotSetError,
+  InsufficientRewardError,
+  InvalidAddressError,
+  InvalidAmountError,
+  InvalidBountyIdError,
+  InvalidCIDError,
+  InvalidDeadlineError,
+  InvalidEscrowStatusError,
+  InvalidStatusError,
+  MaxSubmissionsReachedError,
+  MissingVerifierKeyError,
+  PaymentFailedError,
+  PostBountyError,
+  RevealTooEarlyError,
+  SubmissionNotFoundError,
+  TransferFailedError,
+  UnauthorizedError,
+  type Address,
+  type Bounty,
+  type BountyDelegationOptions,
+  type BountyEncryption,
+  type BountyMarketClientConfig,
+  type BountyMetadata,
+  type CommitResult,
+  type CommitmentStore,
+  type BountyStatus,
+  type ContractErrorName,
+  type ContractName,
+  type CreateBountyParams,
+  type CreateBountyResult,
+  type DelegationResult,
+  type DID,
+  type DuplicateCheckOptions,
+  type DuplicateMatch,
+  type DuplicateReport,
+  type Escrow,
+  type EscrowStatus,
+  type FetchOptions,
+  type JSONSchema,
+  type PendingCommitment,
+  type PostBountyParams,
+  type PostBountyResult,
+  type RevealOptions,
+  type Submission,
+  type SubmissionStatus,
+  type SubmitDataResult,
+  type SubmitToBountyOptions,
+  type SubmitToBountyResult,
+  type TransactionResult,
+  type UploadReference,
+  type UploadReferenceOptions,
+  type UploadReferenceReport,
+} from "./types.js";
+import {
+  InvalidSchemaError,
+  validate,
+} from "@storacha-chainlink/functions/validator";
+import {
+  checkSubmissionSchema,
+  getSubmissionRules,
+  verifyDocument,
+} from "@storacha-chainlink/functions/submission";
+import {
+  decodeVerificationResult,
+  type VerificationResult,
+} from "@storacha-chainlink/functions/result";
+import {
+  isEnvelope,
+  openEnvelope,
+} from "@storacha-chainlink/functions/envelope";
+import { sealEnvelope } from "@storacha-chainlink/functions/seal";
+import {
+  BOUNTY_METADATA_VERSION,
+  parseBountyMetadata,
+} from "@storacha-chainlink/functions/metadata";
+import { sameDigest } from "@storacha-chainlink/functions/digest";
+import {
+  fingerprintDocument,
+  rowOverlap,
+} from "@storacha-chainlink/functions/fingerprint";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/** Share of records that makes a near-duplicate by default */
+const DUPLICATE_THRESHOLD = 0.5;
+
+/** Submissions read at a time when looking for duplicates, by default */
+const DUPLICATE_CHECK_CONCURRENCY = 4;
+
+/** Largest submission downloaded to compare contents, by default */
+const MAX_COMPARED_SIZE = 10 * 1024 * 1024;
+
+/**
+ * What is known about an earlier submission when looking for duplicates
+ */
+interface SubmissionFingerprint {
+  submissionId: bigint;
+  cid: string;
+  /** Full digest when its content was fetched, else the on-chain prefix */
+  digest: string | null;
+  rows: string[] | null;
+}
+
+/**
+ * Maps Solidity custom error names to their typed error classes
+ */
+const CONTRACT_ERRORS: Record<
+  ContractErrorName,
+  new (
+    contract: ContractName,
+    options?: { cause?: unknown },
+  ) => ContractRevertError
+> = {
+  InsufficientReward: InsufficientRewardError,
+  InvalidDeadline: InvalidDeadlineError,
+  BountyNotFound: BountyNotFoundError,
+  Unauthorized: UnauthorizedError,
+  InvalidStatus: InvalidStatusError,
+  MaxSubmissionsReached: MaxSubmissionsReachedError,
+  EscrowManagerNotSet: EscrowManagerNotSetError,
+  EscrowDepositFailed: EscrowDepositFailedError,
+  DataRegistryNotSet: DataRegistryNotSetError,
+  InvalidAddress: InvalidAddressError,
+  BountyNotActive: BountyNotActiveError,
+  InvalidCID: InvalidCIDError,
+  SubmissionNotFound: SubmissionNotFoundError,
+  FunctionsConsumerNotSet: FunctionsConsumerNotSetError,
+  PaymentFailed: PaymentFailedError,
+  InvalidAmount: InvalidAmountError,
+  InvalidBountyId: InvalidBountyIdError,
+  EscrowNotFound: EscrowNotFoundError,
+  EscrowAlreadyExists: EscrowAlreadyExistsError,
+  InvalidEscrowStatus: InvalidEscrowStatusError,
+  TransferFailed: TransferFailedError,
+  CommitRequired: CommitRequiredError,
+  CommitmentExists: CommitmentExistsError,
+  CommitmentNotFound: CommitmentNotFoundError,
+  RevealTooEarly: RevealTooEarlyError,
+  DuplicateCID: DuplicateCIDError,
+};
+
+const INTERFACES: Record<ContractName, Interface> = {
+  BountyRegistry: new Interface(BOUNTY_REGISTRY_ABI),
+  DataRegistry: new Interface(DATA_REGISTRY_ABI),
+  EscrowManager: new Interface(ESCROW_MANAGER_ABI),
+};
+
+/**
+ * BountyMarketClient provides typed access to the on-chain side of the
+ * data bounty marketplace. Reverts are surfaced as ContractRevertError
+ * subclasses such as InsufficientRewardError or BountyNotActiveError.
+ *
+ * Pass a StorachaBountyClient as `storage` to use the helpers that upload
+ * to Storacha before transacting, such as postBounty.
+ *
+ * @example
+ * ```typescript
+ * import { BountyMarketClient } from '@storacha-chainlink/sdk';
+ *
+ * const market = new BountyMarketClient({
+ *   runner: wallet,
+ *   addresses: { bountyRegistry: '0x...', dataRegistry: '0x...' },
+ * });
+ *
+ * const { bountyId } = await market.createBounty({
+ *   metadataUri: 'bafy...',
+ *   schemaUri: 'bafy...',
+ *   reward: parseEther('0.1'),
+ *   deadline: new Date('2030-01-01'),
+ *   maxSubmissions: 10,
+ * });
+ * const bounty = await market.getBounty(bountyId);
+ * ```
+ */
+export class BountyMarketClient {
+  private bountyRegistry: Contract;
+  private dataRegistry: Contract;
+  private escrowManager?: Contract;
+  private config: BountyMarketClientConfig;
+  private commitments: CommitmentStore;
+
+  constructor(config: BountyMarketClientConfig) {
+    this.config = config;
+    this.commitments = config.commitments ?? new MemoryCommitmentStore();
+    this.bountyRegistry = new Contract(
+      config.addresses.bountyRegistry,
+      INTERFACES.BountyRegistry,
+      config.runner,
+    );
+    this.dataRegistry = new Contract(
+      config.addresses.dataRegistry,
+      INTERFACES.DataRegistry,
+      config.runner,
+    );
+    if (config.addresses.escrowManager) {
+      this.escrowManager = new Contract(
+        config.addresses.escrowManager,
+        INTERFACES.EscrowManager,
+        config.runner,
+      );
+    }
+  }
+
+  // ============ Bounty Lifecycle ============
+
+  /**
+   * Create a new bounty, depositing the reward into escrow
+   * @param params - Bounty parameters
+   * @returns The new bounty ID and transaction details
+   * @throws InsufficientRewardError if the reward is below MIN_REWARD
+   * @throws InvalidDeadlineError if the deadline is not in the future
+   */
+  async createBounty(params: CreateBountyParams): Promise<CreateBountyResult> {
+    const { receipt, logs } = await this.send(
+      "BountyRegistry",
+      this.bountyRegistry,
+      "createBounty",
+      [
+        params.metadataUri,
+        params.schemaUri,
+        toTimestamp(params.deadline),
+        BigInt(params.maxSubmissions),
+      ],
+      params.reward,
+    );
+
+    const event = findEvent(logs, INTERFACES.BountyRegistry, "BountyCreated");
+    return { ...receipt, bountyId: event.args.id as bigint };
+  }
+
+  /**
+   * Cancel an active bounty and refund the creator
+   * @param bountyId - The ID of the bounty to cancel
+   * @throws UnauthorizedError if the caller is not the creator
+   */
+  async cancelBounty(bountyId: bigint | number): Promise<TransactionResult> {
+    const { receipt } = await this.send(
+      "BountyRegistry",
+      this.bountyRegistry,
+      "cancelBounty",
+      [BigInt(bountyId)],
+    );
+    return receipt;
+  }
+
+  /**
+   * Add funds to an active bounty's reward
+   * @param bountyId - The ID of the bounty
+   * @param amount - Amount to add in wei
+   */
+  async increaseReward(
+    bountyId: bigint | number,
+    amount: bigint,
+  ): Promise<TransactionResult> {
+    const { receipt } = await this.send(
+      "BountyRegistry",
+      this.bountyRegistry,
+      "increaseReward",
+      [BigInt(bountyId)],
+      amount,
+    );
+    return receipt;
+  }
+
+  /**
+   * Move an active bounty's deadline later
+   * @param bountyId - The ID of the bounty
+   * @param newDeadline - New deadline as a Date or Unix timestamp in seconds
+   */
+  async extendDeadline(
+    bountyId: bigint | number,
+    newDeadline: Date | bigint | number,
+  ): Promise<TransactionResult> {
+    const { receipt } = await this.send(
+      "BountyRegistry",
+      this.bountyRegistry,
+      "extendDeadline",
+      [BigInt(bountyId), toTimestamp(newDeadline)],
+    );
+    return receipt;
+  }
+
+  /**
+   * Expire a bounty whose deadline has passed and refund the creator
+   * @param bountyId - The ID of the bounty
+   */
+  async expireBounty(bountyId: bigint | number): Promise<TransactionResult> {
+    const { receipt } = await this.send(
+      "BountyRegistry",
+      this.bountyRegistry,
+      "expireBounty",
+      [BigInt(bountyId)],
+    );
+    return receipt;
+  }
+
+  // ============ Submissions ============
+
+  /**
+   * Submit a data CID to a bounty
+   * @param bountyId - The ID of the bounty
+   * @param cid - IPFS CID of the submitted data
+   * @param metadata - Additional metadata (JSON string)
+   * @returns The new submission ID and transaction details
+   * @throws BountyNotActiveError if the bounty is not accepting submissions
+   */
+  async submitData(
+    bountyId: bigint | number,
+    cid: string,
+    metadata = "",
+  ): Promise<SubmitDataResult> {
+    const { receipt, logs } = await this.send(
+      "DataRegistry",
+      this.dataRegistry,
+      "submitData",
+      [BigInt(bountyId), cid, metadata],
+    );
+
+    const event = findEvent(logs, INTERFACES.DataRegistry, "DataSubmitted");
+    return { ...receipt, submissionId: event.args.submissionId as bigint };
+  }
+
+  // ============ Commit-Reveal ============
+
+  /**
+   * Commit to a CID without revealing it. The salt is kept in the
+   * configured CommitmentStore until revealSubmission uses it.
+   * @param bountyId - The ID of the bounty
+   * @param cid - IPFS CID of the data to submit later
+   * @param metadata - Additional metadata (JSON string), sent with the reveal
+   * @returns The commitment and the time from which it can be revealed
+   * @throws BountyNotActiveError if the bounty is not accepting submissions
+   * @throws Error if the runner is not a Signer
+   */
+  async commitSubmission(
+    bountyId: bigint | number,
+    cid: string,
+    metadata = "",
+  ): Promise<CommitResult> {
+    const contributor = await this.getSignerAddress();
+    const salt = hexlify(randomBytes(32));
+    const commitment = computeCommitment(bountyId, cid, salt, contributor);
+    const entry: PendingCommitment = {
+      commitment,
+      bountyId: BigInt(bountyId),
+      cid,
+      metadata,
+      salt,
+      contributor,
+      committedAt: 0,
+    };
+
+    // Store the salt before broadcasting; without it the commitment could
+    // never be revealed
+    await this.commitments.set(entry);
+    let receipt: TransactionResult;
+    try {
+      ({ receipt } = await this.send(
+        "DataRegistry",
+        this.dataRegistry,
+        "commitSubmission",
+        [entry.bountyId, commitment],
+      ));
+    } catch (error) {
+      // Only a revert proves the commitment was never recorded
+      if (error instanceof ContractRevertError) {
+        await this.commitments.delete(commitment);
+      }
+      throw error;
+    }
+
+    const committedAt = await this.getBlockTimestamp(receipt.blockNumber);
+    await this.commitments.set({ ...entry, committedAt });
+    const delay = await this.call<bigint>(
+      "DataRegistry",
+      this.dataRegistry,
+      "revealDelay",
+      [],
+    );
+    return { ...receipt, commitment, revealAt: committedAt + Number(delay) };
+  }
+
+  /**
+   * Wait until a stored commitment can be revealed, according to the
+   * chain's clock
+   * @param commitment - The commitment hash
+   * @param options - Polling interval and abort signal
+   * @throws Error if no salt is stored for the commitment
+   * @throws CommitmentNotFoundError if the commitment is not on-chain
+   */
+  async waitForReveal(
+    commitment: string,
+    options?: RevealOptions,
+  ): Promise<void> {
+    const { pollInterval = 5000, signal } = options ?? {};
+    const entry = await this.getPendingCommitment(commitment);
+    let committedAt = entry.committedAt;
+    if (committedAt === 0) {
+      // The process stopped before the commit was confirmed
+      const onChain = await this.call<Result>(
+        "DataRegistry",
+        this.dataRegistry,
+        "commitments",
+        [entry.contributor, commitment],
+      );
+      committedAt = Number(onChain.committedAt);
+      if (committedAt === 0) {
+        throw new CommitmentNotFoundError("DataRegistry");
+      }
+      await this.commitments.set({ ...entry, committedAt });
+    }
+
+    for (;;) {
+      signal?.throwIfAborted();
+      const [delay, now] = await Promise.all([
+        this.call<bigint>("DataRegistry", this.dataRegistry, "revealDelay", []),
+        this.getBlockTimestamp("latest"),
+      ]);
+      const remaining = committedAt + Number(delay) - now;
+      if (remaining <= 0) return;
+      await sleep(Math.min(pollInterval, remaining * 1000), signal);
+    }
+  }
+
+  /**
+   * Reveal a stored commitment, creating the submission
+   * @param commitment - The commitment hash
+   * @returns The new submission ID and transaction details
+   * @throws Error if no salt is stored for the commitment
+   * @throws RevealTooEarlyError if the reveal delay has not passed
+   * @throws DuplicateCIDError if the CID was already submitted to the bounty
+   */
+  async revealSubmission(commitment: string): Promise<SubmitDataResult> {
+    const entry = await this.getPendingCommitment(commitment);
+    const { receipt, logs } = await this.send(
+      "DataRegistry",
+      this.dataRegistry,
+      "revealSubmission",
+      [entry.bountyId, entry.cid, entry.metadata ?? "", entry.salt],
+    );
+    await this.commitments.delete(commitment);
+
+    const event = findEvent(logs, INTERFACES.DataRegistry, "DataSubmitted");
+    return { ...receipt, submissionId: event.args.submissionId as bigint };
+  }
+
+  /**
+   * Submit a CID through commit-reveal: commit, wait out the reveal delay,
+   * then reveal. The CID never appears on-chain before the commitment is
+   * old enough that nobody else can get ahead of it.
+   * @param bountyId - The ID of the bounty
+   * @param cid - IPFS CID of the submitted data
+   * @param options - Metadata for the submission, and the polling interval
+   *   and abort signal for the wait
+   * @returns The new submission ID and transaction details of the reveal
+   *
+   * @example
+   * ```typescript
+   * const { submissionId } = await market.commitAndReveal(1, 'bafy...');
+   * ```
+   */
+  async commitAndReveal(
+    bountyId: bigint | number,
+    cid: string,
+    options?: RevealOptions & { metadata?: string },
+  ): Promise<SubmitDataResult & { commitment: string }> {
+    const { commitment } = await this.commitSubmission(
+      bountyId,
+      cid,
+      options?.metadata,
+    );
+    await this.waitForReveal(commitment, options);
+    return { ...(await this.revealSubmission(commitment)), commitment };
+  }
+
+  /**
+   * Reveal every stored commitment made by this signer, waiting for each
+   * one's delay. Use it to finish submissions after a restart.
+   * @param options - Polling interval and abort signal for the waits
+   * @returns One settled result per commitment, in store order; failed
+   *   commitments stay in the store
+   */
+  async revealPending(
+    options?: RevealOptions,
+  ): Promise<PromiseSettledResult<SubmitDataResult>[]> {
+    const contributor = await this.getSignerAddress();
+    const results: PromiseSettledResult<SubmitDataResult>[] = [];
+    for (const entry of await this.commitments.list()) {
+      if (entry.contributor.toLowerCase() !== contributor.toLowerCase()) {
+        continue;
+      }
+      try {
+        await this.waitForReveal(entry.commitment, options);
+        results.push({
+          status: "fulfilled",
+          value: await this.revealSubmission(entry.commitment),
+        });
+      } catch (reason) {
+        options?.signal?.throwIfAborted();
+        results.push({ status: "rejected", reason });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * List the commitments whose salts are stored and not yet revealed
+   */
+  async getPendingCommitments(): Promise<PendingCommitment[]> {
+    return this.commitments.list();
+  }
+
+  // ============ Storacha Workflows ============
+
+  /**
+   * Upload bounty metadata and its JSON Schema to Storacha, then create the bounty
+   * @param params - Metadata, schema and bounty parameters
+   * @returns The new bounty ID, transaction details and both CIDs
+   * @throws InvalidSchemaError if the schema uses keywords the DON cannot verify
+   * @throws InvalidBountyMetadataError if the metadata does not match
+   *   BOUNTY_METADATA_SCHEMA
+   * @throws PostBountyError if the schema upload or createBounty failed
+   *   after the metadata was uploaded
+   *
+   * @example
+   * ```typescript
+   * const { bountyId, metadataCid, schemaCid } = await market.postBounty({
+   *   metadata: { title: 'Weather data', description: 'Daily readings' },
+   *   schema: { type: 'object', required: ['temperature'] },
+   *   reward: parseEther('0.1'),
+   *   deadline: new Date('2030-01-01'),
+   *   maxSubmissions: 10,
+   * });
+   * ```
+   */
+  async postBounty(params: PostBountyParams): Promise<PostBountyResult> {
+    const storage = this.ensureStorage();
+
+    const schemaIssues = checkSubmissionSchema(params.schema);
+    if (schemaIssues.length > 0) {
+      throw new InvalidSchemaError(schemaIssues);
+    }
+    const metadata = parseBountyMetadata({
+      ...params.metadata,
+      version: BOUNTY_METADATA_VERSION,
+    });
+
+    const metadataUpload = await storage.uploadJSON(metadata, "metadata.json");
+    const metadataCid = metadataUpload.cidString;
+    let schemaCid: string | null = null;
+
+    try {
+      const schemaUpload = await storage.uploadJSON(
+        params.schema,
+        "schema.json",
+      );
+      schemaCid = schemaUpload.cidString;
+      const result = await this.createBounty({
+        metadataUri: metadataCid,
+        schemaUri: schemaCid,
+        reward: params.reward,
+        deadline: params.deadline,
+        maxSubmissions: params.maxSubmissions,
+      });
+      return { ...result, metadataCid, schemaCid };
+    } catch (error) {
+      let uploadsRemoved = false;
+      if (params.removeUploadsOnFailure) {
+        const uploaded = schemaCid ? [metadataCid, schemaCid] : [metadataCid];
+        const removals = await Promise.allSettled(
+          uploaded.map((cid) => storage.remove(cid)),
+        );
+        uploadsRemoved = removals.every((r) => r.status === "fulfilled");
+      }
+      throw new PostBountyError(metadataCid, schemaCid, uploadsRemoved, error);
+    }
+  }
+
+  /**
+   * Validate data against a bounty's schema locally, then upload it to
+   * Storacha and submit the CID. Data the DON would reject is reported
+   * without uploading anything or sending a transaction.
+   *
+   * Pass a Blob or File for bounties whose schema declares a CSV, TSV or
+   * NDJSON `format`; it is parsed the same way the DON parses it and
+   * uploaded unchanged.
+   * @param bountyId - The ID of the bounty
+   * @param data - The JSON-serializable data to submit, or a Blob holding
+   *   the document in the bounty's format
+   * @param options - Submission options
+   * @returns The submission result, or the validation errors
+   * @throws BountyNotActiveError if the bounty is not accepting submissions
+   * @throws InvalidSchemaError if the bounty's schema cannot be verified
+   * @throws Error if the bounty expects a directory rather than one document,
+   *   or a non-JSON format and `data` is not a Blob
+   * @throws Error if `encrypt` is set and the bounty's metadata publishes no
+   *   encryption key
+   * @throws MissingVerifierKeyError if `encrypt` is set and the bounty's
+   *   metadata publishes no verifier key
+   * @throws DuplicateSubmissionError if the same data was already submitted
+   *   to the bounty
+   *
+   * @example
+   * ```typescript
+   * const result = await market.submitToBounty(1, { temperature: 25 });
+   * if (!result.valid) {
+   *   console.log(result.errors); // [{ pointer: '/temperature', ... }]
+   * } else {
+   *   console.log('Submission', result.submissionId, 'CID', result.cid);
+   * }
+   * ```
+   */
+  async submitToBounty(
+    bountyId: bigint | number,
+    data: unknown,
+    options?: SubmitToBountyOptions,
+  ): Promise<SubmitToBountyResult> {
+    const storage = this.ensureStorage();
+    const bounty = await this.getBounty(bountyId);
+    if (!(await this.isBountyActive(bountyId))) {
+      throw new BountyNotActiveError("DataRegistry");
+    }
+
+    // Registries that require commit-reveal reject direct submissions
+    const commitReveal =
+      options?.commitReveal ??
+      (await this.call<boolean>(
+        "DataRegistry",
+        this.dataRegistry,
+        "commitRequired",
+        [],
+      ));
+
+    const schema = await this.getBountySchema(bounty, options?.fetchOptions);
+    const rules = getSubmissionRules(schema);
+    if (rules.layout === "directory") {
+      throw new Error(
+        `Bounty ${bountyId} expects a directory submission, not a single JSON document`,
+      );
+    }
+
+    // The DON opens encrypted data with the verifier key; sealed only to
+    // the creator, the submission could never pass
+    let recipients: string[] | undefined;
+    if (options?.encrypt) {
+      const { publicKey, verifierPublicKey } = await this.getEncryptionKeys(
+        bounty.metadataUri,
+        options.fetchOptions,
+      );
+      if (!verifierPublicKey) {
+        throw new MissingVerifierKeyError(bounty.id);
+      }
+      recipients = [publicKey, verifierPublicKey];
+    }
+
+    if (data instanceof Blob) {
+      const { violations: errors } = verifyDocument(
+        await data.text(),
+        schema,
+        rules,
+      );
+      if (errors.length > 0) {
+        return { valid: false, errors };
+      }
+    } else {
+      if (rules.format !== "json") {
+        throw new Error(
+          `Bounty ${bountyId} expects ${rules.format} data; pass it as a Blob`,
+        );
+      }
+      const errors = validate(data, schema);
+      if (errors.length > 0) {
+        return { valid: false, errors };
+      }
+    }
+
+    // The bytes uploadJSON would store, so digests match the DON's
+    const plaintext =
+      data instanceof Blob
+        ? new Uint8Array(await data.arrayBuffer())
+        : new TextEncoder().encode(JSON.stringify(data, null, 2));
+
+    let nearDuplicates: DuplicateMatch[] = [];
+    if (options?.checkDuplicates !== false) {
+      const check =
+        typeof options?.checkDuplicates === "object"
+          ? options.checkDuplicates
+          : {};
+      const earlier = await this.fingerprintSubmissions(
+        bounty.id,
+        check.compareContent ? schema : null,
+        { fetchOptions: options?.fetchOptions, ...check },
+      );
+      const matches = matchFingerprint(
+        await fingerprintDocument(plaintext, rules, schema.items),
+        earlier,
+        check.threshold ?? DUPLICATE_THRESHOLD,
+      );
+      const exact = matches.find((match) => match.kind !== "rows");
+      if (exact) {
+        throw new DuplicateSubmissionError(exact.submissionId);
+      }
+      nearDuplicates = matches;
+    }
+
+    let upload;
+    if (recipients) {
+      const sealed = await sealEnvelope(plaintext, recipients, {
+        contentType:
+          data instanceof Blob ? data.type || undefined : "application/json",
+      });
+      upload = await storage.uploadFile(new Blob([sealed.slice()]));
+    } else {
+      upload =
+        data instanceof Blob
+          ? await storage.uploadFile(data)
+          : await storage.uploadJSON(data, options?.filename);
+    }
+    let result: SubmitDataResult;
+    if (commitReveal) {
+      const { commitment } = await this.commitSubmission(
+        bountyId,
+        upload.cidString,
+        options?.metadata,
+      );
+      await this.waitForReveal(
+        commitment,
+        commitReveal === true ? undefined : commitReveal,
+      );
+      result = await this.revealSubmission(commitment);
+    } else {
+      result = await this.submitData(
+        bountyId,
+        upload.cidString,
+        options?.metadata,
+      );
+    }
+    return {
+      valid: true,
+      cid: upload.cidString,
+      ...result,
+      ...(nearDuplicates.length > 0 && { nearDuplicates }),
+    };
+  }
+
+  /**
+   * Find submissions to a bounty that repeat earlier ones, by any
+   * contributor: the same CID, byte-identical data, or (for tabular data)
+   * a large share of the same records
+   * @param bountyId - The ID of the bounty
+   * @param options - Whether to fetch contents, and the near-duplicate
+   *   threshold
+   * @returns One report per submission with matches, in submission order
+   *
+   * @example
+   * ```typescript
+   * for (const { submissionId, matches } of await market.findDuplicateSubmissions(1)) {
+   *   console.log(submissionId, 'repeats', matches[0].submissionId, matches[0].kind);
+   * }
+   * ```
+   */
+  async findDuplicateSubmissions(
+    bountyId: bigint | number,
+    options: DuplicateCheckOptions = {},
+  ): Promise<DuplicateReport[]> {
+    const schema = options.compareContent
+      ? await this.getBountySchema(
+          await this.getBounty(bountyId),
+          options.fetchOptions,
+        )
+      : null;
+
+    const prints = await this.fingerprintSubmissions(
+      BigInt(bountyId),
+      schema,
+      options,
+    );
+    const threshold = options.threshold ?? DUPLICATE_THRESHOLD;
+    const reports: DuplicateReport[] = [];
+    prints.forEach((print, index) => {
+      const matches = matchFingerprint(
+        print,
+        prints.slice(0, index),
+        threshold,
+      );
+      if (matches.length > 0) {
+        reports.push({ submissionId: print.submissionId, matches });
+      }
+    });
+    return reports;
+  }
+
+  /**
+   * Let a contributor upload to the storage client's current space for a
+   * bounty: a delegation limited to adding blobs and uploads, expiring at
+   * the bounty deadline. Select the space holding the bounty's data first.
+   * @param bountyId - The ID of the bounty
+   * @param contributorDid - The contributor's Storacha agent DID
+   * @param options - Largest shard the contributor may store, in bytes
+   * @returns The delegation; send `base64` to the contributor, who imports it
+   *   with addSpace
+   * @throws BountyNotActiveError if the bounty is not accepting submissions
+   *
+   * @example
+   * ```typescript
+   * const access = await market.grantUploadAccess(1, 'did:key:z6Mk...', {
+   *   maxShardSize: 100 * 1024 * 1024,
+   * });
+   * ```
+   */
+  async grantUploadAccess(
+    bountyId: bigint | number,
+    contributorDid: DID,
+    options?: Pick<BountyDelegationOptions, "maxShardSize">,
+  ): Promise<DelegationResult> {
+    const storage = this.ensureStorage();
+    const bounty = await this.getBounty(bountyId);
+    if (!(await this.isBountyActive(bountyId))) {
+      throw new BountyNotActiveError("BountyRegistry");
+    }
+    return storage.createBountyDelegation(contributorDid, {
+      bountyId: bounty.id,
+      deadline: bounty.deadline,
+      maxShardSize: options?.maxShardSize,
+    });
+  }
+
+  /**
+   * Find uploads in the storage client's current space that no bounty or
+   * submission refers to, e.g. abandoned drafts and failed submissions
+   * @param options - Which bounties and contributors count (default: the
+   *   signer's bounties and submissions)
+   * @returns Referenced uploads with their references, and the rest
+   *
+   * @example
+   * ```typescript
+   * const { unreferenced } = await market.findUnreferencedUploads();
+   * const roots = unreferenced.map((upload) => upload.root);
+   * console.log(await storage.removeMany(roots, { dryRun: true }));
+   * ```
+   */
+  async findUnreferencedUploads(
+    options: UploadReferenceOptions = {},
+  ): Promise<UploadReferenceReport> {
+    const storage = this.ensureStorage();
+    const references = await this.collectUploadReferences(options);
+
+    const report: UploadReferenceReport = {
+      referenced: [],
+      unreferenced: [],
+      unreferencedBytes: 0,
+    };
+    for await (const upload of storage.listUploads()) {
+      const found = references.get(upload.root);
+      if (found) {
+        report.referenced.push({ ...upload, references: found });
+      } else {
+        report.unreferenced.push(upload);
+        report.unreferencedBytes += upload.size ?? 0;
+      }
+    }
+    return report;
+  }
+
+  // ============ Reads ============
+
+  /**
+   * Get a bounty by ID
+   * @param bountyId - The ID of the bounty
+   * @throws BountyNotFoundError if no bounty exists with this ID
+   */
+  async getBounty(bountyId: bigint | number): Promise<Bounty> {
+    const result = await this.call<Result>(
+      "BountyRegistry",
+      this.bountyRegistry,
+      "getBounty",
+      [BigInt(bountyId)],
+    );
+
+    if (result.creator === ZERO_ADDRESS) {
+      throw new BountyNotFoundError("BountyRegistry");
+    }
+
+    return {
+      id: result.id as bigint,
+      creator: result.creator as Address,
+      metadataUri: result.metadataUri as string,
+      schemaUri: result.schemaUri as string,
+      reward: result.reward as bigint,
+      deadline: result.deadline as bigint,
+      status: Number(result.status) as BountyStatus,
+      maxSubmissions: result.maxSubmissions as bigint,
+      submissionCount: result.submissionCount as bigint,
+      createdAt: result.createdAt as bigint,
+    };
+  }
+
+  /**
+   * Fetch and validate a bounty's off-chain metadata, upgrading older
+   * versions of the format
+   * @param bountyId - The ID of the bounty
+   * @param fetchOptions - Options for fetching the metadata
+   * @throws BountyNotFoundError if no bounty exists with this ID
+   * @throws InvalidBountyMetadataError if the document is not valid metadata
+   *
+   * @example
+   * ```typescript
+   * const { title, requirements } = await market.getBountyMetadata(1);
+   * ```
+   */
+  async getBountyMetadata(
+    bountyId: bigint | number,
+    fetchOptions?: FetchOptions,
+  ): Promise<BountyMetadata> {
+    const bounty = await this.getBounty(bountyId);
+    return this.fetchBountyMetadata(bounty.metadataUri, fetchOptions);
+  }
+
+  /**
+   * Check whether a bounty is active, not expired and not full
+   * @param bountyId - The ID of the bounty
+   */
+  async isBountyActive(bountyId: bigint | number): Promise<boolean> {
+    return this.call<boolean>(
+      "BountyRegistry",
+      this.bountyRegistry,
+      "isBountyActive",
+      [BigInt(bountyId)],
+    );
+  }
+
+  /**
+   * Get the total number of bounties created
+   */
+  async getTotalBounties(): Promise<bigint> {
+    return this.call<bigint>(
+      "BountyRegistry",
+      this.bountyRegistry,
+      "getTotalBounties",
+      [],
+    );
+  }
+
+  /**
+   * Get the IDs of bounties created by an address
+   * @param creator - Address of the creator
+   */
+  async getBountiesByCreator(creator: string): Promise<bigint[]> {
+    const ids = await this.call<Result>(
+      "BountyRegistry",
+      this.bountyRegistry,
+      "getBountiesByCreator",
+      [creator],
+    );
+    return ids.toArray() as bigint[];
+  }
+
+  /**
+   * Get a submission by ID
+   * @param submissionId - The ID of the submission
+   * @throws SubmissionNotFoundError if no submission exists with this ID
+   */
+  async getSubmission(submissionId: bigint | number): Promise<Submission> {
+    const result = await this.call<Result>(
+      "DataRegistry",
+      this.dataRegistry,
+      "getSubmission",
+      [BigInt(submissionId)],
+    );
+
+    if (result.contributor === ZERO_ADDRESS) {
+      throw new SubmissionNotFoundError("DataRegistry");
+    }
+
+    return {
+      id: result.id as bigint,
+      bountyId: result.bountyId as bigint,
+      contributor: result.contributor as Address,
+      cid: result.cid as string,
+      metadata: result.metadata as string,
+      status: Number(result.status) as SubmissionStatus,
+      submittedAt: result.submittedAt as bigint,
+      verifiedAt: result.verifiedAt as bigint,
+    };
+  }
+
+  /**
+   * Get the decoded DON verification result for a submission, explaining
+   * why it was verified or rejected
+   * @param submissionId - The ID of the submission
+   * @returns The result, or null if verification has not completed
+   *
+   * @example
+   * ```typescript
+   * const result = await market.getVerificationResult(submissionId);
+   * if (result && !result.verified) {
+   *   console.log(result.reason, result.recordCount, result.failedPathHash);
+   *   // Compare against hashFailedPath('/3/temperature') to confirm a guess
+   * }
+   * ```
+   */
+  async getVerificationResult(
+    submissionId: bigint | number,
+  ): Promise<VerificationResult | null> {
+    const data = await this.call<string>(
+      "DataRegistry",
+      this.dataRegistry,
+      "getVerificationResult",
+      [BigInt(submissionId)],
+    );
+    return data === "0x" ? null : decodeVerificationResult(data);
+  }
+
+  /**
+   * Fetch an encrypted submission and decrypt it with the bounty creator's
+   * private key
+   * @param submissionId - The ID of the submission
+   * @param privateKey - The creator's X25519 private key (base64), the
+   *   counterpart of `encryption.publicKey` in the bounty metadata
+   * @param options - Fetch options for retrieving the submission
+   * @returns The original data
+   * @throws SubmissionNotFoundError if no submission exists with this ID
+   * @throws DecryptionError if the submission is not encrypted to this key
+   *
+   * @example
+   * ```typescript
+   * const bytes = await market.decryptSubmission(submissionId, privateKey);
+   * const data = JSON.parse(new TextDecoder().decode(bytes));
+   * ```
+   */
+  async decryptSubmission(
+    submissionId: bigint | number,
+    privateKey: string,
+    options?: FetchOptions,
+  ): Promise<Uint8Array> {
+    const storage = this.ensureStorage();
+    const submission = await this.getSubmission(submissionId);
+    const { data } = await storage.fetchRawByCID(
+      stripIpfsPrefix(submission.cid),
+      options,
+    );
+    return openEnvelope(data, privateKey);
+  }
+
+  /**
+   * Get the IDs of all submissions for a bounty
+   * @param bountyId - The ID of the bounty
+   */
+  async getBountySubmissions(bountyId: bigint | number): Promise<bigint[]> {
+    const ids = await this.call<Result>(
+      "DataRegistry",
+      this.dataRegistry,
+      "getBountySubmissions",
+      [BigInt(bountyId)],
+    );
+    return ids.toArray() as bigint[];
+  }
+
+  /**
+   * Get the IDs of all submissions made by an address
+   * @param contributor - Address of the contributor
+   */
+  async getSubmissionsByContributor(contributor: string): Promise<bigint[]> {
+    const ids = await this.call<Result>(
+      "DataRegistry",
+      this.dataRegistry,
+      "getSubmissionsByContributor",
+      [contributor],
+    );
+    return ids.toArray() as bigint[];
+  }
+
+  /**
+   * Get the escrow record for a bounty.
+   * Uses the configured EscrowManager address, or the one BountyRegistry points to.
+   * @param bountyId - The ID of the bounty
+   */
+  async getEscrow(bountyId: bigint | number): Promise<Escrow> {
+    const escrowManager = await this.getEscrowManager();
+    const result = await this.call<Result>(
+      "EscrowManager",
+      escrowManager,
+      "getEscrow",
+      [BigInt(bountyId)],
+    );
+
+    return {
+      bountyId: result.bountyId as bigint,
+      depositor: result.depositor as Address,
+      amount: result.amount as bigint,
+      status: Number(result.status) as EscrowStatus,
+      createdAt: result.createdAt as bigint,
+      releasedAt: result.releasedAt as bigint,
+    };
+  }
+
+  // ============ Internals ============
+
+  /**
+   * Ensure a Storacha client was configured
+   * @throws Error if no storage client is set
+   */
+  private ensureStorage(): StorachaBountyClient {
+    if (!this.config.storage) {
+      throw new Error(
+        "No storage client configured. Pass `storage` to BountyMarketClient.",
+      );
+    }
+    return this.config.storage;
+  }
+
+  /**
+   * Look up a stored commitment
+   * @throws Error if no salt is stored for it
+   */
+  private async getPendingCommitment(
+    commitment: string,
+  ): Promise<PendingCommitment> {
+    const entry = await this.commitments.get(commitment);
+    if (!entry) {
+      throw new Error(`No salt is stored for commitment ${commitment}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Address of the signer that sends transactions
+   * @throws Error if the runner cannot sign
+   */
+  private async getSignerAddress(): Promise<Address> {
+    const signer = this.config.runner as Partial<Signer>;
+    if (typeof signer.getAddress !== "function") {
+      throw new Error("Commit-reveal needs a Signer as the runner");
+    }
+    return (await signer.getAddress()) as Address;
+  }
+
+  /**
+   * Timestamp of a block in seconds
+   */
+  private async getBlockTimestamp(block: number | "latest"): Promise<number> {
+    const result = await this.config.runner.provider?.getBlock(block);
+    if (!result) {
+      throw new Error(`Block ${block} is not available`);
+    }
+    return result.timestamp;
+  }
+
+  /**
+   * Fetch and parse a bounty's JSON Schema
+   */
+  private async getBountySchema(
+    bounty: Bounty,
+    fetchOptions?: FetchOptions,
+  ): Promise<JSONSchema> {
+    const { data } = await this.ensureStorage().fetchByCID<JSONSchema | string>(
+      stripIpfsPrefix(bounty.schemaUri),
+      fetchOptions,
+    );
+    return typeof data === "string" ? (JSON.parse(data) as JSONSchema) : data;
+  }
+
+  /**
+   * Map root CIDs to the bounties and submissions that point at them
+   */
+  private async collectUploadReferences(
+    options: UploadReferenceOptions,
+  ): Promise<Map<string, UploadReference[]>> {
+    const references = new Map<string, UploadReference[]>();
+    const add = (uri: string, reference: UploadReference) => {
+      // Submissions may point into a directory upload
+      const [root] = stripIpfsPrefix(uri).split("/");
+      if (!root) return;
+      references.set(root, [...(references.get(root) ?? []), reference]);
+    };
+
+    const signer =
+      options.bountyIds && options.contributors
+        ? undefined
+        : await this.getSignerAddress();
+    const bountyIds =
+      options.bountyIds?.map((id) => BigInt(id)) ??
+      (await this.getBountiesByCreator(signer as Address));
+
+    const submissionIds = new Set<bigint>();
+    for (const bountyId of bountyIds) {
+      const bounty = await this.getBounty(bountyId);
+      add(bounty.metadataUri, { kind: "metadata", bountyId });
+      add(bounty.schemaUri, { kind: "schema", bountyId });
+      for (const id of await this.getBountySubmissions(bountyId)) {
+        submissionIds.add(id);
+      }
+    }
+    for (const contributor of options.contributors ?? [signer as Address]) {
+      for (const id of await this.getSubmissionsByContributor(contributor)) {
+        submissionIds.add(id);
+      }
+    }
+
+    for (const submissionId of submissionIds) {
+      const submission = await this.getSubmission(submissionId);
+      add(submission.cid, {
+        kind: "submission",
+        bountyId: submission.bountyId,
+        submissionId,
+      });
+    }
+    return references;
+  }
+
+  /**
+   * Collect the CID, content digest and record digests of every submission
+   * to a bounty. Digests come from verification results, or from the data
+   * itself when a schema is given and the data is a readable document.
+   * @param schema - The bounty's schema, or null to skip fetching contents
+   */
+  private async fingerprintSubmissions(
+    bountyId: bigint,
+    schema: JSONSchema | null,
+    options: DuplicateCheckOptions,
+  ): Promise<SubmissionFingerprint[]> {
+    const rules = schema && getSubmissionRules(schema);
+    const ids = await this.getBountySubmissions(bountyId);
+    const {
+      concurrency = DUPLICATE_CHECK_CONCURRENCY,
+      maxContentSize = MAX_COMPARED_SIZE,
+    } = options;
+
+    return mapWithConcurrency(ids, concurrency, async (submissionId) => {
+      const [submission, result] = await Promise.all([
+        this.getSubmission(submissionId),
+        this.getVerificationResult(submissionId),
+      ]);
+      const print: SubmissionFingerprint = {
+        submissionId,
+        cid: stripIpfsPrefix(submission.cid),
+        digest: result?.contentDigest ?? null,
+        rows: null,
+      };
+      if (!schema || rules?.layout !== "file") return print;
+
+      try {
+        const data = await this.fetchUpTo(
+          print.cid,
+          maxContentSize,
+          options.fetchOptions,
+        );
+        // Encrypted data can only be compared by its on-chain digest
+        if (data && !isEnvelope(data)) {
+          Object.assign(
+            print,
+            await fingerprintDocument(data, rules, schema.items),
+          );
+        }
+      } catch {
+        // Unreachable data is compared by CID and on-chain digest only
+      }
+      return print;
+    });
+  }
+
+  /**
+   * Download content unless it is larger than a limit
+   * @returns The content, or null once more than maxSize bytes arrive
+   */
+  private async fetchUpTo(
+    cid: string,
+    maxSize: number,
+    fetchOptions?: FetchOptions,
+  ): Promise<Uint8Array | null> {
+    const reader = this.ensureStorage()
+      .streamByCID(cid, {
+        timeout: fetchOptions?.timeout,
+        gateways: fetchOptions?.gateways,
+      })
+      .getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxSize) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+
+    const data = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return data;
+  }
+
+  /**
+   * Fetch a metadata document and parse it
+   * @throws InvalidBountyMetadataError if the document is not valid metadata
+   */
+  private async fetchBountyMetadata(
+    metadataUri: string,
+    fetchOptions?: FetchOptions,
+  ): Promise<BountyMetadata> {
+    const { data } = await this.ensureStorage().fetchByCID(
+      stripIpfsPrefix(metadataUri),
+      fetchOptions,
+    );
+    return parseBountyMetadata(data);
+  }
+
+  /**
+   * Read the encryption keys a bounty publishes in its metadata
+   * @throws Error if the metadata has no encryption key
+   */
+  private async getEncryptionKeys(
+    metadataUri: string,
+    fetchOptions?: FetchOptions,
+  ): Promise<BountyEncryption> {
+    const metadata = await this.fetchBountyMetadata(metadataUri, fetchOptions);
+    if (!metadata.encryption) {
+      throw new Error(
+        "Bounty metadata does not publish an encryption key; submit unencrypted",
+      );
+    }
+    return metadata.encryption;
+  }
+
+  /**
+   * Resolve the EscrowManager contract, reading its address from
+   * BountyRegistry when it was not configured
+   */
+  private async getEscrowManager(): Promise<Contract> {
+    if (!this.escrowManager) {
+      const address = await this.call<string>(
+        "BountyRegistry",
+        this.bountyRegistry,
+        "escrowManager",
+        [],
+      );
+      if (address === ZERO_ADDRESS) {
+        throw new EscrowManagerNotSetError("BountyRegistry");
+      }
+      this.escrowManager = new Contract(
+        address,
+        INTERFACES.EscrowManager,
+        this.config.runner,
+      );
+    }
+    return this.escrowManager;
+  }
+
+  /**
+   * Call a view function, mapping reverts to typed errors
+   */
+  private async call<T>(
+    contractName: ContractName,
+    contract: Contract,
+    method: string,
+    args: unknown[],
+  ): Promise<T> {
+    try {
+      return (await contract.getFunction(method).staticCall(...args)) as T;
+    } catch (error) {
+      throw toContractError(contractName, error);
+    }
+  }
+
+  /**
+   * Send a transaction and wait for it to be mined, mapping reverts to typed errors
+   */
+  private async send(
+    contractName: ContractName,
+    contract: Contract,
+    method: string,
+    args: unknown[],
+    value?: bigint,
+  ): Promise<{ receipt: TransactionResult; logs: readonly Log[] }> {
+    try {
+      const overrides = value !== undefined ? [{ value }] : [];
+      const tx = (await contract
+        .getFunction(method)
+        .send(...args, ...overrides)) as ContractTransactionResponse;
+      const receipt = await tx.wait(this.config.confirmations ?? 1);
+      if (!receipt) {
+        throw new Error(`Transaction ${tx.hash} was not mined`);
+      }
+      return {
+        receipt: { hash: receipt.hash, blockNumber: receipt.blockNumber },
+        logs: receipt.logs,
+      };
+    } catch (error) {
+      throw toContractError(contractName, error);
+    }
+  }
+}
+
+// ============ Helper Functions ============
+
+/**
+ * Convert a Date or timestamp to a Unix timestamp in seconds
+ */
+function toTimestamp(value: Date | bigint | number): bigint {
+  if (value instanceof Date) {
+    return BigInt(Math.floor(value.getTime() / 1000));
+  }
+  return BigInt(value);
+}
+
+/**
+ * The commitment DataRegistry.computeCommitment returns
+ */
+function computeCommitment(
+  bountyId: bigint | number,
+  cid: string,
+  salt: string,
+  contributor: string,
+) {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      ["uint256", "string", "bytes32", "address"],
+      [BigInt(bountyId), cid, salt, contributor],
+    ),
+  );
+}
+
+/**
+ * Resolve after `ms`, or reject with the signal's reason once aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Map items with at most `limit` calls in flight, keeping their order
+ */
+async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker),
+  );
+  return results;
+}
+
+/**
+ * Match a submission against earlier ones
+ * @returns The matches, most similar first
+ */
+function matchFingerprint(
+  print: Pick<SubmissionFingerprint, "digest" | "rows"> & { cid?: string },
+  earlier: SubmissionFingerprint[],
+  threshold: number,
+): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+  for (const other of earlier) {
+    const { submissionId } = other;
+    if (print.cid !== undefined && print.cid === other.cid) {
+      matches.push({ submissionId, kind: "cid", similarity: 1 });
+    } else if (
+      print.digest &&
+      other.digest &&
+      sameDigest(print.digest, other.digest)
+    ) {
+      matches.push({ submissionId, kind: "content", similarity: 1 });
+    } else if (print.rows && other.rows) {
+      const similarity = rowOverlap(print.rows, other.rows);
+      if (similarity > 0 && similarity >= threshold) {
+        matches.push({ submissionId, kind: "rows", similarity });
+      }
+    }
+  }
+  return matches.sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Strip an ipfs:// scheme from a URI stored on-chain, leaving the CID
+ */
+function stripIpfsPrefix(uri: string): string {
+  return uri.replace(/^ipfs:\/\//, "");
+}
+
+/**
+ * Find and decode the first log matching an event name
+ */
+function findEvent(
+  logs: readonly Log[],
+  iface: Interface,
+  eventName: string,
+): { args: Result } {
+  for (const log of logs) {
+    try {
+      const parsed = iface.parseLog({
+        topics: [...log.topics],
+        data: log.data,
+      });
+      if (parsed?.name === eventName) {
+        return parsed;
+      }
+    } catch {
+      // Log from another contract, skip it
+    }
+  }
+  throw new Error(`${eventName} event not found in transaction logs`);
+}
+
+/**
+ * Map an ethers error to a typed ContractRevertError when it is a revert.
+ * The calling contract's ABI is tried first; reverts bubbled up from the
+ * other marketplace contracts (e.g. BountyRegistry errors raised during
+ * DataRegistry.submitData) are decoded with their own ABI.
+ */
+function toContractError(contractName: ContractName, error: unknown): unknown {
+  if (error instanceof ContractRevertError || !isCallException(error)) {
+    return error;
+  }
+
+  const data = error.data;
+  const candidates = [
+    contractName,
+    ...(Object.keys(INTERFACES) as ContractName[]).filter(
+      (name) => name !== contractName,
+    ),
+  ];
+
+  if (data) {
+    for (const name of candidates) {
+      const parsed = INTERFACES[name].parseError(data);
+      if (!parsed) continue;
+
+      const ErrorClass = CONTRACT_ERRORS[parsed.name as ContractErrorName];
+      if (ErrorClass) {
+        return new ErrorClass(name, { cause: error });
+      }
+      return new ContractRevertError(name, parsed.name, parsed.args.toArray(), {
+        cause: error,
+      });
+    }
+  }
+
+  if (error.revert) {
+    return new ContractRevertError(
+      contractName,
+      error.revert.name,
+      error.revert.args,
+      { cause: error },
+    );
+  }
+
+  return error;
+}
@@ -0,0 +1,41 @@
+/**
+ * @storacha-chainlink/sdk/node
+ *
+ * Node.js-only additions to the SDK. Kept out of the main entry point so
+ * browser bundles never pull in node: modules.
+ *
+ * @example
+ * ```typescript
+ * import { StorachaBountyClient } from '@storacha-chainlink/sdk';
+ * import { FileSystemCacheStore } from '@storacha-chainlink/sdk/node';
+ *
+ * const client = await StorachaBountyClient.create({
+ *   cache: new FileSystemCacheStore('.cache/ipfs'),
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * import { StorachaBountyClient } from '@storacha-chainlink/sdk';
+ * import {
+ *   FileSystemAgentStore,
+ *   loadAgentCredentials,
+ * } from '@storacha-chainlink/sdk/node';
+ *
+ * const { privateKey, proof } = await loadAgentCredentials();
+ * const client = await StorachaBountyClient.fromPrincipal(privateKey, proof, {
+ *   store: new FileSystemAgentStore(),
+ * });
+ * ```
+ */
+
+export { FileSystemCacheStore } from "./fs-cache.js";
+export { downloadToFile } from "./download.js";
+export { FileSystemCommitmentStore } from "./fs-commitments.js";
+export {
+  AGENT_KEY_ENV,
+  AGENT_PROOF_ENV,
+  FileSystemAgentStore,
+  loadAgentCredentials,
+} from "./fs-agent.js";
+export type { AgentCredentialOptions, AgentCredentials } from "./fs-agent.js";
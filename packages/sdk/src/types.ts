@@ -2,6 +2,12 @@
  * Types for the Storacha Bounty SDK
  */
 
+import type { ContractRunner } from "ethers";
+import type { UnixFSEntry } from "@storacha-chainlink/functions/listing";
+import type { NewBountyMetadata } from "@storacha-chainlink/functions/metadata";
+import type { SchemaViolation } from "@storacha-chainlink/functions/validator";
+import type { StorachaBountyClient } from "./client.js";
+
 /** Options forwarded to @storacha/client create(). Not re-exported by the package, so mirrored here. */
 export type StorachaClientFactoryOptions = Record<string, unknown>;
 
@@ -45,10 +51,39 @@ export interface SpaceInfo {
   did: DID;
   /** Human-readable name of the space */
   name?: string;
+  /**
+   * "private" for spaces whose content is encrypted client-side, "public"
+   * otherwise. Always set by the SDK; treat a missing value as "public"
+   */
+  access?: "public" | "private";
   /** Whether this is the current active space */
   isCurrentSpace: boolean;
 }
 
+/**
+ * Storage used by a space, against its account's plan
+ */
+export interface SpaceUsage {
+  /** The DID of the space */
+  did: DID;
+  /** Bytes stored in the space */
+  bytesStored: bigint;
+  /**
+   * Storage limit of the account's plan in bytes, shared by all of the
+   * account's spaces, or null if it is unknown
+   */
+  quota: bigint | null;
+  /** The account whose plan was checked, if any */
+  account?: DID;
+  /** DID of the account's plan, e.g. "did:web:starter.storacha.network" */
+  plan?: DID;
+}
+
+/**
+ * Picks one of the authorized accounts, by DID or email
+ */
+export type AccountSelector = DID | Email;
+
 /**
  * Account information after authentication
  */
@@ -67,8 +102,8 @@ export interface UploadResult {
   cid: CID;
   /** String representation of the CID */
   cidString: string;
-  /** Size of the uploaded content in bytes */
-  size?: number;
+  /** Size of the uploaded content in bytes (the sum of all files' sizes) */
+  size: number;
 }
 
 /**
@@ -77,10 +112,36 @@ export interface UploadResult {
 export interface UploadOptions {
   /** Callback when a shard is stored */
   onShardStored?: (meta: ShardMeta) => void;
-  /** Optional name for the upload */
+  /** Called as shard bytes are sent and whenever a shard is stored */
+  onProgress?: (progress: UploadProgress) => void;
+  /** Cancels the upload. Shards already stored stay in the space. */
+  signal?: AbortSignal;
+  /** Target shard size in bytes (default: Storacha's, about 127 MiB) */
+  shardSize?: number;
+  /** Times each failed shard request is retried (default: 3) */
+  retries?: number;
+  /**
+   * Optional name for the upload
+   * @deprecated Storacha does not store upload names, so this is ignored
+   */
   name?: string;
 }
 
+/**
+ * Progress of an upload
+ */
+export interface UploadProgress {
+  /**
+   * Shard bytes sent so far. Shards add a little encoding overhead, so this
+   * is capped at totalBytes until the upload completes.
+   */
+  bytesSent: number;
+  /** Size of the content being uploaded */
+  totalBytes: number;
+  /** Shards stored so far */
+  shards: number;
+}
+
 /**
  * Metadata for uploaded shards
  */
@@ -91,12 +152,76 @@ export interface ShardMeta {
   size: number;
 }
 
+/**
+ * An upload in the current space
+ */
+export interface UploadEntry {
+  /** Root CID of the upload */
+  root: string;
+  /** CIDs of the CAR shards holding its blocks */
+  shards: string[];
+  /**
+   * Bytes stored for its shards, or null when the service does not report
+   * shards or a shard's blob is not in the space
+   */
+  size: number | null;
+  /** When the upload was first added */
+  insertedAt: Date;
+  /** When shards were last added to it */
+  updatedAt: Date;
+  /**
+   * Cursor for the page after this entry's; pass it to listUploads to
+   * resume there. Absent on the last page.
+   */
+  cursor?: string;
+}
+
+/**
+ * Options for listing uploads
+ */
+export interface ListUploadsOptions {
+  /** Resume after the page an earlier entry's `cursor` came from */
+  cursor?: string;
+  /** Uploads requested per page (default: the service's, usually 25) */
+  size?: number;
+}
+
+/**
+ * Options for removing several uploads
+ */
+export interface RemoveManyOptions {
+  /** Report what would be removed without removing anything */
+  dryRun?: boolean;
+  /**
+   * Also remove the uploads' shards, freeing the space they use. Shards
+   * shared with other uploads are removed too. (default: false)
+   */
+  shards?: boolean;
+}
+
+/**
+ * Outcome of removeMany
+ */
+export interface RemoveManyResult {
+  /** Whether this was a dry run, so nothing was removed */
+  dryRun: boolean;
+  /** Roots removed (or, in a dry run, that would be removed) */
+  removed: string[];
+  /** Roots that could not be removed, with the reason */
+  failed: Array<{ root: string; error: string }>;
+}
+
 /**
  * Options for creating a space
  */
 export interface CreateSpaceOptions {
   /** Name for the new space */
   name?: string;
+  /**
+   * Account that provisions the space and can recover it (default: the
+   * first authorized account)
+   */
+  account?: AccountSelector;
 }
 
 /**
@@ -125,16 +250,122 @@ export interface DelegationOptions {
   expiration?: number;
 }
 
+/**
+ * Options for a contributor's upload delegation to one bounty
+ */
+export interface BountyDelegationOptions {
+  /** ID of the bounty the contributor is uploading for */
+  bountyId: bigint | number;
+  /**
+   * The bounty deadline, as a Date or Unix timestamp in seconds. The
+   * delegation expires then.
+   */
+  deadline: Date | bigint | number;
+  /**
+   * Largest blob the contributor may store, in bytes. Uploads are stored as
+   * CAR shards, so the contributor's shardSize must not exceed it.
+   */
+  maxShardSize?: number;
+}
+
 /**
  * Delegation result
  */
 export interface DelegationResult {
+  /** CID of the delegation, for revokeDelegation */
+  cid: string;
   /** The delegation as a serialized archive */
   archive: Uint8Array;
   /** The delegation as a base64 string for easy transport */
   base64: string;
 }
 
+/**
+ * A capability granted by a delegation
+ */
+export interface DelegatedCapability {
+  /** The ability, e.g. "upload/add" */
+  can: string;
+  /** The resource it applies to, usually a space DID */
+  with: string;
+  /** Caveats that narrow the ability, if any */
+  nb?: Record<string, unknown>;
+}
+
+/**
+ * A decoded UCAN delegation
+ */
+export interface DelegationInfo {
+  /** CID of the delegation */
+  cid: string;
+  /** DID of the agent that granted it */
+  issuer: DID;
+  /** DID of the agent it was granted to */
+  audience: DID;
+  /** The delegated capabilities */
+  capabilities: DelegatedCapability[];
+  /** Expiry as a Unix timestamp in seconds, or null if it never expires */
+  expiration: number | null;
+  /** Unix timestamp in seconds before which it is not valid, if set */
+  notBefore?: number;
+  /** Whether it has already expired */
+  expired: boolean;
+  /** Whether it expires within the configured warning window */
+  expiringSoon: boolean;
+  /** The bounty it was issued for, if created with createBountyDelegation */
+  bountyId?: bigint;
+}
+
+/**
+ * Options for listDelegations
+ */
+export interface ListDelegationsOptions {
+  /**
+   * "issued" for delegations this agent created for others (default),
+   * "received" for proofs delegated to this agent
+   */
+  direction?: "issued" | "received";
+  /** Include delegations that have expired (default: true) */
+  includeExpired?: boolean;
+}
+
+/**
+ * When to warn about delegations that are about to expire
+ */
+export interface DelegationExpiryOptions {
+  /** Warn about delegations expiring within this many seconds (default: 7 days) */
+  warnWithin?: number;
+  /**
+   * Called by StorachaBountyClient.create(), and by
+   * checkExpiringDelegations(), with the issued and received delegations
+   * that expire within the window
+   */
+  onExpiring?: (delegations: DelegationInfo[]) => void;
+}
+
+/**
+ * Persists the Storacha agent's key, delegations and spaces. Same shape as
+ * the store drivers of @storacha/client, so its StoreMemory, StoreIndexedDB
+ * and StoreConf can be passed directly.
+ */
+export interface AgentStore {
+  open(): Promise<void>;
+  close(): Promise<void>;
+  load(): Promise<unknown>;
+  save(data: unknown): Promise<void>;
+  reset(): Promise<void>;
+}
+
+/**
+ * A Storacha agent key
+ */
+export interface AgentKey {
+  /** The agent's DID */
+  did: DID;
+  /** The Ed25519 private key, multibase base64 ("Mg...") */
+  privateKey: string;
+}
+
 /**
  * Client configuration options
  */
@@ -142,6 +373,19 @@ export interface StorachaBountyClientConfig {
   /** Custom service URL (optional, defaults to Storacha) */
   serviceUrl?: string;
   clientOptions?: StorachaClientFactoryOptions;
+  /** Gateway health tracking and circuit breaker settings */
+  gatewayHealth?: GatewayHealthOptions;
+  /** Where fetched content is cached (default: a 50 MB MemoryCacheStore) */
+  cache?: CacheStore;
+  /** Warnings for delegations that are about to expire */
+  delegationExpiry?: DelegationExpiryOptions;
+  /**
+   * Where the agent keeps its key and delegations: "memory" (lost on exit),
+   * "indexeddb" (browsers), or a store such as FileSystemAgentStore from
+   * `@storacha-chainlink/sdk/node`. Defaults to IndexedDB in browsers and a
+   * config file in Node, or to "memory" for fromPrincipal().
+   */
+  store?: "memory" | "indexeddb" | AgentStore;
 }
 
 /**
@@ -150,8 +394,10 @@ export interface StorachaBountyClientConfig {
 export interface AuthorizationStatus {
   /** Whether the client is authorized */
   isAuthorized: boolean;
-  /** The account info if authorized */
+  /** The selected account (default: the first) if authorized */
   account?: AccountInfo;
+  /** Every authorized account (always set by the SDK) */
+  accounts?: AccountInfo[];
   /** The current space if set */
   currentSpace?: SpaceInfo;
 }
@@ -180,6 +426,15 @@ export const DEFAULT_GATEWAYS = [
   "https://nftstorage.link/ipfs/",
 ] as const;
 
+/**
+ * How a fetch spreads its requests across gateways
+ * - `sequential`: try each gateway after the previous one has failed
+ * - `race`: request every gateway at once and keep the first answer
+ * - `hedged`: start the next gateway whenever the current ones have not
+ *   answered within `hedgeDelay`
+ */
+export type FetchStrategy = "sequential" | "race" | "hedged";
+
 /**
  * Options for fetching data from IPFS
  */
@@ -190,10 +445,34 @@ export interface FetchOptions {
   maxRetries?: number;
   /** Enable caching (default: true) */
   useCache?: boolean;
-  /** Cache TTL in milliseconds (default: 300000 - 5 minutes) */
+  /** Cache TTL in milliseconds (default: Infinity, as CIDs are immutable) */
   cacheTTL?: number;
   /** Custom gateway list (optional, uses DEFAULT_GATEWAYS if not provided) */
   gateways?: string[];
+  /**
+   * Request a CAR (`?format=car`) and check every block against the CID
+   * before returning the content (default: false). A gateway whose response
+   * does not match is skipped without retrying.
+   */
+  trustless?: boolean;
+  /** How to spread requests across gateways (default: "sequential") */
+  strategy?: FetchStrategy;
+  /** Milliseconds before a hedged fetch tries the next gateway (default: 500) */
+  hedgeDelay?: number;
+}
+
+/**
+ * One gateway's part in a fetch
+ */
+export interface GatewayAttempt {
+  /** The gateway base URL */
+  gateway: string;
+  /** `aborted` when another gateway answered first */
+  outcome: "success" | "failed" | "aborted";
+  /** Milliseconds from the first request until it settled, retries included */
+  duration: number;
+  /** Why the gateway failed */
+  error?: Error;
 }
 
 /**
@@ -210,6 +489,8 @@ export interface FetchResult<T = unknown> {
   contentType: string;
   /** Whether the result was served from cache */
   cached: boolean;
+  /** Each gateway tried, in the order it was started (empty when cached) */
+  attempts: GatewayAttempt[];
 }
 
 /**
@@ -226,22 +507,229 @@ export interface FetchRawResult {
   contentType: string;
   /** Whether the result was served from cache */
   cached: boolean;
+  /** Each gateway tried, in the order it was started (empty when cached) */
+  attempts: GatewayAttempt[];
 }
 
+/**
+ * Options for listing a directory
+ */
+export type ListDirectoryOptions = Pick<
+  FetchOptions,
+  "timeout" | "maxRetries" | "gateways" | "strategy" | "hedgeDelay"
+>;
+
+/**
+ * An entry of a directory listed with listDirectory. `type` is "unknown"
+ * for chunked files and subdirectories, whose blocks a gateway does not
+ * include in a directory listing; list the entry's CID to find out.
+ */
+export type DirectoryEntry = UnixFSEntry;
+
+/**
+ * Progress of a streamed download
+ */
+export interface StreamProgress {
+  /** Bytes received so far */
+  loaded: number;
+  /** Total size in bytes, or null if the gateway did not say */
+  total: number | null;
+  /** The gateway currently serving the content */
+  gateway: string;
+}
+
+/**
+ * Options for streaming content from IPFS
+ */
+export interface StreamOptions {
+  /** Milliseconds each gateway has to start responding (default: 10000) */
+  timeout?: number;
+  /**
+   * Milliseconds a gateway may go without sending data once the body has
+   * started, before the next gateway is asked for the rest (default: timeout)
+   */
+  idleTimeout?: number;
+  /** Custom gateway list (optional, uses DEFAULT_GATEWAYS if not provided) */
+  gateways?: string[];
+  /** Cancels the download */
+  signal?: AbortSignal;
+  /** Called after each chunk is received */
+  onProgress?: (progress: StreamProgress) => void;
+}
+
+/**
+ * Result of downloadToFile
+ */
+export interface DownloadResult {
+  /** The file that was written */
+  path: string;
+  /** Bytes written */
+  size: number;
+}
+
+/**
+ * Form in which fetched content is cached
+ * - `bytes`: raw bytes from fetchRawByCID
+ * - `json`: a parsed JSON value from fetchByCID
+ * - `text`: a string from fetchByCID
+ */
+export type CacheRepresentation = "bytes" | "json" | "text";
+
 /**
  * Cache entry for storing fetched data
  */
 export interface CacheEntry<T = unknown> {
   /** The cached data */
   data: T;
+  /** Which form `data` is in; part of the cache key with the CID */
+  representation: CacheRepresentation;
   /** The content type */
   contentType: string;
   /** The gateway that served the content */
   gateway: string;
   /** Timestamp when the entry was cached */
   cachedAt: number;
-  /** TTL in milliseconds */
+  /** TTL in milliseconds (Infinity never expires) */
   ttl: number;
+  /** Whether the content was checked against its CID */
+  verified?: boolean;
+}
+
+/**
+ * Storage backend for the fetch cache
+ *
+ * Implementations decide how much to keep; a store may drop entries at any
+ * time, and a missing entry simply means another fetch.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  stats(): Promise<CacheStoreStats>;
+}
+
+/**
+ * Options for the built-in cache stores
+ */
+export interface CacheStoreOptions {
+  /** Evict the least recently used entries above this size in bytes */
+  maxBytes?: number;
+}
+
+/**
+ * What a cache store holds
+ */
+export interface CacheStoreStats {
+  /** Keys of the cached entries */
+  keys: string[];
+  /** Total size of the cached data in bytes */
+  bytes: number;
+  /** Size limit in bytes, or null if unbounded */
+  maxBytes: number | null;
+  /** Entries evicted to stay under maxBytes */
+  evictions: number;
+}
+
+/**
+ * Cache statistics, as returned by getCacheStats()
+ */
+export interface CacheStats {
+  /** Number of cached entries */
+  size: number;
+  /** Keys of the cached entries */
+  entries: string[];
+  /** Total size of the cached data in bytes */
+  bytes: number;
+  /** Size limit in bytes, or null if unbounded */
+  maxBytes: number | null;
+  /** Fetches served from the cache */
+  hits: number;
+  /** Fetches that went to a gateway */
+  misses: number;
+  /** hits / (hits + misses), or 0 before the first fetch */
+  hitRate: number;
+  /** Entries evicted to stay under maxBytes */
+  evictions: number;
+}
+
+// ============ Gateway Health Types ============
+
+/**
+ * Circuit breaker state of a gateway
+ * - `closed`: the gateway is used normally
+ * - `open`: the gateway failed repeatedly and is skipped until `retryAt`
+ * - `half-open`: the cooldown is over; the next request decides whether the
+ *   circuit closes again or reopens
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Options for gateway health tracking
+ */
+export interface GatewayHealthOptions {
+  /** Order gateways by health instead of the configured order (default: true) */
+  adaptive?: boolean;
+  /** Consecutive failures that open a gateway's circuit (default: 3) */
+  failureThreshold?: number;
+  /** Milliseconds an open circuit skips the gateway (default: 30000) */
+  cooldown?: number;
+  /** Number of recent requests used for success rate and latency (default: 50) */
+  sampleSize?: number;
+  /** Where to persist the stats across restarts (default: memory only) */
+  store?: GatewayStatsStore;
+}
+
+/**
+ * Health of a single gateway, as returned by getGatewayStats()
+ */
+export interface GatewayStats {
+  /** The gateway base URL */
+  gateway: string;
+  /** Requests in the sample window */
+  requests: number;
+  /** Share of successful requests in the sample window (1 when unused) */
+  successRate: number;
+  /** Latency percentiles of successful requests in milliseconds */
+  latency: { p50: number | null; p90: number | null; p99: number | null };
+  /** The most recent errors, newest first */
+  recentErrors: Array<{ message: string; at: number }>;
+  /** Failures since the last success */
+  consecutiveFailures: number;
+  /** Circuit breaker state */
+  circuit: CircuitState;
+  /** When an open circuit lets requests through again (ms since epoch) */
+  retryAt: number | null;
+  /** Ranking score between 0 and 1; higher gateways are tried first */
+  score: number;
+}
+
+/**
+ * Serializable gateway health state, as saved by a GatewayStatsStore
+ */
+export interface GatewayStatsSnapshot {
+  version: 1;
+  gateways: Record<
+    string,
+    {
+      /** Recent outcomes, oldest first (true for success) */
+      outcomes: boolean[];
+      /** Recent successful latencies in milliseconds, oldest first */
+      latencies: number[];
+      recentErrors: Array<{ message: string; at: number }>;
+      consecutiveFailures: number;
+      /** When the circuit opened (ms since epoch), or null if closed */
+      openedAt: number | null;
+    }
+  >;
+}
+
+/**
+ * Persistence for gateway health, e.g. a JSON file or localStorage
+ */
+export interface GatewayStatsStore {
+  load(): Promise<GatewayStatsSnapshot | undefined>;
+  save(snapshot: GatewayStatsSnapshot): Promise<void>;
 }
 
 /**
@@ -263,3 +751,759 @@ export class IPFSFetchError extends Error {
     this.gatewayErrors = gatewayErrors;
   }
 }
+
+// ============ Contract Types ============
+
+/**
+ * EVM address (0x-prefixed, 20 bytes hex)
+ */
+export type Address = `0x${string}`;
+
+/**
+ * Names of the marketplace contracts wrapped by BountyMarketClient
+ */
+export type ContractName = "BountyRegistry" | "DataRegistry" | "EscrowManager";
+
+/**
+ * Mirrors BountyRegistry.BountyStatus
+ */
+export enum BountyStatus {
+  DRAFT = 0,
+  ACTIVE = 1,
+  COMPLETED = 2,
+  CANCELLED = 3,
+  EXPIRED = 4,
+}
+
+/**
+ * Mirrors DataRegistry.SubmissionStatus
+ */
+export enum SubmissionStatus {
+  PENDING = 0,
+  VERIFYING = 1,
+  VERIFIED = 2,
+  REJECTED = 3,
+}
+
+/**
+ * Mirrors EscrowManager.EscrowStatus
+ */
+export enum EscrowStatus {
+  NONE = 0,
+  FUNDED = 1,
+  RELEASED = 2,
+  REFUNDED = 3,
+}
+
+/**
+ * Mirrors BountyRegistry.Bounty
+ */
+export interface Bounty {
+  /** Bounty ID */
+  id: bigint;
+  /** Address of the bounty creator */
+  creator: Address;
+  /** IPFS CID of off-chain metadata (title, description, etc.) */
+  metadataUri: string;
+  /** IPFS CID of the JSON Schema submissions are validated against */
+  schemaUri: string;
+  /** Reward in wei */
+  reward: bigint;
+  /** Deadline as a Unix timestamp in seconds */
+  deadline: bigint;
+  /** Current lifecycle status */
+  status: BountyStatus;
+  /** Maximum number of submissions allowed */
+  maxSubmissions: bigint;
+  /** Number of submissions received so far */
+  submissionCount: bigint;
+  /** Creation time as a Unix timestamp in seconds */
+  createdAt: bigint;
+}
+
+/**
+ * Mirrors DataRegistry.Submission
+ */
+export interface Submission {
+  /** Submission ID */
+  id: bigint;
+  /** ID of the bounty this submission targets */
+  bountyId: bigint;
+  /** Address of the contributor */
+  contributor: Address;
+  /** IPFS CID of the submitted data */
+  cid: string;
+  /** Additional metadata (JSON string) */
+  metadata: string;
+  /** Current verification status */
+  status: SubmissionStatus;
+  /** Submission time as a Unix timestamp in seconds */
+  submittedAt: bigint;
+  /** Verification time as a Unix timestamp in seconds (0 if not verified) */
+  verifiedAt: bigint;
+}
+
+/**
+ * Mirrors EscrowManager.Escrow
+ */
+export interface Escrow {
+  /** ID of the bounty the funds belong to */
+  bountyId: bigint;
+  /** Address that deposited the funds */
+  depositor: Address;
+  /** Escrowed amount in wei */
+  amount: bigint;
+  /** Current escrow status */
+  status: EscrowStatus;
+  /** Creation time as a Unix timestamp in seconds */
+  createdAt: bigint;
+  /** Release or refund time as a Unix timestamp in seconds (0 if funded) */
+  releasedAt: bigint;
+}
+
+/**
+ * Deployed contract addresses
+ */
+export interface BountyMarketAddresses {
+  /** BountyRegistry contract address */
+  bountyRegistry: string;
+  /** DataRegistry contract address */
+  dataRegistry: string;
+  /** EscrowManager contract address (optional, read from BountyRegistry if omitted) */
+  escrowManager?: string;
+}
+
+/**
+ * Configuration for BountyMarketClient
+ */
+export interface BountyMarketClientConfig {
+  /** ethers Signer for write methods, or Provider for read-only usage */
+  runner: ContractRunner;
+  /** Deployed contract addresses */
+  addresses: BountyMarketAddresses;
+  /** Number of confirmations to wait for after sending a transaction (default: 1) */
+  confirmations?: number;
+  /** Storacha client used by the upload-then-transact helpers such as postBounty */
+  storage?: StorachaBountyClient;
+  /**
+   * Where commit-reveal salts are kept until their reveal (default: in
+   * memory). Use a persistent store so a restart cannot lose a salt.
+   */
+  commitments?: CommitmentStore;
+}
+
+/**
+ * A committed submission whose CID has not been revealed yet
+ */
+export interface PendingCommitment {
+  /** keccak256(abi.encode(cid, salt, contributor)) */
+  commitment: string;
+  bountyId: bigint;
+  cid: string;
+  /** Metadata sent with the reveal (absent in entries from older versions) */
+  metadata?: string;
+  /** Random 32-byte salt as 0x-prefixed hex; secret until the reveal */
+  salt: string;
+  contributor: Address;
+  /** Block timestamp of the commit transaction (0 until it is mined) */
+  committedAt: number;
+}
+
+/**
+ * Storage backend for commit-reveal salts, keyed by commitment hash
+ */
+export interface CommitmentStore {
+  get(commitment: string): Promise<PendingCommitment | undefined>;
+  set(entry: PendingCommitment): Promise<void>;
+  delete(commitment: string): Promise<void>;
+  list(): Promise<PendingCommitment[]>;
+}
+
+/**
+ * Result of commitSubmission
+ */
+export interface CommitResult extends TransactionResult {
+  /** The commitment hash published on-chain */
+  commitment: string;
+  /** Unix timestamp (seconds) from which the CID can be revealed */
+  revealAt: number;
+}
+
+/**
+ * Options for waiting on a reveal
+ */
+export interface RevealOptions {
+  /** How often to check the chain's clock, in ms (default: 5000) */
+  pollInterval?: number;
+  /** Stop waiting; already-sent transactions are not affected */
+  signal?: AbortSignal;
+}
+
+/**
+ * Parameters for creating a bounty
+ */
+export interface CreateBountyParams {
+  /** IPFS CID of off-chain metadata */
+  metadataUri: string;
+  /** IPFS CID of the JSON Schema */
+  schemaUri: string;
+  /** Reward in wei (must be at least MIN_REWARD) */
+  reward: bigint;
+  /** Deadline as a Date or Unix timestamp in seconds */
+  deadline: Date | bigint | number;
+  /** Maximum number of submissions allowed */
+  maxSubmissions: bigint | number;
+}
+
+/**
+ * Result of a mined transaction
+ */
+export interface TransactionResult {
+  /** Transaction hash */
+  hash: string;
+  /** Block the transaction was included in */
+  blockNumber: number;
+}
+
+/**
+ * Result of createBounty
+ */
+export interface CreateBountyResult extends TransactionResult {
+  /** ID of the created bounty, read from the BountyCreated event */
+  bountyId: bigint;
+}
+
+/**
+ * Result of submitData
+ */
+export interface SubmitDataResult extends TransactionResult {
+  /** ID of the created submission, read from the DataSubmitted event */
+  submissionId: bigint;
+}
+
+/**
+ * A JSON Schema document describing the data a bounty accepts
+ */
+export type JSONSchema = Record<string, unknown>;
+
+/**
+ * Off-chain bounty metadata stored on IPFS and referenced by
+ * Bounty.metadataUri. The format is versioned; see encodeBountyMetadata and
+ * parseBountyMetadata.
+ */
+export type {
+  BountyEncryption,
+  BountyMetadata,
+  NewBountyMetadata,
+} from "@storacha-chainlink/functions/metadata";
+
+/**
+ * Parameters for postBounty
+ */
+export interface PostBountyParams {
+  /** Bounty metadata, uploaded as JSON with the current format version */
+  metadata: NewBountyMetadata;
+  /** JSON Schema submissions are validated against, uploaded as JSON */
+  schema: JSONSchema;
+  /** Reward in wei (must be at least MIN_REWARD) */
+  reward: bigint;
+  /** Deadline as a Date or Unix timestamp in seconds */
+  deadline: Date | bigint | number;
+  /** Maximum number of submissions allowed */
+  maxSubmissions: bigint | number;
+  /**
+   * Remove the metadata and schema uploads if the schema upload or the
+   * transaction fails (default: false)
+   */
+  removeUploadsOnFailure?: boolean;
+}
+
+/**
+ * Result of postBounty
+ */
+export interface PostBountyResult extends CreateBountyResult {
+  /** CID of the uploaded metadata */
+  metadataCid: string;
+  /** CID of the uploaded JSON Schema */
+  schemaCid: string;
+}
+
+/**
+ * A single schema violation found by local validation.
+ * Produced by the same validator the Chainlink Functions source runs.
+ */
+export type ValidationError = SchemaViolation;
+
+/**
+ * Options for submitToBounty
+ */
+export interface SubmitToBountyOptions {
+  /** Additional metadata (JSON string) stored with the submission */
+  metadata?: string;
+  /** Filename for the uploaded JSON (default: 'data.json') */
+  filename?: string;
+  /** Fetch options used when retrieving the bounty's schema */
+  fetchOptions?: FetchOptions;
+  /**
+   * Encrypt the data to the keys in the bounty's metadata before uploading
+   * (default: false). It is still validated in plaintext first.
+   */
+  encrypt?: boolean;
+  /**
+   * Submit through commit-reveal so the CID cannot be front-run
+   * (default: whether the registry requires it, which it does unless its
+   * owner turned it off). Waits out the registry's reveal delay, then
+   * reveals with `metadata`.
+   */
+  commitReveal?: boolean | RevealOptions;
+  /**
+   * Compare the data with earlier submissions to the bounty before
+   * uploading (default: true). An identical copy throws
+   * DuplicateSubmissionError; near-duplicates are reported in the result.
+   */
+  checkDuplicates?: boolean | DuplicateCheckOptions;
+}
+
+/**
+ * Options for comparing submissions
+ */
+export interface DuplicateCheckOptions {
+  /**
+   * Download earlier submissions to compare their contents and records
+   * (default: false). Otherwise only CIDs and the content digests in their
+   * verification results are compared, which needs no downloads.
+   */
+  compareContent?: boolean;
+  /** Share of records that makes a near-duplicate (default: 0.5) */
+  threshold?: number;
+  /** Submissions read or downloaded at a time (default: 4) */
+  concurrency?: number;
+  /**
+   * Largest submission downloaded when comparing contents, in bytes
+   * (default: 10 MiB). Larger ones are compared by CID and digest only.
+   */
+  maxContentSize?: number;
+  /** Fetch options used when retrieving the schema and submissions */
+  fetchOptions?: FetchOptions;
+}
+
+/**
+ * An earlier submission that a submission repeats
+ * - "cid": the same CID was submitted
+ * - "content": the data is byte-for-byte identical
+ * - "rows": enough of its records appear in the earlier submission
+ */
+export interface DuplicateMatch {
+  /** ID of the earlier submission */
+  submissionId: bigint;
+  /** How the submissions match */
+  kind: "cid" | "content" | "rows";
+  /** Share of the records also in the earlier submission (1 for exact copies) */
+  similarity: number;
+}
+
+/**
+ * A submission that repeats earlier submissions to the same bounty
+ */
+export interface DuplicateReport {
+  /** ID of the later submission */
+  submissionId: bigint;
+  /** The earlier submissions it matches, most similar first */
+  matches: DuplicateMatch[];
+}
+
+/**
+ * Options for findUnreferencedUploads
+ */
+export interface UploadReferenceOptions {
+  /**
+   * Bounties whose metadata, schema and submissions count as references
+   * (default: the bounties created by the signer)
+   */
+  bountyIds?: Array<bigint | number>;
+  /**
+   * Also count every submission by these contributors, to whichever bounty
+   * (default: the signer)
+   */
+  contributors?: string[];
+}
+
+/**
+ * Where an on-chain record points at an upload
+ */
+export type UploadReference =
+  | { kind: "metadata" | "schema"; bountyId: bigint }
+  | { kind: "submission"; bountyId: bigint; submissionId: bigint };
+
+/**
+ * An upload with the on-chain records pointing at it
+ */
+export interface ReferencedUpload extends UploadEntry {
+  references: UploadReference[];
+}
+
+/**
+ * The current space's uploads, split by whether the marketplace refers to
+ * them
+ */
+export interface UploadReferenceReport {
+  /** Uploads referenced by a bounty or submission */
+  referenced: ReferencedUpload[];
+  /** Uploads nothing on-chain refers to, in listing order */
+  unreferenced: UploadEntry[];
+  /** Bytes used by unreferenced uploads whose size is known */
+  unreferencedBytes: number;
+}
+
+/**
+ * Result of submitToBounty. When `valid` is false nothing was uploaded
+ * and no transaction was sent.
+ */
+export type SubmitToBountyResult =
+  | ({
+      valid: true;
+      /** CID of the uploaded data */
+      cid: string;
+      /** Earlier submissions sharing many of the data's records, if any */
+      nearDuplicates?: DuplicateMatch[];
+    } & SubmitDataResult)
+  | {
+      valid: false;
+      /** Schema violations that would make the DON reject the data */
+      errors: ValidationError[];
+    };
+
+/**
+ * Custom error names declared by the marketplace contracts
+ */
+export type ContractErrorName =
+  | "InsufficientReward"
+  | "InvalidDeadline"
+  | "BountyNotFound"
+  | "Unauthorized"
+  | "InvalidStatus"
+  | "MaxSubmissionsReached"
+  | "EscrowManagerNotSet"
+  | "EscrowDepositFailed"
+  | "DataRegistryNotSet"
+  | "InvalidAddress"
+  | "BountyNotActive"
+  | "InvalidCID"
+  | "SubmissionNotFound"
+  | "FunctionsConsumerNotSet"
+  | "PaymentFailed"
+  | "InvalidAmount"
+  | "InvalidBountyId"
+  | "EscrowNotFound"
+  | "EscrowAlreadyExists"
+  | "InvalidEscrowStatus"
+  | "TransferFailed"
+  | "CommitRequired"
+  | "CommitmentExists"
+  | "CommitmentNotFound"
+  | "RevealTooEarly"
+  | "DuplicateCID";
+
+/**
+ * Error thrown when a marketplace contract reverts.
+ * Known custom errors are mapped to the subclasses below; anything else
+ * (e.g. a require() string) surfaces as a plain ContractRevertError.
+ */
+export class ContractRevertError extends Error {
+  /** The contract that declared the error */
+  readonly contract: ContractName;
+  /** The Solidity error name, or "Error"/"Panic" for built-in reverts */
+  readonly errorName: string;
+  /** Decoded error arguments */
+  readonly args: readonly unknown[];
+
+  constructor(
+    contract: ContractName,
+    errorName: string,
+    args: readonly unknown[] = [],
+    options?: { cause?: unknown },
+  ) {
+    super(
+      `${contract} reverted with ${errorName}(${args.map(String).join(", ")})`,
+      options,
+    );
+    this.name = "ContractRevertError";
+    this.contract = contract;
+    this.errorName = errorName;
+    this.args = args;
+  }
+}
+
+/**
+ * Error thrown when postBounty uploaded its metadata but the schema upload
+ * or createBounty failed. The uploads are left in the space unless
+ * removeUploadsOnFailure was set, so callers can retry with the same CIDs
+ * or remove them later.
+ */
+export class PostBountyError extends Error {
+  /** CID of the uploaded metadata */
+  readonly metadataCid: string;
+  /** CID of the uploaded JSON Schema, or null if its upload failed */
+  readonly schemaCid: string | null;
+  /** Whether the uploads were removed from the space */
+  readonly uploadsRemoved: boolean;
+
+  constructor(
+    metadataCid: string,
+    schemaCid: string | null,
+    uploadsRemoved: boolean,
+    cause: unknown,
+  ) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    const step = schemaCid === null ? "upload schema" : "create bounty";
+    super(`Failed to ${step} after uploading metadata: ${reason}`, {
+      cause,
+    });
+    this.name = "PostBountyError";
+    this.metadataCid = metadataCid;
+    this.schemaCid = schemaCid;
+    this.uploadsRemoved = uploadsRemoved;
+  }
+}
+
+/**
+ * Error thrown when submitToBounty finds the data already submitted to the
+ * bounty. Nothing is uploaded and no transaction is sent.
+ */
+export class DuplicateSubmissionError extends Error {
+  /** ID of the earlier submission with the same data */
+  readonly submissionId: bigint;
+
+  constructor(submissionId: bigint) {
+    super(`Data is identical to submission ${submissionId}`);
+    this.name = "DuplicateSubmissionError";
+    this.submissionId = submissionId;
+  }
+}
+
+/**
+ * Error thrown when submitToBounty is asked to encrypt data for a bounty
+ * whose metadata publishes no verifier key. The DON could not decrypt the
+ * data, so the submission would always fail as "decryption-failed".
+ * Nothing is uploaded and no transaction is sent.
+ */
+export class MissingVerifierKeyError extends Error {
+  /** ID of the bounty */
+  readonly bountyId: bigint;
+
+  constructor(bountyId: bigint) {
+    super(
+      `Bounty ${bountyId} publishes no verifier key, so the DON cannot verify encrypted data; submit unencrypted`,
+    );
+    this.name = "MissingVerifierKeyError";
+    this.bountyId = bountyId;
+  }
+}
+
+/** Reward is below MIN_REWARD, or zero when increasing */
+export class InsufficientRewardError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "InsufficientReward", [], options);
+    this.name = "InsufficientRewardError";
+  }
+}
+
+/** Deadline is in the past or not later than the current one */
+export class InvalidDeadlineError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "InvalidDeadline", [], options);
+    this.name = "InvalidDeadlineError";
+  }
+}
+
+/** No bounty exists with the given ID */
+export class BountyNotFoundError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "BountyNotFound", [], options);
+    this.name = "BountyNotFoundError";
+  }
+}
+
+/** Caller is not allowed to perform the action */
+export class UnauthorizedError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "Unauthorized", [], options);
+    this.name = "UnauthorizedError";
+  }
+}
+
+/** Bounty or submission is not in the required status */
+export class InvalidStatusError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "InvalidStatus", [], options);
+    this.name = "InvalidStatusError";
+  }
+}
+
+/** Bounty has already received its maximum number of submissions */
+export class MaxSubmissionsReachedError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "MaxSubmissionsReached", [], options);
+    this.name = "MaxSubmissionsReachedError";
+  }
+}
+
+/** EscrowManager address has not been configured */
+export class EscrowManagerNotSetError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "EscrowManagerNotSet", [], options);
+    this.name = "EscrowManagerNotSetError";
+  }
+}
+
+/** Depositing the reward into escrow failed */
+export class EscrowDepositFailedError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "EscrowDepositFailed", [], options);
+    this.name = "EscrowDepositFailedError";
+  }
+}
+
+/** DataRegistry address has not been configured */
+export class DataRegistryNotSetError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "DataRegistryNotSet", [], options);
+    this.name = "DataRegistryNotSetError";
+  }
+}
+
+/** A zero address was supplied */
+export class InvalidAddressError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "InvalidAddress", [], options);
+    this.name = "InvalidAddressError";
+  }
+}
+
+/** Bounty is not active, has expired, or is full */
+export class BountyNotActiveError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "BountyNotActive", [], options);
+    this.name = "BountyNotActiveError";
+  }
+}
+
+/** Submitted CID is empty */
+export class InvalidCIDError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "InvalidCID", [], options);
+    this.name = "InvalidCIDError";
+  }
+}
+
+/** No submission exists with the given ID */
+export class SubmissionNotFoundError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "SubmissionNotFound", [], options);
+    this.name = "SubmissionNotFoundError";
+  }
+}
+
+/** FunctionsConsumer address has not been configured */
+export class FunctionsConsumerNotSetError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "FunctionsConsumerNotSet", [], options);
+    this.name = "FunctionsConsumerNotSetError";
+  }
+}
+
+/** Releasing the payment to the contributor failed */
+export class PaymentFailedError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "PaymentFailed", [], options);
+    this.name = "PaymentFailedError";
+  }
+}
+
+/** Escrow deposit amount is zero */
+export class InvalidAmountError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "InvalidAmount", [], options);
+    this.name = "InvalidAmountError";
+  }
+}
+
+/** Escrow bounty ID is invalid */
+export class InvalidBountyIdError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "InvalidBountyId", [], options);
+    this.name = "InvalidBountyIdError";
+  }
+}
+
+/** No escrow exists for the bounty */
+export class EscrowNotFoundError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "EscrowNotFound", [], options);
+    this.name = "EscrowNotFoundError";
+  }
+}
+
+/** An escrow already exists for the bounty */
+export class EscrowAlreadyExistsError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "EscrowAlreadyExists", [], options);
+    this.name = "EscrowAlreadyExistsError";
+  }
+}
+
+/** Escrow is not in the required status */
+export class InvalidEscrowStatusError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "InvalidEscrowStatus", [], options);
+    this.name = "InvalidEscrowStatusError";
+  }
+}
+
+/** Transferring escrowed funds failed */
+export class TransferFailedError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "TransferFailed", [], options);
+    this.name = "TransferFailedError";
+  }
+}
+
+/** The registry only accepts commit-reveal submissions */
+export class CommitRequiredError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "CommitRequired", [], options);
+    this.name = "CommitRequiredError";
+  }
+}
+
+/** The commitment has already been made */
+export class CommitmentExistsError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "CommitmentExists", [], options);
+    this.name = "CommitmentExistsError";
+  }
+}
+
+/** No commitment matches the CID, salt and sender */
+export class CommitmentNotFoundError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "CommitmentNotFound", [], options);
+    this.name = "CommitmentNotFoundError";
+  }
+}
+
+/** The reveal delay has not passed since the commitment */
+export class RevealTooEarlyError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "RevealTooEarly", [], options);
+    this.name = "RevealTooEarlyError";
+  }
+}
+
+/** The CID has already been submitted to the bounty */
+export class DuplicateCIDError extends ContractRevertError {
+  constructor(contract: ContractName, options?: { cause?: unknown }) {
+    super(contract, "DuplicateCID", [], options);
+    this.name = "DuplicateCIDError";
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Unit tests for the fetch cache stores
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  IndexedDBCacheStore,
+  MemoryCacheStore,
+  entrySize,
+} from "../src/cache.js";
+import { FileSystemCacheStore } from "../src/fs-cache.js";
+import type { CacheEntry } from "../src/types.js";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+function entry(data: unknown): CacheEntry {
+  return {
+    data,
+    representation:
+      data instanceof Uint8Array
+        ? "bytes"
+        : typeof data === "string"
+          ? "text"
+          : "json",
+    contentType: "application/json",
+    gateway: "https://w3s.link/ipfs/",
+    cachedAt: 1_700_000_000_000,
+    ttl: Infinity,
+  };
+}
+
+describe("entrySize", () => {
+  it("should count bytes, UTF-8 text and serialized JSON", () => {
+    expect(entrySize(entry(new Uint8Array(7)))).toBe(7);
+    expect(entrySize(entry("héllo"))).toBe(6);
+    expect(entrySize(entry({ a: 1 }))).toBe(7);
+    expect(entrySize({ ...entry("json"), representation: "json" })).toBe(6);
+  });
+});
+
+describe("MemoryCacheStore", () => {
+  it("should evict the least recently used entries above maxBytes", async () => {
+    const store = new MemoryCacheStore({ maxBytes: 10 });
+    await store.set("a", entry("aaaa"));
+    await store.set("b", entry("bbbb"));
+    // Reading "a" makes "b" the least recently used
+    await store.get("a");
+    await store.set("c", entry("cccc"));
+
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.stats()).toEqual({
+      keys: ["a", "c"],
+      bytes: 8,
+      maxBytes: 10,
+      evictions: 1,
+    });
+  });
+
+  it("should not cache entries larger than maxBytes", async () => {
+    const store = new MemoryCacheStore({ maxBytes: 4 });
+    await store.set("big", entry("too large"));
+
+    expect(await store.get("big")).toBeUndefined();
+    expect((await store.stats()).bytes).toBe(0);
+  });
+
+  it("should replace an entry without double counting it", async () => {
+    const store = new MemoryCacheStore();
+    await store.set("a", entry("aaaa"));
+    await store.set("a", entry("aa"));
+
+    expect((await store.stats()).bytes).toBe(2);
+    await store.delete("a");
+    expect(await store.stats()).toMatchObject({ keys: [], bytes: 0 });
+  });
+});
+
+describe("FileSystemCacheStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "sdk-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should round-trip bytes, text and JSON across instances", async () => {
+    const writer = new FileSystemCacheStore(directory);
+    await writer.set("bytes", entry(new Uint8Array([1, 2, 3])));
+    await writer.set("text", entry("plain text"));
+    await writer.set("json", { ...entry({ nested: [1, "two"] }), ttl: 5000 });
+
+    const reader = new FileSystemCacheStore(directory);
+    const bytes = await reader.get("bytes");
+    expect(bytes?.data).toBeInstanceOf(Uint8Array);
+    expect(Array.from(bytes?.data as Uint8Array)).toEqual([1, 2, 3]);
+    expect(bytes?.ttl).toBe(Infinity);
+    expect((await reader.get("text"))?.data).toBe("plain text");
+    expect(await reader.get("json")).toEqual({
+      ...entry({ nested: [1, "two"] }),
+      ttl: 5000,
+      verified: undefined,
+    });
+
+    const stats = await reader.stats();
+    expect(stats.keys.sort()).toEqual(["bytes", "json", "text"]);
+    expect(stats.bytes).toBe(3 + 10 + 20);
+  });
+
+  it("should delete and clear entries", async () => {
+    const store = new FileSystemCacheStore(directory);
+    await store.set("a", entry("a"));
+    await store.set("b", entry("b"));
+
+    await store.delete("a");
+    expect(await store.get("a")).toBeUndefined();
+    expect((await store.stats()).keys).toEqual(["b"]);
+
+    await store.clear();
+    expect((await store.stats()).keys).toEqual([]);
+  });
+
+  it("should evict the least recently used files above maxBytes", async () => {
+    const store = new FileSystemCacheStore(directory, { maxBytes: 10 });
+    await store.set("old", entry("aaaaaa"));
+    await tick();
+    await store.set("new", entry("bbbbbb"));
+
+    expect(await store.get("old")).toBeUndefined();
+    expect(await store.stats()).toMatchObject({
+      keys: ["new"],
+      bytes: 6,
+      evictions: 1,
+    });
+  });
+
+  it("should count files written before the store was created", async () => {
+    await new FileSystemCacheStore(directory).set("a", entry("aaaa"));
+    await tick();
+
+    const store = new FileSystemCacheStore(directory, { maxBytes: 10 });
+    await store.set("b", entry("bbbb"));
+    await tick();
+    // Reading "a" makes "b" the least recently used
+    await store.get("a");
+    await store.set("c", entry("cccc"));
+
+    expect((await store.stats()).keys.sort()).toEqual(["a", "c"]);
+    expect((await store.stats()).evictions).toBe(1);
+  });
+
+  it("should stop counting deleted and cleared files", async () => {
+    const store = new FileSystemCacheStore(directory, { maxBytes: 10 });
+    await store.set("a", entry("aaaaaa"));
+    await store.delete("a");
+    await store.set("b", entry("bbbbbb"));
+    await store.clear();
+    await store.set("c", entry("cccccc"));
+
+    expect(await store.stats()).toMatchObject({
+      keys: ["c"],
+      bytes: 6,
+      evictions: 0,
+    });
+  });
+
+  it("should return nothing for a missing directory", async () => {
+    const store = new FileSystemCacheStore(join(directory, "missing"));
+    expect(await store.get("a")).toBeUndefined();
+    expect((await store.stats()).keys).toEqual([]);
+  });
+});
+
+describe("IndexedDBCacheStore", () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it("should round-trip entries across instances", async () => {
+    const bytes = entry(new Uint8Array([1, 2, 3]));
+    const json = { ...entry({ nested: [1, "two"] }), ttl: 5000 };
+    const writer = new IndexedDBCacheStore();
+    await writer.set("bytes", bytes);
+    await writer.set("json", json);
+
+    const reader = new IndexedDBCacheStore();
+    expect(await reader.get("bytes")).toEqual(bytes);
+    expect(await reader.get("json")).toEqual(json);
+    expect(await reader.get("missing")).toBeUndefined();
+
+    const stats = await reader.stats();
+    expect(stats.keys.sort()).toEqual(["bytes", "json"]);
+    expect(stats.bytes).toBe(3 + 20);
+  });
+
+  it("should keep stores with different names apart", async () => {
+    await new IndexedDBCacheStore({ name: "one" }).set("a", entry("a"));
+
+    expect(await new IndexedDBCacheStore({ name: "two" }).get("a")).toBe(
+      undefined,
+    );
+  });
+
+  it("should delete and clear entries", async () => {
+    const store = new IndexedDBCacheStore();
+    await store.set("a", entry("a"));
+    await store.set("b", entry("b"));
+
+    await store.delete("a");
+    expect(await store.get("a")).toBeUndefined();
+    expect((await store.stats()).keys).toEqual(["b"]);
+
+    await store.clear();
+    expect((await store.stats()).keys).toEqual([]);
+  });
+
+  it("should evict the least recently used entries above maxBytes", async () => {
+    const store = new IndexedDBCacheStore({ maxBytes: 10 });
+    await store.set("a", entry("aaaa"));
+    await tick();
+    await store.set("b", entry("bbbb"));
+    await tick();
+    // Reading "a" makes "b" the least recently used
+    await store.get("a");
+    await tick();
+    await store.set("c", entry("cccc"));
+
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.stats()).toEqual({
+      keys: ["a", "c"],
+      bytes: 8,
+      maxBytes: 10,
+      evictions: 1,
+    });
+  });
+
+  it("should not cache entries larger than maxBytes", async () => {
+    const store = new IndexedDBCacheStore({ maxBytes: 4 });
+    await store.set("big", entry("too large"));
+
+    expect(await store.get("big")).toBeUndefined();
+    expect((await store.stats()).evictions).toBe(0);
+  });
+});
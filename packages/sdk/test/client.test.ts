@@ -4,7 +4,14 @@
  */
 
 import { describe, it, expect, vi, beforeEach, type Mock } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import * as Ed25519 from "@storacha/client/principal/ed25519";
+import { StoreMemory } from "@storacha/client/stores/memory";
 import { StorachaBountyClient } from "../src/client.js";
+import { loadAgentCredentials } from "../src/fs-agent.js";
+import { generateAgentKey, importAgentKey } from "../src/keys.js";
 import type {
   AuthorizationStatus,
   SpaceInfo,
@@ -17,6 +24,7 @@ vi.mock("@storacha/client", () => {
   const mockSpace = {
     did: () => "did:key:z6Mktest123",
     name: "test-space",
+    meta: () => ({ name: "test-space" }),
   };
 
   const mockAccount = {
@@ -38,6 +46,11 @@ vi.mock("@storacha/client", () => {
   };
 
   const mockDelegation = {
+    cid: { toString: () => "bafyreidelegation" },
+    issuer: { did: () => "did:key:z6MkAgent123" },
+    audience: { did: () => "did:key:z6MkAudience" },
+    capabilities: [{ can: "upload/add", with: "did:key:z6Mktest123", nb: {} }],
+    expiration: Infinity,
     archive: vi.fn().mockResolvedValue({
       ok: new Uint8Array([1, 2, 3, 4, 5]),
     }),
@@ -55,7 +68,13 @@ vi.mock("@storacha/client", () => {
     remove: vi.fn().mockResolvedValue(undefined),
     createDelegation: vi.fn().mockResolvedValue(mockDelegation),
     proofs: vi.fn().mockReturnValue([]),
+    delegations: vi.fn().mockReturnValue([]),
+    revokeDelegation: vi.fn().mockResolvedValue({ ok: {} }),
     addSpace: vi.fn().mockResolvedValue(mockSpace),
+    capability: {
+      upload: { list: vi.fn() },
+      blob: { list: vi.fn() },
+    },
     agent: {
       did: () => "did:key:z6MkAgent123",
     },
@@ -70,7 +89,7 @@ vi.mock("@storacha/client", () => {
       parse: vi.fn().mockReturnValue(mockCid),
     },
     Delegation: {
-      extract: vi.fn().mockResolvedValue(mockDelegation),
+      extract: vi.fn().mockResolvedValue({ ok: mockDelegation }),
     },
     __mockClient: mockClient,
     __mockSpace: mockSpace,
@@ -83,6 +102,7 @@ vi.mock("@storacha/client", () => {
 interface MockSpace {
   did: () => string;
   name: string;
+  meta: () => { name: string };
 }
 
 interface MockAccount {
@@ -114,9 +134,16 @@ interface MockClient {
   remove: Mock;
   createDelegation: Mock;
   proofs: Mock;
+  delegations: Mock;
+  revokeDelegation: Mock;
   addSpace: Mock;
+  capability: {
+    upload: { list: Mock };
+    blob: { list: Mock };
+  };
   agent: {
     did: () => string;
+    issuer?: unknown;
   };
 }
 
@@ -146,6 +173,8 @@ describe("StorachaBountyClient", () => {
     mockClient.accounts.mockReturnValue({});
     mockClient.spaces.mockReturnValue([]);
     mockClient.currentSpace.mockReturnValue(null);
+    mockClient.proofs.mockReturnValue([]);
+    mockClient.delegations.mockReturnValue([]);
   });
 
   // ============ Client Creation ============
@@ -168,6 +197,117 @@ describe("StorachaBountyClient", () => {
     });
   });
 
+  describe("non-interactive agents", () => {
+    it("should generate and import Ed25519 agent keys", async () => {
+      const key = await generateAgentKey();
+
+      expect(key.did).toMatch(/^did:key:z6Mk/);
+      expect(key.privateKey).toMatch(/^Mg/);
+      expect(importAgentKey(`  ${key.privateKey}\n`)).toEqual(key);
+      expect(() => importAgentKey("not-a-key")).toThrow("Invalid agent key");
+    });
+
+    it("should create a client from a key and a proof", async () => {
+      const key = await generateAgentKey();
+
+      const client = await StorachaBountyClient.fromPrincipal(
+        key.privateKey,
+        btoa(String.fromCharCode(1, 2, 3)),
+      );
+
+      expect(client).toBeInstanceOf(StorachaBountyClient);
+      const options = mockModule.create.mock.calls[0]![0];
+      expect(options.principal.did()).toBe(key.did);
+      expect(options.store).toBeInstanceOf(StoreMemory);
+      expect(mockModule.Delegation.extract).toHaveBeenCalledWith(
+        new Uint8Array([1, 2, 3]),
+      );
+      expect(mockClient.addSpace).toHaveBeenCalled();
+      expect(mockClient.setCurrentSpace).toHaveBeenCalledWith(
+        "did:key:z6Mktest123",
+      );
+    });
+
+    it("should reject unusable keys and proofs before creating a client", async () => {
+      const key = await generateAgentKey();
+
+      await expect(
+        StorachaBountyClient.fromPrincipal("nope", undefined),
+      ).rejects.toThrow("Invalid agent key");
+      await expect(
+        StorachaBountyClient.fromPrincipal(key.privateKey, "mNotAProof"),
+      ).rejects.toThrow("Invalid delegation proof");
+      expect(mockModule.create).not.toHaveBeenCalled();
+    });
+
+    it("should pass the configured store to the Storacha client", async () => {
+      const store = new StoreMemory();
+
+      await StorachaBountyClient.create({
+        store,
+        clientOptions: { principal: "p" },
+      });
+      await StorachaBountyClient.create({ store: "memory" });
+
+      expect(mockModule.create.mock.calls[0]![0]).toEqual({
+        principal: "p",
+        store,
+      });
+      expect(mockModule.create.mock.calls[1]![0].store).toBeInstanceOf(
+        StoreMemory,
+      );
+    });
+
+    it("should export Ed25519 agent keys only", async () => {
+      const signer = await Ed25519.generate();
+      const client = await StorachaBountyClient.create();
+
+      mockClient.agent.issuer = signer;
+      expect(client.exportAgentKey()).toEqual({
+        did: signer.did(),
+        privateKey: Ed25519.format(signer),
+      });
+
+      mockClient.agent.issuer = { signatureAlgorithm: "RS256" };
+      expect(() => client.exportAgentKey()).toThrow(
+        "Cannot export a RS256 agent key",
+      );
+      delete mockClient.agent.issuer;
+    });
+
+    it("should load credentials from the environment and files", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "agent-"));
+      try {
+        expect(
+          await loadAgentCredentials({
+            env: { STORACHA_KEY: " MgKey\n", STORACHA_PROOF: "mProof" },
+          }),
+        ).toEqual({ privateKey: "MgKey", proof: "mProof" });
+
+        await writeFile(join(dir, "key"), "MgFromFile\n");
+        await writeFile(join(dir, "proof.ucan"), new Uint8Array([0x3a, 0xa2]));
+        expect(
+          await loadAgentCredentials({
+            env: {
+              STORACHA_KEY: "MgIgnored",
+              STORACHA_KEY_FILE: join(dir, "key"),
+            },
+            proofFile: join(dir, "proof.ucan"),
+          }),
+        ).toEqual({
+          privateKey: "MgFromFile",
+          proof: new Uint8Array([0x3a, 0xa2]),
+        });
+
+        await expect(loadAgentCredentials({ env: {} })).rejects.toThrow(
+          "No agent key: set STORACHA_KEY or STORACHA_KEY_FILE",
+        );
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
   // ============ Authentication Tests ============
 
   describe("authorize", () => {
@@ -218,6 +358,28 @@ describe("StorachaBountyClient", () => {
       expect(status.account?.email).toBe("test@example.com");
     });
 
+    it("should list every account and report the selected one", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.accounts.mockReturnValue({
+        "did:mailto:example.com:test": mockAccount,
+        "did:mailto:example.com:work": { email: () => "work@example.com" },
+      });
+
+      const status = await client.getAuthorizationStatus("work@example.com");
+
+      expect(status.accounts?.map((a) => a.email)).toEqual([
+        "test@example.com",
+        "work@example.com",
+      ]);
+      expect(status.account).toEqual({
+        did: "did:mailto:example.com:work",
+        email: "work@example.com",
+      });
+      await expect(
+        client.getAuthorizationStatus("did:mailto:example.com:nobody"),
+      ).rejects.toThrow("is not authorized");
+    });
+
     it("should include current space when set", async () => {
       const client = await StorachaBountyClient.create();
       mockClient.accounts.mockReturnValue({
@@ -290,6 +452,8 @@ describe("StorachaBountyClient", () => {
       mockClient.accounts.mockReturnValue({
         "did:key:z6MkAccount": mockAccount,
       });
+      const created = { ...mockSpace, name: "my-bounty-space" };
+      mockClient.createSpace.mockResolvedValueOnce(created);
 
       const space: SpaceInfo = await client.createSpace({
         name: "my-bounty-space",
@@ -302,6 +466,48 @@ describe("StorachaBountyClient", () => {
       expect(space.name).toBe("my-bounty-space");
     });
 
+    it("should return the space as the agent saved it", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.accounts.mockReturnValue({
+        "did:key:z6MkAccount": mockAccount,
+      });
+      mockClient.spaces.mockReturnValue([
+        { ...mockSpace, name: "saved-name", access: { type: "private" } },
+      ]);
+
+      const space = await client.createSpace({ name: "requested-name" });
+
+      expect(space).toEqual({
+        did: "did:key:z6Mktest123",
+        name: "saved-name",
+        access: "private",
+        isCurrentSpace: true,
+      });
+    });
+
+    it("should provision the space with the selected account", async () => {
+      const client = await StorachaBountyClient.create();
+      const work = { email: () => "work@example.com" };
+      mockClient.accounts.mockReturnValue({
+        "did:mailto:example.com:test": mockAccount,
+        "did:mailto:example.com:work": work,
+      });
+
+      await client.createSpace({ account: "work@example.com" });
+      expect(mockClient.createSpace).toHaveBeenLastCalledWith("bounty-space", {
+        account: work,
+      });
+
+      await client.createSpace({ account: "did:mailto:example.com:test" });
+      expect(mockClient.createSpace).toHaveBeenLastCalledWith("bounty-space", {
+        account: mockAccount,
+      });
+
+      await expect(
+        client.createSpace({ account: "other@example.com" }),
+      ).rejects.toThrow("Account other@example.com is not authorized");
+    });
+
     it("should automatically set created space as current", async () => {
       const client = await StorachaBountyClient.create();
       mockClient.accounts.mockReturnValue({
@@ -369,6 +575,79 @@ describe("StorachaBountyClient", () => {
     });
   });
 
+  describe("getSpaceUsage", () => {
+    function spaceWithUsage(usage: unknown) {
+      return { ...mockSpace, usage: { get: vi.fn().mockResolvedValue(usage) } };
+    }
+
+    it("should report bytes stored against the account's plan", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.spaces.mockReturnValue([spaceWithUsage({ ok: 2048n })]);
+      mockClient.accounts.mockReturnValue({
+        "did:mailto:example.com:test": {
+          ...mockAccount,
+          plan: {
+            get: vi.fn().mockResolvedValue({
+              ok: {
+                product: "did:web:starter.storacha.network",
+                limit: "5368709120",
+              },
+            }),
+          },
+        },
+      });
+
+      const usage = await client.getSpaceUsage("did:key:z6Mktest123");
+
+      expect(usage).toEqual({
+        did: "did:key:z6Mktest123",
+        bytesStored: 2048n,
+        quota: 5368709120n,
+        account: "did:mailto:example.com:test",
+        plan: "did:web:starter.storacha.network",
+      });
+    });
+
+    it("should leave the quota unknown without an account or limit", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.spaces.mockReturnValue([spaceWithUsage({ ok: undefined })]);
+
+      expect(await client.getSpaceUsage("did:key:z6Mktest123")).toEqual({
+        did: "did:key:z6Mktest123",
+        bytesStored: 0n,
+        quota: null,
+      });
+
+      mockClient.accounts.mockReturnValue({
+        "did:mailto:example.com:test": {
+          ...mockAccount,
+          plan: {
+            get: vi.fn().mockResolvedValue({
+              ok: { product: "did:web:starter.storacha.network" },
+            }),
+          },
+        },
+      });
+      const usage = await client.getSpaceUsage("did:key:z6Mktest123");
+      expect(usage.quota).toBeNull();
+      expect(usage.plan).toBe("did:web:starter.storacha.network");
+    });
+
+    it("should reject unknown spaces and failed reports", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.spaces.mockReturnValue([
+        spaceWithUsage({ error: { message: "no provider" } }),
+      ]);
+
+      await expect(client.getSpaceUsage("did:key:z6MkOther")).rejects.toThrow(
+        "Unknown space did:key:z6MkOther",
+      );
+      await expect(client.getSpaceUsage("did:key:z6Mktest123")).rejects.toThrow(
+        "Failed to get usage of did:key:z6Mktest123: no provider",
+      );
+    });
+  });
+
   describe("setCurrentSpace", () => {
     it("should call client.setCurrentSpace", async () => {
       const client = await StorachaBountyClient.create();
@@ -500,6 +779,103 @@ describe("StorachaBountyClient", () => {
         size: 100,
       });
     });
+
+    it("should report progress as shard bytes are sent", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.currentSpace.mockReturnValue(mockSpace);
+      const file = new Blob(["x".repeat(100)]);
+      const onProgress = vi.fn();
+
+      mockClient.uploadFile.mockImplementationOnce(
+        (
+          _blob: Blob,
+          options: {
+            onShardStored: (meta: { cid: unknown; size: number }) => void;
+            onUploadProgress: (status: {
+              loaded: number;
+              total: number;
+              url?: string;
+            }) => void;
+          },
+        ) => {
+          options.onUploadProgress({ loaded: 40, total: 120, url: "u1" });
+          // A retried request starts again from 0
+          options.onUploadProgress({ loaded: 10, total: 120, url: "u1" });
+          options.onUploadProgress({ loaded: 120, total: 120, url: "u1" });
+          options.onShardStored({ cid: mockCid, size: 120 });
+          return Promise.resolve(mockCid);
+        },
+      );
+
+      await client.uploadFile(file, { onProgress });
+
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { bytesSent: 40, totalBytes: 100, shards: 0 },
+        { bytesSent: 10, totalBytes: 100, shards: 0 },
+        { bytesSent: 100, totalBytes: 100, shards: 0 },
+        { bytesSent: 100, totalBytes: 100, shards: 1 },
+        { bytesSent: 100, totalBytes: 100, shards: 1 },
+      ]);
+    });
+
+    it("should pass shard size, retries and signal to the client", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.currentSpace.mockReturnValue(mockSpace);
+      const { signal } = new AbortController();
+
+      await client.uploadFile(new Blob(["test"]), {
+        shardSize: 1024 * 1024,
+        retries: 5,
+        signal,
+      });
+
+      expect(mockClient.uploadFile).toHaveBeenCalledWith(
+        expect.any(Blob),
+        expect.objectContaining({ shardSize: 1024 * 1024, retries: 5, signal }),
+      );
+    });
+
+    it("should not start an upload that was already aborted", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.currentSpace.mockReturnValue(mockSpace);
+      mockClient.uploadFile.mockClear();
+      const controller = new AbortController();
+      controller.abort(new Error("cancelled"));
+
+      await expect(
+        client.uploadFile(new Blob(["test"]), { signal: controller.signal }),
+      ).rejects.toThrow("cancelled");
+      expect(mockClient.uploadFile).not.toHaveBeenCalled();
+    });
+
+    it("should stop between shards when aborted", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.currentSpace.mockReturnValue(mockSpace);
+      const controller = new AbortController();
+      const onShardStored = vi.fn();
+
+      mockClient.uploadFile.mockImplementationOnce(
+        async (
+          _blob: Blob,
+          options: {
+            onShardStored: (meta: { cid: unknown; size: number }) => void;
+          },
+        ) => {
+          options.onShardStored({ cid: mockCid, size: 100 });
+          controller.abort(new Error("cancelled"));
+          options.onShardStored({ cid: mockCid, size: 100 });
+          return mockCid;
+        },
+      );
+
+      await expect(
+        client.uploadFile(new Blob(["test"]), {
+          signal: controller.signal,
+          onShardStored,
+        }),
+      ).rejects.toThrow("cancelled");
+      expect(onShardStored).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe("uploadDirectory", () => {
@@ -630,6 +1006,7 @@ describe("StorachaBountyClient", () => {
       );
 
       expect(mockClient.createDelegation).toHaveBeenCalled();
+      expect(result.cid).toBe("bafyreidelegation");
       expect(result.archive).toBeInstanceOf(Uint8Array);
       expect(result.base64).toBeDefined();
     });
@@ -667,6 +1044,92 @@ describe("StorachaBountyClient", () => {
     });
   });
 
+  describe("createBountyDelegation", () => {
+    const deadline = () => Math.floor(Date.now() / 1000) + 86400;
+
+    it("should delegate only blob and upload adds until the deadline", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.currentSpace.mockReturnValue(mockSpace);
+      const expiration = deadline();
+
+      const result = await client.createBountyDelegation(
+        "did:key:z6MkAudience",
+        { bountyId: 42n, deadline: BigInt(expiration), maxShardSize: 1024 },
+      );
+
+      expect(result.cid).toBe("bafyreidelegation");
+      expect(mockClient.createDelegation).toHaveBeenCalledWith(
+        expect.any(Object),
+        ["space/blob/add", "upload/add"],
+        {
+          expiration,
+          capabilities: [
+            {
+              can: "space/blob/add",
+              with: "did:key:z6Mktest123",
+              nb: { blob: { size: 1024 } },
+            },
+            { can: "upload/add", with: "did:key:z6Mktest123" },
+          ],
+          facts: [{ space: { name: "test-space" } }, { bounty: { id: "42" } }],
+        },
+      );
+    });
+
+    it("should accept a Date deadline and leave blob size uncapped", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.currentSpace.mockReturnValue(mockSpace);
+      const expiration = deadline();
+
+      await client.createBountyDelegation("did:key:z6MkAudience", {
+        bountyId: 1,
+        deadline: new Date(expiration * 1000),
+      });
+
+      const options = mockClient.createDelegation.mock.calls[0]![2];
+      expect(options.expiration).toBe(expiration);
+      expect(options.capabilities[0]).not.toHaveProperty("nb");
+    });
+
+    it("should refuse deadlines that have passed and bad size caps", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.currentSpace.mockReturnValue(mockSpace);
+
+      await expect(
+        client.createBountyDelegation("did:key:z6MkAudience", {
+          bountyId: 1,
+          deadline: Math.floor(Date.now() / 1000) - 60,
+        }),
+      ).rejects.toThrow("Bounty 1 deadline has passed");
+      await expect(
+        client.createBountyDelegation("did:key:z6MkAudience", {
+          bountyId: 1,
+          deadline: deadline(),
+          maxShardSize: 0,
+        }),
+      ).rejects.toThrow("maxShardSize must be a positive integer");
+      expect(mockClient.createDelegation).not.toHaveBeenCalled();
+    });
+
+    it("should report the bounty when a contributor inspects the proof", async () => {
+      const client = await StorachaBountyClient.create();
+      mockModule.Delegation.extract.mockResolvedValueOnce({
+        ok: {
+          cid: { toString: () => "bafy-bounty" },
+          issuer: { did: () => "did:key:z6MkCreator" },
+          audience: { did: () => "did:key:z6MkAgent123" },
+          capabilities: [{ can: "upload/add", with: "did:key:z6Mktest123" }],
+          expiration: deadline(),
+          facts: [{ space: { name: "data" } }, { bounty: { id: "42" } }],
+        },
+      });
+
+      const info = await client.inspectDelegation(new Uint8Array([1]));
+
+      expect(info.bountyId).toBe(42n);
+    });
+  });
+
   describe("getProofs", () => {
     it("should return empty array when no proofs", async () => {
       const client = await StorachaBountyClient.create();
@@ -688,6 +1151,162 @@ describe("StorachaBountyClient", () => {
     });
   });
 
+  describe("delegation management", () => {
+    const now = () => Math.floor(Date.now() / 1000);
+
+    function fakeDelegation(
+      cid: string,
+      expiration: number,
+      audience = "did:key:z6MkAudience",
+    ) {
+      return {
+        cid: { toString: () => cid },
+        issuer: { did: () => "did:key:z6MkAgent123" },
+        audience: { did: () => audience },
+        capabilities: [
+          { can: "upload/add", with: "did:key:z6Mktest123", nb: {} },
+          {
+            can: "blob/add",
+            with: "did:key:z6Mktest123",
+            nb: { size: 1024 },
+          },
+        ],
+        expiration,
+      };
+    }
+
+    it("should list issued delegations soonest expiry first", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.delegations.mockReturnValue([
+        fakeDelegation("bafy-forever", Infinity),
+        fakeDelegation("bafy-week", now() + 30 * 86400),
+        fakeDelegation("bafy-expired", now() - 60),
+      ]);
+
+      const delegations = client.listDelegations();
+
+      expect(delegations.map((d) => d.cid)).toEqual([
+        "bafy-expired",
+        "bafy-week",
+        "bafy-forever",
+      ]);
+      expect(delegations[0]).toMatchObject({ expired: true });
+      expect(delegations[2]).toMatchObject({
+        issuer: "did:key:z6MkAgent123",
+        audience: "did:key:z6MkAudience",
+        capabilities: [
+          { can: "upload/add", with: "did:key:z6Mktest123" },
+          { can: "blob/add", with: "did:key:z6Mktest123", nb: { size: 1024 } },
+        ],
+        expiration: null,
+        expired: false,
+        expiringSoon: false,
+      });
+      expect(delegations[2]!.capabilities[0]).not.toHaveProperty("nb");
+
+      expect(
+        client.listDelegations({ includeExpired: false }).map((d) => d.cid),
+      ).toEqual(["bafy-week", "bafy-forever"]);
+    });
+
+    it("should list received proofs", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.proofs.mockReturnValue([
+        fakeDelegation("bafy-proof", Infinity, "did:key:z6MkAgent123"),
+      ]);
+
+      const proofs = client.listDelegations({ direction: "received" });
+
+      expect(proofs).toHaveLength(1);
+      expect(proofs[0]!.audience).toBe("did:key:z6MkAgent123");
+    });
+
+    it("should inspect a proof without importing it", async () => {
+      const client = await StorachaBountyClient.create();
+
+      const info = await client.inspectDelegation(
+        btoa(String.fromCharCode(1, 2, 3)),
+      );
+
+      expect(mockModule.Delegation.extract).toHaveBeenCalledWith(
+        new Uint8Array([1, 2, 3]),
+      );
+      expect(info).toMatchObject({
+        cid: "bafyreidelegation",
+        audience: "did:key:z6MkAudience",
+        expiration: null,
+      });
+      expect(mockClient.addSpace).not.toHaveBeenCalled();
+    });
+
+    it("should reject bytes that are not a delegation", async () => {
+      const client = await StorachaBountyClient.create();
+      mockModule.Delegation.extract.mockResolvedValueOnce({
+        error: new Error("bad archive"),
+      });
+
+      await expect(
+        client.inspectDelegation(new Uint8Array([9])),
+      ).rejects.toThrow("Invalid delegation proof");
+    });
+
+    it("should revoke a delegation by CID", async () => {
+      const client = await StorachaBountyClient.create();
+
+      await client.revokeDelegation("bafyreidelegation");
+
+      expect(mockModule.Link.parse).toHaveBeenCalledWith("bafyreidelegation");
+      expect(mockClient.revokeDelegation).toHaveBeenCalledWith(mockCid);
+    });
+
+    it("should surface revocation failures", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.revokeDelegation.mockResolvedValueOnce({
+        error: { name: "Unauthorized", message: "not the issuer" },
+      });
+
+      await expect(client.revokeDelegation("bafy-x")).rejects.toThrow(
+        "Failed to revoke delegation bafy-x: not the issuer",
+      );
+    });
+
+    it("should warn about delegations about to expire", async () => {
+      mockClient.delegations.mockReturnValue([
+        fakeDelegation("bafy-soon", now() + 3600),
+        fakeDelegation("bafy-later", now() + 30 * 86400),
+        fakeDelegation("bafy-expired", now() - 60),
+      ]);
+      mockClient.proofs.mockReturnValue([
+        fakeDelegation("bafy-proof", now() + 2 * 86400, "did:key:z6MkAgent123"),
+      ]);
+      const onExpiring = vi.fn();
+
+      const client = await StorachaBountyClient.create({
+        delegationExpiry: { onExpiring },
+      });
+
+      expect(onExpiring).toHaveBeenCalledTimes(1);
+      expect(
+        onExpiring.mock.calls[0]![0].map((d: { cid: string }) => d.cid),
+      ).toEqual(["bafy-soon", "bafy-proof"]);
+
+      // A shorter window only keeps the first
+      const narrow = await StorachaBountyClient.create({
+        delegationExpiry: { warnWithin: 86400 },
+      });
+      expect(narrow.checkExpiringDelegations().map((d) => d.cid)).toEqual([
+        "bafy-soon",
+      ]);
+      expect(
+        client.listDelegations().map((d) => [d.cid, d.expiringSoon]),
+      ).toEqual([
+        ["bafy-expired", false],
+        ["bafy-soon", true],
+        ["bafy-later", false],
+      ]);
+    });
+  });
+
   // ============ Content Management Tests ============
 
   describe("remove", () => {
@@ -722,6 +1341,117 @@ describe("StorachaBountyClient", () => {
     });
   });
 
+  describe("listUploads", () => {
+    const shard = (byte: number) => ({
+      toString: () => `bagbaiera${byte}`,
+      multihash: { bytes: new Uint8Array([0x12, byte]) },
+    });
+    const upload = (root: string, shards = [shard(1)]) => ({
+      root: { toString: () => root },
+      shards,
+      insertedAt: "2024-03-01T00:00:00.000Z",
+      updatedAt: "2024-03-02T00:00:00.000Z",
+    });
+
+    it("should page through uploads with shard sizes", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.currentSpace.mockReturnValue(mockSpace);
+      mockClient.capability.upload.list
+        .mockResolvedValueOnce({
+          results: [upload("bafy-a"), upload("bafy-b", [shard(1), shard(2)])],
+          cursor: "page-2",
+          size: 2,
+        })
+        .mockResolvedValueOnce({ results: [upload("bafy-c", [])], size: 1 });
+      mockClient.capability.blob.list.mockResolvedValueOnce({
+        results: [
+          { blob: { digest: new Uint8Array([0x12, 1]), size: 100 } },
+          { blob: { digest: new Uint8Array([0x12, 2]), size: 50 } },
+        ],
+        size: 2,
+      });
+
+      const uploads = [];
+      for await (const entry of client.listUploads({ size: 2 })) {
+        uploads.push(entry);
+      }
+
+      expect(uploads.map(({ root, size }) => [root, size])).toEqual([
+        ["bafy-a", 100],
+        ["bafy-b", 150],
+        ["bafy-c", null],
+      ]);
+      expect(uploads[1]).toMatchObject({
+        shards: ["bagbaiera1", "bagbaiera2"],
+        insertedAt: new Date("2024-03-01T00:00:00.000Z"),
+        cursor: "page-2",
+      });
+      expect(mockClient.capability.upload.list.mock.calls).toEqual([
+        [{ size: 2 }],
+        [{ cursor: "page-2", size: 2 }],
+      ]);
+      expect(mockClient.capability.blob.list).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop at an empty page", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.currentSpace.mockReturnValue(mockSpace);
+      mockClient.capability.upload.list.mockResolvedValueOnce({
+        results: [],
+        cursor: "page-1",
+        size: 0,
+      });
+
+      const uploads = [];
+      for await (const entry of client.listUploads({ cursor: "page-1" })) {
+        uploads.push(entry);
+      }
+
+      expect(uploads).toEqual([]);
+      expect(mockClient.capability.upload.list).toHaveBeenCalledTimes(1);
+      expect(mockClient.capability.blob.list).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("removeMany", () => {
+    it("should not remove anything in a dry run", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.currentSpace.mockReturnValue(mockSpace);
+
+      const result = await client.removeMany(["bafy-a", "bafy-b", "bafy-a"], {
+        dryRun: true,
+      });
+
+      expect(result).toEqual({
+        dryRun: true,
+        removed: ["bafy-a", "bafy-b"],
+        failed: [],
+      });
+      expect(mockClient.remove).not.toHaveBeenCalled();
+    });
+
+    it("should continue past failures", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.currentSpace.mockReturnValue(mockSpace);
+      mockClient.remove
+        .mockRejectedValueOnce(new Error("upload not found"))
+        .mockResolvedValueOnce(undefined);
+
+      const result = await client.removeMany(["bafy-a", "bafy-b"], {
+        shards: true,
+      });
+
+      expect(result).toEqual({
+        dryRun: false,
+        removed: ["bafy-b"],
+        failed: [{ root: "bafy-a", error: "upload not found" }],
+      });
+      expect(mockClient.remove).toHaveBeenCalledWith(mockCid, {
+        shards: true,
+      });
+    });
+  });
+
   describe("getRetrievalUrl", () => {
     it("should return correct IPFS gateway URL for string CID", async () => {
       const client = await StorachaBountyClient.create();
@@ -800,6 +1530,20 @@ describe("StorachaBountyClient", () => {
       expect(result).toHaveProperty("cidString");
       expect(typeof result.cidString).toBe("string");
     });
+
+    it("should contain the size of the uploaded content", async () => {
+      const client = await StorachaBountyClient.create();
+      mockClient.currentSpace.mockReturnValue(mockSpace);
+
+      const file = await client.uploadFile(new Blob(["test"]));
+      const directory = await client.uploadDirectory([
+        new File(["content1"], "file1.txt"),
+        new File(["abc"], "file2.txt"),
+      ]);
+
+      expect(file.size).toBe(4);
+      expect(directory.size).toBe(11);
+    });
   });
 
   // ============ Error Scenarios and Edge Cases ============
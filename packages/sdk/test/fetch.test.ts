@@ -12,9 +12,20 @@ import {
   afterEach,
   type Mock,
 } from "vitest";
+import { createHash } from "node:crypto";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { IntegrityError } from "@storacha-chainlink/functions/integrity";
+import { MemoryCacheStore } from "../src/cache.js";
 import { StorachaBountyClient } from "../src/client.js";
+import { downloadToFile } from "../src/download.js";
 import { DEFAULT_GATEWAYS, IPFSFetchError } from "../src/types.js";
-import type { FetchResult, FetchRawResult } from "../src/types.js";
+import type {
+  FetchResult,
+  FetchRawResult,
+  GatewayStatsSnapshot,
+} from "../src/types.js";
 
 // Mock the @storacha/client module
 vi.mock("@storacha/client", () => {
@@ -34,6 +45,173 @@ vi.mock("@storacha/client", () => {
 // Store original fetch
 const originalFetch = global.fetch;
 
+const BASE32 = "abcdefghijklmnopqrstuvwxyz234567";
+
+function varint(value: number): number[] {
+  const out: number[] = [];
+  while (value >= 0x80) {
+    out.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  return [...out, value];
+}
+
+/**
+ * Hash a block into a CIDv1 with the given codec
+ */
+function blockCid(codec: number, data: Uint8Array) {
+  const digest = createHash("sha256").update(data).digest();
+  const bytes = Uint8Array.from([0x01, codec, 0x12, 0x20, ...digest]);
+
+  let cid = "b";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      cid += BASE32[(buffer >> bits) & 31];
+    }
+  }
+  if (bits > 0) cid += BASE32[(buffer << (5 - bits)) & 31];
+  return { cid, bytes };
+}
+
+/**
+ * Encode a CARv1 with a single root
+ */
+function encodeCar(
+  root: Uint8Array,
+  blocks: Array<[cid: Uint8Array, data: Uint8Array]>,
+): Uint8Array {
+  // dag-cbor { roots: [CID], version: 1 }
+  const header = Uint8Array.from([
+    0xa2,
+    0x65,
+    ...new TextEncoder().encode("roots"),
+    0x81,
+    0xd8,
+    0x2a,
+    0x58,
+    root.length + 1,
+    0x00,
+    ...root,
+    0x67,
+    ...new TextEncoder().encode("version"),
+    0x01,
+  ]);
+  return Uint8Array.from([
+    ...varint(header.length),
+    ...header,
+    ...blocks.flatMap(([cid, data]) => [
+      ...varint(cid.length + data.length),
+      ...cid,
+      ...data,
+    ]),
+  ]);
+}
+
+/**
+ * Build a single-block CAR for a raw CIDv1, as a trustless gateway serves it
+ */
+function rawCar(content: string): { cid: string; car: Uint8Array } {
+  const data = new TextEncoder().encode(content);
+  const { cid, bytes } = blockCid(0x55, data);
+  return { cid, car: encodeCar(bytes, [[bytes, data]]) };
+}
+
+/**
+ * Build a CAR for a flat UnixFS directory of raw-leaf files
+ * @param withFiles - Include the file blocks, as for `dag-scope=all`
+ */
+function directoryCar(files: Record<string, string>, withFiles = true) {
+  const leaves = Object.entries(files).map(([name, content]) => {
+    const data = new TextEncoder().encode(content);
+    return { name, data, ...blockCid(0x55, data) };
+  });
+  // dag-pb PBNode: Links (field 2) of { Hash, Name, Tsize }, then Data
+  // (field 1) holding UnixFS { Type: Directory }
+  const node = Uint8Array.from([
+    ...leaves.flatMap(({ name, data, bytes }) => {
+      const nameBytes = new TextEncoder().encode(name);
+      const link = [
+        0x0a,
+        bytes.length,
+        ...bytes,
+        0x12,
+        nameBytes.length,
+        ...nameBytes,
+        0x18,
+        ...varint(data.length),
+      ];
+      return [0x12, link.length, ...link];
+    }),
+    0x0a,
+    0x02,
+    0x08,
+    0x01,
+  ]);
+  const root = blockCid(0x70, node);
+  const car = encodeCar(root.bytes, [
+    [root.bytes, node],
+    ...(withFiles
+      ? leaves.map(({ bytes, data }): [Uint8Array, Uint8Array] => [bytes, data])
+      : []),
+  ]);
+  return {
+    cid: root.cid,
+    car,
+    files: Object.fromEntries(leaves.map(({ name, cid }) => [name, cid])),
+  };
+}
+
+/**
+ * A streamed response that sends `chunks`, then errors if `broken`
+ */
+function streamResponse(
+  chunks: string[],
+  options: {
+    status?: number;
+    headers?: Record<string, string>;
+    broken?: boolean;
+    stalled?: boolean;
+  } = {},
+): Response {
+  const encoder = new TextEncoder();
+  const queue = [...chunks];
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = queue.shift();
+      if (chunk !== undefined) {
+        controller.enqueue(encoder.encode(chunk));
+      } else if (options.broken) {
+        controller.error(new Error("Connection reset"));
+      } else if (options.stalled) {
+        return new Promise<void>(() => {});
+      } else {
+        controller.close();
+      }
+    },
+  });
+  return new Response(body, {
+    status: options.status ?? 200,
+    headers: options.headers,
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+function carResponse(car: Uint8Array) {
+  return {
+    ok: true,
+    headers: new Headers({ "content-type": "application/vnd.ipld.car" }),
+    arrayBuffer: () => Promise.resolve(car.slice().buffer),
+  };
+}
+
 describe("IPFS Data Retrieval", () => {
   let client: StorachaBountyClient;
   let mockFetch: Mock;
@@ -43,7 +221,7 @@ describe("IPFS Data Retrieval", () => {
     client = await StorachaBountyClient.create();
 
     // Clear the cache before each test
-    client.clearCache();
+    await client.clearCache();
 
     // Setup mock fetch
     mockFetch = vi.fn();
@@ -176,7 +354,7 @@ describe("IPFS Data Retrieval", () => {
       client = await StorachaBountyClient.create({
         serviceUrl: "https://custom.gateway/ipfs/",
       });
-      client.clearCache();
+      await client.clearCache();
       const testData = { fromCustomGateway: true };
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -326,6 +504,659 @@ describe("IPFS Data Retrieval", () => {
     });
   });
 
+  // ============ Trustless Retrieval Tests ============
+
+  describe("trustless retrieval", () => {
+    it("should request a CAR and return the verified content", async () => {
+      const { cid, car } = rawCar('{"verified":true}');
+      mockFetch.mockResolvedValueOnce(carResponse(car));
+
+      const result = await client.fetchByCID(cid, { trustless: true });
+
+      expect(result.data).toEqual({ verified: true });
+      expect(result.contentType).toBe("application/json");
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${DEFAULT_GATEWAYS[0]}${cid}?format=car`,
+        expect.objectContaining({
+          headers: { Accept: "application/vnd.ipld.car" },
+        }),
+      );
+    });
+
+    it("should skip a gateway whose content does not match the CID", async () => {
+      const requested = rawCar("requested");
+      const substituted = rawCar("substituted");
+      mockFetch
+        .mockResolvedValueOnce(carResponse(substituted.car))
+        .mockResolvedValueOnce(carResponse(requested.car));
+
+      const result = await client.fetchRawByCID(requested.cid, {
+        trustless: true,
+      });
+
+      expect(new TextDecoder().decode(result.data)).toBe("requested");
+      expect(result.gateway).toBe(DEFAULT_GATEWAYS[1]);
+      // The mismatching gateway is not retried
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report integrity failures in IPFSFetchError", async () => {
+      const { cid, car } = rawCar("original");
+      car[car.length - 1]! ^= 1;
+      mockFetch.mockResolvedValue(carResponse(car));
+
+      const error = await client
+        .fetchByCID(cid, {
+          trustless: true,
+          gateways: ["https://gateway1.com/ipfs/"],
+        })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(IPFSFetchError);
+      const gatewayError = (error as IPFSFetchError).gatewayErrors.get(
+        "https://gateway1.com/ipfs/",
+      );
+      expect(gatewayError).toBeInstanceOf(IntegrityError);
+      expect(gatewayError?.message).toContain("does not match its hash");
+    });
+
+    it("should not serve unverified cache entries", async () => {
+      const { cid, car } = rawCar("cached");
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({ "content-type": "text/plain" }),
+          text: () => Promise.resolve("cached"),
+        })
+        .mockResolvedValueOnce(carResponse(car));
+
+      await client.fetchByCID(cid);
+      const result = await client.fetchByCID(cid, { trustless: true });
+
+      expect(result.cached).toBe(false);
+      expect(result.data).toBe("cached");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  // ============ Path and Directory Tests ============
+
+  describe("paths and directories", () => {
+    it("should URL-encode each segment of a path below the CID", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        headers: new Headers({ "content-type": "application/json" }),
+        json: () => Promise.resolve({ ok: true }),
+      });
+
+      const result = await client.fetchByCID("bafytest123/data/my file#1.json");
+
+      expect(result.cid).toBe("bafytest123/data/my file#1.json");
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${DEFAULT_GATEWAYS[0]}bafytest123/data/my%20file%231.json`,
+        expect.any(Object),
+      );
+    });
+
+    it("should read a path from a verified directory CAR", async () => {
+      const { cid, car } = directoryCar({ "a.json": '{"a":1}', "b.txt": "b" });
+      mockFetch.mockResolvedValueOnce(carResponse(car));
+
+      const result = await client.fetchByCID(`${cid}/a.json`, {
+        trustless: true,
+      });
+
+      expect(result.data).toEqual({ a: 1 });
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${DEFAULT_GATEWAYS[0]}${cid}/a.json?format=car`,
+        expect.any(Object),
+      );
+    });
+
+    it("should reject dot segments", async () => {
+      await expect(client.fetchByCID("bafytest123/../other")).rejects.toThrow(
+        '"." and ".." are not allowed',
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should list a directory with names, sizes and CIDs", async () => {
+      const { cid, car, files } = directoryCar(
+        { "a.json": '{"a":1}', "notes.txt": "hello" },
+        false,
+      );
+      mockFetch.mockResolvedValueOnce(carResponse(car));
+
+      const entries = await client.listDirectory(cid);
+
+      expect(entries).toEqual([
+        { name: "a.json", cid: files["a.json"], size: 7, type: "file" },
+        { name: "notes.txt", cid: files["notes.txt"], size: 5, type: "file" },
+      ]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${DEFAULT_GATEWAYS[0]}${cid}?format=car&dag-scope=entity`,
+        expect.objectContaining({
+          headers: { Accept: "application/vnd.ipld.car" },
+        }),
+      );
+    });
+
+    it("should fail to list content that is not a directory", async () => {
+      const { cid, car } = rawCar("not a directory");
+      mockFetch.mockResolvedValue(carResponse(car));
+
+      const error = await client
+        .listDirectory(cid, { gateways: ["https://gateway1.com/ipfs/"] })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(IPFSFetchError);
+      expect(
+        (error as IPFSFetchError).gatewayErrors.get(
+          "https://gateway1.com/ipfs/",
+        ),
+      ).toBeInstanceOf(IntegrityError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ============ Fetch Strategy Tests ============
+
+  describe("fetch strategies", () => {
+    const gateways = [
+      "https://slow.example/ipfs/",
+      "https://fast.example/ipfs/",
+    ];
+
+    /**
+     * The slow gateway answers after 200ms unless its request is aborted
+     */
+    function mockGateways(): AbortSignal[] {
+      const signals: AbortSignal[] = [];
+      mockFetch.mockImplementation(
+        (url: string, init: { signal: AbortSignal }) => {
+          signals.push(init.signal);
+          const response = {
+            ok: true,
+            headers: new Headers({ "content-type": "application/json" }),
+            json: () => Promise.resolve({ from: url }),
+          };
+          if (url.startsWith(gateways[1]!)) return Promise.resolve(response);
+          return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => resolve(response), 200);
+            init.signal.addEventListener("abort", () => {
+              clearTimeout(timer);
+              reject(new Error("This operation was aborted"));
+            });
+          });
+        },
+      );
+      return signals;
+    }
+
+    it("should report each attempt for sequential fetches", async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error("Connection refused"))
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({ "content-type": "application/json" }),
+          json: () => Promise.resolve({ ok: true }),
+        });
+
+      const result = await client.fetchByCID("bafytest123", {
+        maxRetries: 0,
+        gateways,
+      });
+
+      expect(result.gateway).toBe(gateways[1]);
+      expect(result.attempts).toHaveLength(2);
+      expect(result.attempts[0]).toMatchObject({
+        gateway: gateways[0],
+        outcome: "failed",
+      });
+      expect(result.attempts[0]!.error?.message).toBe("Connection refused");
+      expect(result.attempts[1]).toMatchObject({
+        gateway: gateways[1],
+        outcome: "success",
+      });
+      expect(result.attempts[1]!.duration).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should race every gateway and abort the losers", async () => {
+      const signals = mockGateways();
+
+      const result = await client.fetchByCID("bafytest123", {
+        strategy: "race",
+        gateways,
+      });
+
+      expect(result.gateway).toBe(gateways[1]);
+      expect(result.data).toEqual({ from: `${gateways[1]}bafytest123` });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(signals[0]!.aborted).toBe(true);
+      expect(result.attempts.map((a) => a.outcome)).toEqual([
+        "aborted",
+        "success",
+      ]);
+    });
+
+    it("should start the next gateway after the hedge delay", async () => {
+      mockGateways();
+
+      const result = await client.fetchByCID("bafytest123", {
+        strategy: "hedged",
+        hedgeDelay: 30,
+        gateways,
+      });
+
+      expect(result.gateway).toBe(gateways[1]);
+      expect(result.attempts[0]).toMatchObject({ outcome: "aborted" });
+      expect(result.attempts[0]!.duration).toBeGreaterThanOrEqual(25);
+      expect(result.attempts[0]!.duration).toBeLessThan(200);
+    });
+
+    it("should not hedge when the first gateway answers in time", async () => {
+      mockGateways();
+
+      const result = await client.fetchByCID("bafytest123", {
+        strategy: "hedged",
+        hedgeDelay: 1000,
+        gateways,
+      });
+
+      expect(result.gateway).toBe(gateways[0]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.attempts).toHaveLength(1);
+    });
+
+    it("should throw IPFSFetchError when every raced gateway fails", async () => {
+      mockFetch.mockRejectedValue(new Error("Connection refused"));
+
+      const error = await client
+        .fetchRawByCID("bafytest123", {
+          strategy: "race",
+          maxRetries: 0,
+          gateways,
+        })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(IPFSFetchError);
+      expect((error as IPFSFetchError).gatewayErrors.size).toBe(2);
+    });
+
+    it("should report no attempts for cached results", async () => {
+      mockGateways();
+
+      await client.fetchByCID("bafytest123", { strategy: "race", gateways });
+      const cached = await client.fetchByCID("bafytest123");
+
+      expect(cached.cached).toBe(true);
+      expect(cached.attempts).toEqual([]);
+    });
+  });
+
+  // ============ Gateway Health Tests ============
+
+  describe("gateway health", () => {
+    const [first, second] = DEFAULT_GATEWAYS;
+
+    /** The first default gateway is down, every other one answers */
+    function mockFirstGatewayDown(): void {
+      mockFetch.mockImplementation((url: string) =>
+        url.startsWith(first)
+          ? Promise.reject(new Error("Connection refused"))
+          : Promise.resolve({
+              ok: true,
+              headers: new Headers({ "content-type": "application/json" }),
+              json: () => Promise.resolve({ ok: true }),
+            }),
+      );
+    }
+
+    const options = { maxRetries: 0, useCache: false };
+
+    it("should try a failing gateway after healthier ones", async () => {
+      mockFirstGatewayDown();
+
+      await client.fetchByCID("bafytest123", options);
+      mockFetch.mockClear();
+      const result = await client.fetchByCID("bafytest123", options);
+
+      expect(result.gateway).toBe(second);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(client.getGatewayStats().at(-1)?.gateway).toBe(first);
+    });
+
+    it("should report success rate, latency and recent errors", async () => {
+      mockFirstGatewayDown();
+
+      await client.fetchByCID("bafytest123", options);
+
+      const stats = client.getGatewayStats();
+      const failing = stats.find((s) => s.gateway === first)!;
+      const healthy = stats.find((s) => s.gateway === second)!;
+      expect(failing).toMatchObject({
+        requests: 1,
+        successRate: 0,
+        consecutiveFailures: 1,
+        circuit: "closed",
+        latency: { p50: null, p90: null, p99: null },
+      });
+      expect(failing.recentErrors[0]?.message).toBe("Connection refused");
+      expect(healthy.successRate).toBe(1);
+      expect(healthy.latency.p50).toBeGreaterThanOrEqual(0);
+      expect(stats[0]!.score).toBeGreaterThan(failing.score);
+    });
+
+    it("should open the circuit after repeated failures", async () => {
+      client = await StorachaBountyClient.create({
+        gatewayHealth: { adaptive: false, failureThreshold: 2, cooldown: 50 },
+      });
+      mockFirstGatewayDown();
+
+      await client.fetchByCID("bafytest123", options);
+      expect(client.getGatewayStats()[0]?.circuit).toBe("closed");
+      await client.fetchByCID("bafytest123", options);
+
+      const open = client.getGatewayStats().find((s) => s.gateway === first)!;
+      expect(open.circuit).toBe("open");
+      expect(open.retryAt).toBeGreaterThan(Date.now());
+
+      // Skipped while open
+      mockFetch.mockClear();
+      await client.fetchByCID("bafytest123", options);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0]![0]).toContain(second);
+
+      // Tried again once the cooldown is over; one failure reopens it
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      expect(client.getGatewayStats()[0]).toMatchObject({
+        gateway: first,
+        circuit: "half-open",
+      });
+      mockFetch.mockClear();
+      await client.fetchByCID("bafytest123", options);
+      expect(mockFetch.mock.calls[0]![0]).toContain(first);
+      expect(
+        client.getGatewayStats().find((s) => s.gateway === first)?.circuit,
+      ).toBe("open");
+    });
+
+    it("should keep the order of a custom gateway list", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("Connection refused"));
+      mockFirstGatewayDown();
+      const gateways = ["https://custom.example/ipfs/", second];
+
+      await client.fetchByCID("bafytest123", { ...options, gateways });
+      mockFetch.mockClear();
+      await client.fetchByCID("bafytest123", { ...options, gateways });
+
+      expect(mockFetch.mock.calls[0]![0]).toContain("custom.example");
+    });
+
+    it("should persist stats across clients", async () => {
+      let saved: GatewayStatsSnapshot | undefined;
+      const store = {
+        load: vi.fn(async () => saved),
+        save: vi.fn(async (snapshot: GatewayStatsSnapshot) => {
+          saved = snapshot;
+        }),
+      };
+      mockFirstGatewayDown();
+
+      const before = await StorachaBountyClient.create({
+        gatewayHealth: { store },
+      });
+      await before.fetchByCID("bafytest123", options);
+      expect(store.save).toHaveBeenCalled();
+      expect(saved?.gateways[first]?.consecutiveFailures).toBe(1);
+
+      const after = await StorachaBountyClient.create({
+        gatewayHealth: { store },
+      });
+      expect(after.getGatewayStats()).toEqual(before.getGatewayStats());
+
+      await after.resetGatewayStats();
+      expect(saved?.gateways).toEqual({});
+    });
+
+    it("should ignore a failing store", async () => {
+      const store = {
+        load: vi.fn().mockRejectedValue(new Error("corrupt")),
+        save: vi.fn().mockRejectedValue(new Error("read-only")),
+      };
+      mockFirstGatewayDown();
+
+      const withStore = await StorachaBountyClient.create({
+        gatewayHealth: { store },
+      });
+      const result = await withStore.fetchByCID("bafytest123", options);
+
+      expect(result.gateway).toBe(second);
+    });
+  });
+
+  // ============ Streaming Tests ============
+
+  describe("streamByCID", () => {
+    const gateways = ["https://one.example/ipfs/", "https://two.example/ipfs/"];
+
+    it("should stream the content and report progress", async () => {
+      mockFetch.mockResolvedValueOnce(
+        streamResponse(["hello ", "world"], {
+          headers: { "content-length": "11" },
+        }),
+      );
+      const progress = vi.fn();
+
+      const text = await readAll(
+        client.streamByCID("bafystream", { gateways, onProgress: progress }),
+      );
+
+      expect(text).toBe("hello world");
+      expect(progress).toHaveBeenCalledTimes(2);
+      expect(progress).toHaveBeenLastCalledWith({
+        loaded: 11,
+        total: 11,
+        gateway: gateways[0],
+      });
+    });
+
+    it("should resume with a Range request on the next gateway", async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          streamResponse(["hello "], {
+            headers: { "content-length": "11" },
+            broken: true,
+          }),
+        )
+        .mockResolvedValueOnce(
+          streamResponse(["world"], {
+            status: 206,
+            headers: { "content-range": "bytes 6-10/11" },
+          }),
+        );
+
+      const text = await readAll(
+        client.streamByCID("bafystream", { gateways }),
+      );
+
+      expect(text).toBe("hello world");
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        `${gateways[1]}bafystream`,
+        expect.objectContaining({ headers: { Range: "bytes=6-" } }),
+      );
+    });
+
+    it("should skip bytes already received when Range is ignored", async () => {
+      mockFetch
+        .mockResolvedValueOnce(streamResponse(["hel"], { broken: true }))
+        .mockResolvedValueOnce(streamResponse(["he", "llo world"]));
+
+      const text = await readAll(
+        client.streamByCID("bafystream", { gateways }),
+      );
+
+      expect(text).toBe("hello world");
+    });
+
+    it("should fail over when a response ends early", async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          streamResponse(["hello"], { headers: { "content-length": "11" } }),
+        )
+        .mockResolvedValueOnce(
+          streamResponse([" world"], {
+            status: 206,
+            headers: { "content-range": "bytes 5-10/11" },
+          }),
+        );
+
+      const text = await readAll(
+        client.streamByCID("bafystream", { gateways }),
+      );
+
+      expect(text).toBe("hello world");
+    });
+
+    it("should fail over when a gateway stalls mid-body", async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          streamResponse(["hello "], {
+            headers: { "content-length": "11" },
+            stalled: true,
+          }),
+        )
+        .mockResolvedValueOnce(
+          streamResponse(["world"], {
+            status: 206,
+            headers: { "content-range": "bytes 6-10/11" },
+          }),
+        );
+
+      const text = await readAll(
+        client.streamByCID("bafystream", { gateways, idleTimeout: 20 }),
+      );
+
+      expect(text).toBe("hello world");
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        `${gateways[1]}bafystream`,
+        expect.objectContaining({ headers: { Range: "bytes=6-" } }),
+      );
+    });
+
+    it("should remove its listeners from the signal", async () => {
+      const controller = new AbortController();
+      const add = vi.spyOn(controller.signal, "addEventListener");
+      const remove = vi.spyOn(controller.signal, "removeEventListener");
+      mockFetch
+        .mockRejectedValueOnce(new Error("Connection refused"))
+        .mockResolvedValueOnce(streamResponse(["hel"], { broken: true }))
+        .mockResolvedValueOnce(streamResponse(["hello"]));
+
+      const text = await readAll(
+        client.streamByCID("bafystream", {
+          gateways: [...gateways, "https://three.example/ipfs/"],
+          signal: controller.signal,
+        }),
+      );
+
+      expect(text).toBe("hello");
+      expect(add).toHaveBeenCalledTimes(3);
+      expect(remove).toHaveBeenCalledTimes(3);
+      for (const [type, listener] of add.mock.calls) {
+        expect(remove).toHaveBeenCalledWith(type, listener);
+      }
+    });
+
+    it("should error with IPFSFetchError when every gateway fails", async () => {
+      mockFetch.mockRejectedValue(new Error("Connection refused"));
+
+      const error = await readAll(
+        client.streamByCID("bafystream", { gateways }),
+      ).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(IPFSFetchError);
+      expect((error as IPFSFetchError).gatewayErrors.size).toBe(2);
+    });
+
+    it("should stop when the signal aborts", async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementation(
+        (_url: string, init: { signal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            init.signal.addEventListener("abort", () =>
+              reject(new Error("aborted")),
+            );
+          }),
+      );
+
+      const reading = readAll(
+        client.streamByCID("bafystream", {
+          gateways,
+          signal: controller.signal,
+        }),
+      );
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalled());
+      controller.abort(new Error("User cancelled"));
+
+      await expect(reading).rejects.toThrow("User cancelled");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should download to a file through a partial file", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "sdk-download-"));
+      try {
+        mockFetch.mockResolvedValueOnce(streamResponse(["large ", "dataset"]));
+
+        const result = await downloadToFile(
+          client,
+          "bafystream",
+          join(directory, "data.bin"),
+          { gateways },
+        );
+
+        expect(result).toEqual({ path: join(directory, "data.bin"), size: 13 });
+        expect(await readFile(result.path, "utf8")).toBe("large dataset");
+
+        mockFetch.mockRejectedValue(new Error("Connection refused"));
+        await expect(
+          downloadToFile(client, "bafystream", join(directory, "fail.bin"), {
+            gateways,
+          }),
+        ).rejects.toThrow(IPFSFetchError);
+        expect(await readdir(directory)).toEqual(["data.bin"]);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    it("should cancel the stream when writing the file fails", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "sdk-download-"));
+      const cancel = vi.fn();
+      const stream = new ReadableStream<Uint8Array>({
+        // Not a buffer, so the file write throws
+        pull: (controller) => controller.enqueue(42 as unknown as Uint8Array),
+        cancel,
+      });
+      const streamClient = {
+        streamByCID: () => stream,
+      } as unknown as StorachaBountyClient;
+      try {
+        const download = downloadToFile(
+          streamClient,
+          "bafystream",
+          join(directory, "data.bin"),
+        );
+
+        await expect(download).rejects.toThrow(TypeError);
+        expect(cancel).toHaveBeenCalledWith(expect.any(TypeError));
+        expect(await readdir(directory)).toEqual([]);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
   // ============ Cache Management Tests ============
 
   describe("cache management", () => {
@@ -340,11 +1171,13 @@ describe("IPFS Data Retrieval", () => {
       await client.fetchByCID("bafycache1");
       await client.fetchByCID("bafycache2");
 
-      expect(client.getCacheStats().size).toBe(2);
+      expect((await client.getCacheStats()).size).toBe(2);
 
-      client.clearCache("bafycache1");
-      expect(client.getCacheStats().size).toBe(1);
-      expect(client.getCacheStats().entries).toContain("bafycache2");
+      await client.clearCache("bafycache1");
+      expect((await client.getCacheStats()).size).toBe(1);
+      expect((await client.getCacheStats()).entries).toContain(
+        "bafycache2:json",
+      );
     });
 
     it("should clear entire cache", async () => {
@@ -359,10 +1192,10 @@ describe("IPFS Data Retrieval", () => {
       await client.fetchByCID("bafycache2");
       await client.fetchByCID("bafycache3");
 
-      expect(client.getCacheStats().size).toBe(3);
+      expect((await client.getCacheStats()).size).toBe(3);
 
-      client.clearCache();
-      expect(client.getCacheStats().size).toBe(0);
+      await client.clearCache();
+      expect((await client.getCacheStats()).size).toBe(0);
     });
 
     it("should return cache statistics", async () => {
@@ -376,10 +1209,123 @@ describe("IPFS Data Retrieval", () => {
       await client.fetchByCID("bafystats1");
       await client.fetchByCID("bafystats2");
 
-      const stats = client.getCacheStats();
+      await client.fetchByCID("bafystats1");
+
+      const stats = await client.getCacheStats();
       expect(stats.size).toBe(2);
-      expect(stats.entries).toContain("bafystats1");
-      expect(stats.entries).toContain("bafystats2");
+      expect(stats.entries).toContain("bafystats1:json");
+      expect(stats.entries).toContain("bafystats2:json");
+      expect(stats.bytes).toBe(2 * JSON.stringify(testData).length);
+      expect(stats).toMatchObject({ hits: 1, misses: 2, evictions: 0 });
+      expect(stats.hitRate).toBeCloseTo(1 / 3);
+    });
+
+    it("should cache raw bytes separately from parsed content", async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({ "content-type": "application/json" }),
+          json: () => Promise.resolve({ value: 1 }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({ "content-type": "application/json" }),
+          arrayBuffer: () =>
+            Promise.resolve(new TextEncoder().encode('{"value":1}').buffer),
+        });
+
+      await client.fetchByCID("bafyboth");
+      const raw = await client.fetchRawByCID("bafyboth");
+
+      expect(raw.cached).toBe(false);
+      expect(raw.data).toBeInstanceOf(Uint8Array);
+      expect((await client.getCacheStats()).entries.sort()).toEqual([
+        "bafyboth:bytes",
+        "bafyboth:json",
+      ]);
+    });
+
+    it("should derive JSON and text from cached raw bytes", async () => {
+      const body = (text: string, contentType: string) => ({
+        ok: true,
+        headers: new Headers({ "content-type": contentType }),
+        arrayBuffer: () =>
+          Promise.resolve(new TextEncoder().encode(text).buffer),
+      });
+      mockFetch
+        .mockResolvedValueOnce(body('{"derived":true}', "application/json"))
+        .mockResolvedValueOnce(body("plain", "text/plain"));
+
+      await client.fetchRawByCID("bafyjson");
+      await client.fetchRawByCID("bafytext");
+      const json = await client.fetchByCID("bafyjson");
+      const text = await client.fetchByCID("bafytext");
+
+      expect(json).toMatchObject({
+        data: { derived: true },
+        contentType: "application/json",
+        cached: true,
+      });
+      expect(text).toMatchObject({ data: "plain", cached: true });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should clear every representation of a CID", async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({ "content-type": "text/plain" }),
+          text: () => Promise.resolve("hello"),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({ "content-type": "text/plain" }),
+          arrayBuffer: () =>
+            Promise.resolve(new TextEncoder().encode("hello").buffer),
+        });
+
+      await client.fetchByCID("bafyclear");
+      await client.fetchRawByCID("bafyclear");
+      await client.clearCache("bafyclear");
+
+      expect((await client.getCacheStats()).size).toBe(0);
+    });
+
+    it("should use a custom cache store", async () => {
+      const cache = new MemoryCacheStore({ maxBytes: 20 });
+      client = await StorachaBountyClient.create({ cache });
+      mockFetch.mockImplementation(async () => ({
+        ok: true,
+        headers: new Headers({ "content-type": "text/plain" }),
+        text: () => Promise.resolve("0123456789"),
+      }));
+
+      await client.fetchByCID("bafylru1");
+      await client.fetchByCID("bafylru2");
+      await client.fetchByCID("bafylru3");
+
+      const stats = await client.getCacheStats();
+      expect(stats.entries).toEqual(["bafylru2:text", "bafylru3:text"]);
+      expect(stats).toMatchObject({ bytes: 20, maxBytes: 20, evictions: 1 });
+    });
+
+    it("should keep entries without a TTL", async () => {
+      vi.useFakeTimers();
+      try {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({ "content-type": "application/json" }),
+          json: () => Promise.resolve({ value: 1 }),
+        });
+
+        await client.fetchByCID("bafyforever");
+        vi.setSystemTime(Date.now() + 365 * 24 * 60 * 60 * 1000);
+        const result = await client.fetchByCID("bafyforever");
+
+        expect(result.cached).toBe(true);
+      } finally {
+        vi.useRealTimers();
+      }
     });
 
     it("should expire cached entries after TTL", async () => {
@@ -0,0 +1,1628 @@
+/**
+ * Unit tests for BountyMarketClient
+ * Uses a fake ethers runner that encodes contract responses with the real ABIs
+ */
+
+import { describe, it, expect, vi, beforeEach, type Mock } from "vitest";
+import {
+  AbiCoder,
+  Interface,
+  ZeroAddress,
+  keccak256,
+  zeroPadValue,
+  toBeHex,
+} from "ethers";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { InvalidSchemaError } from "@storacha-chainlink/functions/validator";
+import {
+  encodeVerificationResult,
+  hashFailedPath,
+} from "@storacha-chainlink/functions/result";
+import {
+  isEnvelope,
+  openEnvelope,
+} from "@storacha-chainlink/functions/envelope";
+import {
+  generateEncryptionKeyPair,
+  sealEnvelope,
+} from "@storacha-chainlink/functions/seal";
+import { contentDigest } from "@storacha-chainlink/functions/digest";
+import { InvalidBountyMetadataError } from "@storacha-chainlink/functions/metadata";
+import { BountyMarketClient } from "../src/market.js";
+import { MemoryCommitmentStore } from "../src/commitments.js";
+import { FileSystemCommitmentStore } from "../src/fs-commitments.js";
+import {
+  BOUNTY_REGISTRY_ABI,
+  DATA_REGISTRY_ABI,
+  ESCROW_MANAGER_ABI,
+} from "../src/abis.js";
+import {
+  BountyNotActiveError,
+  BountyNotFoundError,
+  BountyStatus,
+  CommitmentExistsError,
+  ContractRevertError,
+  DuplicateSubmissionError,
+  EscrowStatus,
+  InsufficientRewardError,
+  MaxSubmissionsReachedError,
+  MissingVerifierKeyError,
+  PostBountyError,
+  SubmissionNotFoundError,
+  SubmissionStatus,
+} from "../src/types.js";
+
+const BOUNTY_REGISTRY = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const DATA_REGISTRY = "0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9";
+const ESCROW_MANAGER = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+const CREATOR = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const TX_HASH = `0x${"ab".repeat(32)}`;
+
+const bountyIface = new Interface(BOUNTY_REGISTRY_ABI);
+const dataIface = new Interface(DATA_REGISTRY_ABI);
+const escrowIface = new Interface(ESCROW_MANAGER_ABI);
+
+const ifaceFor: Record<string, Interface> = {
+  [BOUNTY_REGISTRY.toLowerCase()]: bountyIface,
+  [DATA_REGISTRY.toLowerCase()]: dataIface,
+  [ESCROW_MANAGER.toLowerCase()]: escrowIface,
+};
+
+type Handler = (args: unknown[]) => unknown[] | { revert: string };
+
+interface FakeRunner {
+  provider: {
+    getTransactionReceipt: Mock;
+    getNetwork: Mock;
+    getBlock: Mock;
+  };
+  getAddress: Mock;
+  call: Mock;
+  estimateGas: Mock;
+  sendTransaction: Mock;
+}
+
+/**
+ * Build a fake ethers runner. `views` answers eth_call by method name and
+ * `logs` controls the logs returned in the mined receipt.
+ */
+function createRunner(
+  views: Record<string, Handler>,
+  logs: { address: string; topics: string[]; data: string }[] = [],
+): FakeRunner {
+  const receipt = {
+    to: BOUNTY_REGISTRY,
+    from: CREATOR,
+    contractAddress: null,
+    hash: TX_HASH,
+    index: 0,
+    blockHash: `0x${"cd".repeat(32)}`,
+    blockNumber: 42,
+    logsBloom: "0x",
+    logs: logs.map((log, index) => ({
+      ...log,
+      blockNumber: 42,
+      blockHash: `0x${"cd".repeat(32)}`,
+      transactionHash: TX_HASH,
+      transactionIndex: 0,
+      index,
+      removed: false,
+    })),
+    gasUsed: 21000n,
+    blobGasUsed: null,
+    cumulativeGasUsed: 21000n,
+    gasPrice: 1n,
+    blobGasPrice: null,
+    type: 2,
+    status: 1,
+    root: null,
+  };
+
+  const provider = {
+    getTransactionReceipt: vi.fn().mockResolvedValue({
+      ...receipt,
+      confirmations: async () => 1,
+    }),
+    getNetwork: vi.fn().mockResolvedValue({ chainId: 31337n }),
+    getBlock: vi.fn().mockResolvedValue({ timestamp: 1700000000 }),
+  };
+
+  const handle = (tx: { to: string; data: string }) => {
+    const iface = ifaceFor[tx.to.toLowerCase()]!;
+    const fragment = iface.getFunction(tx.data.slice(0, 10))!;
+    const args = iface.decodeFunctionData(fragment, tx.data).toArray();
+    const handler = views[fragment.name];
+    if (!handler) return { fragment, iface, output: [] as unknown[] };
+    const output = handler(args);
+    if (!Array.isArray(output)) {
+      const error = Object.assign(new Error("execution reverted"), {
+        code: "CALL_EXCEPTION",
+        action: "call",
+        data: output.revert,
+        reason: null,
+        transaction: tx,
+        invocation: null,
+        revert: null,
+      });
+      throw error;
+    }
+    return { fragment, iface, output };
+  };
+
+  return {
+    provider,
+    getAddress: vi.fn().mockResolvedValue(CREATOR),
+    call: vi.fn(async (tx: { to: string; data: string }) => {
+      const { fragment, iface, output } = handle(tx);
+      return iface.encodeFunctionResult(fragment, output);
+    }),
+    estimateGas: vi.fn(async (tx: { to: string; data: string }) => {
+      handle(tx);
+      return 100000n;
+    }),
+    sendTransaction: vi.fn(async (tx: { to: string; data: string }) => {
+      handle(tx);
+      return {
+        hash: TX_HASH,
+        blockNumber: null,
+        blockHash: null,
+        index: 0,
+        type: 2,
+        to: tx.to,
+        from: CREATOR,
+        nonce: 0,
+        gasLimit: 100000n,
+        gasPrice: 1n,
+        maxPriorityFeePerGas: null,
+        maxFeePerGas: null,
+        maxFeePerBlobGas: null,
+        data: tx.data,
+        value: 0n,
+        chainId: 31337n,
+        signature: null,
+        accessList: null,
+        blobVersionedHashes: null,
+        authorizationList: null,
+      };
+    }),
+  };
+}
+
+function revertWith(iface: Interface, name: string) {
+  return { revert: iface.encodeErrorResult(name, []) };
+}
+
+function encodeEvent(
+  iface: Interface,
+  address: string,
+  name: string,
+  args: unknown[],
+) {
+  const { topics, data } = iface.encodeEventLog(name, args);
+  return { address, topics, data };
+}
+
+/**
+ * Views for earlier submissions to bounty 3, numbered from 1, each with an
+ * optional content digest in its verification result
+ */
+function submissionViews(
+  submissions: { cid: string; digest?: string }[],
+): Record<string, Handler> {
+  return {
+    getBountySubmissions: () => [submissions.map((_, i) => BigInt(i + 1))],
+    getSubmission: ([id]) => [
+      [
+        id,
+        3n,
+        CREATOR,
+        submissions[Number(id) - 1]!.cid,
+        "",
+        1n,
+        1700000100n,
+        0n,
+      ],
+    ],
+    getVerificationResult: ([id]) => {
+      const digest = submissions[Number(id) - 1]!.digest;
+      return [
+        digest === undefined
+          ? "0x"
+          : toBeHex(
+              encodeVerificationResult({
+                reason: "valid",
+                contentDigest: digest,
+              }),
+              32,
+            ),
+      ];
+    },
+  };
+}
+
+const BOUNTY_TUPLE = [
+  3n,
+  CREATOR,
+  "bafymetadata",
+  "bafyschema",
+  10n ** 17n,
+  2000000000n,
+  1n,
+  5n,
+  2n,
+  1700000000n,
+];
+
+interface FakeStorage {
+  uploadJSON: Mock;
+  uploadFile: Mock;
+  remove: Mock;
+  fetchByCID: Mock;
+  fetchRawByCID: Mock;
+  streamByCID: Mock;
+  createBountyDelegation: Mock;
+  listUploads: Mock;
+}
+
+function createStorage(): FakeStorage {
+  return {
+    uploadJSON: vi.fn(async (_data: unknown, filename = "data.json") => ({
+      cidString: `bafy-${filename}`,
+    })),
+    uploadFile: vi.fn().mockResolvedValue({ cidString: "bafy-file" }),
+    remove: vi.fn().mockResolvedValue(undefined),
+    fetchByCID: vi.fn(),
+    fetchRawByCID: vi.fn(),
+    streamByCID: vi.fn(),
+    createBountyDelegation: vi.fn().mockResolvedValue({
+      cid: "bafy-delegation",
+      archive: new Uint8Array([1]),
+      base64: "AQ==",
+    }),
+    listUploads: vi.fn(),
+  };
+}
+
+function streamOf(text: string): ReadableStream<Uint8Array> {
+  return new Response(text).body!;
+}
+
+function createClient(
+  runner: FakeRunner,
+  withEscrow = false,
+  storage?: FakeStorage,
+  commitments?: MemoryCommitmentStore | FileSystemCommitmentStore,
+) {
+  return new BountyMarketClient({
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    runner: runner as any,
+    addresses: {
+      bountyRegistry: BOUNTY_REGISTRY,
+      dataRegistry: DATA_REGISTRY,
+      escrowManager: withEscrow ? ESCROW_MANAGER : undefined,
+    },
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    storage: storage as any,
+    commitments,
+  });
+}
+
+describe("BountyMarketClient", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // ============ Reads ============
+
+  describe("getBounty", () => {
+    it("should decode the Bounty struct", async () => {
+      const runner = createRunner({ getBounty: () => [BOUNTY_TUPLE] });
+      const client = createClient(runner);
+
+      const bounty = await client.getBounty(3);
+
+      expect(bounty).toEqual({
+        id: 3n,
+        creator: CREATOR,
+        metadataUri: "bafymetadata",
+        schemaUri: "bafyschema",
+        reward: 10n ** 17n,
+        deadline: 2000000000n,
+        status: BountyStatus.ACTIVE,
+        maxSubmissions: 5n,
+        submissionCount: 2n,
+        createdAt: 1700000000n,
+      });
+    });
+
+    it("should throw BountyNotFoundError for an empty struct", async () => {
+      const runner = createRunner({
+        getBounty: () => [[0n, ZeroAddress, "", "", 0n, 0n, 0n, 0n, 0n, 0n]],
+      });
+      const client = createClient(runner);
+
+      await expect(client.getBounty(99)).rejects.toBeInstanceOf(
+        BountyNotFoundError,
+      );
+    });
+  });
+
+  describe("getBountyMetadata", () => {
+    it("should upgrade unversioned metadata", async () => {
+      const storage = createStorage();
+      storage.fetchByCID.mockResolvedValue({
+        data: JSON.stringify({ title: "Weather", description: "Readings" }),
+      });
+      const runner = createRunner({ getBounty: () => [BOUNTY_TUPLE] });
+      const client = createClient(runner, false, storage);
+
+      const metadata = await client.getBountyMetadata(3);
+
+      expect(metadata).toEqual({
+        version: 1,
+        title: "Weather",
+        description: "Readings",
+      });
+      expect(storage.fetchByCID).toHaveBeenCalledWith(
+        "bafymetadata",
+        undefined,
+      );
+    });
+
+    it("should reject documents that are not bounty metadata", async () => {
+      const storage = createStorage();
+      storage.fetchByCID.mockResolvedValue({ data: { title: "Weather" } });
+      const runner = createRunner({ getBounty: () => [BOUNTY_TUPLE] });
+      const client = createClient(runner, false, storage);
+
+      await expect(client.getBountyMetadata(3)).rejects.toBeInstanceOf(
+        InvalidBountyMetadataError,
+      );
+    });
+  });
+
+  describe("getSubmission", () => {
+    it("should decode the Submission struct", async () => {
+      const runner = createRunner({
+        getSubmission: () => [
+          [7n, 3n, CREATOR, "bafydata", "{}", 2n, 1700000100n, 1700000200n],
+        ],
+      });
+      const client = createClient(runner);
+
+      const submission = await client.getSubmission(7n);
+
+      expect(submission.id).toBe(7n);
+      expect(submission.bountyId).toBe(3n);
+      expect(submission.cid).toBe("bafydata");
+      expect(submission.status).toBe(SubmissionStatus.VERIFIED);
+      expect(submission.verifiedAt).toBe(1700000200n);
+    });
+
+    it("should throw SubmissionNotFoundError for an empty struct", async () => {
+      const runner = createRunner({
+        getSubmission: () => [[0n, 0n, ZeroAddress, "", "", 0n, 0n, 0n]],
+      });
+      const client = createClient(runner);
+
+      await expect(client.getSubmission(1)).rejects.toBeInstanceOf(
+        SubmissionNotFoundError,
+      );
+    });
+  });
+
+  describe("decryptSubmission", () => {
+    it("should fetch the submission and open it with the creator's key", async () => {
+      const creator = await generateEncryptionKeyPair();
+      const plaintext = new TextEncoder().encode('{"temperature":20}');
+      const storage = createStorage();
+      storage.fetchRawByCID.mockResolvedValue({
+        data: await sealEnvelope(plaintext, [creator.publicKey]),
+      });
+      const runner = createRunner({
+        getSubmission: () => [
+          [7n, 3n, CREATOR, "ipfs://bafysealed", "", 2n, 1700000100n, 0n],
+        ],
+      });
+      const client = createClient(runner, false, storage);
+
+      const data = await client.decryptSubmission(7n, creator.privateKey);
+
+      expect(storage.fetchRawByCID).toHaveBeenCalledWith(
+        "bafysealed",
+        undefined,
+      );
+      expect(data).toEqual(plaintext);
+
+      const stranger = await generateEncryptionKeyPair();
+      await expect(
+        client.decryptSubmission(7n, stranger.privateKey),
+      ).rejects.toThrow("Key is not a recipient");
+    });
+  });
+
+  describe("getVerificationResult", () => {
+    it("should decode the stored DON result", async () => {
+      const encoded = encodeVerificationResult({
+        reason: "invalid",
+        recordCount: 12,
+        failedPath: "/4/temperature",
+      });
+      const runner = createRunner({
+        getVerificationResult: () => [toBeHex(encoded, 32)],
+      });
+      const client = createClient(runner);
+
+      expect(await client.getVerificationResult(7n)).toEqual({
+        status: 0,
+        reason: "invalid",
+        verified: false,
+        recordCount: 12,
+        failedPathHash: hashFailedPath("/4/temperature"),
+        contentDigest: null,
+        version: 1,
+      });
+    });
+
+    it("should return null before verification completes", async () => {
+      const runner = createRunner({ getVerificationResult: () => ["0x"] });
+      const client = createClient(runner);
+
+      expect(await client.getVerificationResult(7n)).toBeNull();
+    });
+  });
+
+  describe("getBountySubmissions", () => {
+    it("should return submission IDs as bigints", async () => {
+      const runner = createRunner({
+        getBountySubmissions: () => [[1n, 4n, 9n]],
+      });
+      const client = createClient(runner);
+
+      expect(await client.getBountySubmissions(3)).toEqual([1n, 4n, 9n]);
+    });
+  });
+
+  describe("findDuplicateSubmissions", () => {
+    const CSV_SCHEMA = {
+      "x-submission": { format: "csv" },
+      type: "array",
+      items: { type: "object" },
+    };
+    const ORIGINAL = "t,v\nx,1\ny,2\nz,3\n";
+    const CONTENTS: Record<string, string> = {
+      "bafy-a": ORIGINAL,
+      "bafy-b": ORIGINAL,
+      // Two of three rows repeated, reordered
+      "bafy-c": "t,v\r\nz,3\r\nx,1\r\nw,9\r\n",
+      "bafy-d": "t,v\nq,0\n",
+    };
+
+    async function setup() {
+      const digest = await contentDigest(new TextEncoder().encode(ORIGINAL));
+      const runner = createRunner({
+        getBounty: () => [BOUNTY_TUPLE],
+        ...submissionViews([
+          { cid: "bafy-a" },
+          { cid: "ipfs://bafy-a" },
+          { cid: "bafy-b" },
+          { cid: "bafy-c" },
+          { cid: "bafy-d" },
+          // Unreadable, but the DON recorded the same digest
+          { cid: "bafy-sealed", digest },
+        ]),
+      });
+      const storage = createStorage();
+      storage.fetchByCID.mockResolvedValue({ data: CSV_SCHEMA });
+      storage.streamByCID.mockImplementation((cid: string) => {
+        if (!(cid in CONTENTS)) {
+          return new ReadableStream({
+            start: (controller) => controller.error(new Error("not found")),
+          });
+        }
+        return streamOf(CONTENTS[cid]!);
+      });
+      return { runner, storage };
+    }
+
+    it("should report repeated CIDs, identical data and shared rows", async () => {
+      const { runner, storage } = await setup();
+      const client = createClient(runner, false, storage);
+
+      const reports = await client.findDuplicateSubmissions(3, {
+        compareContent: true,
+      });
+
+      expect(storage.fetchByCID).toHaveBeenCalledWith("bafyschema", undefined);
+      expect(reports).toEqual([
+        {
+          submissionId: 2n,
+          matches: [{ submissionId: 1n, kind: "cid", similarity: 1 }],
+        },
+        {
+          submissionId: 3n,
+          matches: [
+            { submissionId: 1n, kind: "content", similarity: 1 },
+            { submissionId: 2n, kind: "content", similarity: 1 },
+          ],
+        },
+        {
+          submissionId: 4n,
+          matches: [1n, 2n, 3n].map((submissionId) => ({
+            submissionId,
+            kind: "rows",
+            similarity: 2 / 3,
+          })),
+        },
+        {
+          submissionId: 6n,
+          matches: [1n, 2n, 3n].map((submissionId) => ({
+            submissionId,
+            kind: "content",
+            similarity: 1,
+          })),
+        },
+      ]);
+    });
+
+    it("should apply the near-duplicate threshold", async () => {
+      const { runner, storage } = await setup();
+      const client = createClient(runner, false, storage);
+
+      const reports = await client.findDuplicateSubmissions(3, {
+        compareContent: true,
+        threshold: 0.9,
+      });
+
+      expect(reports.map((r) => r.submissionId)).toEqual([2n, 3n, 6n]);
+    });
+
+    it("should compare CIDs and on-chain digests by default", async () => {
+      const { runner, storage } = await setup();
+      const client = createClient(runner, false, storage);
+
+      const reports = await client.findDuplicateSubmissions(3);
+
+      expect(storage.streamByCID).not.toHaveBeenCalled();
+      expect(reports).toEqual([
+        {
+          submissionId: 2n,
+          matches: [{ submissionId: 1n, kind: "cid", similarity: 1 }],
+        },
+      ]);
+    });
+
+    it("should skip contents larger than maxContentSize", async () => {
+      const { runner, storage } = await setup();
+      const client = createClient(runner, false, storage);
+
+      const reports = await client.findDuplicateSubmissions(3, {
+        compareContent: true,
+        maxContentSize: 8,
+      });
+
+      expect(reports.map((r) => r.submissionId)).toEqual([2n]);
+    });
+
+    it("should bound the number of downloads in flight", async () => {
+      const { runner, storage } = await setup();
+      let active = 0;
+      let peak = 0;
+      storage.streamByCID.mockImplementation(
+        () =>
+          new ReadableStream({
+            async pull(controller) {
+              peak = Math.max(peak, ++active);
+              await new Promise((resolve) => setTimeout(resolve, 5));
+              active--;
+              controller.close();
+            },
+          }),
+      );
+      const client = createClient(runner, false, storage);
+
+      await client.findDuplicateSubmissions(3, {
+        compareContent: true,
+        concurrency: 2,
+      });
+
+      expect(storage.streamByCID).toHaveBeenCalledTimes(6);
+      expect(peak).toBe(2);
+    });
+  });
+
+  describe("grantUploadAccess", () => {
+    it("should delegate upload access until the bounty deadline", async () => {
+      const storage = createStorage();
+      const runner = createRunner({
+        getBounty: () => [BOUNTY_TUPLE],
+        isBountyActive: () => [true],
+      });
+      const client = createClient(runner, false, storage);
+
+      const access = await client.grantUploadAccess(3, "did:key:z6MkContrib", {
+        maxShardSize: 1024,
+      });
+
+      expect(access.base64).toBe("AQ==");
+      expect(storage.createBountyDelegation).toHaveBeenCalledWith(
+        "did:key:z6MkContrib",
+        { bountyId: 3n, deadline: 2000000000n, maxShardSize: 1024 },
+      );
+    });
+
+    it("should refuse bounties that are not accepting submissions", async () => {
+      const storage = createStorage();
+      const runner = createRunner({
+        getBounty: () => [BOUNTY_TUPLE],
+        isBountyActive: () => [false],
+      });
+      const client = createClient(runner, false, storage);
+
+      await expect(
+        client.grantUploadAccess(3, "did:key:z6MkContrib"),
+      ).rejects.toBeInstanceOf(BountyNotActiveError);
+      expect(storage.createBountyDelegation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("findUnreferencedUploads", () => {
+    const upload = (root: string, size: number | null = 10) => ({
+      root,
+      shards: [],
+      size,
+      insertedAt: new Date(1700000000000),
+      updatedAt: new Date(1700000000000),
+    });
+
+    it("should split uploads by on-chain references", async () => {
+      const storage = createStorage();
+      storage.listUploads.mockImplementation(async function* () {
+        yield* [
+          upload("bafymetadata"),
+          upload("bafy-sub"),
+          upload("bafy-dir"),
+          upload("bafy-draft", 40),
+          upload("bafy-unsized", null),
+        ];
+      });
+      const runner = createRunner({
+        getBountiesByCreator: () => [[3n]],
+        getBounty: () => [BOUNTY_TUPLE],
+        getSubmissionsByContributor: () => [[1n]],
+        ...submissionViews([
+          { cid: "ipfs://bafy-sub" },
+          { cid: "bafy-dir/data.csv" },
+        ]),
+      });
+      const client = createClient(runner, false, storage);
+
+      const report = await client.findUnreferencedUploads();
+
+      expect(
+        report.referenced.map(({ root, references }) => [root, references]),
+      ).toEqual([
+        ["bafymetadata", [{ kind: "metadata", bountyId: 3n }]],
+        ["bafy-sub", [{ kind: "submission", bountyId: 3n, submissionId: 1n }]],
+        ["bafy-dir", [{ kind: "submission", bountyId: 3n, submissionId: 2n }]],
+      ]);
+      expect(report.unreferenced.map(({ root }) => root)).toEqual([
+        "bafy-draft",
+        "bafy-unsized",
+      ]);
+      expect(report.unreferencedBytes).toBe(40);
+    });
+
+    it("should only count the given bounties and contributors", async () => {
+      const storage = createStorage();
+      storage.listUploads.mockImplementation(async function* () {
+        yield upload("bafyschema");
+      });
+      const runner = createRunner({
+        getBounty: () => [BOUNTY_TUPLE],
+        ...submissionViews([]),
+      });
+      const client = createClient(runner, false, storage);
+
+      const report = await client.findUnreferencedUploads({
+        bountyIds: [3],
+        contributors: [],
+      });
+
+      expect(report.referenced[0]?.references).toEqual([
+        { kind: "schema", bountyId: 3n },
+      ]);
+      expect(runner.getAddress).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getEscrow", () => {
+    it("should use the configured EscrowManager address", async () => {
+      const runner = createRunner({
+        getEscrow: () => [[3n, CREATOR, 10n ** 17n, 1n, 1700000000n, 0n]],
+      });
+      const client = createClient(runner, true);
+
+      const escrow = await client.getEscrow(3);
+
+      expect(escrow.amount).toBe(10n ** 17n);
+      expect(escrow.status).toBe(EscrowStatus.FUNDED);
+    });
+
+    it("should resolve the EscrowManager address from BountyRegistry", async () => {
+      const runner = createRunner({
+        escrowManager: () => [ESCROW_MANAGER],
+        getEscrow: () => [[3n, CREATOR, 5n, 3n, 1700000000n, 1700000300n]],
+      });
+      const client = createClient(runner);
+
+      const escrow = await client.getEscrow(3);
+
+      expect(escrow.status).toBe(EscrowStatus.REFUNDED);
+      expect(runner.call).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  // ============ Writes ============
+
+  describe("createBounty", () => {
+    it("should send the reward and return the bounty ID from the event", async () => {
+      const runner = createRunner({}, [
+        encodeEvent(bountyIface, BOUNTY_REGISTRY, "BountyCreated", [
+          12n,
+          CREATOR,
+          10n ** 17n,
+          "bafymetadata",
+          "bafyschema",
+          2000000000n,
+        ]),
+      ]);
+      const client = createClient(runner);
+
+      const result = await client.createBounty({
+        metadataUri: "bafymetadata",
+        schemaUri: "bafyschema",
+        reward: 10n ** 17n,
+        deadline: new Date(2000000000 * 1000),
+        maxSubmissions: 5,
+      });
+
+      expect(result).toEqual({
+        bountyId: 12n,
+        hash: TX_HASH,
+        blockNumber: 42,
+      });
+
+      const sent = runner.sendTransaction.mock.calls[0]![0];
+      expect(sent.value).toBe(10n ** 17n);
+      const decoded = bountyIface.decodeFunctionData("createBounty", sent.data);
+      expect(decoded.toArray()).toEqual([
+        "bafymetadata",
+        "bafyschema",
+        2000000000n,
+        5n,
+      ]);
+    });
+
+    it("should map InsufficientReward to a typed error", async () => {
+      const runner = createRunner({
+        createBounty: () => revertWith(bountyIface, "InsufficientReward"),
+      });
+      const client = createClient(runner);
+
+      const error = await client
+        .createBounty({
+          metadataUri: "a",
+          schemaUri: "b",
+          reward: 1n,
+          deadline: 2000000000,
+          maxSubmissions: 1,
+        })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(InsufficientRewardError);
+      expect(error).toBeInstanceOf(ContractRevertError);
+      expect((error as ContractRevertError).contract).toBe("BountyRegistry");
+      expect((error as ContractRevertError).errorName).toBe(
+        "InsufficientReward",
+      );
+    });
+  });
+
+  describe("submitData", () => {
+    it("should return the submission ID from the event", async () => {
+      const topicPad = (value: bigint) => zeroPadValue(toBeHex(value), 32);
+      const runner = createRunner({}, [
+        // Log from another contract should be skipped
+        {
+          address: BOUNTY_REGISTRY,
+          topics: [`0x${"11".repeat(32)}`, topicPad(1n)],
+          data: "0x",
+        },
+        encodeEvent(dataIface, DATA_REGISTRY, "DataSubmitted", [
+          8n,
+          3n,
+          CREATOR,
+          "bafydata",
+        ]),
+      ]);
+      const client = createClient(runner);
+
+      const result = await client.submitData(3, "bafydata", '{"a":1}');
+
+      expect(result.submissionId).toBe(8n);
+      expect(result.hash).toBe(TX_HASH);
+    });
+
+    it("should map BountyNotActive to a typed error", async () => {
+      const runner = createRunner({
+        submitData: () => revertWith(dataIface, "BountyNotActive"),
+      });
+      const client = createClient(runner);
+
+      await expect(client.submitData(3, "bafydata")).rejects.toBeInstanceOf(
+        BountyNotActiveError,
+      );
+    });
+
+    it("should decode errors bubbled up from BountyRegistry", async () => {
+      const runner = createRunner({
+        submitData: () => revertWith(bountyIface, "MaxSubmissionsReached"),
+      });
+      const client = createClient(runner);
+
+      const error = await client
+        .submitData(3, "bafydata")
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(MaxSubmissionsReachedError);
+      expect((error as ContractRevertError).contract).toBe("BountyRegistry");
+    });
+  });
+
+  describe("commit-reveal", () => {
+    const CID = "bafy-secret";
+
+    function createCommitRunner(revealDelay = 60n) {
+      return createRunner(
+        {
+          revealDelay: () => [revealDelay],
+          commitments: () => [3n, 0n],
+        },
+        [
+          encodeEvent(dataIface, DATA_REGISTRY, "DataSubmitted", [
+            11n,
+            3n,
+            CREATOR,
+            CID,
+          ]),
+        ],
+      );
+    }
+
+    function sentCalls(runner: FakeRunner, name: string) {
+      return runner.sendTransaction.mock.calls
+        .map(([tx]) => tx as { data: string })
+        .filter((tx) =>
+          tx.data.startsWith(dataIface.getFunction(name)!.selector),
+        )
+        .map((tx) => dataIface.decodeFunctionData(name, tx.data).toArray());
+    }
+
+    it("should commit a hash of the CID and keep the salt", async () => {
+      const runner = createCommitRunner();
+      const client = createClient(runner);
+
+      const result = await client.commitSubmission(3, CID);
+
+      const [[bountyId, commitment]] = sentCalls(runner, "commitSubmission");
+      expect(bountyId).toBe(3n);
+      expect(commitment).toBe(result.commitment);
+      expect(JSON.stringify(runner.sendTransaction.mock.calls)).not.toContain(
+        CID,
+      );
+      expect(result.revealAt).toBe(1700000060);
+
+      const [pending] = await client.getPendingCommitments();
+      expect(pending).toMatchObject({
+        commitment,
+        bountyId: 3n,
+        cid: CID,
+        contributor: CREATOR,
+        committedAt: 1700000000,
+      });
+      expect(commitment).toBe(
+        keccak256(
+          AbiCoder.defaultAbiCoder().encode(
+            ["uint256", "string", "bytes32", "address"],
+            [3n, CID, pending!.salt, CREATOR],
+          ),
+        ),
+      );
+    });
+
+    it("should forget the salt when the commit reverts", async () => {
+      const runner = createRunner({
+        commitSubmission: () => revertWith(dataIface, "CommitmentExists"),
+      });
+      const client = createClient(runner);
+
+      await expect(client.commitSubmission(3, CID)).rejects.toBeInstanceOf(
+        CommitmentExistsError,
+      );
+      expect(await client.getPendingCommitments()).toEqual([]);
+    });
+
+    it("should wait for the reveal delay, then reveal automatically", async () => {
+      const runner = createCommitRunner();
+      // Commit block, then two polls of the latest block
+      runner.provider.getBlock
+        .mockResolvedValueOnce({ timestamp: 1700000000 })
+        .mockResolvedValueOnce({ timestamp: 1700000030 })
+        .mockResolvedValueOnce({ timestamp: 1700000060 });
+      const client = createClient(runner);
+
+      const result = await client.commitAndReveal(3, CID, { pollInterval: 1 });
+
+      expect(result.submissionId).toBe(11n);
+      expect(runner.provider.getBlock).toHaveBeenCalledTimes(3);
+      const commits = sentCalls(runner, "commitSubmission");
+      const reveals = sentCalls(runner, "revealSubmission");
+      expect(commits).toHaveLength(1);
+      expect(reveals).toEqual([[3n, CID, "", expect.any(String)]]);
+      expect(await client.getPendingCommitments()).toEqual([]);
+    });
+
+    it("should stop waiting when aborted", async () => {
+      const runner = createCommitRunner(3600n);
+      const client = createClient(runner);
+      const { commitment } = await client.commitSubmission(3, CID);
+      const controller = new AbortController();
+
+      const waiting = client.waitForReveal(commitment, {
+        signal: controller.signal,
+      });
+      controller.abort(new Error("stop"));
+
+      await expect(waiting).rejects.toThrow("stop");
+      expect(await client.getPendingCommitments()).toHaveLength(1);
+    });
+
+    it("should reveal pending commitments after a restart", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "sdk-commitments-"));
+      try {
+        const path = join(directory, "commitments.json");
+        const runner = createCommitRunner(0n);
+        const first = createClient(
+          runner,
+          false,
+          undefined,
+          new FileSystemCommitmentStore(path),
+        );
+        const { commitment } = await first.commitSubmission(3, CID);
+
+        const second = createClient(
+          runner,
+          false,
+          undefined,
+          new FileSystemCommitmentStore(path),
+        );
+        const results = await second.revealPending();
+
+        expect(results).toEqual([
+          {
+            status: "fulfilled",
+            value: { submissionId: 11n, hash: TX_HASH, blockNumber: 42 },
+          },
+        ]);
+        expect(sentCalls(runner, "revealSubmission")[0]!.slice(0, 2)).toEqual([
+          3n,
+          CID,
+        ]);
+        expect(
+          await new FileSystemCommitmentStore(path).get(commitment),
+        ).toBeUndefined();
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    it("should require a stored salt to reveal", async () => {
+      const client = createClient(createCommitRunner());
+
+      await expect(
+        client.revealSubmission(`0x${"00".repeat(32)}`),
+      ).rejects.toThrow("No salt is stored for commitment");
+    });
+  });
+
+  describe("bounty management", () => {
+    it("should send increaseReward with value", async () => {
+      const runner = createRunner({});
+      const client = createClient(runner);
+
+      const result = await client.increaseReward(3, 5n);
+
+      expect(result.hash).toBe(TX_HASH);
+      expect(runner.sendTransaction.mock.calls[0]![0].value).toBe(5n);
+    });
+
+    it("should send extendDeadline with a converted timestamp", async () => {
+      const runner = createRunner({});
+      const client = createClient(runner);
+
+      await client.extendDeadline(3, new Date(2100000000 * 1000));
+
+      const sent = runner.sendTransaction.mock.calls[0]![0];
+      const decoded = bountyIface.decodeFunctionData(
+        "extendDeadline",
+        sent.data,
+      );
+      expect(decoded.toArray()).toEqual([3n, 2100000000n]);
+    });
+
+    it("should send cancelBounty and expireBounty", async () => {
+      const runner = createRunner({});
+      const client = createClient(runner);
+
+      await client.cancelBounty(3);
+      await client.expireBounty(4);
+
+      expect(runner.sendTransaction).toHaveBeenCalledTimes(2);
+    });
+
+    it("should surface unknown reverts as ContractRevertError", async () => {
+      const runner = createRunner({
+        cancelBounty: () => ({
+          revert: bountyIface.encodeErrorResult("Error", ["boom"]),
+        }),
+      });
+      const client = createClient(runner);
+
+      const error = await client.cancelBounty(3).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ContractRevertError);
+      expect((error as ContractRevertError).errorName).toBe("Error");
+      expect((error as ContractRevertError).args).toEqual(["boom"]);
+    });
+  });
+
+  // ============ Storacha Workflows ============
+
+  describe("postBounty", () => {
+    const params = {
+      metadata: {
+        title: "Weather data",
+        description: "Daily temperature readings",
+        requirements: ["Daily frequency"],
+        tags: ["weather"],
+      },
+      schema: { type: "object", required: ["temperature"] },
+      reward: 10n ** 17n,
+      deadline: 2000000000,
+      maxSubmissions: 5,
+    };
+
+    it("should throw when no storage client is configured", async () => {
+      const client = createClient(createRunner({}));
+
+      await expect(client.postBounty(params)).rejects.toThrow(
+        "No storage client configured",
+      );
+    });
+
+    it("should reject schemas the DON cannot verify before uploading", async () => {
+      const storage = createStorage();
+      const client = createClient(createRunner({}), false, storage);
+
+      await expect(
+        client.postBounty({
+          ...params,
+          schema: { type: "object", unevaluatedProperties: false },
+        }),
+      ).rejects.toThrow(InvalidSchemaError);
+      expect(storage.uploadJSON).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid metadata before uploading", async () => {
+      const storage = createStorage();
+      const client = createClient(createRunner({}), false, storage);
+
+      await expect(
+        client.postBounty({
+          ...params,
+          metadata: { ...params.metadata, title: "" },
+        }),
+      ).rejects.toThrow(InvalidBountyMetadataError);
+      expect(storage.uploadJSON).not.toHaveBeenCalled();
+    });
+
+    it("should upload metadata and schema then create the bounty", async () => {
+      const storage = createStorage();
+      const runner = createRunner({}, [
+        encodeEvent(bountyIface, BOUNTY_REGISTRY, "BountyCreated", [
+          4n,
+          CREATOR,
+          10n ** 17n,
+          "bafy-metadata.json",
+          "bafy-schema.json",
+          2000000000n,
+        ]),
+      ]);
+      const client = createClient(runner, false, storage);
+
+      const result = await client.postBounty(params);
+
+      expect(storage.uploadJSON).toHaveBeenCalledWith(
+        { ...params.metadata, version: 1 },
+        "metadata.json",
+      );
+      expect(storage.uploadJSON).toHaveBeenCalledWith(
+        params.schema,
+        "schema.json",
+      );
+      expect(result.bountyId).toBe(4n);
+      expect(result.metadataCid).toBe("bafy-metadata.json");
+      expect(result.schemaCid).toBe("bafy-schema.json");
+
+      const sent = runner.sendTransaction.mock.calls[0]![0];
+      const decoded = bountyIface.decodeFunctionData("createBounty", sent.data);
+      expect(decoded[0]).toBe("bafy-metadata.json");
+      expect(decoded[1]).toBe("bafy-schema.json");
+    });
+
+    it("should not send a transaction when an upload fails", async () => {
+      const storage = createStorage();
+      storage.uploadJSON.mockRejectedValueOnce(new Error("Upload failed"));
+      const runner = createRunner({});
+      const client = createClient(runner, false, storage);
+
+      await expect(client.postBounty(params)).rejects.toThrow("Upload failed");
+      expect(runner.sendTransaction).not.toHaveBeenCalled();
+    });
+
+    it("should report the metadata upload when the schema upload fails", async () => {
+      const storage = createStorage();
+      storage.uploadJSON
+        .mockResolvedValueOnce({ cidString: "bafy-metadata.json" })
+        .mockRejectedValueOnce(new Error("Upload failed"));
+      const runner = createRunner({});
+      const client = createClient(runner, false, storage);
+
+      const error = await client
+        .postBounty({ ...params, removeUploadsOnFailure: true })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(PostBountyError);
+      expect(error).toMatchObject({
+        metadataCid: "bafy-metadata.json",
+        schemaCid: null,
+        uploadsRemoved: true,
+      });
+      expect(storage.remove).toHaveBeenCalledTimes(1);
+      expect(storage.remove).toHaveBeenCalledWith("bafy-metadata.json");
+      expect(runner.sendTransaction).not.toHaveBeenCalled();
+    });
+
+    it("should keep the uploads by default when the transaction reverts", async () => {
+      const storage = createStorage();
+      const runner = createRunner({
+        createBounty: () => revertWith(bountyIface, "InvalidDeadline"),
+      });
+      const client = createClient(runner, false, storage);
+
+      const error = await client.postBounty(params).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(PostBountyError);
+      expect((error as PostBountyError).metadataCid).toBe("bafy-metadata.json");
+      expect((error as PostBountyError).schemaCid).toBe("bafy-schema.json");
+      expect((error as PostBountyError).uploadsRemoved).toBe(false);
+      expect((error as PostBountyError).cause).toBeInstanceOf(
+        ContractRevertError,
+      );
+      expect(storage.remove).not.toHaveBeenCalled();
+    });
+
+    it("should remove the uploads when requested and the transaction reverts", async () => {
+      const storage = createStorage();
+      const runner = createRunner({
+        createBounty: () => revertWith(bountyIface, "InsufficientReward"),
+      });
+      const client = createClient(runner, false, storage);
+
+      const error = await client
+        .postBounty({ ...params, removeUploadsOnFailure: true })
+        .catch((e: unknown) => e);
+
+      expect((error as PostBountyError).uploadsRemoved).toBe(true);
+      expect(storage.remove).toHaveBeenCalledWith("bafy-metadata.json");
+      expect(storage.remove).toHaveBeenCalledWith("bafy-schema.json");
+    });
+  });
+
+  describe("submitToBounty", () => {
+    const SCHEMA = {
+      type: "object",
+      required: ["temperature"],
+      properties: { temperature: { type: "number", minimum: -100 } },
+    };
+
+    function createSubmitRunner(
+      active = true,
+      earlier: { cid: string; digest?: string }[] = [],
+      commitRequired = false,
+    ) {
+      return createRunner(
+        {
+          ...submissionViews(earlier),
+          commitRequired: () => [commitRequired],
+          revealDelay: () => [0n],
+          getBounty: () => [
+            [
+              3n,
+              CREATOR,
+              "bafymetadata",
+              "ipfs://bafyschema",
+              ...BOUNTY_TUPLE.slice(4),
+            ],
+          ],
+          isBountyActive: () => [active],
+        },
+        [
+          encodeEvent(dataIface, DATA_REGISTRY, "DataSubmitted", [
+            9n,
+            3n,
+            CREATOR,
+            "bafy-data.json",
+          ]),
+        ],
+      );
+    }
+
+    it("should fetch the schema, upload the data and submit it", async () => {
+      const storage = createStorage();
+      storage.fetchByCID.mockResolvedValue({ data: SCHEMA });
+      const runner = createSubmitRunner();
+      const client = createClient(runner, false, storage);
+
+      const result = await client.submitToBounty(
+        3,
+        { temperature: 21.5 },
+        { metadata: '{"name":"run 1"}' },
+      );
+
+      expect(storage.fetchByCID).toHaveBeenCalledWith("bafyschema", undefined);
+      expect(storage.uploadJSON).toHaveBeenCalledWith(
+        { temperature: 21.5 },
+        undefined,
+      );
+      expect(result).toEqual({
+        valid: true,
+        cid: "bafy-data.json",
+        submissionId: 9n,
+        hash: TX_HASH,
+        blockNumber: 42,
+      });
+
+      const sent = runner.sendTransaction.mock.calls[0]![0];
+      const decoded = dataIface.decodeFunctionData("submitData", sent.data);
+      expect(decoded.toArray()).toEqual([
+        3n,
+        "bafy-data.json",
+        '{"name":"run 1"}',
+      ]);
+    });
+
+    it("should parse a schema served as text", async () => {
+      const storage = createStorage();
+      storage.fetchByCID.mockResolvedValue({ data: JSON.stringify(SCHEMA) });
+      const client = createClient(createSubmitRunner(), false, storage);
+
+      const result = await client.submitToBounty(3, { temperature: "hot" });
+
+      expect(result.valid).toBe(false);
+    });
+
+    it("should return validation errors without uploading or transacting", async () => {
+      const storage = createStorage();
+      storage.fetchByCID.mockResolvedValue({ data: SCHEMA });
+      const runner = createSubmitRunner();
+      const client = createClient(runner, false, storage);
+
+      const result = await client.submitToBounty(3, { temperature: -500 });
+
+      expect(result).toEqual({
+        valid: false,
+        errors: [
+          {
+            pointer: "/temperature",
+            keyword: "minimum",
+            expected: -100,
+            actual: -500,
+            message: "must be >= -100",
+          },
+        ],
+      });
+      expect(storage.uploadJSON).not.toHaveBeenCalled();
+      expect(runner.sendTransaction).not.toHaveBeenCalled();
+    });
+
+    it("should refuse bounties that expect a directory", async () => {
+      const storage = createStorage();
+      storage.fetchByCID.mockResolvedValue({
+        data: { ...SCHEMA, "x-submission": { layout: "directory" } },
+      });
+      const client = createClient(createSubmitRunner(), false, storage);
+
+      await expect(
+        client.submitToBounty(3, { temperature: 1 }),
+      ).rejects.toThrow("expects a directory submission");
+      expect(storage.uploadJSON).not.toHaveBeenCalled();
+    });
+
+    describe("with a CSV schema", () => {
+      const CSV_SCHEMA = {
+        "x-submission": { format: "csv" },
+        type: "array",
+        items: SCHEMA,
+      };
+
+      it("should verify and upload a CSV blob as-is", async () => {
+        const storage = createStorage();
+        storage.fetchByCID.mockResolvedValue({ data: CSV_SCHEMA });
+        const client = createClient(createSubmitRunner(), false, storage);
+        const blob = new Blob(["temperature\n21.5\n-3\n"]);
+
+        const result = await client.submitToBounty(3, blob);
+
+        expect(result).toMatchObject({ valid: true, cid: "bafy-file" });
+        expect(storage.uploadFile).toHaveBeenCalledWith(blob);
+        expect(storage.uploadJSON).not.toHaveBeenCalled();
+      });
+
+      it("should report row violations without uploading", async () => {
+        const storage = createStorage();
+        storage.fetchByCID.mockResolvedValue({ data: CSV_SCHEMA });
+        const client = createClient(createSubmitRunner(), false, storage);
+
+        const result = await client.submitToBounty(
+          3,
+          new Blob(["temperature\n21.5\n-500\n"]),
+        );
+
+        expect(result.valid).toBe(false);
+        expect(!result.valid && result.errors[0]?.pointer).toBe(
+          "/1/temperature",
+        );
+        expect(storage.uploadFile).not.toHaveBeenCalled();
+      });
+
+      it("should require a Blob", async () => {
+        const storage = createStorage();
+        storage.fetchByCID.mockResolvedValue({ data: CSV_SCHEMA });
+        const client = createClient(createSubmitRunner(), false, storage);
+
+        await expect(
+          client.submitToBounty(3, [{ temperature: 1 }]),
+        ).rejects.toThrow("expects csv data; pass it as a Blob");
+      });
+    });
+
+    describe("with encryption", () => {
+      it("should seal the data to the keys in the bounty metadata", async () => {
+        const creator = await generateEncryptionKeyPair();
+        const verifier = await generateEncryptionKeyPair();
+        const storage = createStorage();
+        storage.fetchByCID.mockImplementation(async (cid: string) => ({
+          data:
+            cid === "bafymetadata"
+              ? {
+                  title: "Weather",
+                  description: "Readings",
+                  encryption: {
+                    publicKey: creator.publicKey,
+                    verifierPublicKey: verifier.publicKey,
+                  },
+                }
+              : SCHEMA,
+        }));
+        const client = createClient(createSubmitRunner(), false, storage);
+
+        const result = await client.submitToBounty(
+          3,
+          { temperature: 21.5 },
+          { encrypt: true },
+        );
+
+        expect(result).toMatchObject({ valid: true, cid: "bafy-file" });
+        expect(storage.uploadJSON).not.toHaveBeenCalled();
+        const blob = storage.uploadFile.mock.calls[0]![0] as Blob;
+        const sealed = new Uint8Array(await blob.arrayBuffer());
+        expect(isEnvelope(sealed)).toBe(true);
+        for (const { privateKey } of [creator, verifier]) {
+          const opened = await openEnvelope(sealed, privateKey);
+          expect(JSON.parse(new TextDecoder().decode(opened))).toEqual({
+            temperature: 21.5,
+          });
+        }
+      });
+
+      it("should refuse to encrypt without a verifier key", async () => {
+        const creator = await generateEncryptionKeyPair();
+        const storage = createStorage();
+        storage.fetchByCID.mockImplementation(async (cid: string) => ({
+          data:
+            cid === "bafymetadata"
+              ? {
+                  title: "Weather",
+                  description: "Readings",
+                  encryption: { publicKey: creator.publicKey },
+                }
+              : SCHEMA,
+        }));
+        const runner = createSubmitRunner(true, [], true);
+        const client = createClient(runner, false, storage);
+
+        const error = await client
+          .submitToBounty(3, { temperature: 1 }, { encrypt: true })
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(MissingVerifierKeyError);
+        expect((error as MissingVerifierKeyError).bountyId).toBe(3n);
+        expect(storage.uploadFile).not.toHaveBeenCalled();
+        expect(runner.sendTransaction).not.toHaveBeenCalled();
+      });
+
+      it("should refuse to encrypt when no key is published", async () => {
+        const storage = createStorage();
+        storage.fetchByCID.mockImplementation(async (cid: string) => ({
+          data:
+            cid === "bafymetadata"
+              ? JSON.stringify({ title: "Weather", description: "Readings" })
+              : SCHEMA,
+        }));
+        const client = createClient(createSubmitRunner(), false, storage);
+
+        await expect(
+          client.submitToBounty(3, { temperature: 1 }, { encrypt: true }),
+        ).rejects.toThrow("does not publish an encryption key");
+        expect(storage.uploadFile).not.toHaveBeenCalled();
+      });
+    });
+
+    it("should refuse data identical to an earlier submission", async () => {
+      const storage = createStorage();
+      storage.fetchByCID.mockResolvedValue({ data: SCHEMA });
+      const digest = await contentDigest(
+        new TextEncoder().encode(JSON.stringify({ temperature: 1 }, null, 2)),
+      );
+      const runner = createSubmitRunner(true, [
+        { cid: "bafy-other" },
+        { cid: "bafy-sealed", digest },
+      ]);
+      const client = createClient(runner, false, storage);
+
+      const error = await client
+        .submitToBounty(3, { temperature: 1 })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(DuplicateSubmissionError);
+      expect((error as DuplicateSubmissionError).submissionId).toBe(2n);
+      expect(storage.uploadJSON).not.toHaveBeenCalled();
+      expect(runner.sendTransaction).not.toHaveBeenCalled();
+
+      // Opting out submits anyway
+      await expect(
+        client.submitToBounty(
+          3,
+          { temperature: 1 },
+          { checkDuplicates: false },
+        ),
+      ).resolves.toMatchObject({ valid: true });
+    });
+
+    it("should flag near-duplicate rows and still submit", async () => {
+      const storage = createStorage();
+      storage.fetchByCID.mockResolvedValue({
+        data: {
+          "x-submission": { format: "csv" },
+          type: "array",
+          items: SCHEMA,
+        },
+      });
+      storage.streamByCID.mockImplementation(() =>
+        streamOf("temperature\n1\n2\n3\n"),
+      );
+      const client = createClient(
+        createSubmitRunner(true, [{ cid: "bafy-earlier" }]),
+        false,
+        storage,
+      );
+
+      const result = await client.submitToBounty(
+        3,
+        new Blob(["temperature\n3\n2\n9\n4\n"]),
+        { checkDuplicates: { compareContent: true } },
+      );
+
+      expect(storage.streamByCID).toHaveBeenCalledWith("bafy-earlier", {
+        timeout: undefined,
+        gateways: undefined,
+      });
+      expect(result).toMatchObject({
+        valid: true,
+        nearDuplicates: [{ submissionId: 1n, kind: "rows", similarity: 0.5 }],
+      });
+    });
+
+    it("should submit through commit-reveal", async () => {
+      const storage = createStorage();
+      storage.fetchByCID.mockResolvedValue({ data: SCHEMA });
+      const runner = createSubmitRunner();
+      const client = createClient(runner, false, storage);
+
+      const result = await client.submitToBounty(
+        3,
+        { temperature: 21.5 },
+        { commitReveal: { pollInterval: 1 } },
+      );
+
+      expect(result).toMatchObject({ valid: true, submissionId: 9n });
+      const methods = runner.sendTransaction.mock.calls.map(
+        ([tx]) => dataIface.parseTransaction(tx as { data: string })!.name,
+      );
+      expect(methods).toEqual(["commitSubmission", "revealSubmission"]);
+    });
+
+    it("should use commit-reveal when the registry requires it", async () => {
+      const storage = createStorage();
+      storage.fetchByCID.mockResolvedValue({ data: SCHEMA });
+      const runner = createSubmitRunner(true, [], true);
+      const client = createClient(runner, false, storage);
+
+      const result = await client.submitToBounty(3, { temperature: 21.5 });
+
+      expect(result).toMatchObject({ valid: true, submissionId: 9n });
+      const methods = runner.sendTransaction.mock.calls.map(
+        ([tx]) => dataIface.parseTransaction(tx as { data: string })!.name,
+      );
+      expect(methods).toEqual(["commitSubmission", "revealSubmission"]);
+    });
+
+    it("should reveal metadata with commit-reveal submissions", async () => {
+      const storage = createStorage();
+      storage.fetchByCID.mockResolvedValue({ data: SCHEMA });
+      const runner = createSubmitRunner(true, [], true);
+      const client = createClient(runner, false, storage);
+
+      await client.submitToBounty(
+        3,
+        { temperature: 1 },
+        { metadata: '{"source":"station"}' },
+      );
+
+      const reveal = runner.sendTransaction.mock.calls
+        .map(([tx]) => dataIface.parseTransaction(tx as { data: string })!)
+        .find((tx) => tx.name === "revealSubmission")!;
+      expect(reveal.args.toArray().slice(0, 3)).toEqual([
+        3n,
+        "bafy-data.json",
+        '{"source":"station"}',
+      ]);
+    });
+
+    it("should fail early when the bounty is not active", async () => {
+      const storage = createStorage();
+      const runner = createSubmitRunner(false);
+      const client = createClient(runner, false, storage);
+
+      await expect(
+        client.submitToBounty(3, { temperature: 1 }),
+      ).rejects.toBeInstanceOf(BountyNotActiveError);
+      expect(storage.fetchByCID).not.toHaveBeenCalled();
+      expect(storage.uploadJSON).not.toHaveBeenCalled();
+    });
+  });
+});